@@ -16,7 +16,7 @@ export default defineConfig([
     },
     tseslint.configs.recommended,
     {
-        ignores: ['**/dist/**', '**/node_modules/**'],
+        ignores: ['**/dist/**', '**/node_modules/**', '**/build/**'],
     },
     {
         rules: {
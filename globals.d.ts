@@ -48,6 +48,7 @@ declare global {
     saveSettingsDebounced(): void;
     saveMetadataDebounced(): void;
     getTokenCountAsync(text: string, padding?: number): Promise<number>;
+    getTokenCount(text: string, padding?: number): number;
     getThumbnailUrl(type: string, file: string): string;
     substituteParams(text: string): string;
     getRequestHeaders(): Record<string, string>;
@@ -66,6 +67,7 @@ declare global {
     }): Promise<string>;
 
     // Character operations
+    getCharacters(): Promise<void>;
     unshallowCharacter(characterId: number): Promise<void>;
     writeExtensionField(characterId: number, key: string, value: any): Promise<void>;
 
@@ -82,7 +84,25 @@ declare global {
 
     // Services
     ChatCompletionService: {
-      sendRequest(options: Record<string, any>): Promise<any>;
+      sendRequest(options: Record<string, any>, extractData?: boolean, signal?: AbortSignal | null): Promise<any>;
+    };
+    // Only present when the Connection Manager extension is loaded
+    ConnectionManagerRequestService?: {
+      sendRequest(
+        profileId: string,
+        prompt: string | Array<{ role: string; content: string }>,
+        maxTokens: number,
+        custom?: {
+          stream?: boolean;
+          signal?: AbortSignal | null;
+          extractData?: boolean;
+          includePreset?: boolean;
+          includeInstruct?: boolean;
+          instructSettings?: Record<string, any>;
+        },
+        overridePayload?: Record<string, any>,
+      ): Promise<any>;
+      getSupportedProfiles(): Record<string, any>[];
     };
 
     // Preset management
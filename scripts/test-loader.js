@@ -0,0 +1,16 @@
+// Resolve hook for the compiled tests: the sources import sibling modules without
+// an extension (webpack fills it in), so Node is pointed at the .js file instead.
+import { register } from 'module';
+import { isMainThread } from 'worker_threads';
+
+if (isMainThread) {
+    register(import.meta.url);
+}
+
+export async function resolve(specifier, context, nextResolve) {
+    const isRelative = specifier.startsWith('./') || specifier.startsWith('../');
+    if (isRelative && !/\.[cm]?js$/.test(specifier)) {
+        return nextResolve(`${specifier}.js`, context);
+    }
+    return nextResolve(specifier, context);
+}
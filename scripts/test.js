@@ -0,0 +1,35 @@
+import { execFileSync } from 'child_process';
+import { readdirSync, rmSync } from 'fs';
+import { join } from 'path';
+import process from 'process';
+
+// Compile the sources and tests for Node, then run every *.test.js with node's test runner
+const outDir = 'build/test';
+
+rmSync(outDir, { recursive: true, force: true });
+
+try {
+    execFileSync(process.execPath, ['node_modules/typescript/bin/tsc', '-p', 'tsconfig.test.json'], { stdio: 'inherit' });
+} catch {
+    console.error('Failed to compile tests');
+    process.exit(1);
+}
+
+const testFiles = readdirSync(join(outDir, 'tests'))
+    .filter(file => file.endsWith('.test.js'))
+    .map(file => join(outDir, 'tests', file));
+
+// Optional filter: npm test -- persistence
+const filter = process.argv[2];
+const selected = filter ? testFiles.filter(file => file.includes(filter)) : testFiles;
+
+if (selected.length === 0) {
+    console.error(filter ? `No tests match "${filter}"` : 'No tests found');
+    process.exit(1);
+}
+
+try {
+    execFileSync(process.execPath, ['--import', './scripts/test-loader.js', '--test', ...selected], { stdio: 'inherit' });
+} catch {
+    process.exit(1);
+}
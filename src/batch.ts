@@ -0,0 +1,265 @@
+// src/batch.ts
+//
+// Batch runs - run a stage set over many characters in a queue.
+// Each character gets a fresh pipeline state; results are persisted per character
+// so a run can be paused, resumed later and reviewed afterwards.
+
+import {
+    createPipelineState,
+    setCharacter,
+    setSelectedStages,
+    startStage,
+    completeStage,
+    failStage,
+    recordUsage,
+    buildStagePrompt,
+    getStageSchema,
+    extractVerdict,
+    extractScore,
+    getVerdictRules,
+} from './pipeline';
+import { runStageGeneration } from './generator';
+import { stageExists } from './stages';
+import { saveBatchRun, saveBatchItemResult, pruneBatchRuns, recordCharacterUsage } from './persistence';
+import { addToLedger } from './usage';
+import { debugLog, logError } from './debug';
+import type {
+    BatchRun,
+    BatchItem,
+    Character,
+    PipelineState,
+    StageConfig,
+    StageName,
+} from './types';
+
+export interface BatchCallbacks {
+    onItemStart?: (item: BatchItem, index: number) => void;
+    onStageStart?: (item: BatchItem, stage: StageName) => void;
+    onItemDone?: (item: BatchItem, index: number) => void;
+}
+
+// ============================================================================
+// RUN LIFECYCLE
+// ============================================================================
+
+/**
+ * Create and persist a new batch run
+ */
+export async function createBatchRun(
+    characters: Character[],
+    stages: StageName[],
+    configs: Record<StageName, StageConfig>,
+): Promise<BatchRun> {
+    const { uuidv4 } = SillyTavern.getContext();
+    const now = Date.now();
+
+    const run: BatchRun = {
+        id: uuidv4(),
+        createdAt: now,
+        updatedAt: now,
+        status: 'paused',
+        stages: [...stages],
+        configs: structuredClone(configs),
+        items: characters.map(char => ({
+            avatar: char.avatar,
+            name: char.name,
+            status: 'pending',
+            error: null,
+            verdict: null,
+            score: null,
+            finishedAt: null,
+        })),
+        usage: {},
+    };
+
+    await saveBatchRun(run);
+    await pruneBatchRuns();
+
+    debugLog('info', 'Batch run created', { id: run.id, characters: run.items.length, stages });
+    return run;
+}
+
+/**
+ * Process pending items in order until done or the signal aborts.
+ * An aborted item goes back to pending so resuming retries it.
+ * Mutates the run in place and saves it after every character.
+ */
+export async function runBatch(run: BatchRun, signal: AbortSignal, callbacks: BatchCallbacks = {}): Promise<BatchRun> {
+    run.status = 'running';
+    await saveBatchRun(run);
+
+    for (let i = 0; i < run.items.length; i++) {
+        const item = run.items[i];
+        if (item.status !== 'pending') continue;
+        if (signal.aborted) break;
+
+        item.status = 'running';
+        callbacks.onItemStart?.(item, i);
+
+        const state = await runBatchItem(run, item, signal, callbacks);
+
+        if (signal.aborted && item.status === 'running') {
+            item.status = 'pending';
+            break;
+        }
+
+        if (state) {
+            await saveBatchItemResult(run.id, {
+                avatar: item.avatar,
+                name: item.name,
+                results: state.results,
+                stageStatus: state.stageStatus,
+                usage: state.usage,
+            });
+        }
+
+        item.finishedAt = Date.now();
+        await saveBatchRun(run);
+        callbacks.onItemDone?.(item, i);
+    }
+
+    run.status = run.items.some(item => item.status === 'pending') ? 'paused' : 'complete';
+    await saveBatchRun(run);
+
+    debugLog('info', 'Batch run stopped', { id: run.id, status: run.status, ...getBatchProgress(run) });
+    return run;
+}
+
+/**
+ * Cancel a run - remaining pending items are marked cancelled
+ */
+export async function cancelBatchRun(run: BatchRun): Promise<BatchRun> {
+    for (const item of run.items) {
+        if (item.status === 'pending' || item.status === 'running') {
+            item.status = 'cancelled';
+        }
+    }
+
+    run.status = 'cancelled';
+    await saveBatchRun(run);
+    return run;
+}
+
+/**
+ * Put failed items back in the queue
+ */
+export function retryFailedItems(run: BatchRun): BatchRun {
+    for (const item of run.items) {
+        if (item.status === 'error' || item.status === 'cancelled') {
+            item.status = 'pending';
+            item.error = null;
+        }
+    }
+
+    run.status = 'paused';
+    return run;
+}
+
+/**
+ * Run the selected stages for one character. Sets the item status; returns the
+ * final pipeline state, or null if the character couldn't be loaded.
+ */
+async function runBatchItem(
+    run: BatchRun,
+    item: BatchItem,
+    signal: AbortSignal,
+    callbacks: BatchCallbacks,
+): Promise<PipelineState | null> {
+    const character = await findCharacter(item.avatar);
+    if (!character) {
+        item.status = 'error';
+        item.error = 'Character not found';
+        return null;
+    }
+
+    // Custom stages may have been deleted since the run was created
+    const stages = run.stages.filter(stageExists);
+
+    let state = setCharacter(createPipelineState(), character.char, character.index);
+    state = setSelectedStages({ ...state, configs: { ...state.configs, ...run.configs } }, stages);
+
+    for (const stage of state.selectedStages) {
+        callbacks.onStageStart?.(item, stage);
+        state = startStage(state, stage);
+
+        const promptUsed = buildStagePrompt(state, stage) || '';
+        const schemaUsed = getStageSchema(state, stage);
+
+        try {
+            const result = await runStageGeneration(state, stage, signal);
+
+            if (!result.success) {
+                state = failStage(state, stage, result.error);
+                if (!signal.aborted) {
+                    item.status = 'error';
+                    item.error = result.error;
+                }
+                return state;
+            }
+
+            state = completeStage(state, stage, {
+                response: result.response,
+                isStructured: result.isStructured,
+                promptUsed,
+                schemaUsed,
+                violations: result.violations,
+                repairs: result.repairs,
+                attempts: result.attempts,
+                usage: result.usage,
+                cachedAt: result.cachedAt,
+            });
+            state = recordUsage(state, stage, result.usage);
+            await recordCharacterUsage(character.char, stage, result.usage);
+
+            // Counted for the run even if the character is cancelled and redone later - it was still spent
+            if (result.usage) {
+                run.usage = addToLedger(run.usage ?? {}, stage, result.usage);
+            }
+        } catch (e) {
+            logError('Batch stage failed', { character: item.name, stage, error: e });
+            state = failStage(state, stage, (e as Error).message);
+            item.status = 'error';
+            item.error = (e as Error).message;
+            return state;
+        }
+    }
+
+    const analysis = state.results.analyze;
+    const rules = getVerdictRules(state);
+    item.verdict = analysis ? extractVerdict(analysis.response, analysis.isStructured, rules) : null;
+    item.score = analysis ? extractScore(analysis.response, analysis.isStructured, rules) : null;
+    item.status = 'complete';
+    item.error = null;
+
+    return state;
+}
+
+/**
+ * Look up a character by avatar, loading the full card if ST only has a shallow copy
+ */
+async function findCharacter(avatar: string): Promise<{ char: Character; index: number } | null> {
+    const context = SillyTavern.getContext();
+    const index = (context.characters as Character[]).findIndex(c => c.avatar === avatar);
+    if (index === -1) return null;
+
+    if ((context.characters[index] as { shallow?: boolean }).shallow) {
+        await context.unshallowCharacter(index);
+    }
+
+    return { char: SillyTavern.getContext().characters[index] as Character, index };
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Count finished, failed and total items
+ */
+export function getBatchProgress(run: BatchRun): { done: number; errors: number; total: number } {
+    return {
+        done: run.items.filter(item => item.status === 'complete' || item.status === 'error').length,
+        errors: run.items.filter(item => item.status === 'error').length,
+        total: run.items.length,
+    };
+}
@@ -3,7 +3,7 @@
 // Character utilities - field extraction, formatting, etc.
 
 import { CHARACTER_FIELDS } from './constants';
-import type { Character, CharacterField, PopulatedField, DepthPrompt, CharacterBook, FieldSelection } from './types';
+import type { Character, CharacterField, PopulatedField, DepthPrompt, CharacterBook, FieldSelection, TemplateField, TemplateLoreEntry, TemplateCardData } from './types';
 
 // ============================================================================
 // FIELD VALUE EXTRACTION
@@ -13,7 +13,7 @@ import type { Character, CharacterField, PopulatedField, DepthPrompt, CharacterB
  * Get a value from a character using a dot-notation path.
  * Supports paths like 'data.system_prompt' or 'data.extensions.depth_prompt'
  */
-function getValueByPath(obj: Character, path: string): unknown {
+export function getValueByPath(obj: Character, path: string): unknown {
     const parts = path.split('.');
     let current: unknown = obj;
 
@@ -251,6 +251,80 @@ export function buildCharacterSummaryFromSelection(
     return `# CHARACTER: ${char.name}\n\n${sections.join('\n\n')}`;
 }
 
+/**
+ * Selected fields, greetings and lorebook entries as lists for prompt templates
+ * ({{#each fields}}, {{#each greetings}}, {{#each lorebook}})
+ */
+export function buildTemplateCollections(
+    char: Character,
+    selection: FieldSelection,
+): { fields: TemplateField[]; greetings: string[]; lorebook: TemplateLoreEntry[] } {
+    const fields: TemplateField[] = [];
+    let greetings: string[] = [];
+    let lorebook: TemplateLoreEntry[] = [];
+
+    for (const field of getPopulatedFields(char)) {
+        const selected = selection[field.key];
+        if (!selected || (Array.isArray(selected) && selected.length === 0)) continue;
+
+        if (field.key === 'alternate_greetings') {
+            const all = field.rawValue as string[];
+            const indices = Array.isArray(selected) ? selected.filter(i => i >= 0 && i < all.length) : all.map((_, i) => i);
+            greetings = indices.map(i => all[i].trim());
+
+            fields.push({
+                key: field.key,
+                label: field.label,
+                value: indices.map(i => `**Greeting ${i + 1}:**\n${all[i].trim()}`).join('\n\n'),
+            });
+            continue;
+        }
+
+        if (field.key === 'character_book') {
+            lorebook = toTemplateLoreEntries(field.rawValue as CharacterBook);
+        }
+
+        fields.push({ key: field.key, label: field.label, value: field.value });
+    }
+
+    return { fields, greetings, lorebook };
+}
+
+/**
+ * The whole card for keyed prompt placeholders ({{field:first_mes}}, {{greeting:2}},
+ * {{lore_entry:<name>}}) and card metadata. Ignores the field selection - a prompt that
+ * names a field asks for it explicitly.
+ */
+export function buildTemplateCardData(char: Character): TemplateCardData {
+    const populated = getPopulatedFields(char);
+    const fields: Record<string, string> = {};
+
+    for (const field of CHARACTER_FIELDS) {
+        fields[field.key] = populated.find(f => f.key === field.key)?.value ?? '';
+    }
+
+    const greetings = populated.find(f => f.key === 'alternate_greetings')?.rawValue as string[] | undefined;
+    const book = populated.find(f => f.key === 'character_book')?.rawValue as CharacterBook | undefined;
+
+    return {
+        fields,
+        greetings: (greetings ?? []).map(g => g.trim()),
+        lorebook: book ? toTemplateLoreEntries(book) : [],
+        tags: getCharacterTags(char),
+        creator: (char.data?.creator ?? '').trim(),
+        characterVersion: (char.data?.character_version ?? '').trim(),
+    };
+}
+
+function toTemplateLoreEntries(book: CharacterBook): TemplateLoreEntry[] {
+    return book.entries.map(entry => ({
+        name: entry.comment || `Entry ${entry.id}`,
+        keys: entry.keys ?? [],
+        content: (entry.content ?? '').trim(),
+        enabled: entry.enabled,
+    }));
+}
+
 /**
  * Build a compact character summary (for display)
  */
@@ -319,3 +393,14 @@ export function prepareForSearch(chars: Character[]): Array<{ char: Character; i
         }))
         .filter(item => item.char?.name);
 }
+
+/**
+ * Get a character's tags from the card (top-level and data.tags), deduplicated
+ */
+export function getCharacterTags(char: Character): string[] {
+    const tags = [...(char.tags || []), ...(char.data?.tags || [])]
+        .filter(t => typeof t === 'string' && t.trim())
+        .map(t => t.trim());
+
+    return [...new Set(tags)];
+}
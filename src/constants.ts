@@ -6,7 +6,13 @@ import type {
     SchemaPreset,
     StageDefaults,
     StageName,
+    BuiltinStageName,
     GenerationConfig,
+    AutoIterateConfig,
+    SchemaValidationConfig,
+    RetryConfig,
+    CacheConfig,
+    VerdictRules,
     Settings,
 } from './types';
 
@@ -16,7 +22,8 @@ import type {
 
 export const MODULE_NAME = 'character_tools';
 export const EXTENSION_PATH = 'third-party/SillyTavern-CharacterTools';
-export const SETTINGS_VERSION = 4;
+export const SETTINGS_VERSION = 5;
+export const SESSION_VERSION = 3;
 export const VERSION = '1.0.0';
 export const CURRENT_PRESET_VERSION = 1;
 
@@ -42,26 +49,35 @@ export const CHARACTER_FIELDS: readonly CharacterField[] = Object.freeze([
 // STAGE DEFINITIONS
 // ============================================================================
 
-export const STAGES: readonly StageName[] = Object.freeze(['score', 'rewrite', 'analyze']);
+export const STAGES: readonly BuiltinStageName[] = Object.freeze(['score', 'rewrite', 'analyze']);
 
-export const STAGE_LABELS: Record<StageName, string> = {
+export const STAGE_LABELS: Record<BuiltinStageName, string> = {
     score: 'Score',
     rewrite: 'Rewrite',
     analyze: 'Analyze',
 };
 
-export const STAGE_ICONS: Record<StageName, string> = {
+export const STAGE_ICONS: Record<BuiltinStageName, string> = {
     score: 'fa-star-half-stroke',
     rewrite: 'fa-pen-fancy',
     analyze: 'fa-magnifying-glass-chart',
 };
 
-export const STAGE_DESCRIPTIONS: Record<StageName, string> = {
+export const STAGE_DESCRIPTIONS: Record<BuiltinStageName, string> = {
     score: 'Rate and critique the character card',
     rewrite: 'Generate an improved version',
     analyze: 'Compare original vs rewrite, check for soul loss',
 };
 
+// Earlier stage results each builtin stage reads
+export const STAGE_INPUTS: Record<BuiltinStageName, readonly StageName[]> = {
+    score: [],
+    rewrite: ['score'],
+    analyze: ['score', 'rewrite'],
+};
+
+export const DEFAULT_CUSTOM_STAGE_ICON = 'fa-puzzle-piece';
+
 // ============================================================================
 // BASE SYSTEM PROMPT
 // ============================================================================
@@ -90,7 +106,7 @@ Key principles:
 
 export const DEFAULT_USER_REFINEMENT_PROMPT = '';
 
-export const DEFAULT_STAGE_SYSTEM_PROMPTS = {
+export const DEFAULT_STAGE_SYSTEM_PROMPTS: Record<StageName, string> = {
     score: '',
     rewrite: '',
     analyze: '',
@@ -384,6 +400,61 @@ const ANALYZE_SCHEMA: StructuredOutputSchema = {
     },
 };
 
+const REWRITE_SCHEMA: StructuredOutputSchema = {
+    name: 'CharacterRewrite',
+    strict: true,
+    value: {
+        $schema: 'http://json-schema.org/draft-04/schema#',
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+            fields: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    additionalProperties: false,
+                    properties: {
+                        field: {
+                            type: 'string',
+                            enum: [
+                                'description', 'personality', 'first_mes', 'scenario', 'mes_example',
+                                'system_prompt', 'post_history_instructions', 'creator_notes', 'depth_prompt',
+                            ],
+                        },
+                        content: { type: 'string' },
+                    },
+                    required: ['field', 'content'],
+                },
+            },
+            alternateGreetings: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    additionalProperties: false,
+                    properties: {
+                        greeting: { type: 'integer' },
+                        content: { type: 'string' },
+                    },
+                    required: ['greeting', 'content'],
+                },
+            },
+            lorebookEntries: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    additionalProperties: false,
+                    properties: {
+                        entry: { type: 'string' },
+                        content: { type: 'string' },
+                    },
+                    required: ['entry', 'content'],
+                },
+            },
+        },
+        required: ['fields', 'alternateGreetings', 'lorebookEntries'],
+    },
+};
+
 export const BUILTIN_SCHEMA_PRESETS: readonly SchemaPreset[] = Object.freeze([
     {
         id: 'builtin_schema_score',
@@ -405,6 +476,16 @@ export const BUILTIN_SCHEMA_PRESETS: readonly SchemaPreset[] = Object.freeze([
         updatedAt: 0,
         schema: QUICK_SCORE_SCHEMA,
     },
+    {
+        id: 'builtin_schema_rewrite',
+        name: 'Field Rewrite',
+        stages: ['rewrite'],
+        isBuiltin: true,
+        presetVersion: CURRENT_PRESET_VERSION,
+        createdAt: 0,
+        updatedAt: 0,
+        schema: REWRITE_SCHEMA,
+    },
     {
         id: 'builtin_schema_analyze',
         name: 'Default Analyze',
@@ -421,7 +502,7 @@ export const BUILTIN_SCHEMA_PRESETS: readonly SchemaPreset[] = Object.freeze([
 // DEFAULT STAGE CONFIGS
 // ============================================================================
 
-export const DEFAULT_STAGE_DEFAULTS: Record<StageName, StageDefaults> = {
+export const DEFAULT_STAGE_DEFAULTS: Record<BuiltinStageName, StageDefaults> = {
     score: {
         promptPresetId: 'builtin_score_default',
         customPrompt: '',
@@ -432,7 +513,7 @@ export const DEFAULT_STAGE_DEFAULTS: Record<StageName, StageDefaults> = {
     rewrite: {
         promptPresetId: 'builtin_rewrite_default',
         customPrompt: '',
-        schemaPresetId: null,
+        schemaPresetId: 'builtin_schema_rewrite',
         customSchema: '',
         useStructuredOutput: false,
     },
@@ -445,6 +526,15 @@ export const DEFAULT_STAGE_DEFAULTS: Record<StageName, StageDefaults> = {
     },
 };
 
+// Starting point for user-defined stages
+export const DEFAULT_CUSTOM_STAGE_DEFAULTS: StageDefaults = {
+    promptPresetId: null,
+    customPrompt: '',
+    schemaPresetId: null,
+    customSchema: '',
+    useStructuredOutput: false,
+};
+
 // ============================================================================
 // DEFAULT GENERATION CONFIG
 // ============================================================================
@@ -459,12 +549,85 @@ export const DEFAULT_GENERATION_CONFIG: GenerationConfig = {
     topP: 1,
 };
 
+// Generation source for the scripted test backend - answers come from settings.fakeBackendScript
+export const FAKE_BACKEND_SOURCE = 'character_tools_fake';
+export const FAKE_BACKEND_MODEL = 'scripted';
+
+// ============================================================================
+// DEFAULT AUTO-ITERATE CONFIG
+// ============================================================================
+
+export const DEFAULT_AUTO_ITERATE_CONFIG: AutoIterateConfig = {
+    maxIterations: 3,
+    scoreThreshold: null,
+    tokenBudget: null,
+    revertOnRegression: true,
+};
+
+// ============================================================================
+// DEFAULT VERDICT RULES
+// ============================================================================
+
+// Match the "## Verdict" section the builtin analyze prompt asks for
+export const DEFAULT_VERDICT_RULES: VerdictRules = {
+    accept: 'verdict[^a-z]{0,20}accept(?:ed)?\\b',
+    needsRefinement: 'verdict[^a-z]{0,20}needs[ _]refinement\\b',
+    regression: 'verdict[^a-z]{0,20}regression\\b',
+    score: 'soul[\\s\\S]{0,200}?(\\d+(?:\\.\\d+)?)\\s*(?:/|out of)\\s*10\\b|soul[^\\n]*?score[^\\n\\d]*?[:=]\\s*\\**\\s*(\\d+(?:\\.\\d+)?)',
+};
+
+// ============================================================================
+// DEFAULT SCHEMA VALIDATION CONFIG
+// ============================================================================
+
+export const MAX_SCHEMA_REASKS = 3;
+
+export const DEFAULT_SCHEMA_VALIDATION_CONFIG: SchemaValidationConfig = {
+    reaskOnViolation: false,
+    maxReasks: 1,
+};
+
+// ============================================================================
+// MODEL COMPARISON
+// ============================================================================
+
+// Each comparison entry is a separate request, so keep the fan-out small
+export const MAX_COMPARISON_CONFIGS = 4;
+
+// ============================================================================
+// DEFAULT CACHE CONFIG
+// ============================================================================
+
+export const MAX_CACHE_ENTRIES = 1000;
+
+export const DEFAULT_CACHE_CONFIG: CacheConfig = {
+    enabled: false,
+    ttlHours: 24,
+    maxEntries: 200,
+};
+
+// ============================================================================
+// DEFAULT RETRY CONFIG
+// ============================================================================
+
+export const MAX_RETRY_ATTEMPTS = 5;
+export const MAX_FALLBACK_CONFIGS = 3;
+
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+    maxAttempts: 2,
+    initialDelayMs: 2000,
+    backoffMultiplier: 2,
+    retryOnEmpty: true,
+    retryOnViolation: false,
+};
+
 // ============================================================================
 // COMPLETE DEFAULT SETTINGS
 // ============================================================================
 
 export const DEFAULT_SETTINGS: Settings = Object.freeze({
     useCurrentSettings: true,
+    streamCurrentSettings: false,
     generationConfig: DEFAULT_GENERATION_CONFIG,
 
     // Split prompts
@@ -477,7 +640,16 @@ export const DEFAULT_SETTINGS: Settings = Object.freeze({
     promptPresets: [...BUILTIN_PROMPT_PRESETS],
     schemaPresets: [...BUILTIN_SCHEMA_PRESETS],
     stageDefaults: DEFAULT_STAGE_DEFAULTS,
+    customStages: [],
+    autoIterate: DEFAULT_AUTO_ITERATE_CONFIG,
+    schemaValidation: DEFAULT_SCHEMA_VALIDATION_CONFIG,
+    retry: DEFAULT_RETRY_CONFIG,
+    fallbackConfigs: [],
+    modelPrices: [],
+    cache: DEFAULT_CACHE_CONFIG,
+    comparisonConfigs: [],
     debugMode: false,
+    fakeBackendScript: '',
     settingsVersion: SETTINGS_VERSION,
 });
 
@@ -488,6 +660,7 @@ export const DEFAULT_SETTINGS: Settings = Object.freeze({
 /**
  * Template placeholders that can be used in prompts.
  * These are replaced at runtime with actual values.
+ * Keyed placeholders take a key after the colon: {{field:first_mes}}, {{greeting:2}}.
  */
 export const TEMPLATE_PLACEHOLDERS = {
     ORIGINAL_CHARACTER: '{{original_character}}',
@@ -498,8 +671,38 @@ export const TEMPLATE_PLACEHOLDERS = {
     ITERATION_NUMBER: '{{iteration_number}}',
     CHARACTER_NAME: '{{char_name}}',
     USER_NAME: '{{user_name}}',
+    FIELD: '{{field:<key>}}',
+    GREETING: '{{greeting:<number>}}',
+    LORE_ENTRY: '{{lore_entry:<name>}}',
+    TAGS: '{{tags}}',
+    CREATOR: '{{creator}}',
+    CHARACTER_VERSION: '{{character_version}}',
+    TOKEN_COUNT: '{{token_count}}',
+    FIELD_TOKENS: '{{field_tokens:<key>}}',
 } as const;
 
+/**
+ * What each placeholder holds, for the prompt editor's autocomplete
+ */
+export const TEMPLATE_PLACEHOLDER_DESCRIPTIONS: Record<keyof typeof TEMPLATE_PLACEHOLDERS, string> = {
+    ORIGINAL_CHARACTER: 'The selected fields as a character summary',
+    SCORE_RESULTS: 'The Score stage\'s response',
+    REWRITE_RESULTS: 'The Rewrite stage\'s response',
+    CURRENT_REWRITE: 'The rewrite being refined',
+    CURRENT_ANALYSIS: 'The analysis being acted on - refinement only',
+    ITERATION_NUMBER: 'Refinement iteration, from 1',
+    CHARACTER_NAME: 'The character\'s name',
+    USER_NAME: 'Your persona name',
+    FIELD: 'One field of the card, selected or not',
+    GREETING: 'One alternate greeting, numbered from 1',
+    LORE_ENTRY: 'A lorebook entry\'s content, by its comment',
+    TAGS: 'The card\'s tags, comma-separated',
+    CREATOR: 'The card\'s creator',
+    CHARACTER_VERSION: 'The card\'s version',
+    TOKEN_COUNT: 'Tokens in the selected fields',
+    FIELD_TOKENS: 'Tokens in one field',
+};
+
 // ============================================================================
 // UI CONSTANTS
 // ============================================================================
@@ -515,5 +718,8 @@ export const DEBOUNCE_DELAY = {
 } as const;
 
 export const MAX_DROPDOWN_RESULTS = 10;
+export const MAX_PLACEHOLDER_SUGGESTIONS = 12;
 export const MAX_DEBUG_LOG_ENTRIES = 100;
 export const MAX_ITERATION_HISTORY = 20;
+export const MAX_CARD_BACKUPS = 10;
+export const MAX_BATCH_RUNS = 10;
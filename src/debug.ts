@@ -20,10 +20,13 @@ const logEntries: DebugLogEntry[] = [];
  * Check if debug mode is enabled
  */
 export function isDebugMode(): boolean {
+    // Read the stored value directly - getSettings() logs while initializing and migrating,
+    // which would call back in here before the settings are ready
     try {
-        return getSettings().debugMode;
+        const { extensionSettings } = SillyTavern.getContext();
+        return !!extensionSettings[MODULE_NAME]?.debugMode;
     } catch {
-        // Settings might not be initialized yet
+        // Context not available yet
         return false;
     }
 }
@@ -147,6 +150,7 @@ export function collectDebugInfo(): Record<string, unknown> {
         extension: {
             settings: {
                 useCurrentSettings: settings.useCurrentSettings,
+                streamCurrentSettings: settings.streamCurrentSettings,
                 debugMode: settings.debugMode,
                 generationConfig: settings.generationConfig,
                 baseSystemPromptLength: settings.baseSystemPrompt?.length || 0,
@@ -0,0 +1,243 @@
+// src/diff.ts
+//
+// Word-level diffing between original fields and a parsed rewrite (or two rewrites).
+
+import { CHARACTER_FIELDS } from './constants';
+import { getValueByPath } from './character';
+import type { Character, CharacterBook, DepthPrompt, DiffSegment, FieldDiff, RewrittenFields } from './types';
+
+// Above this many token pairs the LCS table gets too big - fall back to line diffing
+const MAX_DIFF_CELLS = 4_000_000;
+
+// ============================================================================
+// WORD DIFF
+// ============================================================================
+
+/**
+ * Diff two strings word by word (whitespace and punctuation are their own tokens)
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+    const a = tokenize(before, /\s+|[\p{L}\p{N}_'’]+|[^\s\p{L}\p{N}_]/gu);
+    const b = tokenize(after, /\s+|[\p{L}\p{N}_'’]+|[^\s\p{L}\p{N}_]/gu);
+
+    if (a.length * b.length > MAX_DIFF_CELLS) {
+        return diffTokens(tokenize(before, /[^\n]*\n|[^\n]+$/g), tokenize(after, /[^\n]*\n|[^\n]+$/g));
+    }
+
+    return diffTokens(a, b);
+}
+
+function tokenize(text: string, regex: RegExp): string[] {
+    return text.match(regex) ?? [];
+}
+
+function diffTokens(a: string[], b: string[]): DiffSegment[] {
+    // Trim common prefix/suffix to keep the table small
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+
+    let suffix = 0;
+    while (
+        suffix < a.length - prefix &&
+        suffix < b.length - prefix &&
+        a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+    ) suffix++;
+
+    const midA = a.slice(prefix, a.length - suffix);
+    const midB = b.slice(prefix, b.length - suffix);
+
+    const segments: DiffSegment[] = [];
+    pushSegment(segments, 'equal', a.slice(0, prefix).join(''));
+
+    // LCS table, stored flat
+    const n = midA.length;
+    const m = midB.length;
+    const table = new Uint32Array((n + 1) * (m + 1));
+
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            table[i * (m + 1) + j] = midA[i] === midB[j]
+                ? table[(i + 1) * (m + 1) + j + 1] + 1
+                : Math.max(table[(i + 1) * (m + 1) + j], table[i * (m + 1) + j + 1]);
+        }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+        if (midA[i] === midB[j]) {
+            pushSegment(segments, 'equal', midA[i]);
+            i++;
+            j++;
+        } else if (table[(i + 1) * (m + 1) + j] >= table[i * (m + 1) + j + 1]) {
+            pushSegment(segments, 'removed', midA[i++]);
+        } else {
+            pushSegment(segments, 'added', midB[j++]);
+        }
+    }
+    while (i < n) pushSegment(segments, 'removed', midA[i++]);
+    while (j < m) pushSegment(segments, 'added', midB[j++]);
+
+    pushSegment(segments, 'equal', a.slice(a.length - suffix).join(''));
+
+    return segments;
+}
+
+/**
+ * Append a segment, merging with the previous one when the op matches
+ */
+function pushSegment(segments: DiffSegment[], op: DiffSegment['op'], text: string): void {
+    if (!text) return;
+
+    const last = segments[segments.length - 1];
+    if (last && last.op === op) {
+        last.text += text;
+    } else {
+        segments.push({ op, text });
+    }
+}
+
+// ============================================================================
+// FIELD DIFFS
+// ============================================================================
+
+/**
+ * Get the card's current values in the same shape as a parsed rewrite
+ */
+export function getOriginalFields(char: Character): RewrittenFields {
+    const fields: RewrittenFields = {};
+
+    for (const field of CHARACTER_FIELDS) {
+        const value = getValueByPath(char, field.path);
+
+        switch (field.key) {
+            case 'alternate_greetings':
+                if (Array.isArray(value)) {
+                    fields[field.key] = Object.fromEntries(value.map((text, i) => [i, String(text)]));
+                }
+                break;
+
+            case 'depth_prompt':
+                if ((value as DepthPrompt)?.prompt) {
+                    fields[field.key] = (value as DepthPrompt).prompt;
+                }
+                break;
+
+            case 'character_book': {
+                const entries = (value as CharacterBook)?.entries;
+                if (Array.isArray(entries)) {
+                    fields[field.key] = Object.fromEntries(entries.map((e, i) => [i, e.content ?? '']));
+                }
+                break;
+            }
+
+            default:
+                if (typeof value === 'string') {
+                    fields[field.key] = value;
+                } else if (field.key === 'creator_notes' && char.creatorcomment) {
+                    fields[field.key] = char.creatorcomment;
+                }
+        }
+    }
+
+    return fields;
+}
+
+/**
+ * Diff two sets of rewrite fields.
+ * With onlyAfterKeys, fields absent from `after` are skipped (original vs rewrite);
+ * otherwise the union is compared (rewrite vs rewrite).
+ */
+export function diffFields(
+    before: RewrittenFields,
+    after: RewrittenFields,
+    char: Character | null,
+    onlyAfterKeys: boolean = false,
+): FieldDiff[] {
+    const beforeFlat = flattenFields(before, char);
+    const afterFlat = flattenFields(after, char);
+
+    const keys = onlyAfterKeys
+        ? [...afterFlat.keys()]
+        : [...new Set([...beforeFlat.keys(), ...afterFlat.keys()])];
+
+    const order = [...beforeFlat.keys(), ...afterFlat.keys()];
+    keys.sort((x, y) => order.indexOf(x) - order.indexOf(y));
+
+    return keys.map(key => {
+        const beforeEntry = beforeFlat.get(key);
+        const afterEntry = afterFlat.get(key);
+        const beforeText = beforeEntry?.text ?? '';
+        const afterText = afterEntry?.text ?? '';
+
+        return {
+            key,
+            label: (afterEntry ?? beforeEntry)?.label ?? key,
+            before: beforeText,
+            after: afterText,
+            segments: diffWords(beforeText, afterText),
+            changed: beforeText.trim() !== afterText.trim(),
+        };
+    });
+}
+
+/**
+ * Flatten rewrite fields into diff keys in CHARACTER_FIELDS order
+ */
+function flattenFields(fields: RewrittenFields, char: Character | null): Map<string, { label: string; text: string }> {
+    const flat = new Map<string, { label: string; text: string }>();
+    const book = char ? getValueByPath(char, 'data.character_book') as CharacterBook | undefined : undefined;
+
+    for (const field of CHARACTER_FIELDS) {
+        const value = fields[field.key];
+        if (value === undefined) continue;
+
+        if (typeof value === 'string') {
+            flat.set(field.key, { label: field.label, text: value });
+            continue;
+        }
+
+        const indices = Object.keys(value).map(Number).sort((a, b) => a - b);
+        for (const index of indices) {
+            const entry = book?.entries?.[index];
+            const label = field.key === 'character_book'
+                ? `${field.label}: ${entry?.comment || `Entry ${entry?.id ?? index + 1}`}`
+                : `${field.label} #${index + 1}`;
+
+            flat.set(`${field.key}[${index}]`, { label, text: value[index] });
+        }
+    }
+
+    return flat;
+}
+
+// ============================================================================
+// CHERRY-PICKING
+// ============================================================================
+
+/**
+ * Drop rejected diff keys from a parsed rewrite before write-back
+ */
+export function excludeRejectedFields(fields: RewrittenFields, rejected: string[]): RewrittenFields {
+    if (rejected.length === 0) return fields;
+
+    const result: RewrittenFields = {};
+
+    for (const [key, value] of Object.entries(fields)) {
+        if (value === undefined || rejected.includes(key)) continue;
+
+        if (typeof value === 'string') {
+            result[key] = value;
+            continue;
+        }
+
+        const kept = Object.fromEntries(
+            Object.entries(value).filter(([index]) => !rejected.includes(`${key}[${index}]`)),
+        );
+        if (Object.keys(kept).length > 0) {
+            result[key] = kept;
+        }
+    }
+
+    return result;
+}
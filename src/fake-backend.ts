@@ -0,0 +1,210 @@
+// src/fake-backend.ts
+//
+// Scripted test backend, selectable as a generation source. Answers come from a JSON
+// script matched by stage and prompt, so whole pipeline runs - refinement loops,
+// retries, schema re-asks, cancelling - can be repeated without an API or tokens.
+
+import { FAKE_BACKEND_SOURCE } from './constants';
+import { getSettings } from './settings';
+import { debugLog } from './debug';
+import type {
+    FakeBackendRequest,
+    FakeBackendRule,
+    FakeBackendScript,
+    GenerationConfig,
+    StageName,
+    StructuredOutputSchema,
+} from './types';
+
+const DEFAULT_CHUNKS = 4;
+
+// Requests answered since the last reset, oldest first
+let requests: FakeBackendRequest[] = [];
+
+// How many times each rule has answered, by rule index
+let ruleUses: number[] = [];
+
+// ============================================================================
+// SCRIPT
+// ============================================================================
+
+/**
+ * Whether a resolved generation config goes to the test backend
+ */
+export function isFakeBackend(config: GenerationConfig | null): boolean {
+    return !!config && !config.profileId && config.source === FAKE_BACKEND_SOURCE;
+}
+
+/**
+ * Parse and check a script. Empty text is an empty script, which answers everything
+ * with the default response.
+ */
+export function parseFakeBackendScript(text: string): { script: FakeBackendScript } | { error: string } {
+    if (!text.trim()) {
+        return { script: {} };
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch (e) {
+        return { error: `JSON syntax error: ${(e as Error).message}` };
+    }
+
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        return { error: 'Script must be a JSON object' };
+    }
+
+    const script = parsed as FakeBackendScript;
+
+    if (script.rules !== undefined && !Array.isArray(script.rules)) {
+        return { error: '\'rules\' must be an array' };
+    }
+
+    for (const [index, rule] of (script.rules ?? []).entries()) {
+        if (!rule || typeof rule !== 'object') {
+            return { error: `Rule ${index + 1} must be an object` };
+        }
+
+        if (rule.match !== undefined) {
+            try {
+                new RegExp(rule.match, 'i');
+            } catch (e) {
+                return { error: `Rule ${index + 1}: invalid match pattern: ${(e as Error).message}` };
+            }
+        }
+
+        const response = rule.response;
+        if (response !== undefined && typeof response !== 'string'
+            && !(Array.isArray(response) && response.length > 0 && response.every(r => typeof r === 'string'))) {
+            return { error: `Rule ${index + 1}: 'response' must be a string or a list of strings` };
+        }
+    }
+
+    return { script };
+}
+
+// ============================================================================
+// REQUEST LOG
+// ============================================================================
+
+/**
+ * Requests answered since the last reset, oldest first
+ */
+export function getFakeBackendRequests(): FakeBackendRequest[] {
+    return [...requests];
+}
+
+/**
+ * Forget the recorded requests and start every rule's answers from the beginning
+ */
+export function resetFakeBackend(): void {
+    requests = [];
+    ruleUses = [];
+}
+
+// ============================================================================
+// GENERATION
+// ============================================================================
+
+/**
+ * Answer a request from the script in settings. Returns a stream generator like
+ * ST's streaming services: each chunk carries the whole text so far, and a scripted
+ * error arrives as an error chunk after the streamed text.
+ */
+export function sendFakeRequest(
+    stage: StageName,
+    systemPrompt: string,
+    userPrompt: string,
+    jsonSchema: StructuredOutputSchema | null,
+    signal?: AbortSignal,
+): () => AsyncGenerator<{ text?: string; error?: string }> {
+    const parsed = parseFakeBackendScript(getSettings().fakeBackendScript);
+    if ('error' in parsed) {
+        throw new Error(`Test backend script is invalid: ${parsed.error}`);
+    }
+
+    const { script } = parsed;
+    const index = findRule(script.rules ?? [], stage, userPrompt);
+    const rule: FakeBackendRule = index === null ? {} : script.rules![index];
+    const use = index === null ? 0 : ruleUses[index] ?? 0;
+
+    if (index !== null) {
+        ruleUses[index] = use + 1;
+    }
+
+    requests.push({ stage, systemPrompt, userPrompt, jsonSchema, rule: index, timestamp: Date.now() });
+
+    const text = index === null
+        ? script.defaultResponse ?? `Scripted response for ${stage}`
+        : getRuleResponse(rule, use);
+
+    debugLog('request', 'Test backend request', { stage, rule: index, length: text.length, error: rule.error ?? null });
+
+    const chunks = Math.max(1, Math.floor(rule.chunks ?? script.chunks ?? DEFAULT_CHUNKS));
+    const delayMs = Math.max(0, rule.latencyMs ?? script.latencyMs ?? 0) / chunks;
+
+    return async function* () {
+        if (rule.error && !text) {
+            await wait(delayMs, signal);
+            throw new Error(rule.error);
+        }
+
+        for (let i = 1; i <= chunks; i++) {
+            await wait(delayMs, signal);
+            yield { text: text.slice(0, Math.ceil(text.length * i / chunks)) };
+        }
+
+        if (rule.error) {
+            yield { error: rule.error };
+        }
+    };
+}
+
+/**
+ * First rule for this stage whose pattern matches and that has uses left
+ */
+function findRule(rules: FakeBackendRule[], stage: StageName, userPrompt: string): number | null {
+    const index = rules.findIndex((rule, i) =>
+        (rule.stage === undefined || rule.stage === stage)
+        && (rule.match === undefined || new RegExp(rule.match, 'i').test(userPrompt))
+        && (rule.times === undefined || (ruleUses[i] ?? 0) < rule.times),
+    );
+
+    return index === -1 ? null : index;
+}
+
+function getRuleResponse(rule: FakeBackendRule, use: number): string {
+    if (rule.json !== undefined) {
+        return JSON.stringify(rule.json, null, 2);
+    }
+
+    if (Array.isArray(rule.response)) {
+        return rule.response[Math.min(use, rule.response.length - 1)];
+    }
+
+    return rule.response ?? '';
+}
+
+/**
+ * Simulated latency. Rejects with an AbortError if cancelled while waiting.
+ */
+function wait(delayMs: number, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+        return Promise.reject(new DOMException('Aborted', 'AbortError'));
+    }
+    if (delayMs <= 0) return Promise.resolve();
+
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new DOMException('Aborted', 'AbortError'));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, delayMs);
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
@@ -1,17 +1,64 @@
 // src/generator.ts
 //
 // Handles LLM generation for pipeline stages and refinement.
-// Supports both ST's current settings and custom API configuration.
+// Supports ST's current settings, custom API configuration, connection profiles
+// and the scripted test backend.
 
+import { DEFAULT_GENERATION_CONFIG, FAKE_BACKEND_SOURCE, FAKE_BACKEND_MODEL } from './constants';
 import { getSettings, getFullSystemPrompt } from './settings';
 import { debugLog, logError } from './debug';
 import type {
     StructuredOutputSchema,
+    GenerationConfig,
     GenerationResult,
+    GenerationProgressCallback,
     PipelineState,
+    SchemaViolation,
     StageName,
+    StageComparison,
+    ComparisonEntry,
+    GenerationAttempt,
+    TokenUsage,
 } from './types';
-import { buildStagePrompt, buildRefinementPrompt, getStageSchema } from './pipeline';
+import { buildStagePrompt, buildRefinementPrompt, getStageSchema, REFINEMENT_USAGE_KEY } from './pipeline';
+import { parseStructuredResponse, validateResponseData, formatViolations } from './schema';
+import { addUsage } from './usage';
+import { getCacheKey, getCachedResponse, saveCachedResponse } from './persistence';
+import { isConnectionManagerAvailable, findConnectionProfile } from './profiles';
+import { isFakeBackend, sendFakeRequest } from './fake-backend';
+
+type GenerationSuccess = Extract<GenerationResult, { success: true }>;
+
+type ProviderUsage = Pick<TokenUsage, 'promptTokens' | 'completionTokens'>;
+
+// What a backend call produced, with the token counts the provider reported if any
+interface RawGeneration {
+    text: string;
+    source: string;
+    model: string;
+    usage: ProviderUsage | null;
+    partial?: boolean;
+}
+
+const EMPTY_RESPONSE_ERROR = 'Empty response from API';
+const PARTIAL_RESPONSE_ERROR = 'Response cut off by a stream error';
+
+// Where ST's Chat Completion settings keep the selected model for each source
+const CURRENT_MODEL_KEYS: Record<string, string> = {
+    openai: 'openai_model',
+    claude: 'claude_model',
+    openrouter: 'openrouter_model',
+    makersuite: 'google_model',
+    vertexai: 'vertexai_model',
+    mistralai: 'mistralai_model',
+    cohere: 'cohere_model',
+    perplexity: 'perplexity_model',
+    groq: 'groq_model',
+    ai21: 'ai21_model',
+    deepseek: 'deepseek_model',
+    xai: 'xai_model',
+    custom: 'custom_model',
+};
 
 // ============================================================================
 // API STATUS
@@ -21,6 +68,9 @@ import { buildStagePrompt, buildRefinementPrompt, getStageSchema } from './pipel
  * Check if the API is ready for generation
  */
 export function isApiReady(): boolean {
+    // The test backend answers without a connection
+    if (isFakeBackend(resolveGenerationConfig())) return true;
+
     const { onlineStatus } = SillyTavern.getContext();
     return onlineStatus === 'Valid' || onlineStatus === 'Connected';
 }
@@ -42,6 +92,16 @@ export function getApiInfo(): { source: string; model: string; isReady: boolean
         };
     }
 
+    const { profileId } = settings.generationConfig;
+    if (profileId) {
+        const profile = findConnectionProfile(profileId);
+        return {
+            source: profile ? profile.api : 'missing profile',
+            model: profile ? profile.model || profile.name : profileId,
+            isReady: isApiReady(),
+        };
+    }
+
     return {
         source: settings.generationConfig.source,
         model: settings.generationConfig.model,
@@ -49,19 +109,38 @@ export function getApiInfo(): { source: string; model: string; isReady: boolean
     };
 }
 
+/**
+ * Label for the connection a config sends to, for logs and attempt lists
+ */
+export function describeGenerationConfig(config: GenerationConfig | null): string {
+    if (!config) return 'Current SillyTavern connection';
+
+    if (config.profileId) {
+        const profile = findConnectionProfile(config.profileId);
+        return profile ? `Profile: ${profile.name}` : `Missing profile (${config.profileId})`;
+    }
+
+    if (isFakeBackend(config)) return 'Scripted test backend';
+
+    return `${config.source} / ${config.model || 'default model'}`;
+}
+
 // ============================================================================
 // MAIN GENERATION FUNCTION
 // ============================================================================
 
 /**
  * Run generation for a pipeline stage.
+ * onProgress receives the text so far while the response streams in.
+ * bypassCache skips the cache lookup (the new response is still cached).
  */
 export async function runStageGeneration(
     state: PipelineState,
     stage: StageName,
     signal?: AbortSignal,
+    onProgress?: GenerationProgressCallback,
+    bypassCache = false,
 ): Promise<GenerationResult> {
-    const context = SillyTavern.getContext();
     const settings = getSettings();
 
     // Pre-flight checks
@@ -69,59 +148,76 @@ export async function runStageGeneration(
         return { success: false, error: 'Generation cancelled' };
     }
 
-    if (!state.character) {
-        return { success: false, error: 'No character selected' };
-    }
-
-    if (!isApiReady()) {
-        logError('API not ready', { onlineStatus: context.onlineStatus });
-        return { success: false, error: 'API is not connected. Check your connection settings.' };
+    const request = prepareStageRequest(state, stage);
+    if ('error' in request) {
+        return { success: false, error: request.error };
     }
 
-    // Build prompt
-    const userPrompt = buildStagePrompt(state, stage);
-    if (!userPrompt) {
-        return { success: false, error: 'No prompt configured for this stage' };
-    }
-
-    // Get schema if structured output is enabled
-    const config = state.configs[stage];
-    const jsonSchema = config.useStructuredOutput ? getStageSchema(state, stage) : null;
-
-    // Substitute character placeholders in the prompt
-    const processedPrompt = substituteCharacterPlaceholders(
-        userPrompt,
-        state.character.name,
-        context.name1 || 'User',
-    );
-
-    // Get full system prompt for this stage
-    const systemPrompt = getFullSystemPrompt(stage);
+    const { systemPrompt, processedPrompt, jsonSchema } = request;
+    const generationOverride = state.configs[stage]?.generation;
 
     debugLog('info', 'Starting stage generation', {
         stage,
-        character: state.character.name,
+        character: state.character?.name,
         useCurrentSettings: settings.useCurrentSettings,
+        generationOverride,
         useStructured: !!jsonSchema,
         schemaName: jsonSchema?.name,
         promptLength: processedPrompt.length,
         systemPromptLength: systemPrompt.length,
     });
 
-    const result = await executeGeneration(
+    const { result, target } = await executeCached(
+        stage,
         systemPrompt,
         processedPrompt,
         jsonSchema,
         signal,
-        settings.useCurrentSettings,
+        generationOverride,
+        onProgress,
+        bypassCache,
     );
 
-    // If structured output was requested, validate the response
-    if (result.success && jsonSchema) {
-        return validateStructuredResponse(result.response, jsonSchema);
+    if (!result.success || !jsonSchema) {
+        return result;
     }
 
-    return result;
+    // Structured output was requested - re-ask for a fix if enabled, on whichever connection answered
+    let validated: GenerationSuccess = result;
+    const { reaskOnViolation, maxReasks } = settings.schemaValidation;
+
+    for (let attempt = 1; reaskOnViolation && validated.violations?.length && attempt <= maxReasks; attempt++) {
+        debugLog('info', 'Re-asking for a response that matches the schema', {
+            stage,
+            attempt,
+            violations: validated.violations.length,
+        });
+
+        const retry = await executeGeneration(
+            stage,
+            systemPrompt,
+            buildSchemaFixPrompt(processedPrompt, validated.response, validated.violations),
+            jsonSchema,
+            signal,
+            target,
+            onProgress,
+        );
+
+        if (!retry.success) {
+            // Cancelling cancels the stage; other failures keep the best response so far
+            if (signal?.aborted) return retry;
+            logError('Schema fix request failed', { stage, attempt, error: retry.error });
+            break;
+        }
+
+        validated = {
+            ...validateStructuredResponse(retry.response, jsonSchema),
+            attempts: result.attempts,
+            usage: addUsage(validated.usage, retry.usage),
+        };
+    }
+
+    return validated;
 }
 
 /**
@@ -130,9 +226,9 @@ export async function runStageGeneration(
 export async function runRefinementGeneration(
     state: PipelineState,
     signal?: AbortSignal,
+    onProgress?: GenerationProgressCallback,
 ): Promise<GenerationResult> {
     const context = SillyTavern.getContext();
-    const settings = getSettings();
 
     // Pre-flight checks
     if (signal?.aborted) {
@@ -174,53 +270,154 @@ export async function runRefinementGeneration(
         promptLength: processedPrompt.length,
     });
 
-    // Refinement doesn't use structured output
-    return await executeGeneration(
+    // Refinement doesn't use structured output, and runs on the rewrite stage's model
+    const { result } = await executeCached(
+        REFINEMENT_USAGE_KEY,
         systemPrompt,
         processedPrompt,
         null,
         signal,
-        settings.useCurrentSettings,
+        state.configs.rewrite?.generation,
+        onProgress,
     );
+
+    return result;
 }
 
 /**
- * Validate structured response and fall back gracefully if parsing fails
+ * Run one stage against several generation configs at once, with the same prompt.
+ * Responses are validated like a normal run but never re-asked, so the models are compared as they answered.
  */
-function validateStructuredResponse(
-    response: string,
-    schema: StructuredOutputSchema,
-): GenerationResult {
-    try {
-        const parsed = JSON.parse(response);
+export async function runStageComparison(
+    state: PipelineState,
+    stage: StageName,
+    configs: GenerationConfig[],
+    signal?: AbortSignal,
+): Promise<{ success: true; comparison: StageComparison } | { success: false; error: string }> {
+    if (signal?.aborted) {
+        return { success: false, error: 'Generation cancelled' };
+    }
 
-        // Basic structure validation - check required fields exist
-        if (schema.value.required && Array.isArray(schema.value.required)) {
-            const missing = schema.value.required.filter(
-                field => !(field in parsed),
-            );
+    if (configs.length === 0) {
+        return { success: false, error: 'No comparison models configured' };
+    }
 
-            if (missing.length > 0) {
-                debugLog('info', 'Structured response missing required fields, returning as unstructured', {
-                    missing,
-                    schemaName: schema.name,
-                });
-                return {
-                    success: true,
-                    response,
-                    isStructured: false,
-                };
-            }
+    const request = prepareStageRequest(state, stage);
+    if ('error' in request) {
+        return { success: false, error: request.error };
+    }
+
+    const { systemPrompt, processedPrompt, jsonSchema } = request;
+
+    debugLog('info', 'Starting stage comparison', {
+        stage,
+        character: state.character?.name,
+        models: configs.map(c => describeGenerationConfig(c)),
+        useStructured: !!jsonSchema,
+    });
+
+    const entries = await Promise.all(configs.map(async (config): Promise<ComparisonEntry> => {
+        const started = Date.now();
+        const result = await executeGeneration(stage, systemPrompt, processedPrompt, jsonSchema, signal, config);
+        const latencyMs = Date.now() - started;
+
+        if (!result.success) {
+            return {
+                config,
+                response: null,
+                isStructured: false,
+                error: result.error,
+                latencyMs,
+                promptTokens: 0,
+                responseTokens: 0,
+            };
         }
 
+        const validated = jsonSchema ? validateStructuredResponse(result.response, jsonSchema) : result;
+
         return {
-            success: true,
-            response,
-            isStructured: true,
+            config,
+            response: validated.response,
+            isStructured: validated.isStructured,
+            violations: validated.violations,
+            repairs: validated.repairs,
+            error: null,
+            latencyMs,
+            promptTokens: result.usage?.promptTokens ?? 0,
+            responseTokens: result.usage?.completionTokens ?? 0,
+            usage: result.usage,
         };
-    } catch (e) {
+    }));
+
+    if (signal?.aborted) {
+        return { success: false, error: 'Generation cancelled' };
+    }
+
+    return {
+        success: true,
+        comparison: {
+            stage,
+            promptUsed: request.userPrompt,
+            schemaUsed: jsonSchema,
+            entries,
+            timestamp: Date.now(),
+        },
+    };
+}
+
+/**
+ * Everything a stage request needs: the prompt with placeholders filled, the system prompt and the schema.
+ */
+function prepareStageRequest(
+    state: PipelineState,
+    stage: StageName,
+): { userPrompt: string; processedPrompt: string; systemPrompt: string; jsonSchema: StructuredOutputSchema | null } | { error: string } {
+    const context = SillyTavern.getContext();
+
+    if (!state.character) {
+        return { error: 'No character selected' };
+    }
+
+    if (!isApiReady()) {
+        logError('API not ready', { onlineStatus: context.onlineStatus });
+        return { error: 'API is not connected. Check your connection settings.' };
+    }
+
+    // Build prompt
+    const userPrompt = buildStagePrompt(state, stage);
+    if (!userPrompt) {
+        return { error: 'No prompt configured for this stage' };
+    }
+
+    // Get schema if structured output is enabled
+    const config = state.configs[stage];
+    const jsonSchema = config.useStructuredOutput ? getStageSchema(state, stage) : null;
+
+    // Substitute character placeholders in the prompt
+    const processedPrompt = substituteCharacterPlaceholders(
+        userPrompt,
+        state.character.name,
+        context.name1 || 'User',
+    );
+
+    // Get full system prompt for this stage
+    const systemPrompt = getFullSystemPrompt(stage);
+
+    return { userPrompt, processedPrompt, systemPrompt, jsonSchema };
+}
+
+/**
+ * Parse (repairing if needed) and validate a structured response against its schema.
+ * Responses that can't be recovered or don't match are returned as unstructured, with the violations attached.
+ */
+function validateStructuredResponse(
+    response: string,
+    schema: StructuredOutputSchema,
+): GenerationSuccess {
+    const parsed = parseStructuredResponse(response);
+
+    if (!parsed) {
         debugLog('info', 'Failed to parse structured response, returning as unstructured', {
-            error: (e as Error).message,
             schemaName: schema.name,
             responsePreview: response.substring(0, 200),
         });
@@ -229,36 +426,334 @@ function validateStructuredResponse(
             success: true,
             response,
             isStructured: false,
+            violations: [{ path: '', message: 'response is not valid JSON' }],
         };
     }
+
+    const repairs = parsed.repairs.length > 0 ? parsed.repairs : undefined;
+    if (repairs) {
+        debugLog('info', 'Structured response needed repair', { schemaName: schema.name, repairs });
+    }
+
+    const violations = validateResponseData(parsed.data, schema.value);
+
+    if (violations.length > 0) {
+        debugLog('info', 'Structured response does not match schema, returning as unstructured', {
+            schemaName: schema.name,
+            violations: formatViolations(violations),
+        });
+
+        return { success: true, response, isStructured: false, violations, repairs };
+    }
+
+    return {
+        success: true,
+        response,
+        isStructured: true,
+        repairs,
+    };
+}
+
+/**
+ * Follow-up prompt asking the model to correct a response that failed validation
+ */
+function buildSchemaFixPrompt(originalPrompt: string, response: string, violations: SchemaViolation[]): string {
+    return `${originalPrompt}
+
+---
+
+Your previous response did not match the required JSON schema:
+
+${formatViolations(violations).map(line => `- ${line}`).join('\n')}
+
+Previous response:
+
+${response}
+
+Reply with the corrected JSON only, keeping everything that was already valid.`;
+}
+
+/**
+ * Resolve the generation config for a request: stage overrides on top of the global config.
+ * Returns null to use ST's current settings - only when that's enabled and nothing is overridden.
+ */
+export function resolveGenerationConfig(override?: Partial<GenerationConfig>): GenerationConfig | null {
+    const settings = getSettings();
+
+    const overrides = Object.fromEntries(
+        Object.entries(override ?? {}).filter(([, value]) => value !== undefined && value !== null && value !== ''),
+    ) as Partial<GenerationConfig>;
+
+    if (Object.keys(overrides).length === 0) {
+        return settings.useCurrentSettings ? null : settings.generationConfig;
+    }
+
+    const config = { ...settings.generationConfig, ...overrides };
+
+    // Picking a source or model by hand means not going through the global profile
+    if (!overrides.profileId && (overrides.source || overrides.model)) {
+        delete config.profileId;
+    }
+
+    return config;
+}
+
+/**
+ * Run a generation through the response cache when it's enabled: identical earlier requests
+ * are answered from the cache, anything else goes to executeWithRetry. Only clean answers from
+ * the requested connection are stored.
+ */
+async function executeCached(
+    stage: StageName,
+    systemPrompt: string,
+    userPrompt: string,
+    jsonSchema: StructuredOutputSchema | null,
+    signal: AbortSignal | undefined,
+    override?: Partial<GenerationConfig>,
+    onProgress?: GenerationProgressCallback,
+    bypassCache = false,
+): Promise<{ result: GenerationResult; target?: Partial<GenerationConfig> }> {
+    const { cache } = getSettings();
+
+    // Test scripts change between runs, so their answers are never cached
+    const cacheable = cache.enabled && !isFakeBackend(resolveGenerationConfig(override));
+    const cacheKey = cacheable ? getCacheKey(buildCacheRequest(systemPrompt, userPrompt, jsonSchema, override)) : null;
+
+    if (cacheKey && !bypassCache) {
+        const cached = await getCachedResponse(cacheKey, cache.ttlHours * 60 * 60 * 1000);
+        if (cached) {
+            debugLog('info', 'Using cached response', { source: cached.source, model: cached.model, storedAt: cached.storedAt });
+            onProgress?.(cached.response);
+
+            const result: GenerationSuccess = jsonSchema
+                ? validateStructuredResponse(cached.response, jsonSchema)
+                : { success: true, response: cached.response, isStructured: false };
+
+            return { result: { ...result, cachedAt: cached.storedAt }, target: override };
+        }
+    }
+
+    const outcome = await executeWithRetry(stage, systemPrompt, userPrompt, jsonSchema, signal, override, onProgress);
+
+    // Keyed by the requested connection, so a fallback's answer, a cut-off one or one that breaks the schema isn't stored under it
+    const { result } = outcome;
+    const answeredByRequested = outcome.target === override;
+    if (cacheKey && result.success && !result.partial && !result.violations?.length && answeredByRequested) {
+        await saveCachedResponse(cacheKey, {
+            response: result.response,
+            source: result.usage?.source ?? '',
+            model: result.usage?.model ?? '',
+            storedAt: Date.now(),
+        }, cache.maxEntries);
+    }
+
+    return outcome;
+}
+
+/**
+ * Everything that decides the response, as one string to hash: prompts, schema and the
+ * generation config (or ST's current connection when that's used)
+ */
+function buildCacheRequest(
+    systemPrompt: string,
+    userPrompt: string,
+    jsonSchema: StructuredOutputSchema | null,
+    override?: Partial<GenerationConfig>,
+): string {
+    const { mainApi, onlineStatus, substituteParams } = SillyTavern.getContext();
+    const resolved = resolveGenerationConfig(override);
+
+    // A profile's own API and model decide the response, not the source and model it replaces
+    const config = resolved?.profileId
+        ? { ...resolved, profile: findConnectionProfile(resolved.profileId) }
+        : resolved ?? getCurrentChatCompletionConfig()?.config ?? { api: mainApi, model: onlineStatus };
+
+    // The system prompt is sent with macros filled in
+    return JSON.stringify([substituteParams(systemPrompt), userPrompt, jsonSchema, config]);
+}
+
+/**
+ * Run a generation under the retry policy: each connection gets up to maxAttempts tries with
+ * exponential backoff, then the fallback configs are tried in order.
+ * Structured responses come back validated. Returns the connection that produced the result,
+ * so follow-up requests go to the same one.
+ */
+async function executeWithRetry(
+    stage: StageName,
+    systemPrompt: string,
+    userPrompt: string,
+    jsonSchema: StructuredOutputSchema | null,
+    signal: AbortSignal | undefined,
+    override?: Partial<GenerationConfig>,
+    onProgress?: GenerationProgressCallback,
+): Promise<{ result: GenerationResult; target?: Partial<GenerationConfig> }> {
+    const { retry, fallbackConfigs } = getSettings();
+    const targets: Array<Partial<GenerationConfig> | undefined> = [override, ...(fallbackConfigs ?? [])];
+    const maxAttempts = Math.max(1, retry.maxAttempts);
+    const attempts: GenerationAttempt[] = [];
+
+    // Only worth keeping when something went wrong along the way
+    const withAttempts = <T extends GenerationResult>(result: T): T =>
+        attempts.length > 1 ? { ...result, attempts } : result;
+
+    let lastError = 'Generation failed';
+    let usage: TokenUsage | undefined;
+    let partialResult: GenerationSuccess | null = null;
+    let partialTarget: Partial<GenerationConfig> | undefined;
+
+    for (let t = 0; t < targets.length; t++) {
+        const target = targets[t];
+        const label = describeGenerationConfig(resolveGenerationConfig(target));
+
+        if (t > 0) {
+            debugLog('info', 'Falling back to the next connection', { target: label, lastError });
+        }
+
+        for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+            if (attempt > 1) {
+                const delay = retry.initialDelayMs * Math.pow(retry.backoffMultiplier, attempt - 2);
+                if (!await waitForRetry(delay, signal)) {
+                    return { result: withAttempts({ success: false, error: 'Generation cancelled' }), target };
+                }
+            }
+
+            const started = Date.now();
+            let result = await executeGeneration(stage, systemPrompt, userPrompt, jsonSchema, signal, target, onProgress);
+            const latencyMs = Date.now() - started;
+
+            if (result.success) {
+                // Regenerated responses were paid for too
+                usage = addUsage(usage, result.usage);
+                const partial = result.partial ? { partial: true } : {};
+                result = jsonSchema
+                    ? { ...validateStructuredResponse(result.response, jsonSchema), usage, ...partial }
+                    : { ...result, usage };
+            }
+
+            const record: GenerationAttempt = { target: label, attempt, outcome: 'success', latencyMs };
+            attempts.push(record);
+
+            if (!result.success) {
+                lastError = result.error;
+                record.error = result.error;
+                record.outcome = signal?.aborted
+                    ? 'cancelled'
+                    : result.error === EMPTY_RESPONSE_ERROR ? 'empty' : 'error';
+            } else if (result.partial) {
+                lastError = PARTIAL_RESPONSE_ERROR;
+                record.outcome = 'partial';
+                record.error = PARTIAL_RESPONSE_ERROR;
+            } else if (result.violations?.length) {
+                record.outcome = 'violation';
+                record.error = formatViolations(result.violations).join('; ');
+            }
+
+            debugLog('info', 'Generation attempt', record);
+
+            if (record.outcome === 'cancelled') {
+                return { result: withAttempts(result), target };
+            }
+
+            // A cut-off response is retried like an error, but kept in case nothing better comes back
+            if (result.success && result.partial) {
+                partialResult = result;
+                partialTarget = target;
+                continue;
+            }
+
+            // Schema mismatches are only regenerated on the same connection - the last response is kept either way
+            if (result.success) {
+                const retryViolation = record.outcome === 'violation' && retry.retryOnViolation && attempt < maxAttempts;
+                if (!retryViolation) {
+                    return { result: withAttempts(result), target };
+                }
+                continue;
+            }
+
+            if (record.outcome === 'empty' && !retry.retryOnEmpty) break;
+        }
+    }
+
+    if (partialResult) {
+        return { result: withAttempts(partialResult), target: partialTarget };
+    }
+
+    const error = attempts.length > 1 ? `${lastError} (after ${attempts.length} attempts)` : lastError;
+    return { result: withAttempts({ success: false, error }) };
 }
 
 /**
- * Core generation execution
+ * Wait before a retry. Resolves false if cancelled while waiting.
+ */
+function waitForRetry(delayMs: number, signal: AbortSignal | undefined): Promise<boolean> {
+    if (signal?.aborted) return Promise.resolve(false);
+    if (delayMs <= 0) return Promise.resolve(true);
+
+    return new Promise(resolve => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            resolve(false);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve(true);
+        }, delayMs);
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Core generation execution. The stage is only used to pick the test backend's answer.
  */
 async function executeGeneration(
+    stage: StageName,
     systemPrompt: string,
     userPrompt: string,
     jsonSchema: StructuredOutputSchema | null,
     signal: AbortSignal | undefined,
-    useCurrentSettings: boolean,
+    override?: Partial<GenerationConfig>,
+    onProgress?: GenerationProgressCallback,
 ): Promise<GenerationResult> {
+    const config = resolveGenerationConfig(override);
+
     try {
-        let response: string;
+        let raw: RawGeneration;
 
-        if (useCurrentSettings) {
-            response = await generateWithCurrentSettings(
+        if (!config) {
+            raw = await generateWithCurrentSettings(
+                systemPrompt,
+                userPrompt,
+                jsonSchema,
+                signal,
+                onProgress,
+            );
+        } else if (isFakeBackend(config)) {
+            raw = await generateWithFakeBackend(
+                stage,
+                systemPrompt,
+                userPrompt,
+                jsonSchema,
+                signal,
+                onProgress,
+            );
+        } else if (config.profileId) {
+            raw = await generateWithProfile(
                 systemPrompt,
                 userPrompt,
                 jsonSchema,
+                config,
                 signal,
+                onProgress,
             );
         } else {
-            response = await generateWithCustomSettings(
+            raw = await generateWithCustomSettings(
                 systemPrompt,
                 userPrompt,
                 jsonSchema,
+                config,
                 signal,
+                onProgress,
             );
         }
 
@@ -266,9 +761,10 @@ async function executeGeneration(
             return { success: false, error: 'Generation cancelled' };
         }
 
+        const response = raw.text;
         if (!response || response.trim() === '') {
             logError('Empty response', null);
-            return { success: false, error: 'Empty response from API' };
+            return { success: false, error: EMPTY_RESPONSE_ERROR };
         }
 
         debugLog('info', 'Generation complete', {
@@ -280,6 +776,8 @@ async function executeGeneration(
             success: true,
             response,
             isStructured: !!jsonSchema,
+            usage: await resolveUsage(raw, systemPrompt, userPrompt),
+            ...(raw.partial ? { partial: true } : {}),
         };
     } catch (err) {
         if ((err as Error).name === 'AbortError' || signal?.aborted) {
@@ -301,15 +799,31 @@ async function executeGeneration(
 // ============================================================================
 
 /**
- * Generate using ST's current API settings
+ * Generate using ST's current API settings, through generateRaw with the whole current preset.
+ * generateRaw only returns the finished text, so with streamCurrentSettings on, Chat Completion
+ * connections are sent by us instead - same source, model and main samplers, but not the rest of the preset.
  */
 async function generateWithCurrentSettings(
     systemPrompt: string,
     userPrompt: string,
     jsonSchema: StructuredOutputSchema | null,
     signal?: AbortSignal,
-): Promise<string> {
-    const { generateRaw, substituteParams } = SillyTavern.getContext();
+    onProgress?: GenerationProgressCallback,
+): Promise<RawGeneration> {
+    const { generateRaw, substituteParams, mainApi } = SillyTavern.getContext();
+
+    const current = getSettings().streamCurrentSettings ? getCurrentChatCompletionConfig() : null;
+    if (current) {
+        return generateWithCustomSettings(
+            systemPrompt,
+            userPrompt,
+            jsonSchema,
+            current.config,
+            signal,
+            onProgress,
+            current.connection,
+        );
+    }
 
     const processedSystemPrompt = substituteParams(systemPrompt);
 
@@ -337,6 +851,7 @@ async function generateWithCurrentSettings(
     }
 
     const response = ensureString(rawResponse);
+    onProgress?.(response);
 
     debugLog('response', 'generateRaw response', {
         type: typeof rawResponse,
@@ -344,7 +859,8 @@ async function generateWithCurrentSettings(
         preview: response.substring(0, 200),
     });
 
-    return response;
+    // generateRaw doesn't say which model answered
+    return { text: response, source: mainApi || 'unknown', model: '', usage: null };
 }
 
 /**
@@ -354,11 +870,12 @@ async function generateWithCustomSettings(
     systemPrompt: string,
     userPrompt: string,
     jsonSchema: StructuredOutputSchema | null,
+    config: GenerationConfig,
     signal?: AbortSignal,
-): Promise<string> {
+    onProgress?: GenerationProgressCallback,
+    connection: Record<string, unknown> = {},
+): Promise<RawGeneration> {
     const { ChatCompletionService, substituteParams } = SillyTavern.getContext();
-    const settings = getSettings();
-    const config = settings.generationConfig;
 
     const processedSystemPrompt = substituteParams(systemPrompt);
 
@@ -381,6 +898,9 @@ async function generateWithCustomSettings(
         requestOptions.json_schema = jsonSchema;
     }
 
+    // Custom endpoint and proxy, when mirroring ST's own connection
+    Object.assign(requestOptions, connection);
+
     debugLog('request', 'ChatCompletionService request', {
         source: config.source,
         model: config.model,
@@ -392,7 +912,7 @@ async function generateWithCustomSettings(
         throw new DOMException('Aborted', 'AbortError');
     }
 
-    const result = await ChatCompletionService.sendRequest(requestOptions);
+    const result = await ChatCompletionService.sendRequest(requestOptions, true, signal ?? null);
 
     debugLog('response', 'ChatCompletionService result type', {
         type: typeof result,
@@ -401,9 +921,11 @@ async function generateWithCustomSettings(
     });
 
     let response: string;
+    let usage: ProviderUsage | null = null;
+    let partial = false;
 
     if (typeof result === 'function') {
-        response = await consumeStreamGenerator(result, signal);
+        ({ text: response, usage, partial } = await consumeStreamGenerator(result, signal, onProgress));
     } else if (result && typeof result === 'object') {
         const resultObj = result as Record<string, unknown>;
 
@@ -413,26 +935,198 @@ async function generateWithCustomSettings(
         }
 
         response = ensureString(resultObj.content || result);
+        usage = readProviderUsage(resultObj.usage);
+        onProgress?.(response);
     } else {
         response = ensureString(result);
+        onProgress?.(response);
     }
 
     debugLog('response', 'Final response', {
         length: response.length,
         preview: response.substring(0, 200),
+        usage,
     });
 
-    return response;
+    return { text: response, source: config.source, model: config.model, usage, partial };
 }
 
 /**
- * Consume a streaming generator and return the final accumulated text
+ * Generate through a Connection Manager profile. ST builds the request from the profile -
+ * endpoint, proxy, API key, preset and, for text completion, the instruct template -
+ * and our samplers are sent on top of the preset's.
+ */
+async function generateWithProfile(
+    systemPrompt: string,
+    userPrompt: string,
+    jsonSchema: StructuredOutputSchema | null,
+    config: GenerationConfig,
+    signal?: AbortSignal,
+    onProgress?: GenerationProgressCallback,
+): Promise<RawGeneration> {
+    const { ConnectionManagerRequestService, substituteParams } = SillyTavern.getContext();
+    const profileId = config.profileId!;
+
+    if (!ConnectionManagerRequestService || !isConnectionManagerAvailable()) {
+        throw new Error('Connection profiles need the Connection Manager extension to be enabled');
+    }
+
+    const profile = findConnectionProfile(profileId);
+    if (!profile) {
+        throw new Error(`Connection profile not found: ${profileId}`);
+    }
+
+    const overridePayload: Record<string, unknown> = {
+        temperature: config.temperature,
+        frequency_penalty: config.frequencyPenalty,
+        presence_penalty: config.presencePenalty,
+        top_p: config.topP,
+    };
+
+    // Chat completion sources and llama.cpp-style text completion servers both take a JSON schema
+    if (jsonSchema) {
+        overridePayload.json_schema = profile.mode === 'tc' ? jsonSchema.value : jsonSchema;
+    }
+
+    debugLog('request', 'Connection profile request', {
+        profile: profile.name,
+        mode: profile.mode,
+        api: profile.api,
+        model: profile.model,
+        stream: true,
+        hasSchema: !!jsonSchema,
+    });
+
+    if (signal?.aborted) {
+        throw new DOMException('Aborted', 'AbortError');
+    }
+
+    const result = await ConnectionManagerRequestService.sendRequest(
+        profileId,
+        [
+            { role: 'system', content: substituteParams(systemPrompt) },
+            { role: 'user', content: userPrompt },
+        ],
+        config.maxTokens,
+        {
+            stream: true,
+            signal: signal ?? null,
+            extractData: true,
+            includePreset: true,
+            includeInstruct: true,
+        },
+        overridePayload,
+    );
+
+    let response: string;
+    let usage: ProviderUsage | null = null;
+    let partial = false;
+
+    if (typeof result === 'function') {
+        ({ text: response, usage, partial } = await consumeStreamGenerator(result, signal, onProgress));
+    } else {
+        const resultObj = (result && typeof result === 'object' ? result : {}) as Record<string, unknown>;
+        response = ensureString(resultObj.content ?? result);
+        usage = readProviderUsage(resultObj.usage);
+        onProgress?.(response);
+    }
+
+    debugLog('response', 'Connection profile response', {
+        length: response.length,
+        preview: response.substring(0, 200),
+        usage,
+    });
+
+    return { text: response, source: profile.api || profile.mode, model: profile.model, usage, partial };
+}
+
+/**
+ * Answer from the scripted test backend, streamed the same way as a real connection
+ */
+async function generateWithFakeBackend(
+    stage: StageName,
+    systemPrompt: string,
+    userPrompt: string,
+    jsonSchema: StructuredOutputSchema | null,
+    signal?: AbortSignal,
+    onProgress?: GenerationProgressCallback,
+): Promise<RawGeneration> {
+    const { substituteParams } = SillyTavern.getContext();
+
+    if (signal?.aborted) {
+        throw new DOMException('Aborted', 'AbortError');
+    }
+
+    const stream = sendFakeRequest(stage, substituteParams(systemPrompt), userPrompt, jsonSchema, signal);
+    const { text, partial } = await consumeStreamGenerator(stream, signal, onProgress);
+
+    return { text, source: FAKE_BACKEND_SOURCE, model: FAKE_BACKEND_MODEL, usage: null, partial };
+}
+
+/**
+ * ST's current Chat Completion connection as a generation config, so it can be streamed.
+ * Returns null for other APIs or when the model can't be determined.
+ */
+function getCurrentChatCompletionConfig(): { config: GenerationConfig; connection: Record<string, unknown> } | null {
+    const { mainApi, chatCompletionSettings: cc } = SillyTavern.getContext();
+    if (mainApi !== 'openai' || !cc) return null;
+
+    const source = cc.chat_completion_source;
+    const model = CURRENT_MODEL_KEYS[source] ? cc[CURRENT_MODEL_KEYS[source]] : null;
+    if (typeof source !== 'string' || typeof model !== 'string' || !model) return null;
+
+    const numberOr = (value: unknown, fallback: number): number => {
+        const num = Number(value);
+        return value !== undefined && value !== null && value !== '' && !isNaN(num) ? num : fallback;
+    };
+
+    const connection: Record<string, unknown> = {};
+    if (source === 'custom' && cc.custom_url) connection.custom_url = cc.custom_url;
+    if (cc.reverse_proxy) {
+        connection.reverse_proxy = cc.reverse_proxy;
+        connection.proxy_password = cc.proxy_password;
+    }
+
+    return {
+        config: {
+            source,
+            model,
+            temperature: numberOr(cc.temp_openai, DEFAULT_GENERATION_CONFIG.temperature),
+            maxTokens: numberOr(cc.openai_max_tokens, DEFAULT_GENERATION_CONFIG.maxTokens),
+            frequencyPenalty: numberOr(cc.freq_pen_openai, DEFAULT_GENERATION_CONFIG.frequencyPenalty),
+            presencePenalty: numberOr(cc.pres_pen_openai, DEFAULT_GENERATION_CONFIG.presencePenalty),
+            topP: numberOr(cc.top_p_openai, DEFAULT_GENERATION_CONFIG.topP),
+        },
+        connection,
+    };
+}
+
+/**
+ * Read token counts from a provider usage object: OpenAI-style prompt/completion,
+ * Claude-style input/output, or Google's usageMetadata counts
+ */
+function readProviderUsage(value: unknown): ProviderUsage | null {
+    if (!value || typeof value !== 'object') return null;
+
+    const usage = value as Record<string, unknown>;
+    const prompt = usage.prompt_tokens ?? usage.input_tokens ?? usage.promptTokenCount;
+    const completion = usage.completion_tokens ?? usage.output_tokens ?? usage.candidatesTokenCount;
+
+    if (typeof prompt !== 'number' || typeof completion !== 'number') return null;
+    return { promptTokens: prompt, completionTokens: completion };
+}
+
+/**
+ * Consume a streaming generator and return the final accumulated text.
+ * Each chunk carries the whole text so far, which is passed on to onProgress.
  */
 async function consumeStreamGenerator(
     generatorFn: () => AsyncGenerator<unknown>,
     signal?: AbortSignal,
-): Promise<string> {
+    onProgress?: GenerationProgressCallback,
+): Promise<{ text: string; usage: ProviderUsage | null; partial: boolean }> {
     let finalText = '';
+    let usage: ProviderUsage | null = null;
     let generator: AsyncGenerator<unknown> | null = null;
 
     try {
@@ -451,10 +1145,14 @@ async function consumeStreamGenerator(
 
             const chunkObj = chunk as Record<string, unknown>;
 
-            if (typeof chunkObj.text === 'string') {
+            if (typeof chunkObj.text === 'string' && chunkObj.text !== finalText) {
                 finalText = chunkObj.text;
+                onProgress?.(finalText);
             }
 
+            // Some backends report usage on the last chunk
+            usage = readProviderUsage(chunkObj.usage) ?? usage;
+
             if (chunkObj.error) {
                 throw new Error(ensureString(chunkObj.error));
             }
@@ -481,14 +1179,14 @@ async function consumeStreamGenerator(
             debugLog('info', 'Returning partial response after stream error', {
                 length: finalText.length,
             });
-            return finalText;
+            return { text: finalText, usage, partial: true };
         }
 
         throw err;
     }
 
     debugLog('info', 'Stream consumed', { finalLength: finalText.length });
-    return finalText;
+    return { text: finalText, usage, partial: false };
 }
 
 // ============================================================================
@@ -560,6 +1258,38 @@ export async function getRefinementTokenCount(
 // UTILITIES
 // ============================================================================
 
+/**
+ * Usage for a finished generation: the provider's own counts when it reported them,
+ * otherwise both sides counted with ST's tokenizer and marked as estimated
+ */
+async function resolveUsage(raw: RawGeneration, systemPrompt: string, userPrompt: string): Promise<TokenUsage> {
+    if (raw.usage) {
+        return { source: raw.source, model: raw.model, ...raw.usage, estimated: false };
+    }
+
+    return {
+        source: raw.source,
+        model: raw.model,
+        promptTokens: await countTokens(systemPrompt + '\n\n' + userPrompt),
+        completionTokens: await countTokens(raw.text),
+        estimated: true,
+    };
+}
+
+/**
+ * Token count that falls back to 0 instead of failing the whole comparison
+ */
+async function countTokens(text: string): Promise<number> {
+    const { getTokenCountAsync } = SillyTavern.getContext();
+
+    try {
+        return await getTokenCountAsync(text);
+    } catch (e) {
+        logError('Token count failed', e);
+        return 0;
+    }
+}
+
 /**
  * Safely convert response to string
  */
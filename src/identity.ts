@@ -0,0 +1,106 @@
+// src/identity.ts
+//
+// Stable character identity. A random ID is written to the card's data.extensions
+// so saved sessions follow the character through renames and avatar changes.
+// Characters without an ID (nothing saved for them yet, or the write failed) fall back to their avatar.
+
+import { MODULE_NAME } from './constants';
+import { saveCardBackup, moveToCharacterId } from './persistence';
+import { debugLog, logError } from './debug';
+import type { Character } from './types';
+
+interface IdentityExtension {
+    id?: string;
+}
+
+/**
+ * Get the stored ID for a character, or null if it has none yet
+ */
+export function getCharacterId(char: Character): string | null {
+    const ext = char.data?.extensions?.[MODULE_NAME] as IdentityExtension | undefined;
+    return typeof ext?.id === 'string' && ext.id ? ext.id : null;
+}
+
+// Writes in flight by avatar, so overlapping saves don't give one card two IDs
+const pendingIds = new Map<string, Promise<string | null>>();
+
+/**
+ * Make sure a character has an ID, writing one to the card if needed.
+ * The card is backed up first like any other write.
+ * Returns null if the card couldn't be backed up or updated - callers fall back to the avatar.
+ */
+export async function ensureCharacterId(char: Character, index: number): Promise<string | null> {
+    const existing = getCharacterId(char);
+    if (existing) return existing;
+
+    const pending = pendingIds.get(char.avatar);
+    if (pending) return pending;
+
+    const write = writeCharacterId(char, index).finally(() => pendingIds.delete(char.avatar));
+    pendingIds.set(char.avatar, write);
+    return write;
+}
+
+async function writeCharacterId(char: Character, index: number): Promise<string | null> {
+    if (!await saveCardBackup(char, 'Before assigning character ID')) {
+        logError('Backup failed, not writing character ID', { character: char.name });
+        return null;
+    }
+
+    const { uuidv4, writeExtensionField } = SillyTavern.getContext();
+    const id = uuidv4();
+    const current = (char.data?.extensions?.[MODULE_NAME] as Record<string, unknown> | undefined) ?? {};
+
+    try {
+        await writeExtensionField(index, MODULE_NAME, { ...current, id });
+    } catch (e) {
+        logError('Failed to write character ID', { character: char.name, error: e });
+        return null;
+    }
+
+    // writeExtensionField updates ST's copy; keep ours in step if it's a different object
+    if (!getCharacterId(char)) {
+        char.data = char.data ?? {};
+        char.data.extensions = { ...char.data.extensions, [MODULE_NAME]: { ...current, id } };
+    }
+
+    debugLog('info', 'Character ID assigned', { character: char.name, id });
+
+    await moveToCharacterId(char);
+    return id;
+}
+
+/**
+ * Check whether two character objects are the same card.
+ * Compares IDs when both have one, otherwise the avatar file.
+ */
+export function isSameCharacter(a: Character, b: Character): boolean {
+    const idA = getCharacterId(a);
+    const idB = getCharacterId(b);
+
+    if (idA && idB) return idA === idB;
+    return a.avatar === b.avatar;
+}
+
+/**
+ * Find a character by ID, falling back to avatar.
+ * The avatar fallback skips cards that carry a different ID - a new card can reuse a deleted card's file name.
+ */
+export function findCharacterIndex(
+    characters: Character[],
+    id: string | null,
+    avatar: string | null,
+): number {
+    if (id) {
+        const index = characters.findIndex(c => c && getCharacterId(c) === id);
+        if (index !== -1) return index;
+    }
+
+    if (!avatar) return -1;
+
+    return characters.findIndex(c => {
+        if (c?.avatar !== avatar) return false;
+        const otherId = getCharacterId(c);
+        return !id || !otherId || otherId === id;
+    });
+}
@@ -6,7 +6,6 @@ import { getSettings } from './settings';
 import { initPanel } from './ui/panel';
 import { debugLog, logError } from './debug';
 import { VERSION } from './constants';
-import { testPipelineFlow } from './tests/pipeline-flow-test';
 
 function init(): void {
     try {
@@ -15,12 +14,6 @@ function init(): void {
         initPanel();
         registerEventListeners();
 
-        // Load test utilities in debug mode
-        if (getSettings().debugMode) {
-            (window as unknown as { testPipelineFlow: typeof testPipelineFlow }).testPipelineFlow = testPipelineFlow;
-            debugLog('info', 'Test utilities loaded: window.testPipelineFlow()', null);
-        }
-
         debugLog('info', 'Extension loaded', getSettings());
     } catch (error) {
         logError('Extension initialization failed', error);
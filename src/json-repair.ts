@@ -0,0 +1,233 @@
+// src/json-repair.ts
+//
+// Lenient JSON parsing for structured output that models didn't quite get right:
+// code fences, surrounding prose, trailing commas, single quotes, bare keys,
+// raw newlines in strings and output cut off by max_tokens.
+// Every repair that was needed is reported so the UI can show it.
+
+import type { JsonRepair } from './types';
+
+export interface RepairedJson {
+    value: unknown;
+    repairs: JsonRepair[];
+}
+
+const REPAIR_LABELS: Record<JsonRepair, string> = {
+    code_block: 'Removed markdown code fence',
+    extracted: 'Removed text around the JSON',
+    comments: 'Removed comments',
+    trailing_commas: 'Removed trailing commas',
+    single_quotes: 'Converted single-quoted strings',
+    unquoted_keys: 'Quoted bare property names',
+    control_characters: 'Escaped raw newlines and control characters in strings',
+    truncated: 'Closed output that was cut off',
+};
+
+const CONTROL_ESCAPES: Record<string, string> = {
+    '\n': '\\n',
+    '\r': '\\r',
+    '\t': '\\t',
+    '\b': '\\b',
+    '\f': '\\f',
+};
+
+// How many '{' / '[' positions to try when the JSON is buried in prose
+const MAX_START_CANDIDATES = 10;
+
+// ============================================================================
+// MAIN ENTRY
+// ============================================================================
+
+/**
+ * Parse JSON, repairing it if needed. Returns null if no object or array could be recovered.
+ * Valid JSON comes back with no repairs.
+ */
+export function repairJson(text: string): RepairedJson | null {
+    const trimmed = text.trim();
+    if (!trimmed) return null;
+
+    try {
+        return { value: JSON.parse(trimmed), repairs: [] };
+    } catch {
+        // Needs repair
+    }
+
+    const baseRepairs = new Set<JsonRepair>();
+    let source = trimmed;
+
+    // Fenced block, possibly with no closing fence if the output was cut off
+    const fence = source.match(/```(?:json)?[^\S\n]*\n?([\s\S]*?)(?:```|$)/i);
+    if (fence) {
+        source = fence[1].trim();
+        baseRepairs.add('code_block');
+
+        try {
+            return { value: JSON.parse(source), repairs: [...baseRepairs] };
+        } catch {
+            // Keep repairing the fence contents
+        }
+    }
+
+    let candidates = 0;
+    for (let start = 0; start < source.length && candidates < MAX_START_CANDIDATES; start++) {
+        if (source[start] !== '{' && source[start] !== '[') continue;
+        candidates++;
+
+        const repairs = new Set(baseRepairs);
+        if (start > 0) repairs.add('extracted');
+
+        const { json, end } = repairValueText(source.slice(start), repairs);
+        if (source.slice(start + end).trim()) repairs.add('extracted');
+
+        try {
+            const value = JSON.parse(json);
+            if (value !== null && typeof value === 'object') {
+                return { value, repairs: [...repairs] };
+            }
+        } catch {
+            // Try the next opening bracket
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Human-readable description of each repair
+ */
+export function describeRepairs(repairs: JsonRepair[]): string[] {
+    return repairs.map(repair => REPAIR_LABELS[repair]);
+}
+
+// ============================================================================
+// REPAIR PASS
+// ============================================================================
+
+/**
+ * Rewrite one JSON value starting at source[0] ('{' or '[') into valid JSON.
+ * Returns the rewritten text and how much of the source it consumed.
+ */
+function repairValueText(source: string, repairs: Set<JsonRepair>): { json: string; end: number } {
+    const stack: Array<'{' | '['> = [];
+    let out = '';
+    let quote: '"' | '\'' | null = null;
+    let i = 0;
+
+    for (; i < source.length; i++) {
+        const ch = source[i];
+
+        if (quote) {
+            if (ch === '\\') {
+                const next = source[i + 1];
+                if (next === undefined) {
+                    i++; // Cut off mid-escape - drop the lone backslash
+                    break;
+                }
+
+                // \' isn't a JSON escape
+                out += next === '\'' ? '\'' : ch + next;
+                i++;
+            } else if (ch === quote) {
+                out += '"';
+                quote = null;
+            } else if (ch === '"') {
+                out += '\\"'; // Only reachable inside single quotes
+            } else if (ch.charCodeAt(0) < 0x20) {
+                out += CONTROL_ESCAPES[ch] ?? `\\u${ch.charCodeAt(0).toString(16).padStart(4, '0')}`;
+                repairs.add('control_characters');
+            } else {
+                out += ch;
+            }
+            continue;
+        }
+
+        if (ch === '"' || ch === '\'') {
+            if (ch === '\'') repairs.add('single_quotes');
+            quote = ch;
+            out += '"';
+            continue;
+        }
+
+        if (ch === '/' && (source[i + 1] === '/' || source[i + 1] === '*')) {
+            const close = source[i + 1] === '/' ? '\n' : '*/';
+            const closeAt = source.indexOf(close, i + 2);
+            i = closeAt === -1 ? source.length : closeAt + close.length - 1;
+            repairs.add('comments');
+            continue;
+        }
+
+        if (ch === '{' || ch === '[') {
+            stack.push(ch);
+            out += ch;
+            continue;
+        }
+
+        if (ch === '}' || ch === ']') {
+            if (/,\s*$/.test(out)) {
+                out = out.replace(/,\s*$/, '');
+                repairs.add('trailing_commas');
+            }
+
+            stack.pop();
+            out += ch;
+
+            if (stack.length === 0) {
+                i++;
+                break;
+            }
+            continue;
+        }
+
+        if (/[A-Za-z_$]/.test(ch)) {
+            const word = source.slice(i).match(/^[A-Za-z_$][\w$]*/)![0];
+            const isKey = stack[stack.length - 1] === '{'
+                && /[{,]\s*$/.test(out)
+                && /^\s*:/.test(source.slice(i + word.length));
+
+            if (isKey) {
+                out += `"${word}"`;
+                repairs.add('unquoted_keys');
+            } else {
+                out += word;
+            }
+
+            i += word.length - 1;
+            continue;
+        }
+
+        out += ch;
+    }
+
+    if (quote || stack.length > 0) {
+        if (quote) out += '"';
+        out = trimIncompleteTail(out, stack[stack.length - 1]);
+        out += stack.reverse().map(open => (open === '{' ? '}' : ']')).join('');
+        repairs.add('truncated');
+    }
+
+    return { json: out, end: i };
+}
+
+/**
+ * Drop whatever was half-written when the output stopped:
+ * dangling commas, keys without values, partial numbers and literals
+ */
+function trimIncompleteTail(out: string, innermost: '{' | '[' | undefined): string {
+    let previous: string;
+
+    do {
+        previous = out;
+
+        out = out
+            .replace(/\s+$/, '')
+            .replace(/,$/, '')
+            .replace(/(\d)(?:\.|[eE][-+]?)$/, '$1')
+            .replace(/([:,[{]\s*)(?:-|t|tr|tru|f|fa|fal|fals|n|nu|nul)$/, '$1');
+
+        if (innermost === '{') {
+            out = out.replace(/([{,])\s*"(?:[^"\\]|\\.)*"\s*(?::\s*)?$/, '$1');
+        }
+    } while (out !== previous);
+
+    return out;
+}
@@ -1,11 +1,28 @@
 // src/persistence.ts
 //
-// Persistence layer for iteration history using localforage.
-// Stores iteration history per-character so users can resume work across sessions.
+// Persistence layer for pipeline sessions, card backups, batch runs, per-character usage and the response cache using localforage.
+// Stores the whole pipeline session per-character so users can resume work across popup opens.
 
-import { MODULE_NAME } from './constants';
+import { MODULE_NAME, MAX_CARD_BACKUPS, MAX_BATCH_RUNS, SESSION_VERSION } from './constants';
+import { serializePipelineState } from './pipeline';
+import { flattenLedger, addToLedger } from './usage';
+import { getCharacterId, findCharacterIndex } from './identity';
 import { debugLog, logError } from './debug';
-import type { Character, IterationSnapshot } from './types';
+import type {
+    Character,
+    PipelineState,
+    IterationSnapshot,
+    SerializedPipelineState,
+    StoredSession,
+    SessionSummary,
+    SessionExport,
+    CardBackup,
+    BatchRun,
+    BatchItemResult,
+    CachedResponse,
+    TokenUsage,
+    UsageLedger,
+} from './types';
 
 // ============================================================================
 // KEY GENERATION
@@ -24,138 +41,319 @@ function hashString(str: string): string {
 }
 
 /**
- * Generate a unique key for a character.
- * Uses hash of avatar + name to avoid collisions from sanitization.
+ * 53-bit hash (cyrb53) for cache keys - many more distinct inputs than hashString, so
+ * two different requests don't share a cached response
  */
-export function getCharacterKey(character: Character): string {
-    // Hash the raw values to preserve uniqueness before sanitization destroys it
+function hashString53(str: string): string {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < str.length; i++) {
+        const ch = str.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+const SESSION_PREFIX = `${MODULE_NAME}_session_`;
+const LEGACY_HISTORY_PREFIX = `${MODULE_NAME}_history_`;
+
+/**
+ * Generate the session key for a character.
+ * Keyed by the stable character ID when the card has one, so renames and avatar changes keep the session.
+ */
+export function getSessionKey(character: Character): string {
+    const id = getCharacterId(character);
+    return id ? `${SESSION_PREFIX}id_${id}` : getAvatarSessionKey(character);
+}
+
+/**
+ * Session key for cards without an ID (and for sessions saved before IDs existed)
+ */
+function getAvatarSessionKey(character: Character): string {
+    return `${SESSION_PREFIX}${hashString(character.avatar)}`;
+}
+
+/**
+ * Key a stored session would be saved under by its own character
+ */
+function getStoredSessionKey(session: StoredSession): string {
+    return session.characterId
+        ? `${SESSION_PREFIX}id_${session.characterId}`
+        : `${SESSION_PREFIX}${hashString(session.characterAvatar)}`;
+}
+
+/**
+ * Key used before sessions existed, when only iteration history was saved.
+ * Hashes avatar + name; only read when migrating.
+ */
+function getLegacyHistoryKey(character: Character): string {
     const uniqueHash = hashString(`${character.avatar}::${character.name}`);
-    return `${MODULE_NAME}_history_${uniqueHash}`;
+    return `${LEGACY_HISTORY_PREFIX}${uniqueHash}`;
+}
+
+/**
+ * Generate the backup key for a character.
+ * Keyed by avatar only - the name itself may be what a restore puts back.
+ */
+export function getBackupKey(character: Character): string {
+    return `${MODULE_NAME}_backup_${hashString(character.avatar)}`;
 }
 
+const LAST_SESSION_KEY = `${MODULE_NAME}_last_session`;
+
 // ============================================================================
-// ITERATION HISTORY PERSISTENCE
+// SESSION MIGRATIONS
 // ============================================================================
 
+type SessionMigrationFn = (data: Record<string, unknown>) => void;
+
+const sessionMigrations: Record<number, SessionMigrationFn> = {
+    // v1 -> v2: Legacy iteration history record becomes a full session
+    2: (data) => {
+        const history = (data.history as IterationSnapshot[]) || [];
+        const avatar = data.characterAvatar as string;
+
+        data.state = {
+            characterAvatar: avatar,
+            results: {},
+            configs: {},
+            selectedStages: [],
+            stageStatus: {},
+            iterationCount: history.length,
+            iterationHistory: history,
+            isRefining: false,
+            selectedFields: {},
+            rejectedFields: [],
+            exportData: null,
+        } as SerializedPipelineState;
+
+        delete data.history;
+    },
+
+    // v2 -> v3: Stable character ID (filled in when the session is re-linked)
+    3: (data) => {
+        if (data.characterId === undefined) {
+            data.characterId = null;
+        }
+    },
+};
+
 /**
- * Save iteration history for a character
+ * Run session migrations up to SESSION_VERSION. Mutates data.
  */
-export async function saveIterationHistory(
-    character: Character,
-    history: IterationSnapshot[],
-): Promise<boolean> {
+function migrateSession(data: Record<string, unknown>): StoredSession {
+    const oldVersion = (data.sessionVersion as number) || 1;
+
+    for (let v = oldVersion + 1; v <= SESSION_VERSION; v++) {
+        const migration = sessionMigrations[v];
+        if (migration) {
+            debugLog('info', `Running session migration to v${v}`, { avatar: data.characterAvatar });
+            migration(data);
+        }
+    }
+
+    data.sessionVersion = SESSION_VERSION;
+    return data as unknown as StoredSession;
+}
+
+// ============================================================================
+// SESSION PERSISTENCE
+// ============================================================================
+
+/**
+ * Save the whole pipeline session for its character
+ */
+export async function savePipelineSession(state: PipelineState): Promise<boolean> {
+    if (!state.character) return false;
+
     const { localforage } = SillyTavern.libs;
-    const key = getCharacterKey(character);
+    const character = state.character;
+    const key = getSessionKey(character);
 
     try {
-        await localforage.setItem(key, {
+        const session: StoredSession = {
+            sessionVersion: SESSION_VERSION,
+            characterId: getCharacterId(character),
             characterName: character.name,
             characterAvatar: character.avatar,
-            history,
             savedAt: Date.now(),
-        });
+            state: serializePipelineState(state),
+        };
 
-        debugLog('info', 'Iteration history saved', {
+        await localforage.setItem(key, session);
+
+        debugLog('info', 'Session saved', {
             key,
             characterName: character.name,
-            historyLength: history.length,
+            historyLength: state.iterationHistory.length,
         });
 
         return true;
     } catch (e) {
-        logError('Failed to save iteration history', { key, error: e });
+        logError('Failed to save session', { key, error: e });
         return false;
     }
 }
 
 /**
- * Load iteration history for a character
+ * Load the saved session for a character, migrating older formats.
+ * Sessions saved under the avatar key or as legacy iteration history are
+ * re-linked to the character's ID key the first time they're found.
  */
-export async function loadIterationHistory(
-    character: Character,
-): Promise<IterationSnapshot[] | null> {
+export async function loadPipelineSession(character: Character): Promise<StoredSession | null> {
     const { localforage } = SillyTavern.libs;
-    const key = getCharacterKey(character);
+    const key = getSessionKey(character);
+    const id = getCharacterId(character);
+
+    // Current key first, then older keys this character may have been saved under
+    const candidates = [...new Set([key, getAvatarSessionKey(character), getLegacyHistoryKey(character)])];
 
     try {
-        const data = await localforage.getItem(key) as {
-            characterName: string;
-            characterAvatar: string;
-            history: IterationSnapshot[];
-            savedAt: number;
-        } | null;
+        for (const candidate of candidates) {
+            const data = await localforage.getItem(candidate) as Record<string, unknown> | null;
+            if (!data) continue;
 
-        if (!data) {
-            debugLog('info', 'No iteration history found', { key });
-            return null;
-        }
+            if (!sessionBelongsTo(data, character, candidate === key && !!id)) {
+                debugLog('info', 'Session mismatch, ignoring', {
+                    key: candidate,
+                    storedAvatar: data.characterAvatar,
+                    currentAvatar: character.avatar,
+                });
+                continue;
+            }
 
-        // Verify it's for the same character (belt and suspenders with the hash)
-        if (data.characterName !== character.name || data.characterAvatar !== character.avatar) {
-            debugLog('info', 'Iteration history mismatch, ignoring', {
+            const needsMigration = ((data.sessionVersion as number) || 1) < SESSION_VERSION;
+            const session = migrateSession(data);
+
+            if (candidate !== key) {
+                await relinkSession(candidate, key, session, character);
+            } else if (needsMigration) {
+                await localforage.setItem(key, session);
+            }
+
+            // The card may have been renamed or given a new avatar since the save
+            session.characterName = character.name;
+            session.characterAvatar = character.avatar;
+            session.state.characterAvatar = character.avatar;
+
+            debugLog('info', 'Session loaded', {
                 key,
-                storedName: data.characterName,
-                currentName: character.name,
+                characterName: character.name,
+                historyLength: session.state.iterationHistory.length,
+                savedAt: new Date(session.savedAt).toISOString(),
             });
-            return null;
-        }
 
-        debugLog('info', 'Iteration history loaded', {
-            key,
-            characterName: character.name,
-            historyLength: data.history.length,
-            savedAt: new Date(data.savedAt).toISOString(),
-        });
+            return session;
+        }
 
-        return data.history;
+        debugLog('info', 'No session found', { key });
+        return null;
     } catch (e) {
-        logError('Failed to load iteration history', { key, error: e });
+        logError('Failed to load session', { key, error: e });
         return null;
     }
 }
 
 /**
- * Clear iteration history for a character
+ * Check a stored record really is this character's.
+ * ID-keyed records must match the ID; avatar-keyed ones the avatar, and the ID if both have one.
+ */
+function sessionBelongsTo(data: Record<string, unknown>, character: Character, byId: boolean): boolean {
+    const id = getCharacterId(character);
+    const storedId = (data.characterId as string | null | undefined) ?? null;
+
+    if (byId) return storedId === id;
+    if (data.characterAvatar !== character.avatar) return false;
+    return !storedId || !id || storedId === id;
+}
+
+/**
+ * Move a session to a new key and point it at the given character
  */
-export async function clearIterationHistory(character: Character): Promise<boolean> {
+async function relinkSession(fromKey: string, toKey: string, session: StoredSession, character: Character): Promise<void> {
     const { localforage } = SillyTavern.libs;
-    const key = getCharacterKey(character);
+
+    session.characterId = getCharacterId(character);
+    session.characterName = character.name;
+    session.characterAvatar = character.avatar;
+    session.state.characterAvatar = character.avatar;
+
+    await localforage.setItem(toKey, session);
+    if (fromKey !== toKey) {
+        await localforage.removeItem(fromKey);
+    }
+
+    debugLog('info', 'Session re-linked', { fromKey, toKey, character: character.name });
+}
+
+/**
+ * Move what was saved for a card under its avatar to the ID it has just been given
+ */
+export async function moveToCharacterId(character: Character): Promise<void> {
+    const { localforage } = SillyTavern.libs;
+    const key = getSessionKey(character);
+    const avatarKey = getAvatarSessionKey(character);
+    if (key === avatarKey) return;
+
+    try {
+        const data = await localforage.getItem(avatarKey) as Record<string, unknown> | null;
+        if (data && sessionBelongsTo(data, character, false)) {
+            await relinkSession(avatarKey, key, migrateSession(data), character);
+        }
+    } catch (e) {
+        logError('Failed to move session to character ID', { key, error: e });
+    }
+
+    await moveCharacterUsage(character);
+}
+
+/**
+ * Clear the saved session for a character
+ */
+export async function clearPipelineSession(character: Character): Promise<boolean> {
+    const { localforage } = SillyTavern.libs;
+    const key = getSessionKey(character);
 
     try {
         await localforage.removeItem(key);
+        await localforage.removeItem(getAvatarSessionKey(character));
+        await localforage.removeItem(getLegacyHistoryKey(character));
 
-        debugLog('info', 'Iteration history cleared', {
+        debugLog('info', 'Session cleared', {
             key,
             characterName: character.name,
         });
 
         return true;
     } catch (e) {
-        logError('Failed to clear iteration history', { key, error: e });
+        logError('Failed to clear session', { key, error: e });
         return false;
     }
 }
 
 /**
- * Get all stored iteration history keys (for debugging/cleanup)
+ * Get all stored session keys, including unmigrated legacy history (for debugging/cleanup)
  */
-export async function getAllHistoryKeys(): Promise<string[]> {
+export async function getAllSessionKeys(): Promise<string[]> {
     const { localforage } = SillyTavern.libs;
 
     try {
         const allKeys = await localforage.keys();
-        return allKeys.filter((key: string) => key.startsWith(`${MODULE_NAME}_history_`));
+        return allKeys.filter((key: string) => key.startsWith(SESSION_PREFIX) || key.startsWith(LEGACY_HISTORY_PREFIX));
     } catch (e) {
-        logError('Failed to get history keys', { error: e });
+        logError('Failed to get session keys', { error: e });
         return [];
     }
 }
 
 /**
- * Clear all iteration history (for debugging/cleanup)
+ * Clear all saved sessions (for debugging/cleanup)
  */
-export async function clearAllIterationHistory(): Promise<number> {
-    const keys = await getAllHistoryKeys();
+export async function clearAllPipelineSessions(): Promise<number> {
+    const keys = await getAllSessionKeys();
     const { localforage } = SillyTavern.libs;
 
     let cleared = 0;
@@ -164,10 +362,715 @@ export async function clearAllIterationHistory(): Promise<number> {
             await localforage.removeItem(key);
             cleared++;
         } catch (e) {
-            logError('Failed to clear history key', { key, error: e });
+            logError('Failed to clear session key', { key, error: e });
         }
     }
 
-    debugLog('info', 'All iteration history cleared', { cleared, total: keys.length });
+    await localforage.removeItem(LAST_SESSION_KEY);
+
+    debugLog('info', 'All sessions cleared', { cleared, total: keys.length });
     return cleared;
 }
+
+/**
+ * Summarize every stored session, newest first. Older formats are migrated in memory only.
+ */
+export async function listSessions(): Promise<SessionSummary[]> {
+    const { localforage } = SillyTavern.libs;
+    const summaries: SessionSummary[] = [];
+
+    for (const key of await getAllSessionKeys()) {
+        try {
+            const data = await localforage.getItem(key) as Record<string, unknown> | null;
+            if (!data) continue;
+
+            const session = migrateSession(structuredClone(data));
+            summaries.push({
+                key,
+                characterId: session.characterId,
+                characterName: session.characterName,
+                characterAvatar: session.characterAvatar,
+                savedAt: session.savedAt,
+                iterationCount: session.state.iterationHistory.length,
+                completedStages: Object.entries(session.state.stageStatus)
+                    .filter(([, status]) => status === 'complete')
+                    .map(([stage]) => stage),
+                usage: flattenLedger(session.state.usage ?? {}),
+                size: JSON.stringify(data).length,
+            });
+        } catch (e) {
+            logError('Failed to read session', { key, error: e });
+        }
+    }
+
+    return summaries.sort((a, b) => b.savedAt - a.savedAt);
+}
+
+/**
+ * Find sessions whose character can no longer be found by ID or avatar
+ */
+export async function findOrphanedSessions(characters: Character[]): Promise<SessionSummary[]> {
+    return (await listSessions()).filter(s =>
+        findCharacterIndex(characters, s.characterId, s.characterAvatar) === -1,
+    );
+}
+
+/**
+ * Attach a stored session to a different character, replacing any session it already has
+ */
+export async function reattachSession(key: string, character: Character): Promise<boolean> {
+    const { localforage } = SillyTavern.libs;
+
+    try {
+        const data = await localforage.getItem(key) as Record<string, unknown> | null;
+        if (!data) return false;
+
+        const session = migrateSession(data);
+        const targetKey = getSessionKey(character);
+
+        // The target may have a session under an older key too - drop it so it can't shadow this one
+        await clearPipelineSession(character);
+        await relinkSession(key, targetKey, session, character);
+
+        return true;
+    } catch (e) {
+        logError('Failed to re-attach session', { key, character: character.name, error: e });
+        return false;
+    }
+}
+
+/**
+ * Delete a stored session by key
+ */
+export async function deleteSessionByKey(key: string): Promise<boolean> {
+    const { localforage } = SillyTavern.libs;
+
+    try {
+        await localforage.removeItem(key);
+        debugLog('info', 'Session deleted', { key });
+        return true;
+    } catch (e) {
+        logError('Failed to delete session', { key, error: e });
+        return false;
+    }
+}
+
+/**
+ * Export stored sessions as JSON, migrated to the current format
+ */
+export async function exportSessions(keys: string[]): Promise<string> {
+    const { localforage } = SillyTavern.libs;
+    const sessions: StoredSession[] = [];
+
+    for (const key of keys) {
+        try {
+            const data = await localforage.getItem(key) as Record<string, unknown> | null;
+            if (data) {
+                sessions.push(migrateSession(structuredClone(data)));
+            }
+        } catch (e) {
+            logError('Failed to export session', { key, error: e });
+        }
+    }
+
+    const exported: SessionExport = {
+        sessionVersion: SESSION_VERSION,
+        exportedAt: new Date().toISOString(),
+        sessions,
+    };
+
+    return JSON.stringify(exported, null, 2);
+}
+
+/**
+ * Import sessions from an export (or a single stored session).
+ * A session already stored for the same character is only replaced by a newer one.
+ */
+export async function importSessions(json: string): Promise<{ imported: number; skipped: number; errors: string[] }> {
+    const { localforage } = SillyTavern.libs;
+    const errors: string[] = [];
+    let imported = 0;
+    let skipped = 0;
+
+    let entries: unknown[];
+    try {
+        const data = JSON.parse(json);
+        entries = Array.isArray(data?.sessions) ? data.sessions : [data];
+    } catch {
+        return { imported, skipped, errors: ['Invalid JSON'] };
+    }
+
+    for (const entry of entries) {
+        const label = (entry as Record<string, unknown>)?.characterName || 'Unknown';
+
+        if (!isSessionRecord(entry)) {
+            errors.push(`Skipped "${label}": not a saved session`);
+            continue;
+        }
+
+        if (((entry.sessionVersion as number) || 1) > SESSION_VERSION) {
+            errors.push(`Skipped "${label}": saved by a newer version`);
+            continue;
+        }
+
+        try {
+            const session = migrateSession(structuredClone(entry));
+            const key = getStoredSessionKey(session);
+
+            const existing = await localforage.getItem(key) as { savedAt?: number } | null;
+            if (existing && (existing.savedAt || 0) >= session.savedAt) {
+                skipped++;
+                continue;
+            }
+
+            await localforage.setItem(key, session);
+            imported++;
+        } catch (e) {
+            errors.push(`Failed to import "${label}": ${e}`);
+        }
+    }
+
+    debugLog('info', 'Sessions imported', { imported, skipped, errors: errors.length });
+    return { imported, skipped, errors };
+}
+
+/**
+ * Check the fields a session needs before migrating it. Accepts legacy history records.
+ */
+function isSessionRecord(data: unknown): data is Record<string, unknown> {
+    if (!data || typeof data !== 'object') return false;
+
+    const record = data as Record<string, unknown>;
+    if (typeof record.characterAvatar !== 'string' || !record.characterAvatar) return false;
+    if (typeof record.savedAt !== 'number') return false;
+
+    const state = record.state as Record<string, unknown> | undefined;
+    return state
+        ? Array.isArray(state.iterationHistory) && typeof state.stageStatus === 'object'
+        : Array.isArray(record.history);
+}
+
+/**
+ * Remember which character was open so the popup can reopen it
+ */
+export async function setLastSessionCharacter(character: Character | null): Promise<void> {
+    const { localforage } = SillyTavern.libs;
+
+    try {
+        if (character) {
+            await localforage.setItem(LAST_SESSION_KEY, { id: getCharacterId(character), avatar: character.avatar });
+        } else {
+            await localforage.removeItem(LAST_SESSION_KEY);
+        }
+    } catch (e) {
+        logError('Failed to save last session', { error: e });
+    }
+}
+
+export async function getLastSessionCharacter(): Promise<{ id: string | null; avatar: string } | null> {
+    const { localforage } = SillyTavern.libs;
+
+    try {
+        const data = await localforage.getItem(LAST_SESSION_KEY) as { id: string | null; avatar: string } | string | null;
+
+        // Saved as a bare avatar before IDs existed
+        return typeof data === 'string' ? { id: null, avatar: data } : data;
+    } catch (e) {
+        logError('Failed to load last session', { error: e });
+        return null;
+    }
+}
+
+// ============================================================================
+// CARD BACKUPS
+// ============================================================================
+
+interface StoredBackups {
+    characterName: string;
+    characterAvatar: string;
+    backups: CardBackup[];
+    savedAt: number;
+}
+
+/**
+ * Snapshot the full card before modifying it.
+ * Fetches the card from ST so shallow-loaded characters are backed up completely.
+ * Oldest backups beyond MAX_CARD_BACKUPS are dropped.
+ */
+export async function saveCardBackup(character: Character, reason: string): Promise<CardBackup | null> {
+    const { localforage } = SillyTavern.libs;
+    const { uuidv4 } = SillyTavern.getContext();
+    const key = getBackupKey(character);
+
+    try {
+        const fullCharacter = await fetchFullCharacter(character);
+
+        const backup: CardBackup = {
+            id: uuidv4(),
+            timestamp: Date.now(),
+            reason,
+            character: fullCharacter,
+        };
+
+        const existing = await loadCardBackups(character);
+        const backups = [backup, ...existing].slice(0, MAX_CARD_BACKUPS);
+
+        await localforage.setItem(key, {
+            characterName: character.name,
+            characterAvatar: character.avatar,
+            backups,
+            savedAt: Date.now(),
+        } as StoredBackups);
+
+        debugLog('info', 'Card backup saved', {
+            key,
+            characterName: character.name,
+            reason,
+            backupCount: backups.length,
+        });
+
+        return backup;
+    } catch (e) {
+        logError('Failed to save card backup', { key, error: e });
+        return null;
+    }
+}
+
+// Fields ST adds to loaded characters that aren't part of the card file
+const RUNTIME_CHARACTER_FIELDS = ['json_data', 'shallow', 'chat_size', 'data_size', 'date_added', 'date_last_chat'];
+
+/**
+ * Fetch the full card JSON from ST, falling back to the in-memory copy
+ */
+async function fetchFullCharacter(character: Character): Promise<Character> {
+    const { getRequestHeaders } = SillyTavern.getContext();
+
+    try {
+        const response = await fetch('/api/characters/get', {
+            method: 'POST',
+            headers: getRequestHeaders(),
+            body: JSON.stringify({ avatar_url: character.avatar }),
+        });
+
+        if (response.ok) {
+            const loaded = await response.json() as Record<string, unknown>;
+
+            // json_data is the card exactly as stored on disk
+            if (typeof loaded.json_data === 'string') {
+                return { ...JSON.parse(loaded.json_data), avatar: character.avatar } as Character;
+            }
+
+            return stripRuntimeFields(loaded);
+        }
+
+        debugLog('info', 'Full character fetch failed, using in-memory copy', { status: response.status });
+    } catch (e) {
+        debugLog('info', 'Full character fetch failed, using in-memory copy', { error: (e as Error).message });
+    }
+
+    return stripRuntimeFields(structuredClone(character) as unknown as Record<string, unknown>);
+}
+
+function stripRuntimeFields(loaded: Record<string, unknown>): Character {
+    const card = { ...loaded };
+    for (const field of RUNTIME_CHARACTER_FIELDS) {
+        delete card[field];
+    }
+    return card as unknown as Character;
+}
+
+/**
+ * Load backups for a character, newest first
+ */
+export async function loadCardBackups(character: Character): Promise<CardBackup[]> {
+    const { localforage } = SillyTavern.libs;
+    const key = getBackupKey(character);
+
+    try {
+        const data = await localforage.getItem(key) as StoredBackups | null;
+
+        if (!data || data.characterAvatar !== character.avatar) {
+            return [];
+        }
+
+        return data.backups;
+    } catch (e) {
+        logError('Failed to load card backups', { key, error: e });
+        return [];
+    }
+}
+
+/**
+ * Delete a single backup
+ */
+export async function deleteCardBackup(character: Character, backupId: string): Promise<boolean> {
+    const { localforage } = SillyTavern.libs;
+    const key = getBackupKey(character);
+
+    try {
+        const backups = await loadCardBackups(character);
+        const remaining = backups.filter(b => b.id !== backupId);
+
+        if (remaining.length === 0) {
+            await localforage.removeItem(key);
+        } else {
+            await localforage.setItem(key, {
+                characterName: character.name,
+                characterAvatar: character.avatar,
+                backups: remaining,
+                savedAt: Date.now(),
+            } as StoredBackups);
+        }
+
+        debugLog('info', 'Card backup deleted', { key, backupId });
+        return true;
+    } catch (e) {
+        logError('Failed to delete card backup', { key, backupId, error: e });
+        return false;
+    }
+}
+
+// ============================================================================
+// BATCH RUNS
+// ============================================================================
+
+const BATCH_RUN_PREFIX = `${MODULE_NAME}_batchrun_`;
+const BATCH_RESULT_PREFIX = `${MODULE_NAME}_batchresult_`;
+
+function getBatchResultKey(runId: string, avatar: string): string {
+    return `${BATCH_RESULT_PREFIX}${runId}_${hashString(avatar)}`;
+}
+
+/**
+ * Save a batch run (status and per-character summary, not the results)
+ */
+export async function saveBatchRun(run: BatchRun): Promise<boolean> {
+    const { localforage } = SillyTavern.libs;
+    const key = `${BATCH_RUN_PREFIX}${run.id}`;
+
+    try {
+        await localforage.setItem(key, { ...run, updatedAt: Date.now() });
+        return true;
+    } catch (e) {
+        logError('Failed to save batch run', { key, error: e });
+        return false;
+    }
+}
+
+/**
+ * Load all batch runs, newest first.
+ * Runs only execute while the batch popup is open, so a run still stored as running was cut off
+ * by a reload or a closed tab - it's loaded (and saved) as paused, with its current item back to pending.
+ */
+export async function loadBatchRuns(): Promise<BatchRun[]> {
+    const { localforage } = SillyTavern.libs;
+
+    try {
+        const keys = (await localforage.keys()).filter((key: string) => key.startsWith(BATCH_RUN_PREFIX));
+        const runs: BatchRun[] = [];
+
+        for (const key of keys) {
+            const run = await localforage.getItem(key) as BatchRun | null;
+            if (!run) continue;
+
+            if (run.status === 'running') {
+                pauseInterruptedRun(run);
+                await localforage.setItem(key, run);
+                debugLog('info', 'Interrupted batch run paused', { id: run.id });
+            }
+
+            runs.push(run);
+        }
+
+        return runs.sort((a, b) => b.createdAt - a.createdAt);
+    } catch (e) {
+        logError('Failed to load batch runs', { error: e });
+        return [];
+    }
+}
+
+function pauseInterruptedRun(run: BatchRun): void {
+    run.status = 'paused';
+
+    for (const item of run.items) {
+        if (item.status === 'running') {
+            item.status = 'pending';
+        }
+    }
+}
+
+/**
+ * Delete a batch run and all of its stored results
+ */
+export async function deleteBatchRun(runId: string): Promise<boolean> {
+    const { localforage } = SillyTavern.libs;
+
+    try {
+        const keys = (await localforage.keys()).filter((key: string) =>
+            key === `${BATCH_RUN_PREFIX}${runId}` || key.startsWith(`${BATCH_RESULT_PREFIX}${runId}_`),
+        );
+
+        for (const key of keys) {
+            await localforage.removeItem(key);
+        }
+
+        debugLog('info', 'Batch run deleted', { runId, keysRemoved: keys.length });
+        return true;
+    } catch (e) {
+        logError('Failed to delete batch run', { runId, error: e });
+        return false;
+    }
+}
+
+/**
+ * Drop the oldest finished runs beyond MAX_BATCH_RUNS. Paused runs are kept so they can be resumed.
+ */
+export async function pruneBatchRuns(): Promise<number> {
+    const finished = (await loadBatchRuns()).filter(r => r.status === 'complete' || r.status === 'cancelled');
+    const excess = finished.slice(MAX_BATCH_RUNS);
+
+    for (const run of excess) {
+        await deleteBatchRun(run.id);
+    }
+
+    return excess.length;
+}
+
+/**
+ * Save the stage results for one character in a batch run
+ */
+export async function saveBatchItemResult(runId: string, result: BatchItemResult): Promise<boolean> {
+    const { localforage } = SillyTavern.libs;
+    const key = getBatchResultKey(runId, result.avatar);
+
+    try {
+        await localforage.setItem(key, result);
+        return true;
+    } catch (e) {
+        logError('Failed to save batch result', { key, error: e });
+        return false;
+    }
+}
+
+/**
+ * Load the stage results for one character in a batch run
+ */
+export async function loadBatchItemResult(runId: string, avatar: string): Promise<BatchItemResult | null> {
+    const { localforage } = SillyTavern.libs;
+    const key = getBatchResultKey(runId, avatar);
+
+    try {
+        const data = await localforage.getItem(key) as BatchItemResult | null;
+        return data && data.avatar === avatar ? data : null;
+    } catch (e) {
+        logError('Failed to load batch result', { key, error: e });
+        return null;
+    }
+}
+
+// ============================================================================
+// CHARACTER USAGE
+// ============================================================================
+
+const USAGE_PREFIX = `${MODULE_NAME}_usage_`;
+
+// Writes are read-modify-write, so a batch and the popup recording at once mustn't interleave
+let usageWrites: Promise<unknown> = Promise.resolve();
+
+/**
+ * Usage key for a character - by ID like sessions, by avatar for cards without one
+ */
+function getCharacterUsageKey(character: Character): string {
+    const id = getCharacterId(character);
+    return id ? `${USAGE_PREFIX}id_${id}` : getAvatarUsageKey(character);
+}
+
+function getAvatarUsageKey(character: Character): string {
+    return `${USAGE_PREFIX}${hashString(character.avatar)}`;
+}
+
+/**
+ * Everything spent on a character across sessions, resets and batch runs
+ */
+export async function loadCharacterUsage(character: Character): Promise<UsageLedger> {
+    const { localforage } = SillyTavern.libs;
+    const key = getCharacterUsageKey(character);
+
+    try {
+        return (await localforage.getItem(key) as UsageLedger | null) ?? {};
+    } catch (e) {
+        logError('Failed to load character usage', { key, error: e });
+        return {};
+    }
+}
+
+/**
+ * Add a generation's usage to the character's ledger. Returns the updated ledger, or null if it couldn't be saved.
+ */
+export async function recordCharacterUsage(
+    character: Character,
+    bucket: string,
+    usage: TokenUsage | undefined,
+): Promise<UsageLedger | null> {
+    if (!usage) return null;
+
+    const { localforage } = SillyTavern.libs;
+    const key = getCharacterUsageKey(character);
+
+    const write = usageWrites.then(async () => {
+        try {
+            const ledger = addToLedger(await loadCharacterUsage(character), bucket, usage);
+            await localforage.setItem(key, ledger);
+            return ledger;
+        } catch (e) {
+            logError('Failed to save character usage', { key, error: e });
+            return null;
+        }
+    });
+
+    usageWrites = write;
+    return write;
+}
+
+/**
+ * Fold the ledger kept under a card's avatar into its ID ledger
+ */
+async function moveCharacterUsage(character: Character): Promise<void> {
+    const { localforage } = SillyTavern.libs;
+    const key = getCharacterUsageKey(character);
+    const avatarKey = getAvatarUsageKey(character);
+    if (key === avatarKey) return;
+
+    const write = usageWrites.then(async () => {
+        try {
+            const old = await localforage.getItem(avatarKey) as UsageLedger | null;
+            if (!old) return;
+
+            const ledger = await loadCharacterUsage(character);
+            for (const [bucket, entries] of Object.entries(old)) {
+                ledger[bucket] = [...(ledger[bucket] ?? []), ...entries];
+            }
+
+            await localforage.setItem(key, ledger);
+            await localforage.removeItem(avatarKey);
+        } catch (e) {
+            logError('Failed to move character usage', { key, error: e });
+        }
+    });
+
+    usageWrites = write;
+    await write;
+}
+
+// ============================================================================
+// RESPONSE CACHE
+// ============================================================================
+
+const CACHE_PREFIX = `${MODULE_NAME}_cache_`;
+const CACHE_INDEX_KEY = `${MODULE_NAME}_cacheindex`;
+
+// Hash -> storedAt, so the size limit can be enforced without reading every entry
+type CacheIndex = Record<string, number>;
+
+/**
+ * Cache key for a request. The request text covers everything that affects the response.
+ */
+export function getCacheKey(request: string): string {
+    return `${CACHE_PREFIX}${hashString53(request)}_${request.length.toString(36)}`;
+}
+
+/**
+ * Look up a cached response. Expired entries are removed and reported as misses.
+ */
+export async function getCachedResponse(key: string, ttlMs: number): Promise<CachedResponse | null> {
+    const { localforage } = SillyTavern.libs;
+
+    try {
+        const entry = await localforage.getItem(key) as CachedResponse | null;
+        if (!entry) return null;
+
+        if (Date.now() - entry.storedAt > ttlMs) {
+            await removeCacheEntries([key]);
+            debugLog('info', 'Cached response expired', { key });
+            return null;
+        }
+
+        return entry;
+    } catch (e) {
+        logError('Failed to read cached response', { key, error: e });
+        return null;
+    }
+}
+
+/**
+ * Store a response, dropping the oldest entries beyond maxEntries
+ */
+export async function saveCachedResponse(key: string, entry: CachedResponse, maxEntries: number): Promise<boolean> {
+    const { localforage } = SillyTavern.libs;
+
+    try {
+        await localforage.setItem(key, entry);
+
+        const index = await loadCacheIndex();
+        index[key] = entry.storedAt;
+        await localforage.setItem(CACHE_INDEX_KEY, index);
+
+        const excess = Object.entries(index)
+            .sort(([, a], [, b]) => b - a)
+            .slice(Math.max(maxEntries, 1))
+            .map(([k]) => k);
+
+        if (excess.length > 0) {
+            await removeCacheEntries(excess);
+        }
+
+        return true;
+    } catch (e) {
+        logError('Failed to cache response', { key, error: e });
+        return false;
+    }
+}
+
+/**
+ * Number of cached responses
+ */
+export async function getResponseCacheCount(): Promise<number> {
+    return Object.keys(await loadCacheIndex()).length;
+}
+
+/**
+ * Remove every cached response. Returns how many were removed.
+ */
+export async function clearResponseCache(): Promise<number> {
+    const { localforage } = SillyTavern.libs;
+
+    try {
+        const keys = (await localforage.keys()).filter((key: string) => key.startsWith(CACHE_PREFIX));
+        for (const key of keys) {
+            await localforage.removeItem(key);
+        }
+        await localforage.removeItem(CACHE_INDEX_KEY);
+
+        debugLog('info', 'Response cache cleared', { count: keys.length });
+        return keys.length;
+    } catch (e) {
+        logError('Failed to clear response cache', e);
+        return 0;
+    }
+}
+
+async function loadCacheIndex(): Promise<CacheIndex> {
+    const { localforage } = SillyTavern.libs;
+    return (await localforage.getItem(CACHE_INDEX_KEY) as CacheIndex | null) ?? {};
+}
+
+async function removeCacheEntries(keys: string[]): Promise<void> {
+    const { localforage } = SillyTavern.libs;
+
+    const index = await loadCacheIndex();
+    for (const key of keys) {
+        await localforage.removeItem(key);
+        delete index[key];
+    }
+    await localforage.setItem(CACHE_INDEX_KEY, index);
+}
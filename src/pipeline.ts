@@ -14,12 +14,25 @@ import type {
     IterationSnapshot,
     IterationVerdict,
     FieldSelection,
+    AutoIterateConfig,
+    AutoIterateStopReason,
+    SerializedPipelineState,
+    VerdictRules,
+    TokenUsage,
+    UsageLedger,
 } from './types';
-import { STAGES, CHARACTER_FIELDS, MAX_ITERATION_HISTORY } from './constants';
+import { CHARACTER_FIELDS, MAX_ITERATION_HISTORY, DEFAULT_VERDICT_RULES } from './constants';
 import { createStageConfigFromDefaults, resolvePrompt, resolveSchema, processPromptTemplate, promptHasPlaceholders } from './presets';
-import { getFullRefinementInstructions } from './settings';
+import type { TemplateContext } from './presets';
+import { getSettings, getFullRefinementInstructions, getPromptPreset } from './settings';
+import { parseStructuredResponse } from './schema';
 import { debugLog, logError } from './debug';
-import { getPopulatedFields, buildCharacterSummaryFromSelection } from './character';
+import { getPopulatedFields, buildCharacterSummaryFromSelection, buildTemplateCollections, buildTemplateCardData } from './character';
+import { getStageOrder, getStageLabel, getStageInputs, isBuiltinStage, stageExists } from './stages';
+import { addToLedger, flattenLedger, summarizeUsage, formatUsageTotals, formatCost } from './usage';
+
+// Usage ledger entry for refinement generations
+export const REFINEMENT_USAGE_KEY = 'refinement';
 
 // ============================================================================
 // PIPELINE STATE FACTORY
@@ -29,35 +42,28 @@ import { getPopulatedFields, buildCharacterSummaryFromSelection } from './charac
  * Create a fresh pipeline state
  */
 export function createPipelineState(): PipelineState {
+    const stages = getStageOrder();
+
     return {
         character: null,
         characterIndex: null,
 
-        results: {
-            score: null,
-            rewrite: null,
-            analyze: null,
-        },
+        results: Object.fromEntries(stages.map(s => [s, null])),
 
-        configs: {
-            score: createStageConfigFromDefaults('score'),
-            rewrite: createStageConfigFromDefaults('rewrite'),
-            analyze: createStageConfigFromDefaults('analyze'),
-        },
+        configs: Object.fromEntries(stages.map(s => [s, createStageConfigFromDefaults(s)])),
 
         selectedStages: ['score', 'rewrite'],
         currentStage: null,
-        stageStatus: {
-            score: 'pending',
-            rewrite: 'pending',
-            analyze: 'pending',
-        },
+        stageStatus: Object.fromEntries(stages.map(s => [s, 'pending' as StageStatus])),
 
         iterationCount: 0,
         iterationHistory: [],
         isRefining: false,
 
         selectedFields: {},
+        rejectedFields: [],
+
+        usage: {},
 
         exportData: null,
     };
@@ -79,6 +85,25 @@ export function resetPipeline(state: PipelineState, keepCharacter: boolean = fal
     return fresh;
 }
 
+/**
+ * Bring state in line with the current stage list after custom stages are added or deleted.
+ * New stages get default configs; deleted stages are dropped everywhere.
+ */
+export function syncPipelineStages(state: PipelineState): PipelineState {
+    const stages = getStageOrder();
+    const keep = <T>(record: Record<StageName, T>, fallback: (stage: StageName) => T): Record<StageName, T> =>
+        Object.fromEntries(stages.map(s => [s, s in record ? record[s] : fallback(s)]));
+
+    return {
+        ...state,
+        results: keep(state.results, () => null),
+        configs: keep(state.configs, createStageConfigFromDefaults),
+        stageStatus: keep(state.stageStatus, () => 'pending'),
+        selectedStages: stages.filter(s => state.selectedStages.includes(s)),
+        currentStage: state.currentStage && stages.includes(state.currentStage) ? state.currentStage : null,
+    };
+}
+
 // ============================================================================
 // FIELD SELECTION
 // ============================================================================
@@ -155,20 +180,14 @@ export function setCharacter(state: PipelineState, character: Character | null,
         return state;
     }
 
+    const stages = getStageOrder();
+
     const newState: PipelineState = {
         ...state,
         character,
         characterIndex: index,
-        results: {
-            score: null,
-            rewrite: null,
-            analyze: null,
-        },
-        stageStatus: {
-            score: 'pending',
-            rewrite: 'pending',
-            analyze: 'pending',
-        },
+        results: Object.fromEntries(stages.map(s => [s, null])),
+        stageStatus: Object.fromEntries(stages.map(s => [s, 'pending' as StageStatus])),
         currentStage: null,
         iterationCount: 0,
         iterationHistory: [],
@@ -202,8 +221,8 @@ export function toggleStage(state: PipelineState, stage: StageName): PipelineSta
         selected.add(stage);
     }
 
-    // Maintain order based on STAGES constant
-    const orderedSelected = STAGES.filter(s => selected.has(s));
+    // Maintain pipeline order
+    const orderedSelected = getStageOrder().filter(s => selected.has(s));
 
     debugLog('state', 'Stage toggled', { stage, selected: orderedSelected });
 
@@ -217,7 +236,7 @@ export function toggleStage(state: PipelineState, stage: StageName): PipelineSta
  * Set all selected stages at once
  */
 export function setSelectedStages(state: PipelineState, stages: StageName[]): PipelineState {
-    const orderedSelected = STAGES.filter(s => stages.includes(s));
+    const orderedSelected = getStageOrder().filter(s => stages.includes(s));
 
     return {
         ...state,
@@ -231,7 +250,7 @@ export function setSelectedStages(state: PipelineState, stages: StageName[]): Pi
 export function selectAllStages(state: PipelineState): PipelineState {
     return {
         ...state,
-        selectedStages: [...STAGES],
+        selectedStages: getStageOrder(),
     };
 }
 
@@ -271,8 +290,20 @@ export function canRunStage(state: PipelineState, stage: StageName): { canRun: b
             }
             return { canRun: true };
 
-        default:
-            return { canRun: false, reason: 'Unknown stage' };
+        default: {
+            if (!stageExists(stage)) {
+                return { canRun: false, reason: 'Unknown stage' };
+            }
+
+            const waiting = getStageInputs(stage).filter(s => state.selectedStages.includes(s) && !state.results[s]);
+            if (waiting.length > 0) {
+                return {
+                    canRun: true,
+                    reason: `${waiting.map(getStageLabel).join(', ')} not complete - ${getStageLabel(stage)} will run without those results`,
+                };
+            }
+            return { canRun: true };
+        }
     }
 }
 
@@ -390,6 +421,8 @@ export function completeStage(
             [stage]: stageResult,
         },
         isRefining,
+        // Field decisions belong to the rewrite they were made on
+        rejectedFields: stage === 'rewrite' ? [] : state.rejectedFields,
     };
 }
 
@@ -489,36 +522,101 @@ export function clearStageResult(state: PipelineState, stage: StageName): Pipeli
 // ITERATION SYSTEM
 // ============================================================================
 
+// Values of the structured `verdict` field
+const STRUCTURED_VERDICTS: Record<string, IterationVerdict> = {
+    ACCEPT: 'accept',
+    NEEDS_REFINEMENT: 'needs_refinement',
+    REGRESSION: 'regression',
+};
+
 /**
- * Extract verdict from analysis response
+ * Get the free-text verdict rules for the analyze stage's current prompt preset
  */
-export function extractVerdict(analysisResponse: string): IterationVerdict {
-    const upper = analysisResponse.toUpperCase();
+export function getVerdictRules(state: PipelineState): VerdictRules {
+    const presetId = state.configs.analyze?.promptPresetId;
+    const preset = presetId ? getPromptPreset(presetId) : null;
+    return preset?.verdictRules ?? DEFAULT_VERDICT_RULES;
+}
 
-    if (upper.includes('VERDICT') || upper.includes('"VERDICT"')) {
-        if (upper.includes('ACCEPT') && !upper.includes('NEEDS')) {
-            return 'accept';
-        }
-        if (upper.includes('REGRESSION')) {
-            return 'regression';
-        }
-        if (upper.includes('NEEDS_REFINEMENT') || upper.includes('NEEDS REFINEMENT')) {
-            return 'needs_refinement';
-        }
+/**
+ * Extract the verdict from an analysis response.
+ * Structured responses are read from their `verdict` field; free text uses the rules, even if
+ * it quotes a JSON example. Returns 'unknown' rather than guessing when neither gives an answer.
+ */
+export function extractVerdict(
+    analysisResponse: string,
+    isStructured: boolean,
+    rules: VerdictRules = DEFAULT_VERDICT_RULES,
+): IterationVerdict {
+    const structured = isStructured ? readStructuredAnalysis(analysisResponse) : null;
+    if (typeof structured?.verdict === 'string') {
+        const key = structured.verdict.trim().toUpperCase().replace(/[\s-]+/g, '_');
+        return STRUCTURED_VERDICTS[key] ?? 'unknown';
     }
 
-    if (upper.includes('READY TO USE') || upper.includes('NO MORE ITERATIONS')) {
-        return 'accept';
-    }
-    if (upper.includes('WORSE THAN') || upper.includes('STEP BACKWARD') || upper.includes('LOST MORE')) {
-        return 'regression';
+    const candidates: Array<[IterationVerdict, string]> = [
+        ['accept', rules.accept],
+        ['needs_refinement', rules.needsRefinement],
+        ['regression', rules.regression],
+    ];
+
+    let verdict: IterationVerdict = 'unknown';
+    let earliest = Infinity;
+
+    for (const [candidate, pattern] of candidates) {
+        const match = compileVerdictRule(pattern)?.exec(analysisResponse);
+        if (match && match.index < earliest) {
+            verdict = candidate;
+            earliest = match.index;
+        }
     }
 
-    if (upper.includes('ISSUE') || upper.includes('PROBLEM') || upper.includes('SHOULD FIX')) {
-        return 'needs_refinement';
+    return verdict;
+}
+
+/**
+ * Extract the soul preservation score (1-10) from an analysis response, if present.
+ * Structured responses are read from `soulPreservationScore`; free text uses the score rule.
+ */
+export function extractScore(
+    analysisResponse: string,
+    isStructured: boolean,
+    rules: VerdictRules = DEFAULT_VERDICT_RULES,
+): number | null {
+    let score: number | null = null;
+
+    const structured = isStructured ? readStructuredAnalysis(analysisResponse) : null;
+    if (typeof structured?.soulPreservationScore === 'number') {
+        score = structured.soulPreservationScore;
+    } else {
+        const match = compileVerdictRule(rules.score)?.exec(analysisResponse);
+        const captured = match?.slice(1).find(group => group !== undefined) ?? match?.[0];
+        if (captured) {
+            score = parseFloat(captured);
+        }
     }
 
-    return 'needs_refinement';
+    if (score === null || isNaN(score)) return null;
+    return Math.min(10, Math.max(0, score));
+}
+
+/**
+ * Parse a structured analysis response as a JSON object
+ */
+function readStructuredAnalysis(analysisResponse: string): Record<string, unknown> | null {
+    const data = parseStructuredResponse(analysisResponse)?.data;
+    return data && typeof data === 'object' && !Array.isArray(data) ? data as Record<string, unknown> : null;
+}
+
+function compileVerdictRule(pattern: string): RegExp | null {
+    if (!pattern.trim()) return null;
+
+    try {
+        return new RegExp(pattern, 'i');
+    } catch (e) {
+        logError('Invalid verdict rule', { pattern, error: e });
+        return null;
+    }
 }
 
 /**
@@ -529,7 +627,9 @@ export function createIterationSnapshot(state: PipelineState): IterationSnapshot
         return null;
     }
 
-    const verdict = extractVerdict(state.results.analyze.response);
+    const rules = getVerdictRules(state);
+    const { response, isStructured } = state.results.analyze;
+    const verdict = extractVerdict(response, isStructured, rules);
 
     return {
         iteration: state.iterationCount,
@@ -538,6 +638,9 @@ export function createIterationSnapshot(state: PipelineState): IterationSnapshot
         analysisResponse: state.results.analyze.response,
         analysisPreview: state.results.analyze.response.substring(0, 200),
         verdict,
+        score: extractScore(response, isStructured, rules),
+        rewriteUsage: state.results.rewrite.usage,
+        analysisUsage: state.results.analyze.usage,
         timestamp: Date.now(),
     };
 }
@@ -609,6 +712,7 @@ export function completeRefinement(
             rewrite: 'complete',
             analyze: 'pending',
         },
+        rejectedFields: [],
     };
 }
 
@@ -651,6 +755,7 @@ export function revertToIteration(state: PipelineState, iterationIndex: number):
         iterationCount: snapshot.iteration,
         iterationHistory: trimmedHistory,
         isRefining: true,
+        rejectedFields: [],
     };
 }
 
@@ -677,6 +782,84 @@ export function acceptRewrite(state: PipelineState): PipelineState {
     };
 }
 
+/**
+ * Accept or reject a single rewritten field (diff key) for write-back
+ */
+export function setFieldRejected(state: PipelineState, diffKey: string, rejected: boolean): PipelineState {
+    const without = state.rejectedFields.filter(k => k !== diffKey);
+
+    debugLog('state', 'Field decision changed', { diffKey, rejected });
+
+    return {
+        ...state,
+        rejectedFields: rejected ? [...without, diffKey] : without,
+    };
+}
+
+// ============================================================================
+// AUTO-ITERATE
+// ============================================================================
+
+const VERDICT_RANK: Record<IterationVerdict, number> = {
+    accept: 3,
+    needs_refinement: 2,
+    unknown: 1,
+    regression: 0,
+};
+
+/**
+ * Find the best snapshot in history (by verdict, then score, then most recent).
+ * Returns -1 if history is empty.
+ */
+export function findBestIteration(history: IterationSnapshot[]): number {
+    let best = -1;
+
+    history.forEach((snap, i) => {
+        if (best === -1) {
+            best = i;
+            return;
+        }
+
+        const current = history[best];
+        const rankDiff = VERDICT_RANK[snap.verdict] - VERDICT_RANK[current.verdict];
+        const scoreDiff = (snap.score ?? -1) - (current.score ?? -1);
+
+        if (rankDiff > 0 || (rankDiff === 0 && scoreDiff >= 0)) {
+            best = i;
+        }
+    });
+
+    return best;
+}
+
+/**
+ * Decide whether the auto-iterate loop should stop after an analysis.
+ * `refinements` is the number of refinements done in this run. Returns null to keep going.
+ * The token budget is checked by the caller, since counting is async.
+ */
+export function getAutoIterateStopReason(
+    state: PipelineState,
+    config: AutoIterateConfig,
+    refinements: number,
+): AutoIterateStopReason | null {
+    const analysis = state.results.analyze;
+    if (!analysis?.response) return null;
+
+    const rules = getVerdictRules(state);
+    const verdict = extractVerdict(analysis.response, analysis.isStructured, rules);
+    if (verdict === 'accept') return 'accepted';
+    if (verdict === 'regression' && config.revertOnRegression) return 'regression';
+
+    const score = extractScore(analysis.response, analysis.isStructured, rules);
+    if (config.scoreThreshold !== null && score !== null && score >= config.scoreThreshold) {
+        return 'score_threshold';
+    }
+
+    if (refinements >= config.maxIterations) return 'max_iterations';
+
+    return null;
+}
+
 // ============================================================================
 // PROMPT BUILDING
 // ============================================================================
@@ -701,45 +884,48 @@ export function buildStagePrompt(state: PipelineState, stage: StageName): string
         state.selectedFields,
     );
 
-    // Build context for placeholder substitution
-    const { name1 } = SillyTavern.getContext();
-    const context = {
-        originalCharacter: characterSummary,
-        scoreResults: state.results.score?.response || '',
-        rewriteResults: state.results.rewrite?.response || '',
-        currentRewrite: state.results.rewrite?.response || '',
-        currentAnalysis: state.results.analyze?.response || '',
-        iterationNumber: String(state.iterationCount + 1),
-        charName: state.character.name,
-        userName: name1 || 'User',
-    };
-
     // Substitute any placeholders in user's prompt
-    const processedUserPrompt = processPromptTemplate(userPrompt, context);
+    const processedUserPrompt = processPromptTemplate(userPrompt, buildTemplateContext(state, characterSummary));
 
     // Build data sections, SKIPPING what user already included via placeholders
     const dataSections: string[] = [];
 
-    // Character data (always needed for all stages)
-    if (!usedPlaceholders.includes('ORIGINAL_CHARACTER')) {
+    // Character data (always needed for all stages), unless the prompt places it or picks its own parts
+    if (!usesCharacterPlaceholders(usedPlaceholders)) {
         dataSections.push(`## Character\n\n${characterSummary}`);
     }
 
-    // Score results (for rewrite and analyze stages)
-    if (stage !== 'score' && state.results.score?.response) {
-        if (!usedPlaceholders.includes('SCORE_RESULTS')) {
-            dataSections.push(`## Score Feedback\n\n${state.results.score.response}`);
-        }
-    }
+    // Results of earlier stages this stage reads
+    for (const input of getStageInputs(stage)) {
+        const response = state.results[input]?.response;
+        if (!response) continue;
+
+        switch (input) {
+            case 'score':
+                if (!usedPlaceholders.includes('SCORE_RESULTS')) {
+                    dataSections.push(`## Score Feedback\n\n${response}`);
+                }
+                break;
+
+            case 'rewrite': {
+                const hasRewritePlaceholder =
+                    usedPlaceholders.includes('REWRITE_RESULTS') ||
+                    usedPlaceholders.includes('CURRENT_REWRITE');
+
+                if (!hasRewritePlaceholder) {
+                    dataSections.push(`## Rewritten Version\n\n${response}`);
+                }
+                break;
+            }
 
-    // Rewrite results (for analyze stage)
-    if (stage === 'analyze' && state.results.rewrite?.response) {
-        const hasRewritePlaceholder =
-            usedPlaceholders.includes('REWRITE_RESULTS') ||
-            usedPlaceholders.includes('CURRENT_REWRITE');
+            case 'analyze':
+                if (!usedPlaceholders.includes('CURRENT_ANALYSIS')) {
+                    dataSections.push(`## Analysis\n\n${response}`);
+                }
+                break;
 
-        if (!hasRewritePlaceholder) {
-            dataSections.push(`## Rewritten Version\n\n${state.results.rewrite.response}`);
+            default:
+                dataSections.push(`## ${getStageLabel(input)} Results\n\n${response}`);
         }
     }
 
@@ -778,25 +964,13 @@ export function buildRefinementPrompt(state: PipelineState): string | null {
         state.selectedFields,
     );
 
-    const { name1 } = SillyTavern.getContext();
-    const context = {
-        originalCharacter: characterSummary,
-        scoreResults: state.results.score?.response || '',
-        rewriteResults: state.results.rewrite.response,
-        currentRewrite: state.results.rewrite.response,
-        currentAnalysis: state.results.analyze.response,
-        iterationNumber: String(state.iterationCount + 1),
-        charName: state.character.name,
-        userName: name1 || 'User',
-    };
-
     // Substitute placeholders
-    const processedUserPrompt = processPromptTemplate(userPrompt, context);
+    const processedUserPrompt = processPromptTemplate(userPrompt, buildTemplateContext(state, characterSummary));
 
     // Build data sections with deduplication
     const dataSections: string[] = [];
 
-    if (!usedPlaceholders.includes('ORIGINAL_CHARACTER')) {
+    if (!usesCharacterPlaceholders(usedPlaceholders)) {
         dataSections.push(`## Original Character (Ground Truth)\n\n${characterSummary}`);
     }
 
@@ -831,6 +1005,39 @@ export function buildRefinementPrompt(state: PipelineState): string | null {
     return parts.join('');
 }
 
+/**
+ * Placeholder values for the current state. Takes the character summary when the caller
+ * has already built it.
+ */
+export function buildTemplateContext(
+    state: PipelineState,
+    characterSummary?: string,
+): TemplateContext {
+    if (!state.character) return {};
+
+    const { name1 } = SillyTavern.getContext();
+    return {
+        originalCharacter: characterSummary ?? buildCharacterSummaryFromSelection(state.character, state.selectedFields),
+        scoreResults: state.results.score?.response || '',
+        rewriteResults: state.results.rewrite?.response || '',
+        currentRewrite: state.results.rewrite?.response || '',
+        currentAnalysis: state.results.analyze?.response || '',
+        iterationNumber: String(state.iterationCount + 1),
+        charName: state.character.name,
+        userName: name1 || 'User',
+        ...buildTemplateCollections(state.character, state.selectedFields),
+        card: buildTemplateCardData(state.character),
+    };
+}
+
+/**
+ * Whether a prompt supplies its own character data - the whole summary, or the fields,
+ * greetings and lorebook entries it picks - so the full summary isn't added again
+ */
+function usesCharacterPlaceholders(usedPlaceholders: string[]): boolean {
+    return ['ORIGINAL_CHARACTER', 'FIELD', 'GREETING', 'LORE_ENTRY'].some(p => usedPlaceholders.includes(p));
+}
+
 /**
  * Get the schema for a stage (if structured output is enabled)
  */
@@ -844,9 +1051,10 @@ export function getStageSchema(state: PipelineState, stage: StageName): Structur
 // ============================================================================
 
 /**
- * Generate export data from pipeline results
+ * Generate export data from pipeline results. characterUsage is everything spent on the
+ * character so far, listed under the session's usage.
  */
-export function generateExportData(state: PipelineState): string | null {
+export function generateExportData(state: PipelineState, characterUsage?: UsageLedger): string | null {
     if (!state.results.rewrite || !state.character) {
         return null;
     }
@@ -877,6 +1085,8 @@ export function generateExportData(state: PipelineState): string | null {
     }
     exportLines.push('');
 
+    exportLines.push(...buildUsageExportLines(state, characterUsage));
+
     // Results
     if (state.results.score) {
         exportLines.push('---');
@@ -905,6 +1115,18 @@ export function generateExportData(state: PipelineState): string | null {
         exportLines.push('');
     }
 
+    for (const stage of getStageOrder().filter(s => !isBuiltinStage(s))) {
+        const result = state.results[stage];
+        if (!result) continue;
+
+        exportLines.push('---');
+        exportLines.push('');
+        exportLines.push(`## ${getStageLabel(stage)} Results`);
+        exportLines.push('');
+        exportLines.push(result.response);
+        exportLines.push('');
+    }
+
     // Iteration history
     if (state.iterationHistory.length > 0) {
         exportLines.push('---');
@@ -915,6 +1137,10 @@ export function generateExportData(state: PipelineState): string | null {
         for (const snap of state.iterationHistory) {
             exportLines.push(`### Iteration ${snap.iteration + 1} - ${snap.verdict.toUpperCase()}`);
             exportLines.push(`*${moment(snap.timestamp).format('YYYY-MM-DD HH:mm:ss')}*`);
+            if (snap.rewriteUsage || snap.analysisUsage) {
+                const totals = summarizeUsage([snap.rewriteUsage, snap.analysisUsage], getSettings().modelPrices);
+                exportLines.push(`*Tokens: ${formatUsageTotals(totals)}*`);
+            }
             exportLines.push('');
             exportLines.push('#### Rewrite');
             exportLines.push('');
@@ -930,6 +1156,40 @@ export function generateExportData(state: PipelineState): string | null {
     return exportLines.join('\n');
 }
 
+/**
+ * Token usage table for the export: one row per stage, the session total, then the character's total
+ */
+function buildUsageExportLines(state: PipelineState, characterUsage: UsageLedger = {}): string[] {
+    const buckets = Object.entries(state.usage).filter(([, usages]) => usages.length > 0);
+    const allSessions = flattenLedger(characterUsage);
+    if (buckets.length === 0 && allSessions.length === 0) return [];
+
+    const prices = getSettings().modelPrices;
+    const row = (label: string, usages: TokenUsage[]) => {
+        const totals = summarizeUsage(usages, prices);
+        const priced = usages.length - totals.unpricedModels.length;
+        const cost = priced === 0 ? 'n/a' : `${formatCost(totals.cost)}${priced < usages.length ? '+' : ''}`;
+        return `| ${label} | ${usages.map(u => u.model || u.source).join(', ')} | ${totals.promptTokens.toLocaleString()} | ${totals.completionTokens.toLocaleString()} | ${cost} |`;
+    };
+
+    const lines = [
+        '## Token Usage',
+        '',
+        '| Stage | Models | Prompt | Completion | Cost |',
+        '| --- | --- | ---: | ---: | ---: |',
+        ...buckets.map(([bucket, usages]) => row(getUsageLabel(bucket), usages)),
+        row('**Total**', flattenLedger(state.usage)),
+        ...(allSessions.length > 0 ? [row('**All sessions**', allSessions)] : []),
+        '',
+    ];
+
+    if ([...flattenLedger(state.usage), ...allSessions].some(u => u.estimated)) {
+        lines.push('*Some counts are estimated with the local tokenizer.*', '');
+    }
+
+    return lines;
+}
+
 /**
  * Set export data in state
  */
@@ -942,6 +1202,28 @@ export function setExportData(state: PipelineState): PipelineState {
     };
 }
 
+// ============================================================================
+// TOKEN USAGE
+// ============================================================================
+
+/**
+ * Add a generation's usage to the session ledger, under its stage or REFINEMENT_USAGE_KEY
+ */
+export function recordUsage(state: PipelineState, bucket: StageName, usage: TokenUsage | undefined): PipelineState {
+    if (!usage) return state;
+
+    debugLog('state', 'Usage recorded', { bucket, ...usage });
+
+    return {
+        ...state,
+        usage: addToLedger(state.usage, bucket, usage),
+    };
+}
+
+export function getUsageLabel(bucket: string): string {
+    return bucket === REFINEMENT_USAGE_KEY ? 'Refinement' : getStageLabel(bucket);
+}
+
 // ============================================================================
 // PIPELINE NAVIGATION
 // ============================================================================
@@ -1019,8 +1301,8 @@ export function getPipelineSummary(state: PipelineState): {
     isRefining: boolean;
     lastVerdict: IterationVerdict | null;
 } {
-    const completedStages = STAGES.filter(s => state.stageStatus[s] === 'complete');
-    const lockedStages = STAGES.filter(s => state.results[s]?.locked);
+    const completedStages = getStageOrder().filter(s => state.stageStatus[s] === 'complete');
+    const lockedStages = getStageOrder().filter(s => state.results[s]?.locked);
 
     const lastSnapshot = state.iterationHistory.length > 0
         ? state.iterationHistory[state.iterationHistory.length - 1]
@@ -1176,9 +1458,9 @@ export function validateRefinement(state: PipelineState): PipelineValidation {
 /**
  * Serialize pipeline state to JSON-safe object
  */
-export function serializePipelineState(state: PipelineState): Record<string, unknown> {
-    return {
-        characterIndex: state.characterIndex,
+export function serializePipelineState(state: PipelineState): SerializedPipelineState {
+    return structuredClone({
+        characterAvatar: state.character?.avatar ?? null,
         results: state.results,
         configs: state.configs,
         selectedStages: state.selectedStages,
@@ -1187,35 +1469,52 @@ export function serializePipelineState(state: PipelineState): Record<string, unk
         iterationHistory: state.iterationHistory,
         isRefining: state.isRefining,
         selectedFields: state.selectedFields,
+        rejectedFields: state.rejectedFields,
+        usage: state.usage,
         exportData: state.exportData,
-    };
+    });
 }
 
 /**
- * Deserialize pipeline state
+ * Deserialize pipeline state. The character is looked up by avatar;
+ * returns null if it no longer exists.
  */
 export function deserializePipelineState(
-    data: Record<string, unknown>,
+    data: SerializedPipelineState,
     characters: Character[],
 ): PipelineState | null {
     try {
-        const characterIndex = data.characterIndex as number | null;
-        const character = characterIndex !== null ? characters[characterIndex] : null;
-
-        return {
-            character,
-            characterIndex,
-            results: data.results as PipelineState['results'],
-            configs: data.configs as PipelineState['configs'],
-            selectedStages: data.selectedStages as StageName[],
+        const characterIndex = data.characterAvatar !== null
+            ? characters.findIndex(c => c?.avatar === data.characterAvatar)
+            : -1;
+
+        if (data.characterAvatar !== null && characterIndex === -1) {
+            debugLog('info', 'Saved session character not found', { avatar: data.characterAvatar });
+            return null;
+        }
+
+        // A save taken mid-generation has nothing to show for the running stage
+        const stageStatus = Object.fromEntries(
+            Object.entries(data.stageStatus || {}).map(([stage, status]) => [stage, status === 'running' ? 'pending' : status]),
+        ) as Record<StageName, StageStatus>;
+
+        // Stages may have been added or deleted since this was saved
+        return syncPipelineStages({
+            character: characterIndex === -1 ? null : characters[characterIndex],
+            characterIndex: characterIndex === -1 ? null : characterIndex,
+            results: data.results || {},
+            configs: data.configs || {},
+            selectedStages: data.selectedStages || [],
             currentStage: null,
-            stageStatus: data.stageStatus as Record<StageName, StageStatus>,
-            iterationCount: (data.iterationCount as number) || 0,
-            iterationHistory: (data.iterationHistory as IterationSnapshot[]) || [],
-            isRefining: (data.isRefining as boolean) || false,
-            selectedFields: (data.selectedFields as FieldSelection) || {},
-            exportData: data.exportData as string | null,
-        };
+            stageStatus,
+            iterationCount: data.iterationCount || 0,
+            iterationHistory: data.iterationHistory || [],
+            isRefining: data.isRefining || false,
+            selectedFields: data.selectedFields || {},
+            rejectedFields: data.rejectedFields || [],
+            usage: data.usage || {},
+            exportData: data.exportData ?? null,
+        });
     } catch (e) {
         logError('Failed to deserialize pipeline state', e);
         return null;
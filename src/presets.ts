@@ -9,6 +9,10 @@ import type {
     PromptPreset,
     SchemaPreset,
     StructuredOutputSchema,
+    TemplateField,
+    TemplateLoreEntry,
+    TemplateCardData,
+    Character,
 } from './types';
 import {
     getSettings,
@@ -18,8 +22,18 @@ import {
     getSchemaPresets,
 } from './settings';
 import { validateSchema, formatSchema } from './schema';
-import { TEMPLATE_PLACEHOLDERS } from './constants';
-import { debugLog } from './debug';
+import { TEMPLATE_PLACEHOLDERS, DEFAULT_CUSTOM_STAGE_DEFAULTS, CHARACTER_FIELDS } from './constants';
+import { debugLog, logError } from './debug';
+import { buildTemplateCardData } from './character';
+import {
+    parseTemplate,
+    renderTemplate,
+    validateTemplate,
+    formatTemplateError,
+    getTemplateVariables,
+    getTemplateReferences,
+} from './template';
+import type { TemplateScope, TemplateReference } from './template';
 
 // ============================================================================
 // STAGE CONFIG RESOLUTION
@@ -31,7 +45,7 @@ import { debugLog } from './debug';
  */
 export function getStageConfig(stage: StageName): StageConfig {
     const settings = getSettings();
-    const defaults = settings.stageDefaults[stage];
+    const defaults = settings.stageDefaults[stage] ?? DEFAULT_CUSTOM_STAGE_DEFAULTS;
 
     return {
         promptPresetId: defaults.promptPresetId,
@@ -39,6 +53,7 @@ export function getStageConfig(stage: StageName): StageConfig {
         schemaPresetId: defaults.schemaPresetId,
         customSchema: defaults.customSchema,
         useStructuredOutput: defaults.useStructuredOutput,
+        generation: defaults.generation ? { ...defaults.generation } : undefined,
     };
 }
 
@@ -93,7 +108,7 @@ export function resolveSchema(config: StageConfig): StructuredOutputSchema | nul
  */
 export function createStageConfigFromDefaults(stage: StageName): StageConfig {
     const settings = getSettings();
-    const defaults = settings.stageDefaults[stage];
+    const defaults = settings.stageDefaults[stage] ?? DEFAULT_CUSTOM_STAGE_DEFAULTS;
 
     return {
         promptPresetId: defaults.promptPresetId,
@@ -101,6 +116,7 @@ export function createStageConfigFromDefaults(stage: StageName): StageConfig {
         schemaPresetId: defaults.schemaPresetId,
         customSchema: defaults.customSchema,
         useStructuredOutput: defaults.useStructuredOutput,
+        generation: defaults.generation ? { ...defaults.generation } : undefined,
     };
 }
 
@@ -117,185 +133,211 @@ export interface TemplateContext {
     iterationNumber?: string;
     charName?: string;
     userName?: string;
+    fields?: TemplateField[];         // Selected fields
+    greetings?: string[];             // Selected alternate greetings
+    lorebook?: TemplateLoreEntry[];   // Embedded lorebook entries, when it's selected
+    card?: TemplateCardData;          // The whole card, for keyed placeholders and metadata
 }
 
 /**
  * Process a prompt template, replacing placeholders with actual values.
  *
- * Order of operations:
- * 1. Run ST's substituteParams for standard macros ({{time}}, {{date}}, etc.)
- * 2. Replace our custom placeholders ({{original_character}}, {{score_results}}, etc.)
- * 3. Replace {{char}} and {{user}} with our specific character/user names
- *    (This overrides ST's substitution which uses the active chat character)
- * 4. Handle conditional blocks {{#if score_results}}...{{/if}}
+ * ST's substituteParams runs first for standard macros ({{time}}, {{date}}, etc.),
+ * then the template engine renders our placeholders, filters and blocks.
+ * {{char}} and {{user}} left by ST are our character and user names.
+ * Syntax errors are logged and the template renders as far as it parsed -
+ * the stage config editor shows them while editing.
  */
 export function processPromptTemplate(prompt: string, context: TemplateContext): string {
-    const { lodash } = SillyTavern.libs;
-
-    // First, run ST's macro substitution for standard macros
     const { substituteParams } = SillyTavern.getContext();
-    let processed = substituteParams(prompt);
-
-    // Handle conditional blocks first
-    processed = processConditionalBlocks(processed, context);
-
-    // Now replace our custom placeholders using lodash.escapeRegExp
-    if (context.originalCharacter !== undefined) {
-        processed = processed.replace(
-            new RegExp(lodash.escapeRegExp(TEMPLATE_PLACEHOLDERS.ORIGINAL_CHARACTER), 'gi'),
-            context.originalCharacter,
-        );
-    }
-
-    if (context.scoreResults !== undefined) {
-        processed = processed.replace(
-            new RegExp(lodash.escapeRegExp(TEMPLATE_PLACEHOLDERS.SCORE_RESULTS), 'gi'),
-            context.scoreResults,
-        );
-    }
-
-    if (context.rewriteResults !== undefined) {
-        processed = processed.replace(
-            new RegExp(lodash.escapeRegExp(TEMPLATE_PLACEHOLDERS.REWRITE_RESULTS), 'gi'),
-            context.rewriteResults,
-        );
-    }
+    const parsed = parseTemplate(substituteParams(prompt));
 
-    if (context.currentRewrite !== undefined) {
-        processed = processed.replace(
-            new RegExp(lodash.escapeRegExp(TEMPLATE_PLACEHOLDERS.CURRENT_REWRITE), 'gi'),
-            context.currentRewrite,
-        );
+    if (parsed.errors.length > 0) {
+        debugLog('info', 'Prompt template has syntax errors', {
+            errors: parsed.errors.map(formatTemplateError),
+        });
     }
 
-    if (context.currentAnalysis !== undefined) {
-        processed = processed.replace(
-            new RegExp(lodash.escapeRegExp(TEMPLATE_PLACEHOLDERS.CURRENT_ANALYSIS), 'gi'),
-            context.currentAnalysis,
-        );
-    }
-
-    if (context.iterationNumber !== undefined) {
-        processed = processed.replace(
-            new RegExp(lodash.escapeRegExp(TEMPLATE_PLACEHOLDERS.ITERATION_NUMBER), 'gi'),
-            context.iterationNumber,
-        );
-    }
+    return renderTemplate(parsed, buildTemplateScope(context));
+}
 
-    // Replace {{char_name}} with our specific character
-    if (context.charName !== undefined) {
-        processed = processed.replace(
-            new RegExp(lodash.escapeRegExp(TEMPLATE_PLACEHOLDERS.CHARACTER_NAME), 'gi'),
-            context.charName,
-        );
-    }
+/**
+ * Template variables for a context. Iteration 0 is a number so {{#if iteration_number}} is false.
+ * Token counts are getters, so they're only counted when a template reads them.
+ */
+function buildTemplateScope(context: TemplateContext): TemplateScope {
+    const iteration = Number(context.iterationNumber);
+    const { card } = context;
 
-    // Replace {{user_name}} with our specific user
-    if (context.userName !== undefined) {
-        processed = processed.replace(
-            new RegExp(lodash.escapeRegExp(TEMPLATE_PLACEHOLDERS.USER_NAME), 'gi'),
-            context.userName,
-        );
-    }
+    return {
+        original_character: context.originalCharacter,
+        score_results: context.scoreResults,
+        rewrite_results: context.rewriteResults,
+        current_rewrite: context.currentRewrite,
+        current_analysis: context.currentAnalysis,
+        iteration_number: context.iterationNumber === undefined || isNaN(iteration) ? context.iterationNumber : iteration,
+        char_name: context.charName,
+        user_name: context.userName,
+        char: context.charName,
+        user: context.userName,
+        fields: context.fields,
+        greetings: context.greetings,
+        lorebook: context.lorebook,
+        field: card?.fields,
+        greeting: card && Object.fromEntries(card.greetings.map((greeting, i) => [String(i + 1), greeting])),
+        // Reversed so the first entry wins when two share a name
+        lore_entry: card && Object.fromEntries([...card.lorebook].reverse().map(entry => [entry.name, entry.content])),
+        tags: card?.tags.join(', '),
+        creator: card?.creator,
+        character_version: card?.characterVersion,
+        get token_count() {
+            return context.originalCharacter === undefined ? undefined : countTokens(context.originalCharacter);
+        },
+        get field_tokens() {
+            return card && Object.fromEntries(Object.entries(card.fields).map(([key, value]) => [key, countTokens(value)]));
+        },
+    };
+}
 
-    // IMPORTANT: Also replace {{char}} and {{user}} with our specific names
-    if (context.charName !== undefined) {
-        processed = processed.replace(/\{\{char\}\}/gi, context.charName);
+/**
+ * Prompts are built synchronously, so token placeholders use ST's synchronous counter
+ */
+function countTokens(text: string): number {
+    if (!text) return 0;
+
+    try {
+        return SillyTavern.getContext().getTokenCount(text);
+    } catch (e) {
+        logError('Template token count failed', e);
+        return 0;
     }
+}
 
-    if (context.userName !== undefined) {
-        processed = processed.replace(/\{\{user\}\}/gi, context.userName);
-    }
+/**
+ * Check which of our placeholders a prompt outputs, including with filters or inside blocks
+ */
+export function promptHasPlaceholders(prompt: string): string[] {
+    const used = new Set(getTemplateVariables(prompt));
 
-    return processed;
+    return Object.entries(TEMPLATE_PLACEHOLDERS)
+        .filter(([, placeholder]) => used.has(placeholder.slice(2, -2).split(':')[0]))
+        .map(([key]) => key);
 }
 
 /**
- * Process conditional blocks like {{#if score_results}}...{{/if}}
+ * What a prompt can count on when it runs, for spotting placeholders that will be empty
  */
-function processConditionalBlocks(prompt: string, context: TemplateContext): string {
-    // Match {{#if variable}}...{{/if}} blocks
-    const conditionalRegex = /\{\{#if\s+(\w+)\}\}([\s\S]*?)\{\{\/if\}\}/gi;
-
-    return prompt.replace(conditionalRegex, (_match, variable, content) => {
-        const varName = variable.toLowerCase();
-
-        // Check if the variable has a truthy value
-        let hasValue = false;
-
-        switch (varName) {
-            case 'score_results':
-                hasValue = !!context.scoreResults?.trim();
-                break;
-            case 'rewrite_results':
-                hasValue = !!context.rewriteResults?.trim();
-                break;
-            case 'current_rewrite':
-                hasValue = !!context.currentRewrite?.trim();
-                break;
-            case 'current_analysis':
-                hasValue = !!context.currentAnalysis?.trim();
-                break;
-            case 'original_character':
-                hasValue = !!context.originalCharacter?.trim();
-                break;
-            case 'iteration_number':
-                hasValue = !!context.iterationNumber && context.iterationNumber !== '0';
-                break;
-            default:
-                hasValue = false;
-        }
-
-        return hasValue ? content : '';
-    });
+export interface PlaceholderAvailability {
+    stage: StageName;
+    hasScore: boolean;
+    hasRewrite: boolean;
+    character: Character | null;
 }
 
 /**
- * Check if a prompt contains any template placeholders
+ * Get placeholders that are used but won't have values for a given stage.
+ * With a character, keyed placeholders are also checked against its card.
  */
-export function promptHasPlaceholders(prompt: string): string[] {
-    const found: string[] = [];
+export function getUnfilledPlaceholders(
+    prompt: string,
+    stage: StageName,
+    hasScore: boolean,
+    hasRewrite: boolean,
+    character?: Character | null,
+): string[] {
+    const availability: PlaceholderAvailability = { stage, hasScore, hasRewrite, character: character ?? null };
+    const card = character ? buildTemplateCardData(character) : null;
+    const unfilled: string[] = [];
 
-    for (const [key, placeholder] of Object.entries(TEMPLATE_PLACEHOLDERS)) {
-        if (prompt.toLowerCase().includes(placeholder.toLowerCase())) {
-            found.push(key);
+    for (const reference of getTemplateReferences(prompt)) {
+        const reason = getUnfilledReason(reference, availability, card);
+        if (reason) {
+            unfilled.push(`${formatPlaceholder(reference)} - ${reason}`);
         }
     }
 
-    return found;
+    return unfilled;
 }
 
 /**
- * Get placeholders that are used but won't have values for a given stage
+ * Why a placeholder won't have a value, or null when it will. Keyed placeholders are
+ * checked against the card when there is one, otherwise only their keys are checked.
+ * Names that aren't placeholders are left to the caller.
  */
-export function getUnfilledPlaceholders(prompt: string, stage: StageName, hasScore: boolean, hasRewrite: boolean): string[] {
-    const used = promptHasPlaceholders(prompt);
-    const unfilled: string[] = [];
+export function getUnfilledReason(
+    reference: TemplateReference,
+    availability: PlaceholderAvailability,
+    card: TemplateCardData | null,
+): string | null {
+    const { stage, hasScore, hasRewrite, character } = availability;
+    const { name: variable, key } = reference;
+    const name = character?.name ?? '';
+
+    switch (variable) {
+        case 'score_results':
+            return !hasScore && stage !== 'score' ? 'no score results available' : null;
+
+        case 'rewrite_results':
+        case 'current_rewrite':
+            return !hasRewrite && stage !== 'rewrite' ? 'no rewrite results available' : null;
+
+        case 'current_analysis':
+            // Only available during refinement
+            return 'only available during refinement';
+
+        case 'field':
+        case 'field_tokens': {
+            if (key === null) {
+                return `name a field, like {{${variable}:description}}`;
+            }
+
+            const field = CHARACTER_FIELDS.find(f => f.key === key.toLowerCase());
+            if (!field) {
+                return `unknown field, use one of: ${CHARACTER_FIELDS.map(f => f.key).join(', ')}`;
+            }
+            return card && variable === 'field' && !card.fields[field.key] ? `${name} has no ${field.label}` : null;
+        }
 
-    for (const placeholder of used) {
-        switch (placeholder) {
-            case 'SCORE_RESULTS':
-                if (!hasScore && stage !== 'score') {
-                    unfilled.push('{{score_results}} - no score results available');
-                }
-                break;
-            case 'REWRITE_RESULTS':
-            case 'CURRENT_REWRITE':
-                if (!hasRewrite && stage !== 'rewrite') {
-                    unfilled.push('{{rewrite_results}} - no rewrite results available');
-                }
-                break;
-            case 'CURRENT_ANALYSIS':
-                // Only available during refinement
-                unfilled.push('{{current_analysis}} - only available during refinement');
-                break;
-            // ORIGINAL_CHARACTER is always available if we have a character
-            // CHAR_NAME and USER_NAME are always available
-            // ITERATION_NUMBER is always available
+        case 'greeting': {
+            const number = Number(key);
+            if (key === null || !Number.isInteger(number) || number < 1) {
+                return 'alternate greetings are numbered from 1, like {{greeting:1}}';
+            }
+            return card && number > card.greetings.length
+                ? `${name} has ${card.greetings.length} alternate greeting${card.greetings.length === 1 ? '' : 's'}`
+                : null;
         }
+
+        case 'lore_entry':
+            if (key === null) {
+                return 'name a lorebook entry by its comment, like {{lore_entry:Castle}}';
+            }
+            return card && !card.lorebook.some(entry => entry.name.toLowerCase() === key.toLowerCase())
+                ? `${name} has no lorebook entry named "${key}"`
+                : null;
+
+        case 'tags':
+            return card && card.tags.length === 0 ? `${name} has no tags` : null;
+
+        case 'creator':
+            return card && !card.creator ? `${name} has no creator set` : null;
+
+        case 'character_version':
+            return card && !card.characterVersion ? `${name} has no version set` : null;
+
+        // original_character is always available if we have a character
+        // char_name and user_name are always available
+        // iteration_number is always available
+        default:
+            return null;
     }
+}
 
-    return unfilled;
+/**
+ * {{name}} or {{name:key}}
+ */
+export function formatPlaceholder(reference: TemplateReference): string {
+    return reference.key === null ? `{{${reference.name}}}` : `{{${reference.name}:${reference.key}}}`;
 }
 
 // ============================================================================
@@ -433,6 +475,10 @@ export function validatePromptPreset(preset: Partial<PromptPreset>): PresetValid
         errors.push('Prompt is too long (max 50,000 characters)');
     }
 
+    if (preset.prompt) {
+        errors.push(...validateTemplate(preset.prompt).map(formatTemplateError));
+    }
+
     // Check for common issues - but don't error if no placeholders
     if (preset.prompt) {
         const hasDoubleBraces = preset.prompt.includes('{{');
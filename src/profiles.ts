@@ -0,0 +1,64 @@
+// src/profiles.ts
+//
+// Connection profiles from ST's Connection Manager. A profile carries everything
+// ST needs to reach a backend - endpoint, proxy, API key, preset and, for text
+// completion backends like KoboldCpp or llama.cpp, the instruct template.
+
+import type { ConnectionProfile } from './types';
+
+// ============================================================================
+// LOOKUP
+// ============================================================================
+
+/**
+ * Whether generations can be sent through a connection profile
+ */
+export function isConnectionManagerAvailable(): boolean {
+    const { ConnectionManagerRequestService, extensionSettings } = SillyTavern.getContext();
+    const disabled: unknown = extensionSettings.disabledExtensions;
+
+    return !!ConnectionManagerRequestService
+        && !(Array.isArray(disabled) && disabled.includes('connection-manager'));
+}
+
+/**
+ * Every profile ST can send requests through (chat and text completion), sorted by name
+ */
+export function getConnectionProfiles(): ConnectionProfile[] {
+    if (!isConnectionManagerAvailable()) return [];
+
+    const { ConnectionManagerRequestService } = SillyTavern.getContext();
+
+    let profiles: Record<string, unknown>[];
+    try {
+        profiles = ConnectionManagerRequestService!.getSupportedProfiles();
+    } catch {
+        return [];
+    }
+
+    return profiles
+        .filter(profile => typeof profile.id === 'string' && profile.id)
+        .map(profile => ({
+            id: profile.id as string,
+            name: typeof profile.name === 'string' && profile.name ? profile.name : profile.id as string,
+            mode: profile.mode === 'tc' ? 'tc' as const : 'cc' as const,
+            api: typeof profile.api === 'string' ? profile.api : '',
+            model: typeof profile.model === 'string' ? profile.model : '',
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Find a profile by ID. Returns null if it was deleted or the Connection Manager is off.
+ */
+export function findConnectionProfile(id: string): ConnectionProfile | null {
+    return getConnectionProfiles().find(profile => profile.id === id) ?? null;
+}
+
+/**
+ * Short label for a profile: its name and the API behind it
+ */
+export function describeProfile(profile: ConnectionProfile): string {
+    const mode = profile.mode === 'tc' ? 'Text Completion' : 'Chat Completion';
+    return `${profile.name} (${profile.api || mode})`;
+}
@@ -0,0 +1,229 @@
+// src/prompt-lint.ts
+//
+// Live feedback for the prompt editor: template syntax errors, unknown or misspelled
+// placeholders and placeholders that will be empty at this stage, plus the placeholders
+// on offer - with what they hold right now - for autocomplete.
+
+import {
+    TEMPLATE_PLACEHOLDERS,
+    TEMPLATE_PLACEHOLDER_DESCRIPTIONS,
+    CHARACTER_FIELDS,
+    MAX_PLACEHOLDER_SUGGESTIONS,
+} from './constants';
+import { parseTemplate, getTemplateUsages } from './template';
+import { getUnfilledReason, formatPlaceholder, processPromptTemplate } from './presets';
+import { buildTemplateCardData } from './character';
+import type { PlaceholderAvailability, TemplateContext } from './presets';
+import type { TemplateUsage } from './template';
+import type { TemplateCardData } from './types';
+
+export interface PromptLintIssue {
+    severity: 'error' | 'warning';
+    message: string;
+    line: number;    // 1-based
+    column: number;  // 1-based
+}
+
+export interface PlaceholderSuggestion {
+    text: string;            // What goes between the braces, like "field:first_mes"
+    description: string;
+    preview: string | null;  // Current value, shortened; null when there's nothing to show yet
+}
+
+type PlaceholderKey = keyof typeof TEMPLATE_PLACEHOLDERS;
+
+// {{field:<key>}} -> field
+const PLACEHOLDER_NAMES = Object.fromEntries(
+    Object.entries(TEMPLATE_PLACEHOLDERS).map(([key, placeholder]) => [key, placeholder.slice(2, -2).split(':')[0]]),
+) as Record<PlaceholderKey, string>;
+
+const KEYED_NAMES = Object.entries(TEMPLATE_PLACEHOLDERS)
+    .filter(([, placeholder]) => placeholder.includes(':'))
+    .map(([key]) => PLACEHOLDER_NAMES[key as PlaceholderKey]);
+
+// Lists for {{#each}}, with the properties of their items
+const TEMPLATE_LISTS: Record<string, string[]> = {
+    fields: ['key', 'label', 'value'],
+    greetings: [],
+    lorebook: ['name', 'keys', 'content', 'enabled'],
+};
+
+// Everything a prompt can read at the top level: placeholders, the {{char}}/{{user}} aliases and lists
+const KNOWN_NAMES = new Set([...Object.values(PLACEHOLDER_NAMES), 'char', 'user', ...Object.keys(TEMPLATE_LISTS)]);
+
+const PREVIEW_LENGTH = 80;
+
+// ============================================================================
+// LINTING
+// ============================================================================
+
+/**
+ * Problems with a prompt, in order: syntax errors, then per use of a variable - names that
+ * aren't placeholders (ST macros excepted) and placeholders that will be empty.
+ * Uses inside {{#if}} on the same placeholder, conditions and | default are expected to be empty sometimes.
+ */
+export function lintPrompt(prompt: string, availability: PlaceholderAvailability): PromptLintIssue[] {
+    const parsed = parseTemplate(prompt);
+    const card = availability.character ? buildTemplateCardData(availability.character) : null;
+    const { substituteParams } = SillyTavern.getContext();
+
+    const issues: PromptLintIssue[] = parsed.errors.map(error => ({ severity: 'error', ...error }));
+    const warn = (usage: TemplateUsage, message: string) => {
+        issues.push({ severity: 'warning', message, line: usage.line, column: usage.column });
+    };
+
+    for (const usage of getTemplateUsages(parsed)) {
+        if (!KNOWN_NAMES.has(usage.name)) {
+            if (isLoopItemProperty(usage)) continue;
+
+            // ST macros ({{time}}, {{lastMessage}}) are replaced before our template runs
+            const source = `{{${usage.path}}}`;
+            if (substituteParams(source) !== source) continue;
+
+            const suggestion = findClosestName(usage.name);
+            warn(usage, `Unknown placeholder ${source}${suggestion ? ` - did you mean {{${suggestion}}}?` : ''}`);
+            continue;
+        }
+
+        const keyed = KEYED_NAMES.includes(usage.name);
+        if (!keyed && usage.key !== null) {
+            warn(usage, `{{${usage.name}}} doesn't take a key - remove ":${usage.key}"`);
+            continue;
+        }
+
+        // Guarded uses only have their key checked, not whether there's a value
+        const guarded = usage.condition || usage.hasDefault
+            || usage.guards.some(guard => guard.toLowerCase() === usage.path.toLowerCase());
+
+        const reason = guarded
+            ? keyed ? getUnfilledReason(usage, availability, null) : null
+            : getUnfilledReason(usage, availability, card);
+
+        if (reason) {
+            warn(usage, `${formatPlaceholder(usage)} - ${reason}`);
+        }
+    }
+
+    return issues.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+/**
+ * {{label}} inside {{#each fields}}. Inside a loop over something we don't know, anything goes.
+ */
+function isLoopItemProperty(usage: TemplateUsage): boolean {
+    return usage.loops.some(loop => {
+        const properties = TEMPLATE_LISTS[loop.toLowerCase()];
+        return !properties || properties.includes(usage.name);
+    });
+}
+
+/**
+ * A known name within two edits of a misspelled one
+ */
+function findClosestName(name: string): string | null {
+    let best: string | null = null;
+    let bestDistance = 3;
+
+    for (const known of KNOWN_NAMES) {
+        const distance = getEditDistance(name, known);
+        if (distance < bestDistance) {
+            best = known;
+            bestDistance = distance;
+        }
+    }
+
+    return best;
+}
+
+function getEditDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+            );
+        }
+        previous = current;
+    }
+
+    return previous[b.length];
+}
+
+// ============================================================================
+// AUTOCOMPLETE
+// ============================================================================
+
+/**
+ * Placeholders matching what's been typed after {{, those starting with it first.
+ * Keyed placeholders are listed per field, greeting and lorebook entry of the card.
+ */
+export function getPlaceholderSuggestions(query: string, context: TemplateContext): PlaceholderSuggestion[] {
+    const search = query.trim().toLowerCase();
+    const all = listPlaceholders(context.card ?? null);
+
+    const starts = all.filter(s => s.text.toLowerCase().startsWith(search));
+    const contains = all.filter(s => !s.text.toLowerCase().startsWith(search) && s.text.toLowerCase().includes(search));
+
+    return [...starts, ...contains]
+        .slice(0, MAX_PLACEHOLDER_SUGGESTIONS)
+        .map(s => ({ ...s, preview: getPreview(s.text, context) }));
+}
+
+function listPlaceholders(card: TemplateCardData | null): Array<{ text: string; description: string }> {
+    const list: Array<{ text: string; description: string }> = [];
+
+    for (const key of Object.keys(TEMPLATE_PLACEHOLDERS) as PlaceholderKey[]) {
+        const name = PLACEHOLDER_NAMES[key];
+        const description = TEMPLATE_PLACEHOLDER_DESCRIPTIONS[key];
+
+        switch (key) {
+            case 'FIELD':
+            case 'FIELD_TOKENS':
+                for (const field of CHARACTER_FIELDS) {
+                    if (card && !card.fields[field.key]) continue;
+                    list.push({ text: `${name}:${field.key}`, description: `${description} - ${field.label}` });
+                }
+                break;
+
+            case 'GREETING': {
+                const count = card ? card.greetings.length : 1;
+                for (let i = 1; i <= count; i++) {
+                    list.push({ text: `${name}:${i}`, description });
+                }
+                break;
+            }
+
+            case 'LORE_ENTRY': {
+                // Names with braces or pipes can't be written as a key
+                const names = new Set((card?.lorebook ?? []).map(entry => entry.name).filter(n => !/[{}|]/.test(n)));
+                for (const entryName of names) {
+                    list.push({ text: `${name}:${entryName}`, description });
+                }
+                break;
+            }
+
+            default:
+                list.push({ text: name, description });
+        }
+    }
+
+    return list;
+}
+
+/**
+ * What a placeholder renders to right now, on one line. Null without a character or a value.
+ */
+function getPreview(text: string, context: TemplateContext): string | null {
+    if (!context.charName) return null;
+
+    const source = `{{${text}}}`;
+    const value = processPromptTemplate(source, context);
+    if (value === source) return null;
+
+    const line = value.replace(/\s+/g, ' ').trim();
+    return line.length > PREVIEW_LENGTH ? `${line.slice(0, PREVIEW_LENGTH - 3)}...` : line;
+}
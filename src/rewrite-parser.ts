@@ -0,0 +1,411 @@
+// src/rewrite-parser.ts
+//
+// Rewrite parser - splits a rewrite response into per-field values keyed by CHARACTER_FIELDS.
+// Handles both structured (builtin rewrite schema) and free-text "### Field Label" output.
+
+import { CHARACTER_FIELDS } from './constants';
+import { getValueByPath } from './character';
+import { parseStructuredResponse } from './schema';
+import { debugLog } from './debug';
+import type { Character, CharacterBook, CharacterField, FieldSelection, ParsedRewrite } from './types';
+
+// ============================================================================
+// MAIN ENTRY
+// ============================================================================
+
+/**
+ * Parse a rewrite response into per-field values.
+ * Character and selection are used to resolve greeting/lorebook refs and
+ * to report fields that are missing from (or extra in) the output.
+ */
+export function parseRewrite(
+    response: string,
+    char: Character,
+    selection: FieldSelection,
+): ParsedRewrite {
+    const structured = parseStructuredRewrite(response, char);
+    const result = structured ?? parseFreeTextRewrite(response, char);
+
+    reportSelectionCoverage(result, char, selection);
+
+    debugLog('info', 'Rewrite parsed', {
+        isStructured: result.isStructured,
+        fields: Object.keys(result.fields),
+        missing: result.missing,
+        extra: result.extra,
+        unparseable: result.unparseable,
+    });
+
+    return result;
+}
+
+// ============================================================================
+// STRUCTURED (builtin_schema_rewrite)
+// ============================================================================
+
+interface StructuredRewrite {
+    fields?: unknown;
+    alternateGreetings?: unknown;
+    lorebookEntries?: unknown;
+}
+
+function parseStructuredRewrite(response: string, char: Character): ParsedRewrite | null {
+    const trimmed = response.trim();
+    if (!trimmed.startsWith('{') && !trimmed.startsWith('```')) {
+        return null;
+    }
+
+    const parsed = parseStructuredResponse(trimmed);
+    if (!parsed || !parsed.data || typeof parsed.data !== 'object') {
+        return null;
+    }
+
+    const data = parsed.data as StructuredRewrite;
+    if (data.fields === undefined && data.alternateGreetings === undefined && data.lorebookEntries === undefined) {
+        return null;
+    }
+
+    const result = createEmptyResult(true);
+
+    // Simple fields
+    if (data.fields !== undefined && !Array.isArray(data.fields)) {
+        result.unparseable.push('fields');
+    }
+    for (const item of asArray(data.fields)) {
+        const field = typeof item.field === 'string' ? findField(item.field) : undefined;
+        if (!field || field.type === 'array' || field.key === 'character_book') {
+            result.extra.push(String(item.field ?? '(unnamed)'));
+            continue;
+        }
+        if (typeof item.content !== 'string') {
+            result.unparseable.push(field.key);
+            continue;
+        }
+        result.fields[field.key] = stripDepthHeader(field, item.content.trim());
+    }
+
+    // Alternate greetings (1-based in the output, 0-based internally)
+    const greetings: Record<number, string> = {};
+    for (const item of asArray(data.alternateGreetings)) {
+        const number = typeof item.greeting === 'number' ? item.greeting : parseInt(String(item.greeting), 10);
+        if (isNaN(number) || typeof item.content !== 'string') {
+            result.unparseable.push('alternate_greetings');
+            continue;
+        }
+        addGreeting(result, greetings, char, number - 1, item.content);
+    }
+    if (Object.keys(greetings).length > 0) {
+        result.fields.alternate_greetings = greetings;
+    }
+
+    // Lorebook entries
+    const entries: Record<number, string> = {};
+    for (const item of asArray(data.lorebookEntries)) {
+        if (typeof item.entry !== 'string' || typeof item.content !== 'string') {
+            result.unparseable.push('character_book');
+            continue;
+        }
+        addLorebookEntry(result, entries, char, item.entry, item.content);
+    }
+    if (Object.keys(entries).length > 0) {
+        result.fields.character_book = entries;
+    }
+
+    result.unparseable = [...new Set(result.unparseable)];
+
+    return result;
+}
+
+/**
+ * Array items as objects - non-object items become empty objects so they're reported, not skipped
+ */
+function asArray(value: unknown): Array<Record<string, unknown>> {
+    if (!Array.isArray(value)) return [];
+    return value.map(item => (item && typeof item === 'object' ? item : {}) as Record<string, unknown>);
+}
+
+// ============================================================================
+// FREE TEXT ("### Field Label" sections)
+// ============================================================================
+
+interface Heading {
+    level: number;
+    text: string;
+    field: CharacterField | undefined;
+    start: number;
+    end: number;
+}
+
+function parseFreeTextRewrite(response: string, char: Character): ParsedRewrite {
+    const result = createEmptyResult(false);
+    const headingRegex = /^(#{1,4})\s+(.+?)\s*#*\s*$/gm;
+    const all: Heading[] = [];
+
+    let match: RegExpExecArray | null;
+    while ((match = headingRegex.exec(response)) !== null) {
+        all.push({
+            level: match[1].length,
+            text: match[2].trim(),
+            field: findFieldByHeading(match[2]),
+            start: match.index,
+            end: match.index + match[0].length,
+        });
+    }
+
+    // Field headings set the section level - deeper headings belong to the field body
+    const firstField = all.find(h => h.field);
+    if (!firstField) {
+        return result;
+    }
+    const sectionLevel = firstField.level;
+    const boundaries = all.filter(h => h.level <= sectionLevel);
+
+    boundaries.forEach((heading, i) => {
+        const nextStart = i + 1 < boundaries.length ? boundaries[i + 1].start : response.length;
+        const body = stripRevisionMarkers(response.substring(heading.end, nextStart)).trim();
+
+        if (!heading.field) {
+            // Title line from the character summary is expected, anything else is extra
+            if (!/^CHARACTER:/i.test(heading.text) && body) {
+                result.extra.push(heading.text);
+            }
+            return;
+        }
+
+        if (!body) {
+            result.unparseable.push(heading.field.key);
+            return;
+        }
+
+        switch (heading.field.key) {
+            case 'alternate_greetings':
+                parseGreetingBlocks(result, body, char);
+                break;
+
+            case 'character_book':
+                parseLorebookBlocks(result, body, char);
+                break;
+
+            default:
+                result.fields[heading.field.key] = stripDepthHeader(heading.field, body);
+        }
+    });
+
+    return result;
+}
+
+function parseGreetingBlocks(result: ParsedRewrite, body: string, char: Character): void {
+    const blocks = splitMarkedBlocks(body, /^\*\*Greeting\s+(\d+):?\*\*:?\s*$/gim);
+    if (blocks.length === 0) {
+        result.unparseable.push('alternate_greetings');
+        return;
+    }
+
+    const greetings: Record<number, string> = {};
+    for (const block of blocks) {
+        addGreeting(result, greetings, char, parseInt(block.marker, 10) - 1, block.text);
+    }
+
+    if (Object.keys(greetings).length > 0) {
+        result.fields.alternate_greetings = greetings;
+    }
+}
+
+function parseLorebookBlocks(result: ParsedRewrite, body: string, char: Character): void {
+    const blocks = splitMarkedBlocks(body, /^\*\*(.+?):?\*\*:?\s*$/gm);
+    if (blocks.length === 0) {
+        result.unparseable.push('character_book');
+        return;
+    }
+
+    const entries: Record<number, string> = {};
+    for (const block of blocks) {
+        addLorebookEntry(result, entries, char, block.marker, block.text);
+    }
+
+    if (Object.keys(entries).length > 0) {
+        result.fields.character_book = entries;
+    }
+}
+
+/**
+ * Split a section body on "**Marker:**" lines
+ */
+function splitMarkedBlocks(body: string, markerRegex: RegExp): Array<{ marker: string; text: string }> {
+    const markers: Array<{ marker: string; start: number; end: number }> = [];
+
+    let match: RegExpExecArray | null;
+    while ((match = markerRegex.exec(body)) !== null) {
+        markers.push({ marker: match[1].trim(), start: match.index, end: match.index + match[0].length });
+    }
+
+    return markers.map((marker, i) => {
+        const nextStart = i + 1 < markers.length ? markers[i + 1].start : body.length;
+        return { marker: marker.marker, text: body.substring(marker.end, nextStart).trim() };
+    });
+}
+
+/**
+ * Keep only the revised half of "[ORIGINAL] ... [REVISED] ..." style output
+ */
+function stripRevisionMarkers(body: string): string {
+    const revisedIndex = body.search(/\[REVISED\]/i);
+    if (revisedIndex === -1) {
+        return body;
+    }
+    return body.substring(revisedIndex).replace(/^\[REVISED\]:?/i, '');
+}
+
+// ============================================================================
+// SHARED HELPERS
+// ============================================================================
+
+function createEmptyResult(isStructured: boolean): ParsedRewrite {
+    return { fields: {}, missing: [], extra: [], unparseable: [], isStructured };
+}
+
+function findField(key: string): CharacterField | undefined {
+    const normalized = key.trim().toLowerCase();
+    return CHARACTER_FIELDS.find(f => f.key === normalized);
+}
+
+function findFieldByHeading(heading: string): CharacterField | undefined {
+    const normalized = heading
+        .replace(/[*_`]/g, '')
+        .replace(/:$/, '')
+        .trim()
+        .toLowerCase();
+
+    return CHARACTER_FIELDS.find(f =>
+        f.label.toLowerCase() === normalized || f.key.toLowerCase() === normalized,
+    );
+}
+
+/**
+ * Depth prompt is summarized as "[Depth: x, Role: y]\nprompt" - only the prompt is rewritable
+ */
+function stripDepthHeader(field: CharacterField, text: string): string {
+    if (field.key !== 'depth_prompt') {
+        return text;
+    }
+    return text.replace(/^\[Depth:[^\]]*\]\s*/i, '').trim();
+}
+
+function addGreeting(
+    result: ParsedRewrite,
+    greetings: Record<number, string>,
+    char: Character,
+    index: number,
+    text: string,
+): void {
+    const original = getValueByPath(char, 'data.alternate_greetings');
+    const count = Array.isArray(original) ? original.length : 0;
+
+    if (index < 0 || index >= count) {
+        result.extra.push(`alternate_greetings[${index}]`);
+        return;
+    }
+
+    const trimmed = text.trim();
+    if (!trimmed) {
+        result.unparseable.push(`alternate_greetings[${index}]`);
+        return;
+    }
+
+    greetings[index] = trimmed;
+}
+
+function addLorebookEntry(
+    result: ParsedRewrite,
+    entries: Record<number, string>,
+    char: Character,
+    name: string,
+    text: string,
+): void {
+    const index = findLorebookEntryIndex(char, name);
+
+    if (index === -1) {
+        result.extra.push(`character_book: ${name}`);
+        return;
+    }
+
+    const trimmed = text.trim();
+    if (!trimmed) {
+        result.unparseable.push(`character_book[${index}]`);
+        return;
+    }
+
+    entries[index] = trimmed;
+}
+
+/**
+ * Resolve a lorebook entry by comment, "Entry <id>" label, or 1-based position
+ */
+function findLorebookEntryIndex(char: Character, name: string): number {
+    const book = getValueByPath(char, 'data.character_book') as CharacterBook | undefined;
+    if (!book?.entries?.length) return -1;
+
+    const normalized = name
+        .replace(/^[✓✗]\s*/, '')
+        .replace(/\s*\[.*\]\s*$/, '')
+        .trim()
+        .toLowerCase();
+
+    const byComment = book.entries.findIndex(e => (e.comment || `Entry ${e.id}`).trim().toLowerCase() === normalized);
+    if (byComment !== -1) return byComment;
+
+    const numberMatch = normalized.match(/^entry\s+(\d+)$/);
+    if (numberMatch) {
+        const id = parseInt(numberMatch[1], 10);
+        const byId = book.entries.findIndex(e => e.id === id);
+        if (byId !== -1) return byId;
+    }
+
+    return -1;
+}
+
+/**
+ * Compare parsed fields to the selection: selected-but-absent is missing,
+ * present-but-unselected is extra (and dropped from fields).
+ */
+function reportSelectionCoverage(result: ParsedRewrite, char: Character, selection: FieldSelection): void {
+    for (const field of CHARACTER_FIELDS) {
+        const selected = selection[field.key];
+        const isSelected = Array.isArray(selected) ? selected.length > 0 : !!selected;
+        const value = result.fields[field.key];
+
+        if (!isSelected) {
+            if (value !== undefined) {
+                result.extra.push(field.key);
+                delete result.fields[field.key];
+            }
+            continue;
+        }
+
+        if (value === undefined) {
+            if (!result.unparseable.includes(field.key)) {
+                result.missing.push(field.key);
+            }
+            continue;
+        }
+
+        // Per-greeting coverage
+        if (field.key === 'alternate_greetings' && typeof value === 'object') {
+            const original = getValueByPath(char, field.path);
+            const count = Array.isArray(original) ? original.length : 0;
+            const wanted = Array.isArray(selected) ? selected : Array.from({ length: count }, (_, i) => i);
+
+            for (const index of Object.keys(value).map(Number)) {
+                if (!wanted.includes(index)) {
+                    result.extra.push(`alternate_greetings[${index}]`);
+                    delete value[index];
+                }
+            }
+            for (const index of wanted) {
+                if (value[index] === undefined) {
+                    result.missing.push(`alternate_greetings[${index}]`);
+                }
+            }
+        }
+    }
+}
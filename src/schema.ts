@@ -1,5 +1,6 @@
 // src/schema.ts
-import type { StructuredOutputSchema, SchemaValidationResult, JsonSchemaValue } from './types';
+import type { StructuredOutputSchema, SchemaValidationResult, SchemaViolation, JsonSchemaValue, JsonRepair } from './types';
+import { repairJson } from './json-repair';
 
 // ============================================================================
 // PROVIDER LIMITS
@@ -759,58 +760,264 @@ function fixSchemaNode(node: JsonSchemaValue): void {
 }
 
 // ============================================================================
-// UTILITY FUNCTIONS
+// RESPONSE VALIDATION
 // ============================================================================
 
+// Guards against self-referencing $refs in malformed schemas
+const MAX_RESPONSE_VALIDATION_DEPTH = 64;
+
 /**
- * Formats a schema object as a pretty-printed JSON string.
+ * Validate parsed response data against a schema.
+ * Checks types, enums, const, required and additional properties, nested objects,
+ * array items and the string/number/array limits providers don't enforce themselves.
+ * Returns every violation with a JSON pointer to where it occurs.
  */
-export function formatSchema(schema: StructuredOutputSchema | null): string {
-    if (!schema) return '';
-    return JSON.stringify(schema, null, 2);
+export function validateResponseData(data: unknown, schema: JsonSchemaValue): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+    checkResponseNode(data, schema, '', schema, violations, 0);
+    return violations;
 }
 
 /**
- * Attempts to parse a structured output response.
- * Returns the parsed object or null if parsing fails.
- * Optionally validates against a schema and returns partial results with warnings.
+ * Format violations for display, one per line
  */
-export function parseStructuredResponse(
-    response: string,
-    schema?: StructuredOutputSchema,
-): { data: unknown; warnings: string[] } | null {
-    let parsed: unknown;
+export function formatViolations(violations: SchemaViolation[]): string[] {
+    return violations.map(v => `${v.path || '(root)'}: ${v.message}`);
+}
 
-    try {
-        parsed = JSON.parse(response);
-    } catch {
-        // Try to extract JSON from markdown code blocks
-        const codeBlockMatch = response.match(/```(?:json)?\s*([\s\S]*?)```/);
-        if (codeBlockMatch) {
-            try {
-                parsed = JSON.parse(codeBlockMatch[1].trim());
-            } catch {
-                return null;
-            }
+function checkResponseNode(
+    value: unknown,
+    node: unknown,
+    path: string,
+    root: JsonSchemaValue,
+    out: SchemaViolation[],
+    depth: number,
+): void {
+    if (!node || typeof node !== 'object' || depth > MAX_RESPONSE_VALIDATION_DEPTH) return;
+
+    const schema = node as JsonSchemaValue;
+
+    if (typeof schema.$ref === 'string') {
+        const resolved = resolveLocalRef(schema.$ref, root);
+        if (resolved) {
+            checkResponseNode(value, resolved, path, root, out, depth + 1);
         } else {
-            return null;
+            out.push({ path, message: `schema reference '${schema.$ref}' not found` });
         }
     }
 
-    const warnings: string[] = [];
+    if ('const' in schema && !isEqualJson(value, schema.const)) {
+        out.push({ path, message: `must equal ${JSON.stringify(schema.const)}` });
+    }
 
-    // If schema provided, validate required fields
-    if (schema && schema.value.required && Array.isArray(schema.value.required)) {
-        const missing = schema.value.required.filter(
-            field => !(field in (parsed as Record<string, unknown>)),
-        );
+    if (Array.isArray(schema.enum) && !schema.enum.some(option => isEqualJson(value, option))) {
+        out.push({ path, message: `must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}` });
+    }
+
+    if (schema.type !== undefined) {
+        const types = Array.isArray(schema.type) ? schema.type as string[] : [schema.type];
+        if (!types.some(type => matchesJsonType(value, type))) {
+            out.push({ path, message: `expected ${types.join(' or ')}, got ${describeJsonType(value)}` });
+            return; // Nothing below makes sense for the wrong type
+        }
+    }
+
+    if (Array.isArray(schema.anyOf) && schema.anyOf.length > 0) {
+        const matches = schema.anyOf.some(variant => {
+            const variantViolations: SchemaViolation[] = [];
+            checkResponseNode(value, variant, path, root, variantViolations, depth + 1);
+            return variantViolations.length === 0;
+        });
+
+        if (!matches) {
+            out.push({ path, message: 'does not match any of the allowed variants' });
+        }
+    }
+
+    if (Array.isArray(schema.allOf)) {
+        for (const part of schema.allOf) {
+            checkResponseNode(value, part, path, root, out, depth + 1);
+        }
+    }
+
+    if (isPlainObject(value)) {
+        checkResponseObject(value, schema, path, root, out, depth);
+    } else if (Array.isArray(value)) {
+        checkResponseArray(value, schema, path, root, out, depth);
+    } else if (typeof value === 'string') {
+        checkResponseString(value, schema, path, out);
+    } else if (typeof value === 'number') {
+        checkResponseNumber(value, schema, path, out);
+    }
+}
+
+function checkResponseObject(
+    value: Record<string, unknown>,
+    schema: JsonSchemaValue,
+    path: string,
+    root: JsonSchemaValue,
+    out: SchemaViolation[],
+    depth: number,
+): void {
+    const properties = (schema.properties || {}) as Record<string, unknown>;
+
+    if (Array.isArray(schema.required)) {
+        for (const key of schema.required) {
+            if (!(key in value)) {
+                out.push({ path: `${path}/${escapePointerToken(key)}`, message: 'is required' });
+            }
+        }
+    }
+
+    for (const [key, child] of Object.entries(value)) {
+        const childPath = `${path}/${escapePointerToken(key)}`;
+
+        if (key in properties) {
+            checkResponseNode(child, properties[key], childPath, root, out, depth + 1);
+        } else if (schema.additionalProperties === false) {
+            out.push({ path: childPath, message: 'is not allowed' });
+        } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+            checkResponseNode(child, schema.additionalProperties, childPath, root, out, depth + 1);
+        }
+    }
+}
+
+function checkResponseArray(
+    value: unknown[],
+    schema: JsonSchemaValue,
+    path: string,
+    root: JsonSchemaValue,
+    out: SchemaViolation[],
+    depth: number,
+): void {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+        out.push({ path, message: `must have at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}` });
+    }
+
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+        out.push({ path, message: `must have at most ${schema.maxItems} item${schema.maxItems === 1 ? '' : 's'}` });
+    }
+
+    if (schema.items && typeof schema.items === 'object' && !Array.isArray(schema.items)) {
+        value.forEach((item, i) => {
+            checkResponseNode(item, schema.items, `${path}/${i}`, root, out, depth + 1);
+        });
+    }
+}
+
+function checkResponseString(value: string, schema: JsonSchemaValue, path: string, out: SchemaViolation[]): void {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+        out.push({ path, message: `must be at least ${schema.minLength} characters` });
+    }
 
-        if (missing.length > 0) {
-            warnings.push(`Missing required fields: ${missing.join(', ')}`);
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+        out.push({ path, message: `must be at most ${schema.maxLength} characters` });
+    }
+
+    if (typeof schema.pattern === 'string') {
+        try {
+            if (!new RegExp(schema.pattern).test(value)) {
+                out.push({ path, message: `must match pattern ${schema.pattern}` });
+            }
+        } catch {
+            // Invalid patterns are reported by validateSchema
         }
     }
+}
+
+function checkResponseNumber(value: number, schema: JsonSchemaValue, path: string, out: SchemaViolation[]): void {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+        out.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+        out.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+        out.push({ path, message: `must be > ${schema.exclusiveMinimum}` });
+    }
+
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+        out.push({ path, message: `must be < ${schema.exclusiveMaximum}` });
+    }
+}
+
+/**
+ * Resolve a local reference like '#/$defs/Issue' against the root schema
+ */
+function resolveLocalRef(ref: string, root: JsonSchemaValue): unknown {
+    if (ref === '#') return root;
+    if (!ref.startsWith('#/')) return null;
+
+    let current: unknown = root;
+    for (const token of ref.slice(2).split('/')) {
+        if (!current || typeof current !== 'object') return null;
+        current = (current as Record<string, unknown>)[token.replace(/~1/g, '/').replace(/~0/g, '~')];
+    }
+
+    return current ?? null;
+}
+
+function matchesJsonType(value: unknown, type: string): boolean {
+    switch (type) {
+        case 'string': return typeof value === 'string';
+        case 'number': return typeof value === 'number' && Number.isFinite(value);
+        case 'integer': return typeof value === 'number' && Number.isInteger(value);
+        case 'boolean': return typeof value === 'boolean';
+        case 'array': return Array.isArray(value);
+        case 'object': return isPlainObject(value);
+        case 'null': return value === null;
+        default: return true;
+    }
+}
+
+function describeJsonType(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'string') return `string ${JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}...` : value)}`;
+    return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isEqualJson(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function escapePointerToken(token: string): string {
+    return token.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Formats a schema object as a pretty-printed JSON string.
+ */
+export function formatSchema(schema: StructuredOutputSchema | null): string {
+    if (!schema) return '';
+    return JSON.stringify(schema, null, 2);
+}
+
+/**
+ * Parses a structured output response, repairing malformed JSON where possible.
+ * Returns the data and the repairs it needed, or null if nothing could be recovered.
+ * Optionally validates against a schema and returns the data with one warning per violation.
+ */
+export function parseStructuredResponse(
+    response: string,
+    schema?: StructuredOutputSchema,
+): { data: unknown; warnings: string[]; repairs: JsonRepair[] } | null {
+    const repaired = repairJson(response);
+    if (!repaired) return null;
+
+    const warnings = schema ? formatViolations(validateResponseData(repaired.value, schema.value)) : [];
 
-    return { data: parsed, warnings };
+    return { data: repaired.value, warnings, repairs: repaired.repairs };
 }
 
 /**
@@ -1,21 +1,38 @@
 // src/settings.ts
 import {
     MODULE_NAME,
+    STAGES,
     DEFAULT_SETTINGS,
     BASE_SYSTEM_PROMPT,
     DEFAULT_GENERATION_CONFIG,
+    DEFAULT_AUTO_ITERATE_CONFIG,
+    DEFAULT_SCHEMA_VALIDATION_CONFIG,
     DEFAULT_STAGE_DEFAULTS,
+    DEFAULT_CUSTOM_STAGE_DEFAULTS,
+    DEFAULT_CUSTOM_STAGE_ICON,
     BASE_REFINEMENT_PROMPT,
     BUILTIN_PROMPT_PRESETS,
     BUILTIN_SCHEMA_PRESETS,
     SETTINGS_VERSION,
     CURRENT_PRESET_VERSION,
+    MAX_COMPARISON_CONFIGS,
+    MAX_FALLBACK_CONFIGS,
+    DEFAULT_RETRY_CONFIG,
+    DEFAULT_CACHE_CONFIG,
 } from './constants';
 import type {
     Settings,
     GenerationConfig,
+    AutoIterateConfig,
+    SchemaValidationConfig,
+    RetryConfig,
+    CacheConfig,
+    GenerationConfigList,
+    ModelPrice,
     StageName,
+    BuiltinStageName,
     StageDefaults,
+    CustomStageDefinition,
     PromptPreset,
     SchemaPreset,
     StructuredOutputSchema,
@@ -102,6 +119,13 @@ const migrations: Record<number, MigrationFn> = {
             }
         }
     },
+
+    // v4 -> v5: User-defined stages
+    5: (settings) => {
+        if (!settings.customStages) {
+            settings.customStages = [];
+        }
+    },
 };
 
 /**
@@ -227,6 +251,166 @@ export function updateGenerationConfig(updates: Partial<GenerationConfig>): void
     debugLog('info', 'Generation config updated', updates);
 }
 
+/**
+ * Update auto-iterate limits (partial update)
+ */
+export function updateAutoIterateConfig(updates: Partial<AutoIterateConfig>): void {
+    const { extensionSettings, saveSettingsDebounced } = SillyTavern.getContext();
+    const settings = extensionSettings[MODULE_NAME] as Settings;
+
+    if (!settings.autoIterate) {
+        settings.autoIterate = structuredClone(DEFAULT_AUTO_ITERATE_CONFIG);
+    }
+
+    settings.autoIterate = { ...settings.autoIterate, ...updates };
+    saveSettingsDebounced();
+    debugLog('info', 'Auto-iterate config updated', updates);
+}
+
+/**
+ * Update the response cache options (partial update)
+ */
+export function updateCacheConfig(updates: Partial<CacheConfig>): void {
+    const { extensionSettings, saveSettingsDebounced } = SillyTavern.getContext();
+    const settings = extensionSettings[MODULE_NAME] as Settings;
+
+    if (!settings.cache) {
+        settings.cache = structuredClone(DEFAULT_CACHE_CONFIG);
+    }
+
+    settings.cache = { ...settings.cache, ...updates };
+    saveSettingsDebounced();
+    debugLog('info', 'Cache config updated', updates);
+}
+
+/**
+ * Update the retry policy (partial update)
+ */
+export function updateRetryConfig(updates: Partial<RetryConfig>): void {
+    const { extensionSettings, saveSettingsDebounced } = SillyTavern.getContext();
+    const settings = extensionSettings[MODULE_NAME] as Settings;
+
+    if (!settings.retry) {
+        settings.retry = structuredClone(DEFAULT_RETRY_CONFIG);
+    }
+
+    settings.retry = { ...settings.retry, ...updates };
+    saveSettingsDebounced();
+    debugLog('info', 'Retry config updated', updates);
+}
+
+/**
+ * Update structured response validation options (partial update)
+ */
+export function updateSchemaValidationConfig(updates: Partial<SchemaValidationConfig>): void {
+    const { extensionSettings, saveSettingsDebounced } = SillyTavern.getContext();
+    const settings = extensionSettings[MODULE_NAME] as Settings;
+
+    if (!settings.schemaValidation) {
+        settings.schemaValidation = structuredClone(DEFAULT_SCHEMA_VALIDATION_CONFIG);
+    }
+
+    settings.schemaValidation = { ...settings.schemaValidation, ...updates };
+    saveSettingsDebounced();
+    debugLog('info', 'Schema validation config updated', updates);
+}
+
+// ============================================================================
+// GENERATION CONFIG LISTS
+// ============================================================================
+
+const CONFIG_LIST_LIMITS: Record<GenerationConfigList, number> = {
+    comparisonConfigs: MAX_COMPARISON_CONFIGS,
+    fallbackConfigs: MAX_FALLBACK_CONFIGS,
+};
+
+export function getConfigListLimit(list: GenerationConfigList): number {
+    return CONFIG_LIST_LIMITS[list];
+}
+
+/**
+ * Add a model to a config list (comparison or fallback), starting from the current generation config.
+ * Returns false if the list is full.
+ */
+export function addConfigListEntry(list: GenerationConfigList): boolean {
+    const { extensionSettings, saveSettingsDebounced } = SillyTavern.getContext();
+    const settings = extensionSettings[MODULE_NAME] as Settings;
+
+    settings[list] = settings[list] ?? [];
+    if (settings[list].length >= CONFIG_LIST_LIMITS[list]) return false;
+
+    settings[list].push({ ...DEFAULT_GENERATION_CONFIG, ...settings.generationConfig });
+    saveSettingsDebounced();
+    debugLog('info', 'Config list entry added', { list, count: settings[list].length });
+    return true;
+}
+
+/**
+ * Update one entry of a config list (partial update)
+ */
+export function updateConfigListEntry(list: GenerationConfigList, index: number, updates: Partial<GenerationConfig>): void {
+    const { extensionSettings, saveSettingsDebounced } = SillyTavern.getContext();
+    const settings = extensionSettings[MODULE_NAME] as Settings;
+
+    const existing = settings[list]?.[index];
+    if (!existing) return;
+
+    settings[list][index] = { ...existing, ...updates };
+    saveSettingsDebounced();
+    debugLog('info', 'Config list entry updated', { list, index, updates });
+}
+
+export function removeConfigListEntry(list: GenerationConfigList, index: number): void {
+    const { extensionSettings, saveSettingsDebounced } = SillyTavern.getContext();
+    const settings = extensionSettings[MODULE_NAME] as Settings;
+
+    if (!settings[list]?.[index]) return;
+
+    settings[list].splice(index, 1);
+    saveSettingsDebounced();
+    debugLog('info', 'Config list entry removed', { list, index });
+}
+
+// ============================================================================
+// MODEL PRICES
+// ============================================================================
+
+/**
+ * Add a price row, prefilled with the current custom model
+ */
+export function addModelPrice(): void {
+    const { extensionSettings, saveSettingsDebounced } = SillyTavern.getContext();
+    const settings = extensionSettings[MODULE_NAME] as Settings;
+
+    settings.modelPrices = settings.modelPrices ?? [];
+    settings.modelPrices.push({ model: settings.generationConfig.model, inputPerMillion: 0, outputPerMillion: 0 });
+    saveSettingsDebounced();
+    debugLog('info', 'Model price added', { count: settings.modelPrices.length });
+}
+
+export function updateModelPrice(index: number, updates: Partial<ModelPrice>): void {
+    const { extensionSettings, saveSettingsDebounced } = SillyTavern.getContext();
+    const settings = extensionSettings[MODULE_NAME] as Settings;
+
+    const existing = settings.modelPrices?.[index];
+    if (!existing) return;
+
+    settings.modelPrices[index] = { ...existing, ...updates };
+    saveSettingsDebounced();
+    debugLog('info', 'Model price updated', { index, updates });
+}
+
+export function removeModelPrice(index: number): void {
+    const { extensionSettings, saveSettingsDebounced } = SillyTavern.getContext();
+    const settings = extensionSettings[MODULE_NAME] as Settings;
+
+    if (!settings.modelPrices?.[index]) return;
+
+    settings.modelPrices.splice(index, 1);
+    saveSettingsDebounced();
+    debugLog('info', 'Model price removed', { index });
+}
+
 // ============================================================================
 // SYSTEM PROMPT MANAGEMENT
 // ============================================================================
@@ -327,7 +511,7 @@ export function updateStageDefaults(stage: StageName, updates: Partial<StageDefa
     }
 
     if (!settings.stageDefaults[stage]) {
-        settings.stageDefaults[stage] = structuredClone(DEFAULT_STAGE_DEFAULTS[stage]);
+        settings.stageDefaults[stage] = getBuiltinStageDefaults(stage);
     }
 
     settings.stageDefaults[stage] = { ...settings.stageDefaults[stage], ...updates };
@@ -346,11 +530,19 @@ export function resetStageDefaults(stage: StageName): void {
         settings.stageDefaults = structuredClone(DEFAULT_STAGE_DEFAULTS);
     }
 
-    settings.stageDefaults[stage] = structuredClone(DEFAULT_STAGE_DEFAULTS[stage]);
+    settings.stageDefaults[stage] = getBuiltinStageDefaults(stage);
     saveSettingsDebounced();
     debugLog('info', 'Stage defaults reset', { stage });
 }
 
+/**
+ * Get the shipped defaults for a stage (custom stages start empty)
+ */
+function getBuiltinStageDefaults(stage: StageName): StageDefaults {
+    const isBuiltin = (STAGES as readonly StageName[]).includes(stage);
+    return structuredClone(isBuiltin ? DEFAULT_STAGE_DEFAULTS[stage as BuiltinStageName] : DEFAULT_CUSTOM_STAGE_DEFAULTS);
+}
+
 /**
  * Set debug mode
  */
@@ -358,6 +550,115 @@ export function setDebugMode(enabled: boolean): void {
     updateSetting('debugMode', enabled);
 }
 
+// ============================================================================
+// CUSTOM STAGES
+// ============================================================================
+
+/**
+ * Get all user-defined stages in pipeline order
+ */
+export function getCustomStages(): CustomStageDefinition[] {
+    return getSettings().customStages;
+}
+
+/**
+ * Get a specific user-defined stage by ID
+ */
+export function getCustomStage(id: StageName): CustomStageDefinition | null {
+    return getSettings().customStages.find(s => s.id === id) || null;
+}
+
+/**
+ * Save a new user-defined stage along with its prompt/schema defaults and system prompt
+ */
+export function saveCustomStage(
+    stage: Omit<CustomStageDefinition, 'id' | 'createdAt' | 'updatedAt'>,
+    defaults: Partial<StageDefaults> = {},
+    systemPrompt: string = '',
+): CustomStageDefinition {
+    const { extensionSettings, saveSettingsDebounced, uuidv4 } = SillyTavern.getContext();
+    const settings = extensionSettings[MODULE_NAME] as Settings;
+
+    const now = Date.now();
+    const newStage: CustomStageDefinition = {
+        ...stage,
+        icon: stage.icon || DEFAULT_CUSTOM_STAGE_ICON,
+        id: `custom_stage_${uuidv4()}`,
+        createdAt: now,
+        updatedAt: now,
+    };
+
+    settings.customStages.push(newStage);
+    settings.stageDefaults[newStage.id] = { ...structuredClone(DEFAULT_CUSTOM_STAGE_DEFAULTS), ...defaults };
+    settings.stageSystemPrompts[newStage.id] = systemPrompt;
+
+    saveSettingsDebounced();
+    debugLog('info', 'Custom stage saved', { id: newStage.id, name: newStage.name });
+
+    return newStage;
+}
+
+/**
+ * Update an existing user-defined stage
+ */
+export function updateCustomStage(
+    id: StageName,
+    updates: Partial<Omit<CustomStageDefinition, 'id' | 'createdAt' | 'updatedAt'>>,
+    defaults?: Partial<StageDefaults>,
+    systemPrompt?: string,
+): boolean {
+    const { extensionSettings, saveSettingsDebounced } = SillyTavern.getContext();
+    const settings = extensionSettings[MODULE_NAME] as Settings;
+
+    const index = settings.customStages.findIndex(s => s.id === id);
+    if (index === -1) return false;
+
+    settings.customStages[index] = {
+        ...settings.customStages[index],
+        ...updates,
+        updatedAt: Date.now(),
+    };
+
+    if (defaults) {
+        settings.stageDefaults[id] = {
+            ...(settings.stageDefaults[id] ?? structuredClone(DEFAULT_CUSTOM_STAGE_DEFAULTS)),
+            ...defaults,
+        };
+    }
+
+    if (systemPrompt !== undefined) {
+        settings.stageSystemPrompts[id] = systemPrompt;
+    }
+
+    saveSettingsDebounced();
+    debugLog('info', 'Custom stage updated', { id });
+    return true;
+}
+
+/**
+ * Delete a user-defined stage and everything keyed by it
+ */
+export function deleteCustomStage(id: StageName): boolean {
+    const { extensionSettings, saveSettingsDebounced } = SillyTavern.getContext();
+    const settings = extensionSettings[MODULE_NAME] as Settings;
+
+    const index = settings.customStages.findIndex(s => s.id === id);
+    if (index === -1) return false;
+
+    settings.customStages.splice(index, 1);
+    delete settings.stageDefaults[id];
+    delete settings.stageSystemPrompts[id];
+
+    // Later stages may have been reading this one
+    for (const stage of settings.customStages) {
+        stage.consumes = stage.consumes.filter(s => s !== id);
+    }
+
+    saveSettingsDebounced();
+    debugLog('info', 'Custom stage deleted', { id });
+    return true;
+}
+
 // ============================================================================
 // PRESET MANAGEMENT
 // ============================================================================
@@ -455,7 +756,7 @@ export function deletePromptPreset(id: string): string | null {
 
     settings.promptPresets.splice(index, 1);
 
-    for (const stage of ['score', 'rewrite', 'analyze'] as const) {
+    for (const stage of Object.keys(settings.stageDefaults)) {
         if (settings.stageDefaults[stage]?.promptPresetId === id) {
             settings.stageDefaults[stage].promptPresetId = null;
         }
@@ -566,7 +867,7 @@ export function deleteSchemaPreset(id: string): string | null {
 
     settings.schemaPresets.splice(index, 1);
 
-    for (const stage of ['score', 'rewrite', 'analyze'] as const) {
+    for (const stage of Object.keys(settings.stageDefaults)) {
         if (settings.stageDefaults[stage]?.schemaPresetId === id) {
             settings.stageDefaults[stage].schemaPresetId = null;
         }
@@ -688,6 +989,7 @@ export function importPresets(json: string): { prompts: number; schemas: number;
                             name: preset.name,
                             prompt: preset.prompt,
                             stages: preset.stages || [],
+                            verdictRules: preset.verdictRules,
                         });
                         promptsImported++;
                     }
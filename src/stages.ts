@@ -0,0 +1,58 @@
+// src/stages.ts
+//
+// Stage registry - builtin stages followed by user-defined stages from settings.
+
+import {
+    STAGES,
+    STAGE_LABELS,
+    STAGE_ICONS,
+    STAGE_DESCRIPTIONS,
+    STAGE_INPUTS,
+    DEFAULT_CUSTOM_STAGE_ICON,
+} from './constants';
+import { getCustomStage, getCustomStages } from './settings';
+import type { BuiltinStageName, StageName } from './types';
+
+/**
+ * Get every stage in pipeline order (builtins first, then custom stages)
+ */
+export function getStageOrder(): StageName[] {
+    return [...STAGES, ...getCustomStages().map(s => s.id)];
+}
+
+/**
+ * Check if a stage is one of the builtin stages
+ */
+export function isBuiltinStage(stage: StageName): stage is BuiltinStageName {
+    return (STAGES as readonly StageName[]).includes(stage);
+}
+
+/**
+ * Check if a stage still exists (custom stages can be deleted)
+ */
+export function stageExists(stage: StageName): boolean {
+    return isBuiltinStage(stage) || !!getCustomStage(stage);
+}
+
+export function getStageLabel(stage: StageName): string {
+    if (isBuiltinStage(stage)) return STAGE_LABELS[stage];
+    return getCustomStage(stage)?.name || stage;
+}
+
+export function getStageIcon(stage: StageName): string {
+    if (isBuiltinStage(stage)) return STAGE_ICONS[stage];
+    return getCustomStage(stage)?.icon || DEFAULT_CUSTOM_STAGE_ICON;
+}
+
+export function getStageDescription(stage: StageName): string {
+    if (isBuiltinStage(stage)) return STAGE_DESCRIPTIONS[stage];
+    return getCustomStage(stage)?.description || '';
+}
+
+/**
+ * Get the earlier stages whose results are fed into this stage's prompt
+ */
+export function getStageInputs(stage: StageName): StageName[] {
+    if (isBuiltinStage(stage)) return [...STAGE_INPUTS[stage]];
+    return getCustomStage(stage)?.consumes.filter(stageExists) ?? [];
+}
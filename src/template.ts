@@ -0,0 +1,593 @@
+// src/template.ts
+//
+// Prompt template engine. Supports {{variable}} output with filters
+// ({{score_results | truncate:500}}), keyed variables ({{field:first_mes}}),
+// {{#if}}/{{else}}, {{#unless}} and {{#each}} blocks that nest, and {{! comments }}.
+// Parsing never fails: syntax errors are reported with their line and column
+// and the rest of the template still renders, so a typo doesn't break a run.
+// Tags that aren't ours (SillyTavern macros) are left as they are.
+
+export interface TemplateError {
+    message: string;
+    line: number;    // 1-based
+    column: number;  // 1-based
+}
+
+// One place a template reads a variable, for linting
+export interface TemplateUsage {
+    name: string;         // Lowercased variable name, like "field"
+    key: string | null;   // "first_mes" for {{field:first_mes}}, null for plain variables
+    path: string;         // As written
+    line: number;
+    column: number;
+    condition: boolean;   // Read by {{#if}}, {{#unless}} or {{#each}} rather than output
+    hasDefault: boolean;  // Output through | default:"..."
+    loops: string[];      // Paths of the {{#each}} blocks around it, outermost first
+    guards: string[];     // Paths of the {{#if}} blocks it's inside the true branch of
+}
+
+interface TemplateFilter {
+    name: string;
+    args: Array<string | number>;
+}
+
+type BlockName = 'if' | 'unless' | 'each';
+
+interface TemplatePosition {
+    line: number;    // 1-based
+    column: number;  // 1-based
+}
+
+type TemplateNode =
+    | { type: 'text'; text: string }
+    | { type: 'output'; path: string; filters: TemplateFilter[]; source: string; position: TemplatePosition }
+    | {
+        type: 'block';
+        block: BlockName;
+        path: string;
+        body: TemplateNode[];
+        inverse: TemplateNode[];
+        hasElse: boolean;
+        position: TemplatePosition;
+    };
+
+export interface ParsedTemplate {
+    nodes: TemplateNode[];
+    errors: TemplateError[];
+}
+
+// Variables the template can read. Lookups ignore case.
+export type TemplateScope = Record<string, unknown>;
+
+interface FilterDefinition {
+    minArgs: number;
+    maxArgs: number;
+    numeric?: boolean;  // Arguments must be positive whole numbers
+    apply: (value: unknown, args: Array<string | number>) => unknown;
+}
+
+const BLOCKS: readonly BlockName[] = ['if', 'unless', 'each'];
+
+// this, this.label, @index, score_results, field.value, lore_entry:Castle Grounds
+// (a keyed variable - the key after the colon can hold spaces; ST's {{macro::arg}} isn't one)
+const PATH_PATTERN = /^(?:@\w+|this(?:\.\w+)*|[a-z_]\w*(?:\.\w+)*|[a-z_]\w*:[^:|{}][^|{}]*)$/i;
+
+const FILTERS: Record<string, FilterDefinition> = {
+    truncate: {
+        minArgs: 1,
+        maxArgs: 1,
+        numeric: true,
+        apply: (value, [length]) => {
+            const text = toText(value);
+            return text.length > (length as number) ? `${text.slice(0, length as number).trimEnd()}...` : text;
+        },
+    },
+    upper: { minArgs: 0, maxArgs: 0, apply: value => toText(value).toUpperCase() },
+    lower: { minArgs: 0, maxArgs: 0, apply: value => toText(value).toLowerCase() },
+    trim: { minArgs: 0, maxArgs: 0, apply: value => toText(value).trim() },
+    default: { minArgs: 1, maxArgs: 1, apply: (value, [fallback]) => isTruthy(value) ? value : fallback },
+    join: {
+        minArgs: 0,
+        maxArgs: 1,
+        apply: (value, [separator]) => Array.isArray(value) ? value.map(toText).join(String(separator ?? ', ')) : value,
+    },
+    length: {
+        minArgs: 0,
+        maxArgs: 0,
+        apply: value => Array.isArray(value) || typeof value === 'string' ? value.length : 0,
+    },
+};
+
+export const TEMPLATE_FILTER_NAMES = Object.keys(FILTERS);
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+interface OpenBlock {
+    node: Extract<TemplateNode, { type: 'block' }>;
+    offset: number;
+    inElse: boolean;
+}
+
+/**
+ * Parse a template into nodes, collecting every syntax error found along the way
+ */
+export function parseTemplate(template: string): ParsedTemplate {
+    const root: TemplateNode[] = [];
+    const errors: TemplateError[] = [];
+    const stack: OpenBlock[] = [];
+
+    const current = (): TemplateNode[] => {
+        const top = stack[stack.length - 1];
+        if (!top) return root;
+        return top.inElse ? top.node.inverse : top.node.body;
+    };
+
+    const error = (message: string, offset: number) => {
+        errors.push({ message, ...getPosition(template, offset) });
+    };
+
+    const pushText = (text: string) => {
+        if (!text) return;
+        const nodes = current();
+        const last = nodes[nodes.length - 1];
+        if (last?.type === 'text') {
+            last.text += text;
+        } else {
+            nodes.push({ type: 'text', text });
+        }
+    };
+
+    let pos = 0;
+
+    while (pos < template.length) {
+        const start = template.indexOf('{{', pos);
+        const end = start === -1 ? -1 : template.indexOf('}}', start + 2);
+
+        if (start === -1 || end === -1) {
+            pushText(template.slice(pos));
+            break;
+        }
+
+        const source = template.slice(start, end + 2);
+        const content = template.slice(start + 2, end).trim();
+        let next = end + 2;
+
+        const tag = classifyTag(content);
+
+        // Block tags and comments on a line of their own don't leave a blank line behind
+        let before = template.slice(pos, start);
+        if (tag.kind !== 'output' && tag.kind !== 'literal') {
+            const lineStart = before.lastIndexOf('\n') + 1;
+            const lineEnd = template.indexOf('\n', next);
+            const after = template.slice(next, lineEnd === -1 ? template.length : lineEnd);
+
+            if (!before.slice(lineStart).trim() && !after.trim() && (lineStart > 0 || pos === 0 || template[pos - 1] === '\n')) {
+                before = before.slice(0, lineStart);
+                next = lineEnd === -1 ? template.length : lineEnd + 1;
+            }
+        }
+
+        pushText(before);
+        pos = next;
+
+        switch (tag.kind) {
+            case 'comment':
+                break;
+
+            case 'literal':
+                pushText(source);
+                break;
+
+            case 'output': {
+                const filters = parseFilters(tag.filters, message => error(message, start));
+                current().push({ type: 'output', path: tag.path, filters, source, position: getPosition(template, start) });
+                break;
+            }
+
+            case 'open': {
+                if (!tag.path) {
+                    error(`{{#${tag.block}}} needs a variable, like {{#${tag.block} score_results}}`, start);
+                } else if (!PATH_PATTERN.test(tag.path)) {
+                    error(`{{#${tag.block} ${tag.path}}}: only a single variable can follow #${tag.block}`, start);
+                }
+
+                const node: OpenBlock['node'] = {
+                    type: 'block',
+                    block: tag.block,
+                    path: tag.path,
+                    body: [],
+                    inverse: [],
+                    hasElse: false,
+                    position: getPosition(template, start),
+                };
+                current().push(node);
+                stack.push({ node, offset: start, inElse: false });
+                break;
+            }
+
+            case 'else': {
+                const top = stack[stack.length - 1];
+                if (tag.rest) {
+                    error('{{else if}} isn\'t supported - put an {{#if}} inside the {{else}}', start);
+                }
+                if (!top) {
+                    error('{{else}} is outside any {{#if}}, {{#unless}} or {{#each}} block', start);
+                    pushText(source);
+                } else if (top.node.hasElse) {
+                    error(`{{#${top.node.block}}} already has an {{else}}`, start);
+                } else {
+                    top.node.hasElse = true;
+                    top.inElse = true;
+                }
+                break;
+            }
+
+            case 'close': {
+                const top = stack[stack.length - 1];
+                if (!top) {
+                    error(`{{/${tag.block}}} has no matching {{#${tag.block}}}`, start);
+                    pushText(source);
+                } else if (top.node.block !== tag.block) {
+                    const opened = getPosition(template, top.offset);
+                    error(`{{/${tag.block}}} closes the {{#${top.node.block}}} opened on line ${opened.line}`, start);
+
+                    // Close up to the block it names if there is one, otherwise treat it as a typo for the innermost
+                    const match = stack.map(open => open.node.block).lastIndexOf(tag.block);
+                    stack.splice(match === -1 ? stack.length - 1 : match);
+                } else {
+                    stack.pop();
+                }
+                break;
+            }
+
+            case 'unknown-block':
+                error(`Unknown block {{#${tag.name}}} - use #if, #unless or #each`, start);
+                pushText(source);
+                break;
+        }
+    }
+
+    for (const open of stack.reverse()) {
+        error(`{{#${open.node.block}}} is never closed - add {{/${open.node.block}}}`, open.offset);
+    }
+
+    errors.sort((a, b) => a.line - b.line || a.column - b.column);
+    return { nodes: root, errors };
+}
+
+/**
+ * Syntax errors in a template, in order
+ */
+export function validateTemplate(template: string): TemplateError[] {
+    return parseTemplate(template).errors;
+}
+
+/**
+ * "Line 3, column 5: message"
+ */
+export function formatTemplateError(error: TemplateError): string {
+    return `Line ${error.line}, column ${error.column}: ${error.message}`;
+}
+
+/**
+ * Names of the variables a template outputs (not those only used in conditions), lowercased
+ */
+export function getTemplateVariables(template: string | ParsedTemplate): string[] {
+    return [...new Set(getTemplateReferences(template).map(ref => ref.name))];
+}
+
+export interface TemplateReference {
+    name: string;        // Lowercased variable name, like "field"
+    key: string | null;  // "first_mes" for {{field:first_mes}}, null for plain variables
+}
+
+/**
+ * Variables a template outputs with their keys, each once, in order of first use
+ */
+export function getTemplateReferences(template: string | ParsedTemplate): TemplateReference[] {
+    const found = new Map<string, TemplateReference>();
+
+    for (const usage of getTemplateUsages(template)) {
+        if (!usage.condition) {
+            found.set(`${usage.name}:${usage.key ?? ''}`, { name: usage.name, key: usage.key });
+        }
+    }
+
+    return [...found.values()];
+}
+
+/**
+ * Every place a template reads a variable, outputs and block conditions alike, in order.
+ * Loop data ({{this}}, {{@index}}) isn't included.
+ */
+export function getTemplateUsages(template: string | ParsedTemplate): TemplateUsage[] {
+    const parsed = typeof template === 'string' ? parseTemplate(template) : template;
+    const usages: TemplateUsage[] = [];
+
+    const add = (path: string, position: TemplatePosition, condition: boolean, hasDefault: boolean, loops: string[], guards: string[]) => {
+        const { root, key } = splitPath(path);
+        const name = root.toLowerCase();
+        if (name === 'this' || name.startsWith('@')) return;
+
+        usages.push({ name, key, path, ...position, condition, hasDefault, loops, guards });
+    };
+
+    const visit = (nodes: TemplateNode[], loops: string[], guards: string[]) => {
+        for (const node of nodes) {
+            if (node.type === 'output') {
+                add(node.path, node.position, false, node.filters.some(f => f.name === 'default'), loops, guards);
+            } else if (node.type === 'block') {
+                if (node.path) add(node.path, node.position, true, false, loops, guards);
+
+                const inner = node.block === 'each' ? [...loops, node.path] : loops;
+                visit(node.body, inner, node.block === 'if' ? [...guards, node.path] : guards);
+                visit(node.inverse, loops, node.block === 'unless' ? [...guards, node.path] : guards);
+            }
+        }
+    };
+
+    visit(parsed.nodes, [], []);
+    return usages;
+}
+
+type ClassifiedTag =
+    | { kind: 'comment' }
+    | { kind: 'literal' }
+    | { kind: 'output'; path: string; filters: string[] }
+    | { kind: 'open'; block: BlockName; path: string }
+    | { kind: 'else'; rest: string }
+    | { kind: 'close'; block: BlockName }
+    | { kind: 'unknown-block'; name: string };
+
+function classifyTag(content: string): ClassifiedTag {
+    if (content.startsWith('!')) {
+        return { kind: 'comment' };
+    }
+
+    const block = content.match(/^#(\w+)\s*([\s\S]*)$/);
+    if (block) {
+        const name = block[1].toLowerCase();
+        return (BLOCKS as readonly string[]).includes(name)
+            ? { kind: 'open', block: name as BlockName, path: block[2].trim() }
+            : { kind: 'unknown-block', name: block[1] };
+    }
+
+    const close = content.match(/^\/(\w+)$/);
+    if (close && (BLOCKS as readonly string[]).includes(close[1].toLowerCase())) {
+        return { kind: 'close', block: close[1].toLowerCase() as BlockName };
+    }
+
+    const otherwise = content.match(/^else\b\s*([\s\S]*)$/i);
+    if (otherwise) {
+        return { kind: 'else', rest: otherwise[1].trim() };
+    }
+
+    const [path, ...filters] = splitFilters(content);
+    if (PATH_PATTERN.test(path.trim())) {
+        return { kind: 'output', path: path.trim(), filters };
+    }
+
+    // SillyTavern macros and anything else in braces
+    return { kind: 'literal' };
+}
+
+/**
+ * Split on | outside quotes
+ */
+function splitFilters(content: string): string[] {
+    const parts: string[] = [];
+    let quote: string | null = null;
+    let part = '';
+
+    for (const char of content) {
+        if (quote) {
+            if (char === quote) quote = null;
+        } else if (char === '"' || char === '\'') {
+            quote = char;
+        } else if (char === '|') {
+            parts.push(part);
+            part = '';
+            continue;
+        }
+        part += char;
+    }
+
+    parts.push(part);
+    return parts;
+}
+
+function parseFilters(segments: string[], onError: (message: string) => void): TemplateFilter[] {
+    const filters: TemplateFilter[] = [];
+
+    for (const segment of segments) {
+        const match = segment.trim().match(/^(\w+)\s*(?::\s*([\s\S]*))?$/);
+        if (!match) {
+            onError(`Invalid filter "${segment.trim()}" - write filters like | truncate:500`);
+            continue;
+        }
+
+        const name = match[1].toLowerCase();
+        const definition = FILTERS[name];
+        if (!definition) {
+            onError(`Unknown filter "${match[1]}" - available: ${TEMPLATE_FILTER_NAMES.join(', ')}`);
+            continue;
+        }
+
+        const args = match[2] !== undefined ? [parseArgument(match[2].trim())] : [];
+        if (args.length < definition.minArgs || args.length > definition.maxArgs) {
+            onError(definition.maxArgs === 0
+                ? `Filter "${name}" doesn't take an argument`
+                : `Filter "${name}" needs an argument, like | ${name}:${definition.numeric ? '500' : '"text"'}`);
+            continue;
+        }
+
+        if (definition.numeric && args.some(arg => typeof arg !== 'number' || arg <= 0 || !Number.isInteger(arg))) {
+            onError(`Filter "${name}" needs a positive whole number, like | ${name}:500`);
+            continue;
+        }
+
+        filters.push({ name, args });
+    }
+
+    return filters;
+}
+
+function parseArgument(text: string): string | number {
+    const quoted = text.match(/^(["'])([\s\S]*)\1$/);
+    if (quoted) {
+        return quoted[2].replace(/\\n/g, '\n');
+    }
+
+    const num = Number(text);
+    return text !== '' && !isNaN(num) ? num : text;
+}
+
+function getPosition(template: string, offset: number): TemplatePosition {
+    const before = template.slice(0, offset);
+    const lineStart = before.lastIndexOf('\n') + 1;
+    return {
+        line: before.split('\n').length,
+        column: offset - lineStart + 1,
+    };
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+interface ScopeFrame {
+    value: unknown;
+    data?: Record<string, unknown>;  // @index, @number, @first, @last inside {{#each}}
+}
+
+/**
+ * Render a template with the given variables. Outputs whose variable doesn't exist are
+ * left as written, so placeholders without a value stay visible.
+ */
+export function renderTemplate(template: string | ParsedTemplate, scope: TemplateScope): string {
+    const parsed = typeof template === 'string' ? parseTemplate(template) : template;
+    return renderNodes(parsed.nodes, [{ value: scope }]);
+}
+
+function renderNodes(nodes: TemplateNode[], frames: ScopeFrame[]): string {
+    let output = '';
+
+    for (const node of nodes) {
+        switch (node.type) {
+            case 'text':
+                output += node.text;
+                break;
+
+            case 'output': {
+                const value = lookup(node.path, frames);
+                if (value === undefined && !node.filters.some(f => f.name === 'default')) {
+                    output += node.source;
+                    break;
+                }
+                output += toText(node.filters.reduce((v, f) => FILTERS[f.name].apply(v, f.args), value));
+                break;
+            }
+
+            case 'block': {
+                const value = node.path ? lookup(node.path, frames) : undefined;
+
+                if (node.block === 'each') {
+                    const items = Array.isArray(value) ? value : [];
+                    if (items.length === 0) {
+                        output += renderNodes(node.inverse, frames);
+                        break;
+                    }
+
+                    items.forEach((item, index) => {
+                        output += renderNodes(node.body, [...frames, {
+                            value: item,
+                            data: { index, number: index + 1, first: index === 0, last: index === items.length - 1 },
+                        }]);
+                    });
+                    break;
+                }
+
+                const show = node.block === 'if' ? isTruthy(value) : !isTruthy(value);
+                output += renderNodes(show ? node.body : node.inverse, frames);
+                break;
+            }
+        }
+    }
+
+    return output;
+}
+
+/**
+ * Resolve a dotted or keyed path against the innermost scope that has its first part
+ */
+function lookup(path: string, frames: ScopeFrame[]): unknown {
+    const { root: first, key, rest } = splitPath(path);
+
+    if (first.startsWith('@')) {
+        const frame = [...frames].reverse().find(f => f.data);
+        return frame ? getProperty(frame.data, first.slice(1)) : undefined;
+    }
+
+    let value: unknown;
+    if (first.toLowerCase() === 'this') {
+        value = frames[frames.length - 1].value;
+    } else {
+        const frame = [...frames].reverse().find(f => getProperty(f.value, first) !== undefined);
+        value = frame ? getProperty(frame.value, first) : undefined;
+    }
+
+    if (key !== null) {
+        return getProperty(value, key);
+    }
+
+    for (const part of rest) {
+        value = getProperty(value, part);
+    }
+
+    return value;
+}
+
+/**
+ * "field:first_mes" is root "field" with key "first_mes"; "this.label" is root "this" with rest ["label"]
+ */
+function splitPath(path: string): { root: string; key: string | null; rest: string[] } {
+    const keyed = path.match(/^([a-z_]\w*):(.+)$/i);
+    if (keyed) {
+        return { root: keyed[1], key: keyed[2].trim(), rest: [] };
+    }
+
+    const [root, ...rest] = path.split('.');
+    return { root, key: null, rest };
+}
+
+function getProperty(obj: unknown, key: string): unknown {
+    if (!obj || typeof obj !== 'object' || Array.isArray(obj)) return undefined;
+
+    const record = obj as Record<string, unknown>;
+    if (key in record) return record[key];
+
+    const match = Object.keys(record).find(k => k.toLowerCase() === key.toLowerCase());
+    return match === undefined ? undefined : record[match];
+}
+
+/**
+ * Blank strings, zero, empty lists and empty objects are false
+ */
+function isTruthy(value: unknown): boolean {
+    if (value === undefined || value === null) return false;
+    if (typeof value === 'string') return value.trim().length > 0;
+    if (typeof value === 'number') return value !== 0 && !isNaN(value);
+    if (Array.isArray(value)) return value.length > 0;
+    if (typeof value === 'object') return Object.keys(value).length > 0;
+    return !!value;
+}
+
+function toText(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    if (typeof value === 'string') return value;
+    if (Array.isArray(value)) return value.map(toText).join('\n');
+    if (typeof value === 'object') return JSON.stringify(value, null, 2);
+    return String(value);
+}
@@ -0,0 +1,48 @@
+// src/tests/batch.test.ts
+
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { installMockContext, createMockCharacter } from './mock-context';
+import type { MockContext } from './mock-context';
+import { getSettings, updateRetryConfig } from '../settings';
+import { createBatchRun, runBatch } from '../batch';
+import { loadBatchItemResult, loadCharacterUsage } from '../persistence';
+import { createPipelineState } from '../pipeline';
+import { flattenLedger } from '../usage';
+
+describe('batch runs', () => {
+    let mock: MockContext;
+
+    beforeEach(() => {
+        mock = installMockContext({
+            characters: [
+                createMockCharacter({ name: 'Knight', avatar: 'knight.png' }),
+                createMockCharacter({ name: 'Witch', avatar: 'witch.png' }),
+            ],
+        });
+        getSettings();
+        updateRetryConfig({ maxAttempts: 1, initialDelayMs: 0 });
+    });
+
+    it('records token usage per character and for the whole run', async () => {
+        const run = await createBatchRun(mock.characters, ['score'], createPipelineState().configs);
+
+        await runBatch(run, new AbortController().signal);
+
+        assert.equal(run.status, 'complete');
+        assert.equal(run.usage?.score.length, 1);
+
+        const knight = await loadBatchItemResult(run.id, 'knight.png');
+        const witch = await loadBatchItemResult(run.id, 'witch.png');
+        const [runTotal] = flattenLedger(run.usage ?? {});
+        const [knightTotal] = flattenLedger(knight?.usage ?? {});
+        const [witchTotal] = flattenLedger(witch?.usage ?? {});
+
+        assert.ok(knightTotal.completionTokens > 0);
+        assert.equal(runTotal.promptTokens, knightTotal.promptTokens + witchTotal.promptTokens);
+        assert.equal(runTotal.completionTokens, knightTotal.completionTokens + witchTotal.completionTokens);
+
+        // Counted for the character outside the run too
+        assert.deepEqual(flattenLedger(await loadCharacterUsage(mock.characters[0])), [knightTotal]);
+    });
+});
@@ -0,0 +1,226 @@
+// src/tests/fake-backend.test.ts
+//
+// Stage and refinement generations answered by the scripted test backend,
+// through the same retry, re-ask and streaming paths as a real connection.
+
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { installMockContext, createMockCharacter } from './mock-context';
+import {
+    getSettings,
+    updateSetting,
+    updateGenerationConfig,
+    updateRetryConfig,
+    updateSchemaValidationConfig,
+} from '../settings';
+import { runStageGeneration, runRefinementGeneration, isApiReady } from '../generator';
+import { parseFakeBackendScript, getFakeBackendRequests, resetFakeBackend } from '../fake-backend';
+import { createPipelineState, setCharacter, completeStage, initializeFieldSelection } from '../pipeline';
+import { FAKE_BACKEND_SOURCE, FAKE_BACKEND_MODEL } from '../constants';
+import type { FakeBackendScript, PipelineState } from '../types';
+
+const SCORE_SCHEMA = JSON.stringify({
+    name: 'score',
+    strict: true,
+    value: {
+        type: 'object',
+        properties: { score: { type: 'integer', minimum: 1, maximum: 10 } },
+        required: ['score'],
+        additionalProperties: false,
+    },
+});
+
+function useScript(script: FakeBackendScript): void {
+    updateSetting('fakeBackendScript', JSON.stringify(script));
+}
+
+function createReadyState(): PipelineState {
+    const character = createMockCharacter({ description: 'A knight who hates mornings' });
+    const state = setCharacter(createPipelineState(), character, 0);
+    return { ...state, selectedFields: initializeFieldSelection(character) };
+}
+
+function complete(state: PipelineState, stage: string, response: string): PipelineState {
+    return completeStage(state, stage, { response, isStructured: false, promptUsed: '', schemaUsed: null });
+}
+
+describe('scripted test backend', () => {
+    beforeEach(() => {
+        // No API connected - the test backend doesn't need one
+        installMockContext({ onlineStatus: 'no_connection' });
+        getSettings();
+        updateSetting('useCurrentSettings', false);
+        updateGenerationConfig({ source: FAKE_BACKEND_SOURCE, model: FAKE_BACKEND_MODEL });
+        updateRetryConfig({ maxAttempts: 1, initialDelayMs: 0 });
+        resetFakeBackend();
+    });
+
+    it('answers each stage from its rule and records the requests', async () => {
+        useScript({
+            rules: [
+                { stage: 'score', response: 'Score: 6/10' },
+                { stage: 'rewrite', match: 'hates mornings', response: 'A knight who loves mornings' },
+            ],
+        });
+
+        assert.equal(isApiReady(), true);
+
+        const score = await runStageGeneration(createReadyState(), 'score');
+        const rewrite = await runStageGeneration(complete(createReadyState(), 'score', 'Score: 6/10'), 'rewrite');
+
+        assert.ok(score.success && rewrite.success);
+        assert.equal(score.response, 'Score: 6/10');
+        assert.equal(rewrite.response, 'A knight who loves mornings');
+        assert.equal(score.usage?.source, FAKE_BACKEND_SOURCE);
+
+        const requests = getFakeBackendRequests();
+        assert.deepEqual(requests.map(r => [r.stage, r.rule]), [['score', 0], ['rewrite', 1]]);
+        assert.match(requests[0].userPrompt, /hates mornings/);
+    });
+
+    it('uses the default response when no rule matches', async () => {
+        useScript({ defaultResponse: 'Fine.', rules: [{ stage: 'analyze', response: 'Never' }] });
+
+        const result = await runStageGeneration(createReadyState(), 'score');
+
+        assert.ok(result.success);
+        assert.equal(result.response, 'Fine.');
+        assert.equal(getFakeBackendRequests()[0].rule, null);
+    });
+
+    it('streams the response in chunks', async () => {
+        useScript({ rules: [{ response: 'abcdefgh', chunks: 4 }] });
+        const progress: string[] = [];
+
+        const result = await runStageGeneration(createReadyState(), 'score', undefined, text => progress.push(text));
+
+        assert.ok(result.success);
+        assert.deepEqual(progress, ['ab', 'abcd', 'abcdef', 'abcdefgh']);
+    });
+
+    it('scripts a refinement loop with answers in order', async () => {
+        useScript({
+            rules: [
+                { stage: 'analyze', response: ['Verdict: NEEDS_REFINEMENT', 'Verdict: ACCEPT'] },
+                { stage: 'refinement', response: 'Refined card' },
+            ],
+        });
+
+        let state = complete(complete(createReadyState(), 'score', 'Scores'), 'rewrite', 'Rewrite V1');
+
+        const first = await runStageGeneration(state, 'analyze');
+        assert.ok(first.success);
+        state = complete(state, 'analyze', first.response);
+
+        const refined = await runRefinementGeneration(state);
+        assert.ok(refined.success);
+        assert.equal(refined.response, 'Refined card');
+
+        const second = await runStageGeneration(complete(state, 'rewrite', refined.response), 'analyze');
+        assert.ok(second.success);
+
+        assert.equal(first.response, 'Verdict: NEEDS_REFINEMENT');
+        assert.equal(second.response, 'Verdict: ACCEPT');
+        assert.deepEqual(getFakeBackendRequests().map(r => r.stage), ['analyze', 'refinement', 'analyze']);
+    });
+
+    it('retries a scripted error', async () => {
+        updateRetryConfig({ maxAttempts: 2 });
+        useScript({ rules: [{ error: 'Rate limited', times: 1 }, { response: 'Second time lucky' }] });
+
+        const result = await runStageGeneration(createReadyState(), 'score');
+
+        assert.ok(result.success);
+        assert.equal(result.response, 'Second time lucky');
+        assert.deepEqual(result.attempts?.map(a => a.outcome), ['error', 'success']);
+    });
+
+    it('fails on an empty response', async () => {
+        useScript({ rules: [{ response: '' }] });
+
+        const result = await runStageGeneration(createReadyState(), 'score');
+
+        assert.deepEqual(result, { success: false, error: 'Empty response from API' });
+    });
+
+    it('keeps the text streamed before an error', async () => {
+        useScript({ rules: [{ response: 'Half a response', error: 'Connection reset' }] });
+
+        const result = await runStageGeneration(createReadyState(), 'score');
+
+        assert.ok(result.success);
+        assert.equal(result.response, 'Half a response');
+        assert.equal(result.partial, true);
+    });
+
+    it('retries a response cut off by a stream error', async () => {
+        updateRetryConfig({ maxAttempts: 2 });
+        useScript({ rules: [{ response: 'Half a response', error: 'Connection reset', times: 1 }, { response: 'The whole response' }] });
+
+        const result = await runStageGeneration(createReadyState(), 'score');
+
+        assert.ok(result.success);
+        assert.equal(result.response, 'The whole response');
+        assert.equal(result.partial, undefined);
+        assert.deepEqual(result.attempts?.map(a => a.outcome), ['partial', 'success']);
+    });
+
+    it('re-asks when the JSON doesn\'t match the schema', async () => {
+        updateSchemaValidationConfig({ reaskOnViolation: true, maxReasks: 1 });
+        useScript({
+            rules: [
+                { match: 'did not match the required JSON schema', json: { score: 7 } },
+                { json: { score: 11, notes: 'extra' } },
+            ],
+        });
+
+        const state = createReadyState();
+        state.configs.score = { ...state.configs.score, useStructuredOutput: true, schemaPresetId: null, customSchema: SCORE_SCHEMA };
+
+        const result = await runStageGeneration(state, 'score');
+
+        assert.ok(result.success);
+        assert.equal(result.isStructured, true);
+        assert.deepEqual(JSON.parse(result.response), { score: 7 });
+        assert.deepEqual(getFakeBackendRequests().map(r => r.rule), [1, 0]);
+        assert.equal(getFakeBackendRequests()[0].jsonSchema?.name, 'score');
+    });
+
+    it('can be cancelled while waiting out its latency', async () => {
+        useScript({ latencyMs: 5000, rules: [{ response: 'Too late' }] });
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 20);
+
+        const started = Date.now();
+        const result = await runStageGeneration(createReadyState(), 'score', controller.signal);
+
+        assert.deepEqual(result, { success: false, error: 'Generation cancelled' });
+        assert.ok(Date.now() - started < 2000);
+    });
+
+    it('reports an invalid script as a failed generation', async () => {
+        updateSetting('fakeBackendScript', '{ "rules": [');
+
+        const result = await runStageGeneration(createReadyState(), 'score');
+
+        assert.equal(result.success, false);
+        assert.match(!result.success ? result.error : '', /script is invalid/);
+    });
+});
+
+describe('parseFakeBackendScript', () => {
+    it('accepts an empty script', () => {
+        assert.deepEqual(parseFakeBackendScript('  '), { script: {} });
+    });
+
+    it('points at the broken rule', () => {
+        assert.match(errorOf(parseFakeBackendScript('[]')), /JSON object/);
+        assert.match(errorOf(parseFakeBackendScript('{ "rules": {} }')), /must be an array/);
+        assert.match(errorOf(parseFakeBackendScript('{ "rules": [{}, { "match": "(" }] }')), /Rule 2: invalid match pattern/);
+        assert.match(errorOf(parseFakeBackendScript('{ "rules": [{ "response": 5 }] }')), /Rule 1: 'response'/);
+    });
+});
+
+function errorOf(result: ReturnType<typeof parseFakeBackendScript>): string {
+    return 'error' in result ? result.error : '';
+}
@@ -0,0 +1,111 @@
+// src/tests/generator.test.ts
+//
+// Generation with ST's current settings: through generateRaw with the whole preset
+// by default, streamed from the current Chat Completion connection when asked to.
+// Which responses the response cache keeps.
+
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { installMockContext, createMockCharacter } from './mock-context';
+import type { MockContext } from './mock-context';
+import { getSettings, updateSetting, updateRetryConfig, updateCacheConfig, updateGenerationConfig } from '../settings';
+import { runStageGeneration } from '../generator';
+import { createPipelineState, setCharacter, initializeFieldSelection } from '../pipeline';
+import type { PipelineState } from '../types';
+
+function createReadyState(): PipelineState {
+    const character = createMockCharacter({ description: 'A knight who hates mornings' });
+    const state = setCharacter(createPipelineState(), character, 0);
+    return { ...state, selectedFields: initializeFieldSelection(character) };
+}
+
+describe('generation with current settings', () => {
+    let mock: MockContext;
+
+    beforeEach(() => {
+        mock = installMockContext({ defaultResponse: 'A solid 7/10' });
+        mock.context.chatCompletionSettings = {
+            chat_completion_source: 'openai',
+            openai_model: 'gpt-4o',
+            temp_openai: 0.5,
+        };
+        getSettings();
+        updateRetryConfig({ maxAttempts: 1, initialDelayMs: 0 });
+    });
+
+    it('goes through generateRaw so the whole preset applies', async () => {
+        const result = await runStageGeneration(createReadyState(), 'score');
+
+        assert.ok(result.success);
+        assert.equal(result.response, 'A solid 7/10');
+        assert.deepEqual(mock.requests.map(r => r.api), ['generateRaw']);
+    });
+
+    it('streams from the current Chat Completion connection when enabled', async () => {
+        updateSetting('streamCurrentSettings', true);
+        const progress: string[] = [];
+
+        const result = await runStageGeneration(createReadyState(), 'score', undefined, text => progress.push(text));
+
+        assert.ok(result.success);
+        assert.equal(result.response, 'A solid 7/10');
+        assert.deepEqual(mock.requests.map(r => r.api), ['chatCompletion']);
+        assert.equal(mock.requests[0].options.model, 'gpt-4o');
+        assert.equal(mock.requests[0].options.temperature, 0.5);
+        assert.ok(progress.length > 1);
+    });
+
+    it('falls back to generateRaw for other APIs even when streaming is enabled', async () => {
+        updateSetting('streamCurrentSettings', true);
+        mock.context.mainApi = 'textgenerationwebui';
+
+        const result = await runStageGeneration(createReadyState(), 'score');
+
+        assert.ok(result.success);
+        assert.deepEqual(mock.requests.map(r => r.api), ['generateRaw']);
+    });
+});
+
+describe('response cache', () => {
+    let mock: MockContext;
+
+    beforeEach(() => {
+        mock = installMockContext();
+        getSettings();
+        updateSetting('useCurrentSettings', false);
+        updateGenerationConfig({ source: 'openai', model: 'gpt-4o' });
+        updateRetryConfig({ maxAttempts: 1, initialDelayMs: 0 });
+        updateCacheConfig({ enabled: true });
+    });
+
+    it('answers a repeated request from the cache', async () => {
+        mock.queueResponses('First answer', 'Second answer');
+
+        await runStageGeneration(createReadyState(), 'score');
+        const repeat = await runStageGeneration(createReadyState(), 'score');
+
+        assert.ok(repeat.success);
+        assert.equal(repeat.response, 'First answer');
+        assert.ok(repeat.cachedAt);
+    });
+
+    it('doesn\'t keep a response cut off by a stream error', async () => {
+        const { sendRequest } = mock.context.ChatCompletionService;
+        mock.context.ChatCompletionService.sendRequest = async () => async function* () {
+            yield { text: 'Half an' };
+            throw new Error('Connection reset');
+        };
+
+        const cutOff = await runStageGeneration(createReadyState(), 'score');
+        assert.ok(cutOff.success);
+        assert.equal(cutOff.partial, true);
+
+        mock.context.ChatCompletionService.sendRequest = sendRequest;
+        mock.queueResponses('The whole answer');
+
+        const repeat = await runStageGeneration(createReadyState(), 'score');
+        assert.ok(repeat.success);
+        assert.equal(repeat.response, 'The whole answer');
+        assert.equal(repeat.cachedAt, undefined);
+    });
+});
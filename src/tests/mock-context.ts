@@ -0,0 +1,293 @@
+// src/tests/mock-context.ts
+//
+// A stand-in for the SillyTavern page so modules can be tested in Node:
+// getContext() with in-memory extension settings and characters, the libs we use
+// (localforage, lodash, moment, DOMPurify) and scripted generation through
+// generateRaw and ChatCompletionService. Every request is recorded.
+
+import type { Character } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MockGenerationRequest {
+    api: 'generateRaw' | 'chatCompletion';
+    messages: Array<{ role: string; content: string }>;
+    options: Record<string, unknown>;
+}
+
+// A reply: fixed text, an error to throw, or a function of the request
+export type MockResponse = string | Error | ((request: MockGenerationRequest) => string | Promise<string>);
+
+export interface MockContextOptions {
+    characters?: Character[];
+    extensionSettings?: Record<string, unknown>;
+    mainApi?: string;
+    onlineStatus?: string;
+    // Used when no scripted response is queued
+    defaultResponse?: MockResponse;
+}
+
+export interface MockContext {
+    context: SillyTavernContext;
+    extensionSettings: Record<string, unknown>;
+    characters: Character[];
+    storage: Map<string, unknown>;
+    requests: MockGenerationRequest[];
+    // How many times saveSettingsDebounced was called
+    saveCount: number;
+    // Queue replies for the next generations, in order
+    queueResponses(...responses: MockResponse[]): void;
+}
+
+const DEFAULT_RESPONSE = 'Mock response';
+
+// ============================================================================
+// INSTALL
+// ============================================================================
+
+/**
+ * Replace the global SillyTavern object with a fresh mock. Call before each test -
+ * settings, storage, characters and recorded requests all start empty.
+ */
+export function installMockContext(options: MockContextOptions = {}): MockContext {
+    const queue: MockResponse[] = [];
+
+    const mock: MockContext = {
+        context: null as unknown as SillyTavernContext,
+        extensionSettings: options.extensionSettings ?? {},
+        characters: options.characters ?? [],
+        storage: new Map(),
+        requests: [],
+        saveCount: 0,
+        queueResponses(...responses: MockResponse[]) {
+            queue.push(...responses);
+        },
+    };
+
+    const reply = async (request: MockGenerationRequest): Promise<string> => {
+        mock.requests.push(request);
+
+        const response = queue.length > 0 ? queue.shift()! : options.defaultResponse ?? DEFAULT_RESPONSE;
+        if (response instanceof Error) throw response;
+        return typeof response === 'function' ? response(request) : response;
+    };
+
+    const context = {
+        chat: [],
+        characters: mock.characters,
+        groups: [],
+        characterId: undefined,
+        groupId: null,
+        chatId: undefined,
+        name1: 'User',
+        name2: 'Character',
+        onlineStatus: options.onlineStatus ?? 'Valid',
+        maxContext: 8192,
+        mainApi: options.mainApi ?? 'openai',
+        chatMetadata: {},
+        extensionSettings: mock.extensionSettings,
+        chatCompletionSettings: {},
+        textCompletionSettings: {},
+        powerUserSettings: {},
+
+        eventSource: {
+            on() {},
+            once() {},
+            emit: async () => {},
+            removeListener() {},
+        },
+        eventTypes: {},
+
+        saveSettingsDebounced() {
+            mock.saveCount++;
+        },
+        saveMetadataDebounced() {},
+        getTokenCountAsync: async (text: string) => Math.ceil(text.length / 4),
+        getTokenCount: (text: string) => Math.ceil(text.length / 4),
+        getThumbnailUrl: (type: string, file: string) => `/thumbnail?type=${type}&file=${file}`,
+        substituteParams: (text: string) => text.replace(/\{\{user\}\}/gi, 'User').replace(/\{\{char\}\}/gi, 'Character'),
+        getRequestHeaders: () => ({}),
+        uuidv4: () => crypto.randomUUID(),
+
+        generateRaw: async (request: { prompt: string | Array<{ role: string; content: string }>; systemPrompt?: string; jsonSchema?: unknown }) => {
+            const messages = typeof request.prompt === 'string'
+                ? [{ role: 'user', content: request.prompt }]
+                : request.prompt;
+            if (request.systemPrompt) messages.unshift({ role: 'system', content: request.systemPrompt });
+
+            return reply({ api: 'generateRaw', messages, options: { jsonSchema: request.jsonSchema ?? null } });
+        },
+        generateQuietPrompt: async ({ quietPrompt }: { quietPrompt: string }) =>
+            reply({ api: 'generateRaw', messages: [{ role: 'user', content: quietPrompt }], options: {} }),
+
+        getCharacters: async () => {},
+        unshallowCharacter: async () => {},
+        writeExtensionField: async (characterId: number, key: string, value: unknown) => {
+            const character = mock.characters[characterId];
+            if (!character) return;
+            character.data = character.data ?? {};
+            character.data.extensions = { ...character.data.extensions, [key]: value };
+        },
+
+        Popup: class {},
+        POPUP_TYPE: { TEXT: 1, CONFIRM: 2, INPUT: 3 },
+        POPUP_RESULT: { AFFIRMATIVE: 1, NEGATIVE: 0, CANCELLED: null },
+        renderExtensionTemplateAsync: async () => '',
+
+        ChatCompletionService: {
+            async sendRequest(requestOptions: Record<string, unknown>) {
+                const request: MockGenerationRequest = {
+                    api: 'chatCompletion',
+                    messages: (requestOptions.messages as MockGenerationRequest['messages']) ?? [],
+                    options: requestOptions,
+                };
+
+                if (!requestOptions.stream) {
+                    return { content: await reply(request) };
+                }
+
+                // Streamed like ST: each chunk carries the whole text so far
+                const text = await reply(request);
+                return async function* () {
+                    const step = Math.max(1, Math.ceil(text.length / 4));
+                    for (let end = step; end < text.length + step; end += step) {
+                        yield { text: text.slice(0, end) };
+                    }
+                };
+            },
+        },
+
+        getPresetManager: () => null,
+    };
+
+    mock.context = context as unknown as SillyTavernContext;
+
+    (globalThis as { SillyTavern?: unknown }).SillyTavern = {
+        getContext: () => mock.context,
+        libs: createMockLibs(mock.storage),
+    };
+
+    return mock;
+}
+
+/**
+ * A character card with every core field filled in
+ */
+export function createMockCharacter(overrides: Partial<Character> = {}): Character {
+    return {
+        name: 'TestChar',
+        avatar: 'test.png',
+        description: 'A test character',
+        personality: 'Test personality',
+        first_mes: 'Hello test',
+        mes_example: '',
+        scenario: '',
+        ...overrides,
+    };
+}
+
+// ============================================================================
+// LIBS
+// ============================================================================
+
+function createMockLibs(storage: Map<string, unknown>): SillyTavernLibs {
+    return {
+        lodash: {
+            merge: deepMerge,
+            cloneDeep: <T>(value: T): T => structuredClone(value),
+            escapeRegExp: (text: string) => text.replace(/[\\^$.*+?()[\]{}|]/g, '\\$&'),
+            debounce: passThrough,
+            throttle: passThrough,
+        },
+        Fuse: class {},
+        DOMPurify: {
+            sanitize: (html: string, options?: { ALLOWED_TAGS?: string[] }) =>
+                options?.ALLOWED_TAGS?.length === 0 ? html.replace(/<[^>]*>/g, '') : html,
+        },
+        moment: createMockMoment,
+        // Values are cloned on the way in and out, like IndexedDB
+        localforage: {
+            getItem: async (key: string) => (storage.has(key) ? structuredClone(storage.get(key)) : null),
+            setItem: async (key: string, value: unknown) => {
+                storage.set(key, structuredClone(value));
+                return value;
+            },
+            removeItem: async (key: string) => {
+                storage.delete(key);
+            },
+            keys: async () => [...storage.keys()],
+        },
+        showdown: {
+            Converter: class {
+                makeHtml(text: string): string {
+                    return `<p>${text}</p>`;
+                }
+            },
+        },
+        hljs: {
+            highlight: (code: string) => ({ value: code }),
+        },
+    };
+}
+
+/**
+ * lodash.merge for plain data: objects and arrays are merged key by key,
+ * undefined source values leave the destination alone
+ */
+function deepMerge(target: Record<string, unknown>, ...sources: unknown[]): Record<string, unknown> {
+    for (const source of sources) {
+        if (!isMergeable(source)) continue;
+
+        for (const [key, value] of Object.entries(source)) {
+            if (value === undefined) continue;
+
+            const existing = target[key];
+            if (isMergeable(value) && isMergeable(existing) && Array.isArray(value) === Array.isArray(existing)) {
+                deepMerge(existing as Record<string, unknown>, value);
+            } else {
+                target[key] = isMergeable(value) ? structuredClone(value) : value;
+            }
+        }
+    }
+
+    return target;
+}
+
+function isMergeable(value: unknown): value is Record<string, unknown> {
+    if (value === null || typeof value !== 'object') return false;
+    const proto = Object.getPrototypeOf(value);
+    return Array.isArray(value) || proto === Object.prototype || proto === null;
+}
+
+// Debounced and throttled calls run straight away so tests don't wait on timers
+function passThrough<T extends (...args: never[]) => unknown>(fn: T): T & { cancel(): void; flush(): void } {
+    return Object.assign(fn, { cancel() {}, flush() {} });
+}
+
+/**
+ * The slice of moment we use: format() with the usual tokens, and fromNow()
+ */
+function createMockMoment(input?: number | string | Date) {
+    const date = input === undefined ? new Date() : new Date(input);
+    const pad = (n: number) => String(n).padStart(2, '0');
+
+    const tokens: Record<string, string> = {
+        YYYY: String(date.getFullYear()),
+        MM: pad(date.getMonth() + 1),
+        DD: pad(date.getDate()),
+        HH: pad(date.getHours()),
+        mm: pad(date.getMinutes()),
+        ss: pad(date.getSeconds()),
+    };
+
+    return {
+        format: (pattern = 'YYYY-MM-DDTHH:mm:ss') => pattern.replace(/YYYY|MM|DD|HH|mm|ss/g, token => tokens[token]),
+        fromNow: () => {
+            const minutes = Math.round((Date.now() - date.getTime()) / 60000);
+            return minutes < 1 ? 'a few seconds ago' : `${minutes} minutes ago`;
+        },
+        valueOf: () => date.getTime(),
+    };
+}
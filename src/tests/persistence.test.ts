@@ -0,0 +1,334 @@
+// src/tests/persistence.test.ts
+
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { installMockContext, createMockCharacter } from './mock-context';
+import type { MockContext } from './mock-context';
+import {
+    savePipelineSession,
+    loadPipelineSession,
+    clearPipelineSession,
+    getSessionKey,
+    listSessions,
+    exportSessions,
+    importSessions,
+    setLastSessionCharacter,
+    getLastSessionCharacter,
+    getCacheKey,
+    getCachedResponse,
+    saveCachedResponse,
+    getResponseCacheCount,
+    clearResponseCache,
+    saveBatchRun,
+    loadBatchRuns,
+    loadCharacterUsage,
+    recordCharacterUsage,
+    loadCardBackups,
+} from '../persistence';
+import { ensureCharacterId, getCharacterId } from '../identity';
+import { createPipelineState, setCharacter, completeStage } from '../pipeline';
+import { MODULE_NAME } from '../constants';
+import type { BatchRun, Character, PipelineState, StageConfig, StageName } from '../types';
+
+function createSessionState(character: Character): PipelineState {
+    const state = setCharacter(createPipelineState(), character, 0);
+
+    return completeStage(state, 'score', {
+        response: 'Saved score',
+        isStructured: false,
+        promptUsed: 'prompt',
+        schemaUsed: null,
+    });
+}
+
+function withId(character: Character, id: string): Character {
+    return { ...character, data: { extensions: { [MODULE_NAME]: { id } } } };
+}
+
+describe('pipeline sessions', () => {
+    let mock: MockContext;
+
+    beforeEach(() => {
+        mock = installMockContext();
+    });
+
+    it('saves and loads a session', async () => {
+        const character = createMockCharacter();
+
+        assert.equal(await savePipelineSession(createSessionState(character)), true);
+        const session = await loadPipelineSession(character);
+
+        assert.ok(session);
+        assert.equal(session.characterName, 'TestChar');
+        assert.equal(session.state.results.score?.response, 'Saved score');
+    });
+
+    it('doesn\'t save without a character', async () => {
+        assert.equal(await savePipelineSession(createPipelineState()), false);
+        assert.equal(mock.storage.size, 0);
+    });
+
+    it('ignores a session saved for another card with the same avatar', async () => {
+        await savePipelineSession(createSessionState(withId(createMockCharacter(), 'first')));
+
+        assert.equal(await loadPipelineSession(withId(createMockCharacter(), 'second')), null);
+    });
+
+    it('moves an avatar-keyed session to the character\'s ID', async () => {
+        const character = createMockCharacter();
+        await savePipelineSession(createSessionState(character));
+        const oldKey = getSessionKey(character);
+
+        const identified = withId(character, 'char-id');
+        const session = await loadPipelineSession(identified);
+
+        assert.ok(session);
+        assert.equal(session.characterId, 'char-id');
+        assert.notEqual(getSessionKey(identified), oldKey);
+        assert.ok(mock.storage.has(getSessionKey(identified)));
+        assert.ok(!mock.storage.has(oldKey));
+    });
+
+    it('clears a session', async () => {
+        const character = createMockCharacter();
+        await savePipelineSession(createSessionState(character));
+
+        await clearPipelineSession(character);
+
+        assert.equal(await loadPipelineSession(character), null);
+    });
+
+    it('lists sessions with their completed stages', async () => {
+        await savePipelineSession(createSessionState(createMockCharacter()));
+        await savePipelineSession(createSessionState(createMockCharacter({ name: 'Other', avatar: 'other.png' })));
+
+        const sessions = await listSessions();
+
+        assert.equal(sessions.length, 2);
+        assert.deepEqual(sessions[0].completedStages, ['score']);
+    });
+});
+
+describe('session export and import', () => {
+    beforeEach(() => {
+        installMockContext();
+    });
+
+    it('round-trips sessions through an export', async () => {
+        const character = createMockCharacter();
+        await savePipelineSession(createSessionState(character));
+        const json = await exportSessions([getSessionKey(character)]);
+
+        await clearPipelineSession(character);
+        const result = await importSessions(json);
+
+        assert.deepEqual(result, { imported: 1, skipped: 0, errors: [] });
+        assert.equal((await loadPipelineSession(character))?.state.results.score?.response, 'Saved score');
+    });
+
+    it('keeps a stored session that is newer than the import', async () => {
+        const character = createMockCharacter();
+        await savePipelineSession(createSessionState(character));
+        const json = await exportSessions([getSessionKey(character)]);
+
+        const result = await importSessions(json);
+
+        assert.equal(result.imported, 0);
+        assert.equal(result.skipped, 1);
+    });
+
+    it('reports entries that aren\'t sessions', async () => {
+        assert.deepEqual(await importSessions('not json'), { imported: 0, skipped: 0, errors: ['Invalid JSON'] });
+
+        const result = await importSessions(JSON.stringify({ sessions: [{ characterName: 'Nope' }] }));
+        assert.equal(result.imported, 0);
+        assert.equal(result.errors.length, 1);
+    });
+});
+
+describe('last session character', () => {
+    beforeEach(() => {
+        installMockContext();
+    });
+
+    it('remembers the character by ID and avatar', async () => {
+        await setLastSessionCharacter(withId(createMockCharacter(), 'char-id'));
+
+        assert.deepEqual(await getLastSessionCharacter(), { id: 'char-id', avatar: 'test.png' });
+
+        await setLastSessionCharacter(null);
+        assert.equal(await getLastSessionCharacter(), null);
+    });
+});
+
+describe('batch runs', () => {
+    let mock: MockContext;
+
+    beforeEach(() => {
+        mock = installMockContext();
+    });
+
+    const item = (avatar: string, status: BatchRun['items'][number]['status']) => ({
+        avatar,
+        name: avatar,
+        status,
+        error: null,
+        verdict: null,
+        score: null,
+        finishedAt: null,
+    });
+
+    it('pauses a run interrupted by a reload so it can be resumed', async () => {
+        await saveBatchRun({
+            id: 'run',
+            createdAt: Date.now(),
+            updatedAt: Date.now(),
+            status: 'running',
+            stages: ['score'],
+            configs: {} as Record<StageName, StageConfig>,
+            items: [item('a.png', 'complete'), item('b.png', 'running'), item('c.png', 'pending')],
+        });
+
+        const [run] = await loadBatchRuns();
+
+        assert.equal(run.status, 'paused');
+        assert.deepEqual(run.items.map(i => i.status), ['complete', 'pending', 'pending']);
+
+        const stored = [...mock.storage.values()].find(value => (value as BatchRun).id === 'run') as BatchRun;
+        assert.equal(stored.status, 'paused');
+    });
+});
+
+describe('character usage', () => {
+    beforeEach(() => {
+        installMockContext();
+    });
+
+    const usage = (promptTokens: number) => ({ source: 'openai', model: 'gpt', promptTokens, completionTokens: 10, estimated: false });
+
+    it('adds up usage per character across sessions', async () => {
+        const character = withId(createMockCharacter(), 'char-id');
+
+        await Promise.all([
+            recordCharacterUsage(character, 'score', usage(100)),
+            recordCharacterUsage(character, 'score', usage(50)),
+            recordCharacterUsage(character, 'rewrite', usage(200)),
+        ]);
+        await clearPipelineSession(character);
+
+        const ledger = await loadCharacterUsage(character);
+        assert.equal(ledger.score[0].promptTokens, 150);
+        assert.equal(ledger.rewrite[0].promptTokens, 200);
+
+        // Follows the ID, not the avatar
+        assert.equal((await loadCharacterUsage({ ...character, avatar: 'renamed.png' })).score[0].completionTokens, 20);
+        assert.deepEqual(await loadCharacterUsage(withId(character, 'other-id')), {});
+    });
+
+    it('ignores generations without usage', async () => {
+        const character = createMockCharacter();
+
+        assert.equal(await recordCharacterUsage(character, 'score', undefined), null);
+        assert.deepEqual(await loadCharacterUsage(character), {});
+    });
+});
+
+describe('character IDs', () => {
+    let mock: MockContext;
+
+    beforeEach(() => {
+        mock = installMockContext({ characters: [createMockCharacter()] });
+    });
+
+    it('backs the card up before writing its ID', async () => {
+        const [character] = mock.characters;
+
+        const id = await ensureCharacterId(character, 0);
+
+        assert.ok(id);
+        assert.equal(getCharacterId(character), id);
+
+        const [backup] = await loadCardBackups(character);
+        assert.equal(backup.reason, 'Before assigning character ID');
+        assert.equal(getCharacterId(backup.character), null);
+    });
+
+    it('leaves the card alone when the backup fails', async () => {
+        const [character] = mock.characters;
+        const set = mock.storage.set.bind(mock.storage);
+        mock.storage.set = (key, value) => {
+            if (key.startsWith(`${MODULE_NAME}_backup_`)) throw new Error('Quota exceeded');
+            return set(key, value);
+        };
+
+        assert.equal(await ensureCharacterId(character, 0), null);
+        assert.equal(getCharacterId(character), null);
+    });
+
+    it('moves the session and usage saved under the avatar to the new ID', async () => {
+        const [character] = mock.characters;
+        await savePipelineSession(createSessionState(character));
+        await recordCharacterUsage(character, 'score', { source: 'openai', model: 'gpt', promptTokens: 100, completionTokens: 10, estimated: false });
+        const avatarKey = getSessionKey(character);
+
+        await ensureCharacterId(character, 0);
+
+        assert.notEqual(getSessionKey(character), avatarKey);
+        assert.ok(!mock.storage.has(avatarKey));
+        assert.equal((await loadPipelineSession(character))?.state.results.score?.response, 'Saved score');
+        assert.equal((await loadCharacterUsage(character)).score[0].promptTokens, 100);
+    });
+
+    it('writes one ID when asked twice at once', async () => {
+        const [character] = mock.characters;
+
+        const [first, second] = await Promise.all([ensureCharacterId(character, 0), ensureCharacterId(character, 0)]);
+
+        assert.equal(first, second);
+        assert.equal((await loadCardBackups(character)).length, 1);
+    });
+});
+
+describe('response cache', () => {
+    let mock: MockContext;
+
+    beforeEach(() => {
+        mock = installMockContext();
+    });
+
+    const entry = (response: string, storedAt = Date.now()) => ({ response, source: 'openai', model: 'gpt', storedAt });
+
+    it('gives the same request the same key', () => {
+        assert.equal(getCacheKey('request'), getCacheKey('request'));
+        assert.notEqual(getCacheKey('request'), getCacheKey('request 2'));
+    });
+
+    it('returns stored responses until they expire', async () => {
+        await saveCachedResponse('fresh', entry('new'), 10);
+        await saveCachedResponse('stale', entry('old', Date.now() - 2 * 60 * 60 * 1000), 10);
+
+        assert.equal((await getCachedResponse('fresh', 60 * 60 * 1000))?.response, 'new');
+        assert.equal(await getCachedResponse('stale', 60 * 60 * 1000), null);
+        assert.equal(await getCachedResponse('missing', 60 * 60 * 1000), null);
+    });
+
+    it('drops the oldest entries past the limit', async () => {
+        const now = Date.now();
+        for (let i = 0; i < 5; i++) {
+            await saveCachedResponse(getCacheKey(`request ${i}`), entry(`response ${i}`, now + i), 3);
+        }
+
+        assert.equal(await getResponseCacheCount(), 3);
+        assert.equal(await getCachedResponse(getCacheKey('request 0'), 60 * 60 * 1000), null);
+        assert.equal((await getCachedResponse(getCacheKey('request 4'), 60 * 60 * 1000))?.response, 'response 4');
+    });
+
+    it('clears every entry', async () => {
+        await saveCachedResponse(getCacheKey('a'), entry('a'), 10);
+        await saveCachedResponse(getCacheKey('b'), entry('b'), 10);
+
+        assert.equal(await clearResponseCache(), 2);
+        assert.equal(await getResponseCacheCount(), 0);
+        assert.ok(![...mock.storage.keys()].some(key => key.startsWith(`${MODULE_NAME}_cache`)));
+    });
+});
@@ -0,0 +1,227 @@
+// src/tests/pipeline-flow.test.ts
+//
+// Pipeline stages receive the right data from earlier stages, through two
+// refinement iterations, and the export keeps every response in full.
+// Phases run in order and share one pipeline state.
+
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { installMockContext, createMockCharacter } from './mock-context';
+import {
+    createPipelineState,
+    setCharacter,
+    completeStage,
+    buildStagePrompt,
+    buildRefinementPrompt,
+    initializeFieldSelection,
+    startRefinement,
+    completeRefinement,
+    generateExportData,
+} from '../pipeline';
+import type { PipelineState } from '../types';
+
+const ORIGINAL = 'ORIGINAL_CHAR_MARKER_A1B2C3';
+
+// Long responses, so any truncation shows up as a missing end marker
+const scoreResponse = 'SCORE_V1_MARKER_X9Y8Z7 - Initial score feedback. '.repeat(50) + 'SCORE_V1_END_MARKER';
+const rewriteV1Response = 'REWRITE_V1_MARKER_P4Q5R6 - First rewrite attempt. '.repeat(50) + 'REWRITE_V1_END_MARKER';
+const analyzeV1Response = 'ANALYSIS_V1_MARKER_M1N2O3 - First analysis, needs refinement. '.repeat(50) + 'ANALYSIS_V1_END_MARKER';
+const rewriteV2Response = 'REWRITE_V2_MARKER_J7K8L9 - Second rewrite after refinement. '.repeat(50) + 'REWRITE_V2_END_MARKER';
+const analyzeV2Response = 'ANALYSIS_V2_MARKER_T4U5V6 - Second analysis of refined rewrite. '.repeat(50) + 'ANALYSIS_V2_END_MARKER';
+const rewriteV3Response = 'REWRITE_V3_MARKER_W1X2Y3 - Third rewrite. '.repeat(50) + 'REWRITE_V3_END_MARKER';
+const analyzeV3Response = 'ANALYSIS_V3_MARKER_Z9A8B7 - Third analysis. '.repeat(50) + 'ANALYSIS_V3_END_MARKER';
+
+describe('pipeline flow', () => {
+    let state: PipelineState;
+
+    before(() => {
+        installMockContext();
+
+        const character = createMockCharacter({ description: `${ORIGINAL} - A test character` });
+        state = setCharacter(createPipelineState(), character, 0);
+        state = { ...state, selectedFields: initializeFieldSelection(character) };
+    });
+
+    it('phase 1: each stage sees the original character and earlier results', () => {
+        const scorePrompt = buildStagePrompt(state, 'score');
+        assertIncludes(scorePrompt, ORIGINAL, '1.1 Score prompt includes original character');
+
+        state = completeStage(state, 'score', {
+            response: scoreResponse,
+            isStructured: false,
+            promptUsed: scorePrompt || '',
+            schemaUsed: null,
+        });
+
+        const rewritePrompt = buildStagePrompt(state, 'rewrite');
+        assertIncludes(rewritePrompt, ORIGINAL, '1.2 Rewrite prompt includes original character');
+        assertIncludes(rewritePrompt, 'SCORE_V1_MARKER_X9Y8Z7', '1.3 Rewrite prompt includes score results');
+
+        state = completeStage(state, 'rewrite', {
+            response: rewriteV1Response,
+            isStructured: false,
+            promptUsed: rewritePrompt || '',
+            schemaUsed: null,
+        });
+
+        const analyzePrompt = buildStagePrompt(state, 'analyze');
+        assertIncludes(analyzePrompt, ORIGINAL, '1.4 Analyze prompt includes original character');
+        assertIncludes(analyzePrompt, 'REWRITE_V1_MARKER_P4Q5R6', '1.5 Analyze prompt includes rewrite V1');
+        assertExcludes(analyzePrompt, 'REWRITE_V2', '1.6 Analyze prompt does not contain V2 (doesn\'t exist yet)');
+
+        state = completeStage(state, 'analyze', {
+            response: analyzeV1Response,
+            isStructured: false,
+            promptUsed: analyzePrompt || '',
+            schemaUsed: null,
+        });
+    });
+
+    it('phase 2: the first refinement builds on rewrite and analysis V1', () => {
+        const refinementPrompt = buildRefinementPrompt(state);
+        assertIncludes(refinementPrompt, ORIGINAL, '2.1 Refinement prompt includes original character');
+        assertIncludes(refinementPrompt, 'REWRITE_V1_MARKER_P4Q5R6', '2.2 Refinement prompt includes rewrite V1');
+        assertIncludes(refinementPrompt, 'ANALYSIS_V1_MARKER_M1N2O3', '2.3 Refinement prompt includes analysis V1');
+
+        state = startRefinement(state);
+
+        assert.equal(state.results.analyze, null, '2.4 Analyze cleared after startRefinement');
+        assert.equal(state.iterationCount, 1, '2.5 Iteration count is 1');
+        assert.equal(state.iterationHistory.length, 1, '2.6 History has 1 entry');
+        assertIncludes(state.iterationHistory[0].rewriteResponse, 'REWRITE_V1_MARKER_P4Q5R6', '2.7 History entry contains rewrite V1');
+        assertIncludes(state.iterationHistory[0].analysisResponse, 'ANALYSIS_V1_MARKER_M1N2O3', '2.8 History entry contains analysis V1');
+
+        state = completeRefinement(state, {
+            response: rewriteV2Response,
+            isStructured: false,
+            promptUsed: refinementPrompt || '',
+            schemaUsed: null,
+        });
+
+        assertIncludes(state.results.rewrite?.response, 'REWRITE_V2_MARKER_J7K8L9', '2.9 Current rewrite is V2 after refinement');
+        assertExcludes(state.results.rewrite?.response, 'REWRITE_V1', '2.10 Current rewrite does not contain V1');
+    });
+
+    it('phase 3: analyzing the refined rewrite only sees V2', () => {
+        const analyzePrompt = buildStagePrompt(state, 'analyze');
+        assertIncludes(analyzePrompt, ORIGINAL, '3.1 Analyze V2 prompt includes original character');
+        assertIncludes(analyzePrompt, 'REWRITE_V2_MARKER_J7K8L9', '3.2 Analyze V2 prompt includes rewrite V2');
+        assertExcludes(analyzePrompt, 'REWRITE_V1_MARKER_P4Q5R6', '3.3 Analyze V2 prompt does not contain rewrite V1');
+
+        state = completeStage(state, 'analyze', {
+            response: analyzeV2Response,
+            isStructured: false,
+            promptUsed: analyzePrompt || '',
+            schemaUsed: null,
+        });
+    });
+
+    it('phase 4: the second refinement drops V1 and keeps it in history', () => {
+        const refinementPrompt = buildRefinementPrompt(state);
+        assertIncludes(refinementPrompt, ORIGINAL, '4.1 Refinement 2 includes original character');
+        assertIncludes(refinementPrompt, 'REWRITE_V2_MARKER_J7K8L9', '4.2 Refinement 2 includes rewrite V2');
+        assertIncludes(refinementPrompt, 'ANALYSIS_V2_MARKER_T4U5V6', '4.3 Refinement 2 includes analysis V2');
+        assertExcludes(refinementPrompt, 'REWRITE_V1_MARKER_P4Q5R6', '4.4 Refinement 2 does not contain rewrite V1');
+        assertExcludes(refinementPrompt, 'ANALYSIS_V1_MARKER_M1N2O3', '4.5 Refinement 2 does not contain analysis V1');
+
+        state = startRefinement(state);
+
+        assert.equal(state.iterationHistory.length, 2, '4.6 History has 2 entries');
+        assertIncludes(state.iterationHistory[0].rewriteResponse, 'REWRITE_V1', '4.7 History[0] contains V1 rewrite');
+        assertIncludes(state.iterationHistory[1].rewriteResponse, 'REWRITE_V2', '4.8 History[1] contains V2 rewrite');
+        assert.equal(state.iterationCount, 2, '4.9 Iteration count is 2');
+
+        state = completeRefinement(state, {
+            response: rewriteV3Response,
+            isStructured: false,
+            promptUsed: refinementPrompt || '',
+            schemaUsed: null,
+        });
+    });
+
+    it('phase 5: analyzing V3 sees only the original and V3', () => {
+        assertIncludes(state.results.rewrite?.response, 'REWRITE_V3_MARKER_W1X2Y3', '5.1 Current rewrite is V3');
+
+        const analyzePrompt = buildStagePrompt(state, 'analyze');
+        assertIncludes(analyzePrompt, ORIGINAL, '5.2 Analyze V3 includes original');
+        assertIncludes(analyzePrompt, 'REWRITE_V3_MARKER_W1X2Y3', '5.3 Analyze V3 includes rewrite V3');
+        assertExcludes(analyzePrompt, 'REWRITE_V1', '5.4 Analyze V3 does not contain V1');
+        assertExcludes(analyzePrompt, 'REWRITE_V2', '5.5 Analyze V3 does not contain V2');
+
+        state = completeStage(state, 'analyze', {
+            response: analyzeV3Response,
+            isStructured: false,
+            promptUsed: analyzePrompt || '',
+            schemaUsed: null,
+        });
+    });
+
+    it('phase 6: score never sees a rewrite', () => {
+        const scorePrompt = buildStagePrompt(state, 'score');
+        assertIncludes(scorePrompt, ORIGINAL, '6.1 Score (after iterations) includes original');
+        assertExcludes(scorePrompt, 'REWRITE_V1', '6.2 Score does not contain rewrite V1');
+        assertExcludes(scorePrompt, 'REWRITE_V2', '6.3 Score does not contain rewrite V2');
+        assertExcludes(scorePrompt, 'REWRITE_V3', '6.4 Score does not contain rewrite V3');
+    });
+
+    it('phase 7: the export holds current results and full history', () => {
+        const exportData = generateExportData(state);
+        assert.ok(exportData, '7.0 Export data is not null');
+
+        assertIncludes(exportData, 'TestChar', '7.1 Export contains character name');
+
+        // Score doesn't iterate, so V1 is still current
+        assertIncludes(exportData, 'SCORE_V1_MARKER_X9Y8Z7', '7.2 Export contains score results');
+        assertIncludes(exportData, 'SCORE_V1_END_MARKER', '7.3 Export contains complete score');
+        assertIncludes(exportData, 'REWRITE_V3_MARKER_W1X2Y3', '7.4 Export contains current rewrite V3');
+        assertIncludes(exportData, 'REWRITE_V3_END_MARKER', '7.5 Export contains complete rewrite V3');
+        assertIncludes(exportData, 'ANALYSIS_V3_MARKER_Z9A8B7', '7.6 Export contains current analysis V3');
+        assertIncludes(exportData, 'ANALYSIS_V3_END_MARKER', '7.7 Export contains complete analysis V3');
+
+        assertIncludes(exportData, 'REWRITE_V1_MARKER_P4Q5R6', '7.8 Export history contains rewrite V1');
+        assertIncludes(exportData, 'REWRITE_V1_END_MARKER', '7.9 Export history contains complete rewrite V1');
+        assertIncludes(exportData, 'REWRITE_V2_MARKER_J7K8L9', '7.10 Export history contains rewrite V2');
+        assertIncludes(exportData, 'REWRITE_V2_END_MARKER', '7.11 Export history contains complete rewrite V2');
+        assertIncludes(exportData, 'ANALYSIS_V1_MARKER_M1N2O3', '7.12 Export history contains analysis V1');
+        assertIncludes(exportData, 'ANALYSIS_V1_END_MARKER', '7.13 Export history contains complete analysis V1');
+        assertIncludes(exportData, 'ANALYSIS_V2_MARKER_T4U5V6', '7.14 Export history contains analysis V2');
+        assertIncludes(exportData, 'ANALYSIS_V2_END_MARKER', '7.15 Export history contains complete analysis V2');
+
+        const expectedMinLength = scoreResponse.length + rewriteV3Response.length + analyzeV3Response.length +
+            rewriteV1Response.length + analyzeV1Response.length +
+            rewriteV2Response.length + analyzeV2Response.length;
+        assert.ok(exportData.length >= expectedMinLength * 0.9,
+            `7.16 Export appears truncated. Expected ~${expectedMinLength} chars, got ${exportData.length}`);
+
+        assertIncludes(exportData, 'Iterations:** 2', '7.17 Export shows correct iteration count');
+        assertIncludes(exportData, '## Score Results', '7.18 Export has Score Results section');
+        assertIncludes(exportData, '## Rewrite Results', '7.19 Export has Rewrite Results section');
+        assertIncludes(exportData, '## Analysis Results', '7.20 Export has Analysis Results section');
+        assertIncludes(exportData, '## Iteration History', '7.21 Export has Iteration History section');
+    });
+
+    it('phase 8: stored responses are complete', () => {
+        assert.equal(state.results.score?.response, scoreResponse, '8.1 Stored score is complete');
+        assert.equal(state.results.rewrite?.response, rewriteV3Response, '8.2 Stored rewrite is V3 and complete');
+        assert.equal(state.results.analyze?.response, analyzeV3Response, '8.3 Stored analysis is V3 and complete');
+
+        state.iterationHistory.forEach((entry, i) => {
+            assertIncludes(entry.rewriteResponse, `REWRITE_V${i + 1}_END_MARKER`, `8.${4 + i * 2} History[${i}] rewrite is complete`);
+            assertIncludes(entry.analysisResponse, `ANALYSIS_V${i + 1}_END_MARKER`, `8.${5 + i * 2} History[${i}] analysis is complete`);
+        });
+    });
+});
+
+// ============================================================================
+// ASSERTION HELPERS
+// ============================================================================
+
+function assertIncludes(haystack: string | null | undefined, needle: string, message: string): void {
+    assert.ok(haystack, `${message} - haystack is null/undefined`);
+    assert.ok(haystack.includes(needle), `${message}\n  Expected to find: "${needle}"\n  In (first 200 chars): "${haystack.substring(0, 200)}..."`);
+}
+
+function assertExcludes(haystack: string | null | undefined, needle: string, message: string): void {
+    if (!haystack) return;
+    assert.ok(!haystack.includes(needle), `${message} - found "${needle}"`);
+}
@@ -0,0 +1,186 @@
+// src/tests/pipeline.test.ts
+
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { installMockContext, createMockCharacter } from './mock-context';
+import {
+    createPipelineState,
+    setCharacter,
+    initializeFieldSelection,
+    deselectAllFields,
+    canRunStage,
+    completeStage,
+    failStage,
+    lockStageResult,
+    clearStageResult,
+    extractVerdict,
+    extractScore,
+    findBestIteration,
+    recordUsage,
+    resetPipeline,
+    generateExportData,
+    serializePipelineState,
+    deserializePipelineState,
+} from '../pipeline';
+import type { Character, IterationSnapshot, PipelineState, TokenUsage } from '../types';
+
+function createReadyState(character: Character = createMockCharacter()): PipelineState {
+    const state = setCharacter(createPipelineState(), character, 0);
+    return { ...state, selectedFields: initializeFieldSelection(character) };
+}
+
+function complete(state: PipelineState, stage: string, response: string): PipelineState {
+    return completeStage(state, stage, { response, isStructured: false, promptUsed: '', schemaUsed: null });
+}
+
+function snapshot(verdict: IterationSnapshot['verdict'], score: number | null): IterationSnapshot {
+    return {
+        iteration: 0,
+        rewriteResponse: '',
+        analysisResponse: '',
+        verdict,
+        score,
+        timestamp: Date.now(),
+    } as IterationSnapshot;
+}
+
+describe('stage readiness', () => {
+    beforeEach(() => {
+        installMockContext();
+    });
+
+    it('needs a character and selected fields', () => {
+        assert.equal(canRunStage(createPipelineState(), 'score').reason, 'No character selected');
+        assert.equal(canRunStage(deselectAllFields(createReadyState()), 'score').reason, 'No fields selected');
+        assert.equal(canRunStage(createReadyState(), 'score').canRun, true);
+    });
+
+    it('needs a rewrite before analyzing', () => {
+        const state = createReadyState();
+
+        assert.equal(canRunStage(state, 'analyze').canRun, false);
+        assert.equal(canRunStage(complete(state, 'rewrite', 'New card'), 'analyze').canRun, true);
+    });
+
+    it('warns when rewriting without a score', () => {
+        const result = canRunStage(createReadyState(), 'rewrite');
+
+        assert.equal(result.canRun, true);
+        assert.ok(result.reason);
+    });
+});
+
+describe('stage results', () => {
+    beforeEach(() => {
+        installMockContext();
+    });
+
+    it('records completion and failure', () => {
+        let state = complete(createReadyState(), 'score', 'Scores');
+        assert.equal(state.stageStatus.score, 'complete');
+        assert.equal(state.results.score?.response, 'Scores');
+
+        state = failStage({ ...state, currentStage: 'rewrite' }, 'rewrite', 'API down');
+        assert.equal(state.stageStatus.rewrite, 'pending');
+        assert.equal(state.currentStage, null);
+    });
+
+    it('locks and clears results', () => {
+        let state = lockStageResult(complete(createReadyState(), 'score', 'Keep me'), 'score');
+        assert.equal(state.results.score?.locked, true);
+
+        state = clearStageResult(state, 'score');
+        assert.equal(state.results.score, null);
+        assert.equal(state.stageStatus.score, 'pending');
+    });
+});
+
+describe('verdicts and scores', () => {
+    beforeEach(() => {
+        installMockContext();
+    });
+
+    it('reads structured analyses', () => {
+        const response = JSON.stringify({ verdict: 'needs refinement', soulPreservationScore: 7 });
+
+        assert.equal(extractVerdict(response, true), 'needs_refinement');
+        assert.equal(extractScore(response, true), 7);
+    });
+
+    it('ignores JSON quoted in a free-text analysis', () => {
+        const response = 'Verdict: NEEDS REFINEMENT. Soul preservation: 6/10. A passing card would get {verdict: "ACCEPT", soulPreservationScore: 9}.';
+
+        assert.equal(extractVerdict(response, false), 'needs_refinement');
+        assert.equal(extractScore(response, false), 6);
+    });
+
+    it('returns unknown when nothing matches', () => {
+        assert.equal(extractVerdict('No opinion.', false), 'unknown');
+        assert.equal(extractScore('No numbers', false), null);
+    });
+
+    it('clamps scores to 0-10', () => {
+        assert.equal(extractScore(JSON.stringify({ soulPreservationScore: 14 }), true), 10);
+    });
+
+    it('picks the best iteration by verdict, then score, then recency', () => {
+        assert.equal(findBestIteration([]), -1);
+        assert.equal(findBestIteration([snapshot('accept', 5), snapshot('needs_refinement', 9)]), 0);
+        assert.equal(findBestIteration([snapshot('needs_refinement', 6), snapshot('needs_refinement', 8), snapshot('regression', 10)]), 1);
+        assert.equal(findBestIteration([snapshot('accept', 8), snapshot('accept', 8)]), 1);
+    });
+});
+
+describe('usage ledger', () => {
+    beforeEach(() => {
+        installMockContext();
+    });
+
+    it('adds usage per stage and ignores missing usage', () => {
+        const usage: TokenUsage = { source: 'openai', model: 'gpt', promptTokens: 100, completionTokens: 20, estimated: false };
+
+        let state = recordUsage(createReadyState(), 'score', usage);
+        state = recordUsage(state, 'score', usage);
+        state = recordUsage(state, 'rewrite', undefined);
+
+        assert.equal(state.usage.score?.[0].promptTokens, 200);
+        assert.equal(state.usage.rewrite, undefined);
+    });
+
+    it('exports the session total and the character\'s total across sessions', () => {
+        const usage: TokenUsage = { source: 'openai', model: 'gpt', promptTokens: 100, completionTokens: 20, estimated: false };
+
+        let state = recordUsage(createReadyState(), 'score', usage);
+        state = resetPipeline(state, true);
+        state = recordUsage(complete(state, 'rewrite', 'Rewritten'), 'rewrite', usage);
+
+        const exported = generateExportData(state, { score: [usage], rewrite: [usage] }) ?? '';
+
+        assert.match(exported, /\| \*\*Total\*\* \| gpt \| 100 \| 20 \|/);
+        assert.match(exported, /\| \*\*All sessions\*\* \| gpt \| 200 \| 40 \|/);
+    });
+});
+
+describe('serialization', () => {
+    beforeEach(() => {
+        installMockContext();
+    });
+
+    it('restores a serialized state for the same character', () => {
+        const character = createMockCharacter();
+        const state = complete(createReadyState(character), 'score', 'Scores');
+
+        const restored = deserializePipelineState(serializePipelineState(state), [createMockCharacter({ avatar: 'other.png' }), character]);
+
+        assert.ok(restored);
+        assert.equal(restored.characterIndex, 1);
+        assert.equal(restored.results.score?.response, 'Scores');
+        assert.deepEqual(restored.selectedFields, state.selectedFields);
+    });
+
+    it('returns null when the character is gone', () => {
+        const state = createReadyState();
+
+        assert.equal(deserializePipelineState(serializePipelineState(state), []), null);
+    });
+});
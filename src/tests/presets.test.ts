@@ -0,0 +1,238 @@
+// src/tests/presets.test.ts
+
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { installMockContext, createMockCharacter } from './mock-context';
+import {
+    processPromptTemplate,
+    promptHasPlaceholders,
+    getUnfilledPlaceholders,
+    resolvePrompt,
+    resolveSchema,
+    getStageConfig,
+    validatePromptPreset,
+    validateSchemaPreset,
+    generateUniquePresetName,
+} from '../presets';
+import { buildTemplateCardData } from '../character';
+import { BUILTIN_PROMPT_PRESETS } from '../constants';
+import type { Character, StageConfig } from '../types';
+
+const CARD_CHARACTER = createMockCharacter({
+    first_mes: 'The knight yawns.',
+    data: {
+        alternate_greetings: ['Morning already?', 'Go away.'],
+        character_book: {
+            entries: [
+                { id: 1, keys: ['castle'], content: 'A damp castle', comment: 'Castle', enabled: true },
+                { id: 2, keys: ['castle'], content: 'Duplicate name', comment: 'Castle', enabled: true },
+            ],
+        },
+        tags: ['fantasy', 'knight'],
+        creator: 'Someone',
+    },
+} as Partial<Character>);
+
+const VALID_SCHEMA = JSON.stringify({
+    name: 'test_schema',
+    strict: true,
+    value: {
+        type: 'object',
+        properties: { summary: { type: 'string' } },
+        required: ['summary'],
+        additionalProperties: false,
+    },
+});
+
+function createConfig(overrides: Partial<StageConfig> = {}): StageConfig {
+    return {
+        promptPresetId: null,
+        customPrompt: '',
+        schemaPresetId: null,
+        customSchema: '',
+        useStructuredOutput: false,
+        ...overrides,
+    };
+}
+
+describe('processPromptTemplate', () => {
+    beforeEach(() => {
+        installMockContext();
+    });
+
+    it('replaces placeholders case-insensitively', () => {
+        const result = processPromptTemplate('A: {{original_character}} B: {{SCORE_RESULTS}} #{{iteration_number}}', {
+            originalCharacter: 'CARD',
+            scoreResults: 'SCORES',
+            iterationNumber: '2',
+        });
+
+        assert.equal(result, 'A: CARD B: SCORES #2');
+    });
+
+    it('leaves placeholders without a value in place', () => {
+        const result = processPromptTemplate('{{rewrite_results}}', {});
+
+        assert.equal(result, '{{rewrite_results}}');
+    });
+
+    it('fills in our character and user names', () => {
+        const result = processPromptTemplate('{{char_name}} meets {{user_name}}', {
+            charName: 'Alice',
+            userName: 'Bob',
+        });
+
+        assert.equal(result, 'Alice meets Bob');
+    });
+
+    it('keeps conditional blocks only when their variable has a value', () => {
+        const prompt = '{{#if score_results}}Scores: {{score_results}}{{/if}}{{#if current_analysis}}Analysis{{/if}}';
+
+        assert.equal(processPromptTemplate(prompt, { scoreResults: 'ok' }), 'Scores: ok');
+        assert.equal(processPromptTemplate(prompt, { scoreResults: '  ' }), '');
+    });
+
+    it('renders filters and loops over the character\'s fields and greetings', () => {
+        const prompt = '{{#each fields}}{{label}}: {{value | truncate:5}}\n{{/each}}{{#each greetings}}#{{@number}} {{this}}{{/each}}';
+
+        const result = processPromptTemplate(prompt, {
+            fields: [{ key: 'description', label: 'Description', value: 'A very long description' }],
+            greetings: ['Hello'],
+        });
+
+        assert.equal(result, 'Description: A ver...\n#1 Hello');
+    });
+
+    it('fills keyed placeholders from the whole card', () => {
+        const prompt = '{{field:first_mes}} | {{greeting:2}} | {{lore_entry:castle}} | {{tags}} by {{creator}}{{#if character_version}} v{{character_version}}{{/if}}';
+
+        const result = processPromptTemplate(prompt, { card: buildTemplateCardData(CARD_CHARACTER) });
+
+        assert.equal(result, 'The knight yawns. | Go away. | A damp castle | fantasy, knight by Someone');
+    });
+
+    it('leaves a missing greeting in place and blanks an empty field', () => {
+        const result = processPromptTemplate('[{{greeting:3}}] [{{field:scenario}}]', { card: buildTemplateCardData(CARD_CHARACTER) });
+
+        assert.equal(result, '[{{greeting:3}}] []');
+    });
+
+    it('counts tokens only for the texts it\'s asked about', () => {
+        const result = processPromptTemplate('{{token_count}} {{field_tokens:first_mes}}', {
+            originalCharacter: '12345678',
+            card: buildTemplateCardData(CARD_CHARACTER),
+        });
+
+        // The mock counts four characters per token
+        assert.equal(result, '2 5');
+    });
+
+    it('treats iteration 0 as no iteration', () => {
+        const prompt = '{{#if iteration_number}}Iteration {{iteration_number}}{{/if}}';
+
+        assert.equal(processPromptTemplate(prompt, { iterationNumber: '0' }), '');
+        assert.equal(processPromptTemplate(prompt, { iterationNumber: '3' }), 'Iteration 3');
+    });
+});
+
+describe('placeholder checks', () => {
+    it('lists the placeholders a prompt uses', () => {
+        assert.deepEqual(promptHasPlaceholders('{{original_character}} and {{Score_Results}}'), ['ORIGINAL_CHARACTER', 'SCORE_RESULTS']);
+        assert.deepEqual(promptHasPlaceholders('No placeholders here'), []);
+        assert.deepEqual(promptHasPlaceholders('{{#if score_results}}{{score_results | truncate:500}}{{/if}}'), ['SCORE_RESULTS']);
+    });
+
+    it('warns about results that are missing at a stage', () => {
+        const prompt = '{{score_results}} {{rewrite_results}}';
+
+        assert.equal(getUnfilledPlaceholders(prompt, 'analyze', false, false).length, 2);
+        assert.equal(getUnfilledPlaceholders(prompt, 'analyze', true, true).length, 0);
+        assert.equal(getUnfilledPlaceholders('{{score_results}}', 'score', false, false).length, 0);
+    });
+
+    it('always warns about the analysis outside refinement', () => {
+        assert.equal(getUnfilledPlaceholders('{{current_analysis}}', 'rewrite', true, true).length, 1);
+    });
+
+    it('lists keyed placeholders among the used ones', () => {
+        assert.deepEqual(promptHasPlaceholders('{{field:first_mes}} {{greeting:1}} {{token_count}}'), ['FIELD', 'GREETING', 'TOKEN_COUNT']);
+    });
+
+    it('checks keyed placeholder keys without a character', () => {
+        const warnings = getUnfilledPlaceholders('{{field:first_mes}} {{field:backstory}} {{greeting:0}} {{field}}', 'score', false, false);
+
+        assert.equal(warnings.length, 3);
+        assert.match(warnings[0], /^\{\{field:backstory\}\} - unknown field/);
+        assert.match(warnings[1], /numbered from 1/);
+        assert.match(warnings[2], /name a field/);
+    });
+
+    it('checks keyed placeholders and metadata against the character', () => {
+        const prompt = '{{field:first_mes}} {{field:scenario}} {{greeting:3}} {{lore_entry:CASTLE}} {{lore_entry:Moat}} {{creator}} {{character_version}}';
+
+        assert.deepEqual(getUnfilledPlaceholders(prompt, 'score', false, false, CARD_CHARACTER), [
+            '{{field:scenario}} - TestChar has no Scenario',
+            '{{greeting:3}} - TestChar has 2 alternate greetings',
+            '{{lore_entry:Moat}} - TestChar has no lorebook entry named "Moat"',
+            '{{character_version}} - TestChar has no version set',
+        ]);
+    });
+});
+
+describe('stage config resolution', () => {
+    beforeEach(() => {
+        installMockContext();
+    });
+
+    it('resolves a prompt preset to its prompt', () => {
+        const preset = BUILTIN_PROMPT_PRESETS[0];
+
+        assert.equal(resolvePrompt(createConfig({ promptPresetId: preset.id, customPrompt: 'ignored' })), preset.prompt);
+    });
+
+    it('falls back to the custom prompt when the preset is missing', () => {
+        assert.equal(resolvePrompt(createConfig({ promptPresetId: 'deleted', customPrompt: 'custom' })), 'custom');
+    });
+
+    it('returns no schema unless structured output is on', () => {
+        assert.equal(resolveSchema(createConfig({ customSchema: VALID_SCHEMA })), null);
+        assert.equal(resolveSchema(createConfig({ customSchema: VALID_SCHEMA, useStructuredOutput: true }))?.name, 'test_schema');
+        assert.equal(resolveSchema(createConfig({ customSchema: '{ broken', useStructuredOutput: true })), null);
+    });
+
+    it('builds stage configs from the stage defaults', () => {
+        const config = getStageConfig('score');
+
+        assert.ok(config.promptPresetId);
+        assert.equal(typeof config.useStructuredOutput, 'boolean');
+    });
+});
+
+describe('preset validation', () => {
+    beforeEach(() => {
+        installMockContext();
+    });
+
+    it('requires a name and prompt', () => {
+        assert.deepEqual(validatePromptPreset({ name: ' ', prompt: '' }).errors, ['Name is required', 'Prompt is required']);
+        assert.equal(validatePromptPreset({ name: 'Mine', prompt: 'Score {{original_character}}' }).valid, true);
+    });
+
+    it('rejects prompts with template syntax errors', () => {
+        assert.deepEqual(validatePromptPreset({ name: 'Mine', prompt: 'Score\n{{#if score_results}}' }).errors, [
+            'Line 2, column 1: {{#if}} is never closed - add {{/if}}',
+        ]);
+    });
+
+    it('rejects invalid schemas', () => {
+        assert.equal(validateSchemaPreset({ name: 'Schema', schema: JSON.parse(VALID_SCHEMA) }).valid, true);
+        assert.equal(validateSchemaPreset({ name: 'Schema' }).valid, false);
+    });
+
+    it('numbers duplicate preset names', () => {
+        const taken = BUILTIN_PROMPT_PRESETS[0].name;
+
+        assert.equal(generateUniquePresetName('prompt', 'Brand New'), 'Brand New');
+        assert.equal(generateUniquePresetName('prompt', taken), `${taken} (1)`);
+    });
+});
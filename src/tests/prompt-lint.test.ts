@@ -0,0 +1,127 @@
+// src/tests/prompt-lint.test.ts
+
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { installMockContext, createMockCharacter } from './mock-context';
+import { lintPrompt, getPlaceholderSuggestions } from '../prompt-lint';
+import { buildTemplateContext, createPipelineState, setCharacter, completeStage } from '../pipeline';
+import { BUILTIN_PROMPT_PRESETS } from '../constants';
+import type { PlaceholderAvailability } from '../presets';
+import type { Character } from '../types';
+
+const CHARACTER = createMockCharacter({
+    data: { alternate_greetings: ['Morning already?'], tags: ['knight'] },
+} as Partial<Character>);
+
+function atStage(stage: string, overrides: Partial<PlaceholderAvailability> = {}): PlaceholderAvailability {
+    return { stage, hasScore: false, hasRewrite: false, character: CHARACTER, ...overrides };
+}
+
+function messages(prompt: string, availability = atStage('score')): string[] {
+    return lintPrompt(prompt, availability).map(issue => `${issue.line}:${issue.column} ${issue.message}`);
+}
+
+describe('lintPrompt', () => {
+    beforeEach(() => {
+        installMockContext();
+    });
+
+    it('accepts a prompt using only available placeholders', () => {
+        assert.deepEqual(messages('{{original_character}}\n{{char}} / {{user_name}} / {{greeting:1}} / {{tags}}'), []);
+    });
+
+    it('flags unknown placeholders with a suggestion', () => {
+        assert.deepEqual(messages('Scores:\n  {{score_result}} {{nonsense}}'), [
+            '2:3 Unknown placeholder {{score_result}} - did you mean {{score_results}}?',
+            '2:20 Unknown placeholder {{nonsense}}',
+        ]);
+    });
+
+    it('leaves SillyTavern macros alone', () => {
+        const { context } = installMockContext();
+        context.substituteParams = (text: string) => text.replace(/\{\{time\}\}/g, '10:00');
+
+        assert.deepEqual(messages('{{time}} {{roll 1d6}}'), []);
+    });
+
+    it('flags placeholders that will be empty at this stage', () => {
+        assert.deepEqual(messages('{{score_results}}', atStage('rewrite')), [
+            '1:1 {{score_results}} - no score results available',
+        ]);
+        assert.deepEqual(messages('{{score_results}}', atStage('rewrite', { hasScore: true })), []);
+        assert.deepEqual(messages('{{field:scenario}} {{greeting:2}}'), [
+            '1:1 {{field:scenario}} - TestChar has no Scenario',
+            '1:20 {{greeting:2}} - TestChar has 1 alternate greeting',
+        ]);
+    });
+
+    it('doesn\'t flag placeholders guarded by a condition or a default', () => {
+        const prompt = '{{#if score_results}}{{score_results}}{{/if}}{{#unless field:scenario}}{{else}}{{field:scenario}}{{/unless}}{{creator | default:"?"}}';
+
+        assert.deepEqual(messages(prompt, atStage('rewrite')), []);
+    });
+
+    it('still checks keys when guarded', () => {
+        assert.deepEqual(messages('{{#if field:backstory}}x{{/if}}'), [
+            '1:1 {{field:backstory}} - unknown field, use one of: description, personality, first_mes, scenario, mes_example, system_prompt, post_history_instructions, creator_notes, alternate_greetings, depth_prompt, character_book',
+        ]);
+    });
+
+    it('knows loop item properties', () => {
+        assert.deepEqual(messages('{{#each fields}}{{label}}: {{value}}{{/each}}{{#each lorebook}}{{name}}{{/each}}'), []);
+        assert.deepEqual(messages('{{#each greetings}}{{label}}{{/each}}'), ['1:20 Unknown placeholder {{label}}']);
+    });
+
+    it('flags keys on plain placeholders', () => {
+        assert.match(messages('{{score_results:2}}')[0], /doesn't take a key/);
+    });
+
+    it('reports unbalanced blocks as errors', () => {
+        const issues = lintPrompt('{{#if score_results}}\nNo end', atStage('score'));
+
+        assert.equal(issues[0].severity, 'error');
+        assert.match(issues[0].message, /never closed/);
+    });
+
+    it('finds no unknown placeholders in the built-in prompts', () => {
+        for (const preset of BUILTIN_PROMPT_PRESETS) {
+            const unknown = lintPrompt(preset.prompt, atStage('analyze', { hasScore: true, hasRewrite: true }))
+                .filter(issue => issue.severity === 'error' || issue.message.startsWith('Unknown'));
+
+            assert.deepEqual(unknown, [], preset.name);
+        }
+    });
+});
+
+describe('getPlaceholderSuggestions', () => {
+    beforeEach(() => {
+        installMockContext();
+    });
+
+    it('lists matches that start with the query first', () => {
+        const texts = getPlaceholderSuggestions('re', {}).map(s => s.text);
+
+        assert.equal(texts[0], 'rewrite_results');
+        assert.ok(texts.includes('score_results'));
+        assert.ok(!texts.includes('char_name'));
+    });
+
+    it('lists the character\'s fields and greetings with their current values', () => {
+        let state = setCharacter(createPipelineState(), CHARACTER, 0);
+        state = completeStage(state, 'score', { response: 'Solid 7/10', isStructured: false, promptUsed: '', schemaUsed: null });
+        const context = buildTemplateContext(state);
+
+        const preview = (text: string) => getPlaceholderSuggestions(text, context).find(s => s.text === text)?.preview;
+
+        assert.equal(preview('score_results'), 'Solid 7/10');
+        assert.equal(preview('rewrite_results'), '');
+        assert.equal(preview('field:first_mes'), 'Hello test');
+        assert.equal(preview('greeting:1'), 'Morning already?');
+        // Only fields the card has
+        assert.equal(getPlaceholderSuggestions('field:sce', context).length, 0);
+    });
+
+    it('has no previews without a character', () => {
+        assert.ok(getPlaceholderSuggestions('', {}).every(s => s.preview === null));
+    });
+});
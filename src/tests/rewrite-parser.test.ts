@@ -0,0 +1,163 @@
+// src/tests/rewrite-parser.test.ts
+
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { installMockContext, createMockCharacter } from './mock-context';
+import { parseRewrite } from '../rewrite-parser';
+import type { Character, CharacterBookEntry } from '../types';
+
+function entry(id: number, comment: string, content: string): CharacterBookEntry {
+    return {
+        id,
+        keys: [],
+        secondary_keys: [],
+        comment,
+        content,
+        constant: false,
+        selective: false,
+        enabled: true,
+        position: 'before_char',
+    };
+}
+
+function createCharacter(): Character {
+    return createMockCharacter({
+        data: {
+            alternate_greetings: ['Hi there', 'Good evening', 'Welcome back'],
+            character_book: { entries: [entry(1, 'The Keep', 'A castle'), entry(2, '', 'A river')] },
+        },
+    } as Partial<Character>);
+}
+
+describe('parseRewrite', () => {
+    beforeEach(() => {
+        installMockContext();
+    });
+
+    describe('free text', () => {
+        it('reads "### Field" sections into the selected fields', () => {
+            const response = [
+                '# CHARACTER: TestChar',
+                '### Description',
+                'A knight who hates mornings',
+                '### Personality',
+                '[ORIGINAL] Grumpy [REVISED] Grumpy until noon',
+            ].join('\n');
+
+            const parsed = parseRewrite(response, createCharacter(), { description: true, personality: true });
+
+            assert.equal(parsed.isStructured, false);
+            assert.deepEqual(parsed.fields, {
+                description: 'A knight who hates mornings',
+                personality: 'Grumpy until noon',
+            });
+            assert.deepEqual(parsed.missing, []);
+            assert.deepEqual(parsed.extra, []);
+            assert.deepEqual(parsed.unparseable, []);
+        });
+
+        it('reports missing, extra and unparseable sections', () => {
+            const response = [
+                '### Description',
+                'A knight',
+                '### Personality',
+                '',
+                '### First Message',
+                'Morning already?',
+                '### Notes',
+                'I kept the tone',
+            ].join('\n');
+
+            const parsed = parseRewrite(response, createCharacter(), { description: true, personality: true, scenario: true });
+
+            assert.deepEqual(parsed.fields, { description: 'A knight' });
+            assert.deepEqual(parsed.missing, ['scenario']);
+            assert.deepEqual(parsed.unparseable, ['personality']);
+            assert.deepEqual(parsed.extra, ['Notes', 'first_mes']);
+        });
+
+        it('maps greeting numbers to greeting indices', () => {
+            const response = [
+                '### Alternate Greetings',
+                '**Greeting 1:**',
+                'Hello yourself',
+                '**Greeting 2:**',
+                'Good night',
+                '**Greeting 5:**',
+                'Who are you?',
+            ].join('\n');
+
+            const parsed = parseRewrite(response, createCharacter(), { alternate_greetings: [1, 2] });
+
+            assert.deepEqual(parsed.fields.alternate_greetings, { 1: 'Good night' });
+            assert.deepEqual(parsed.missing, ['alternate_greetings[2]']);
+            assert.deepEqual(parsed.extra, ['alternate_greetings[4]', 'alternate_greetings[0]']);
+        });
+
+        it('maps lorebook entries by comment or "Entry <id>"', () => {
+            const response = [
+                '### Character Lorebook',
+                '**The Keep:**',
+                'A ruined castle',
+                '**Entry 2:**',
+                'A frozen river',
+                '**Dragons:**',
+                'There are none',
+            ].join('\n');
+
+            const parsed = parseRewrite(response, createCharacter(), { character_book: true });
+
+            assert.deepEqual(parsed.fields.character_book, { 0: 'A ruined castle', 1: 'A frozen river' });
+            assert.deepEqual(parsed.extra, ['character_book: Dragons']);
+        });
+
+        it('reports every selected field missing when no section matches', () => {
+            const parsed = parseRewrite('Sorry, I can\'t help with that.', createCharacter(), { description: true, first_mes: true });
+
+            assert.deepEqual(parsed.fields, {});
+            assert.deepEqual(parsed.missing, ['description', 'first_mes']);
+        });
+    });
+
+    describe('structured', () => {
+        it('reads fields, greetings and lorebook entries', () => {
+            const response = JSON.stringify({
+                fields: [
+                    { field: 'description', content: ' A knight ' },
+                    { field: 'personality', content: 5 },
+                    { field: 'nickname', content: 'Sir' },
+                ],
+                alternateGreetings: [{ greeting: 2, content: 'Good night' }],
+                lorebookEntries: [
+                    { entry: 'the keep', content: 'A ruined castle' },
+                    { entry: 'Dragons', content: 'There are none' },
+                ],
+            });
+
+            const parsed = parseRewrite(response, createCharacter(), {
+                description: true,
+                personality: true,
+                alternate_greetings: [1],
+                character_book: true,
+            });
+
+            assert.equal(parsed.isStructured, true);
+            assert.deepEqual(parsed.fields, {
+                description: 'A knight',
+                alternate_greetings: { 1: 'Good night' },
+                character_book: { 0: 'A ruined castle' },
+            });
+            assert.deepEqual(parsed.unparseable, ['personality']);
+            assert.deepEqual(parsed.extra, ['nickname', 'character_book: Dragons']);
+            assert.deepEqual(parsed.missing, []);
+        });
+
+        it('reports a fields value that isn\'t a list as unparseable', () => {
+            const parsed = parseRewrite('{"fields": {"description": "A knight"}}', createCharacter(), { description: true });
+
+            assert.deepEqual(parsed.fields, {});
+            assert.deepEqual(parsed.unparseable, ['fields']);
+            assert.deepEqual(parsed.missing, ['description']);
+        });
+    });
+});
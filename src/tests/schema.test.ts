@@ -0,0 +1,134 @@
+// src/tests/schema.test.ts
+
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { installMockContext } from './mock-context';
+import {
+    validateSchema,
+    autoFixSchema,
+    validateResponseData,
+    formatViolations,
+    parseStructuredResponse,
+    countOptionalFields,
+} from '../schema';
+import type { JsonSchemaValue, StructuredOutputSchema } from '../types';
+
+const SCORE_VALUE: JsonSchemaValue = {
+    type: 'object',
+    properties: {
+        score: { type: 'integer', minimum: 1, maximum: 10 },
+        verdict: { type: 'string', enum: ['accept', 'revise'] },
+        notes: { type: 'array', items: { type: 'string' } },
+    },
+    required: ['score', 'verdict', 'notes'],
+    additionalProperties: false,
+};
+
+const SCORE_SCHEMA: StructuredOutputSchema = { name: 'score', strict: true, value: SCORE_VALUE };
+
+describe('validateSchema', () => {
+    beforeEach(() => {
+        installMockContext();
+    });
+
+    it('accepts a well-formed schema', () => {
+        const result = validateSchema(JSON.stringify(SCORE_SCHEMA));
+
+        assert.equal(result.valid, true, result.error);
+        assert.equal(result.schema?.name, 'score');
+    });
+
+    it('treats empty input as no schema', () => {
+        assert.deepEqual(validateSchema('   '), { valid: true, schema: undefined });
+    });
+
+    it('reports JSON syntax errors', () => {
+        const result = validateSchema('{ "name": ');
+
+        assert.equal(result.valid, false);
+        assert.match(result.error ?? '', /JSON syntax error/);
+    });
+
+    it('requires the ST wrapper', () => {
+        assert.match(validateSchema(JSON.stringify(SCORE_VALUE)).error ?? '', /'name'/);
+        assert.match(validateSchema(JSON.stringify({ name: 'bad name', value: SCORE_VALUE })).error ?? '', /valid identifier/);
+        assert.equal(validateSchema('[]').valid, false);
+    });
+});
+
+describe('autoFixSchema', () => {
+    it('closes every object and turns on strict mode', () => {
+        const fixed = autoFixSchema({
+            name: 'loose',
+            value: {
+                type: 'object',
+                properties: { nested: { type: 'object', properties: { a: { type: 'string' } } } },
+            },
+        });
+
+        assert.equal(fixed.strict, true);
+        assert.equal(fixed.value.additionalProperties, false);
+        assert.equal((fixed.value.properties!.nested as JsonSchemaValue).additionalProperties, false);
+    });
+
+    it('leaves the original untouched', () => {
+        const original: StructuredOutputSchema = { name: 'loose', value: { type: 'object', properties: {} } };
+        autoFixSchema(original);
+
+        assert.equal(original.strict, undefined);
+        assert.equal(original.value.additionalProperties, undefined);
+    });
+});
+
+describe('validateResponseData', () => {
+    it('finds nothing wrong with a matching response', () => {
+        assert.deepEqual(validateResponseData({ score: 7, verdict: 'accept', notes: ['fine'] }, SCORE_VALUE), []);
+    });
+
+    it('points at each violation', () => {
+        const violations = validateResponseData({ score: 11, verdict: 'maybe', notes: [3], extra: true }, SCORE_VALUE);
+        const paths = violations.map(v => v.path);
+
+        assert.ok(paths.includes('/score'));
+        assert.ok(paths.includes('/verdict'));
+        assert.ok(paths.includes('/notes/0'));
+        assert.ok(violations.length >= 4);
+    });
+
+    it('reports missing required properties', () => {
+        const lines = formatViolations(validateResponseData({ score: 5 }, SCORE_VALUE));
+
+        assert.ok(lines.some(line => line.includes('verdict')));
+        assert.ok(lines.some(line => line.includes('notes')));
+    });
+});
+
+describe('parseStructuredResponse', () => {
+    it('parses valid JSON without repairs', () => {
+        const parsed = parseStructuredResponse('{"score": 8, "verdict": "accept", "notes": []}', SCORE_SCHEMA);
+
+        assert.ok(parsed);
+        assert.deepEqual(parsed.repairs, []);
+        assert.deepEqual(parsed.warnings, []);
+    });
+
+    it('repairs fenced JSON with trailing commas', () => {
+        const parsed = parseStructuredResponse('Here you go:\n```json\n{"score": 8, "verdict": "accept", "notes": ["a",],}\n```');
+
+        assert.ok(parsed);
+        assert.deepEqual(parsed.data, { score: 8, verdict: 'accept', notes: ['a'] });
+        assert.ok(parsed.repairs.includes('code_block'));
+        assert.ok(parsed.repairs.includes('trailing_commas'));
+    });
+
+    it('returns null when there is no JSON', () => {
+        assert.equal(parseStructuredResponse('I cannot score this character.'), null);
+    });
+});
+
+describe('countOptionalFields', () => {
+    it('counts properties that aren\'t required', () => {
+        assert.equal(countOptionalFields(SCORE_VALUE), 0);
+        assert.equal(countOptionalFields({ ...SCORE_VALUE, required: ['score'] }), 2);
+    });
+});
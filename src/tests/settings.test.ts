@@ -0,0 +1,167 @@
+// src/tests/settings.test.ts
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { installMockContext } from './mock-context';
+import { getSettings, updateGenerationConfig, addConfigListEntry, updateConfigListEntry } from '../settings';
+import {
+    MODULE_NAME,
+    SETTINGS_VERSION,
+    BASE_SYSTEM_PROMPT,
+    BASE_REFINEMENT_PROMPT,
+    DEFAULT_USER_SYSTEM_PROMPT,
+    DEFAULT_USER_REFINEMENT_PROMPT,
+    BUILTIN_PROMPT_PRESETS,
+    BUILTIN_SCHEMA_PRESETS,
+    MAX_FALLBACK_CONFIGS,
+} from '../constants';
+
+describe('getSettings', () => {
+    it('initializes missing settings with the defaults', () => {
+        const mock = installMockContext();
+
+        const settings = getSettings();
+
+        assert.equal(settings.settingsVersion, SETTINGS_VERSION);
+        assert.equal(mock.extensionSettings[MODULE_NAME], settings);
+        assert.equal(mock.saveCount, 1);
+    });
+
+    it('fills in fields added since the settings were saved', () => {
+        installMockContext({
+            extensionSettings: {
+                [MODULE_NAME]: { settingsVersion: SETTINGS_VERSION, debugMode: true, generationConfig: { model: 'my-model' } },
+            },
+        });
+
+        const settings = getSettings();
+
+        assert.equal(settings.debugMode, true);
+        assert.equal(settings.generationConfig.model, 'my-model');
+        assert.equal(typeof settings.generationConfig.temperature, 'number');
+        assert.ok(settings.retry);
+        assert.ok(settings.cache);
+    });
+
+    it('restores builtin presets that are missing', () => {
+        installMockContext({
+            extensionSettings: {
+                [MODULE_NAME]: { settingsVersion: SETTINGS_VERSION, promptPresets: [], schemaPresets: [] },
+            },
+        });
+
+        const settings = getSettings();
+        const promptIds = new Set(settings.promptPresets.map(p => p.id));
+        const schemaIds = new Set(settings.schemaPresets.map(p => p.id));
+
+        BUILTIN_PROMPT_PRESETS.forEach(preset => assert.ok(promptIds.has(preset.id), preset.id));
+        BUILTIN_SCHEMA_PRESETS.forEach(preset => assert.ok(schemaIds.has(preset.id), preset.id));
+    });
+});
+
+describe('settings migrations', () => {
+    it('migrates v1 settings to the current version', () => {
+        const mock = installMockContext({
+            extensionSettings: {
+                [MODULE_NAME]: {
+                    useRawMode: true,
+                    jsonSchema: '{}',
+                    useStructuredOutput: true,
+                    systemPrompt: 'Be thorough',
+                    refinementPrompt: 'Refine carefully',
+                },
+            },
+        });
+
+        const settings = getSettings();
+        const raw = settings as unknown as Record<string, unknown>;
+
+        assert.equal(settings.settingsVersion, SETTINGS_VERSION);
+        assert.equal(settings.useCurrentSettings, false);
+        assert.equal(settings.stageDefaults.score.useStructuredOutput, true);
+        assert.equal(settings.userSystemPrompt, 'Be thorough');
+        assert.equal(settings.baseSystemPrompt, BASE_SYSTEM_PROMPT);
+        assert.equal(settings.userRefinementPrompt, 'Refine carefully');
+        assert.equal(settings.baseRefinementPrompt, BASE_REFINEMENT_PROMPT);
+        assert.deepEqual(settings.customStages, []);
+
+        for (const key of ['useRawMode', 'jsonSchema', 'useStructuredOutput', 'systemPrompt', 'refinementPrompt']) {
+            assert.equal(raw[key], undefined, `${key} should be removed`);
+        }
+
+        assert.ok(mock.saveCount > 0);
+    });
+
+    it('doesn\'t carry over empty prompts', () => {
+        installMockContext({
+            extensionSettings: {
+                [MODULE_NAME]: { settingsVersion: 3, systemPrompt: '  ', refinementPrompt: '' },
+            },
+        });
+
+        const settings = getSettings();
+
+        assert.equal(settings.userSystemPrompt, DEFAULT_USER_SYSTEM_PROMPT);
+        assert.equal(settings.baseSystemPrompt, BASE_SYSTEM_PROMPT);
+        assert.equal(settings.userRefinementPrompt, DEFAULT_USER_REFINEMENT_PROMPT);
+    });
+
+    it('versions presets saved before v4', () => {
+        installMockContext({
+            extensionSettings: {
+                [MODULE_NAME]: {
+                    settingsVersion: 3,
+                    promptPresets: [{ id: 'user_preset', name: 'Mine', prompt: 'Score it', stages: [], isBuiltin: false }],
+                },
+            },
+        });
+
+        const preset = getSettings().promptPresets.find(p => p.id === 'user_preset');
+
+        assert.ok(preset);
+        assert.equal(preset.presetVersion, 0);
+    });
+
+    it('leaves current settings alone', () => {
+        const mock = installMockContext({
+            extensionSettings: {
+                [MODULE_NAME]: { settingsVersion: SETTINGS_VERSION, useCurrentSettings: false },
+            },
+        });
+
+        getSettings();
+        getSettings();
+
+        assert.equal(getSettings().useCurrentSettings, false);
+        assert.equal(mock.saveCount, 0);
+    });
+});
+
+describe('settings updates', () => {
+    it('updates the generation config partially', () => {
+        installMockContext();
+        getSettings();
+
+        updateGenerationConfig({ temperature: 0.4 });
+
+        const config = getSettings().generationConfig;
+        assert.equal(config.temperature, 0.4);
+        assert.equal(typeof config.model, 'string');
+    });
+
+    it('caps config lists at their limit', () => {
+        installMockContext();
+        getSettings();
+
+        for (let i = 0; i < MAX_FALLBACK_CONFIGS; i++) {
+            assert.equal(addConfigListEntry('fallbackConfigs'), true);
+        }
+        assert.equal(addConfigListEntry('fallbackConfigs'), false);
+
+        updateConfigListEntry('fallbackConfigs', 1, { model: 'backup-model' });
+
+        const configs = getSettings().fallbackConfigs;
+        assert.equal(configs.length, MAX_FALLBACK_CONFIGS);
+        assert.equal(configs[1].model, 'backup-model');
+    });
+});
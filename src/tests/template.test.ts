@@ -0,0 +1,156 @@
+// src/tests/template.test.ts
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { renderTemplate, validateTemplate, formatTemplateError, getTemplateVariables, getTemplateReferences, getTemplateUsages } from '../template';
+
+const FIELDS = [
+    { key: 'description', label: 'Description', value: 'A tall knight' },
+    { key: 'personality', label: 'Personality', value: 'Grumpy' },
+];
+
+describe('renderTemplate', () => {
+    it('outputs variables, ignoring case', () => {
+        assert.equal(renderTemplate('{{Name}} / {{name}}', { name: 'Alice' }), 'Alice / Alice');
+    });
+
+    it('leaves unknown variables and SillyTavern macros alone', () => {
+        assert.equal(renderTemplate('{{missing}} {{random::a,b}} {{roll 1d6}}', {}), '{{missing}} {{random::a,b}} {{roll 1d6}}');
+    });
+
+    it('picks the if or else branch', () => {
+        const template = '{{#if score}}Score: {{score}}{{else}}No score{{/if}}';
+
+        assert.equal(renderTemplate(template, { score: '8' }), 'Score: 8');
+        assert.equal(renderTemplate(template, { score: '  ' }), 'No score');
+        assert.equal(renderTemplate(template, {}), 'No score');
+    });
+
+    it('inverts unless', () => {
+        assert.equal(renderTemplate('{{#unless done}}Todo{{else}}Done{{/unless}}', { done: 0 }), 'Todo');
+    });
+
+    it('nests blocks', () => {
+        const template = '{{#if a}}A{{#if b}}B{{else}}-{{/if}}{{#unless c}}!{{/unless}}{{/if}}';
+
+        assert.equal(renderTemplate(template, { a: 'x', b: 'y' }), 'AB!');
+        assert.equal(renderTemplate(template, { a: 'x', c: 'z' }), 'A-');
+    });
+
+    it('loops over lists with the item, index and outer variables', () => {
+        const template = '{{#each fields}}{{@number}}. {{label}} ({{this.key}}) for {{name}}{{#unless @last}}, {{/unless}}{{/each}}';
+
+        assert.equal(renderTemplate(template, { fields: FIELDS, name: 'Bob' }), '1. Description (description) for Bob, 2. Personality (personality) for Bob');
+    });
+
+    it('loops over plain strings and shows else for an empty list', () => {
+        const template = '{{#each greetings}}[{{this}}]{{else}}none{{/each}}';
+
+        assert.equal(renderTemplate(template, { greetings: ['Hi', 'Yo'] }), '[Hi][Yo]');
+        assert.equal(renderTemplate(template, { greetings: [] }), 'none');
+    });
+
+    it('applies filters in order', () => {
+        const scope = { text: 'abcdefghij', list: ['a', 'b'], blank: '' };
+
+        assert.equal(renderTemplate('{{text | truncate:4}}', scope), 'abcd...');
+        assert.equal(renderTemplate('{{text | truncate:20}}', scope), 'abcdefghij');
+        assert.equal(renderTemplate('{{text | upper | truncate:3}}', scope), 'ABC...');
+        assert.equal(renderTemplate('{{list | join:" + "}} {{list | length}}', scope), 'a + b 2');
+        assert.equal(renderTemplate('{{blank | default:"n/a"}} {{missing | default:\'none\'}}', scope), 'n/a none');
+    });
+
+    it('drops lines that only hold block tags', () => {
+        const template = 'Start\n{{#if a}}\nInside\n{{/if}}\nEnd';
+
+        assert.equal(renderTemplate(template, { a: 'yes' }), 'Start\nInside\nEnd');
+        assert.equal(renderTemplate(template, {}), 'Start\nEnd');
+    });
+
+    it('looks up keyed variables, keys with spaces included', () => {
+        const scope = { field: { first_mes: 'Hello there' }, lore_entry: { 'Castle Grounds': 'Walls and moat' } };
+
+        assert.equal(renderTemplate('{{field:first_mes | upper}} / {{Field:First_Mes}}', scope), 'HELLO THERE / Hello there');
+        assert.equal(renderTemplate('{{#if lore_entry:castle grounds}}{{lore_entry:Castle Grounds}}{{/if}}', scope), 'Walls and moat');
+        assert.equal(renderTemplate('{{field:scenario}}', scope), '{{field:scenario}}');
+    });
+
+    it('skips comments', () => {
+        assert.equal(renderTemplate('A{{! note to self }}B', {}), 'AB');
+    });
+
+    it('inserts values without rendering tags inside them', () => {
+        assert.equal(renderTemplate('{{a}}', { a: '{{#if}} {{b}}', b: 'no' }), '{{#if}} {{b}}');
+    });
+});
+
+describe('validateTemplate', () => {
+    it('accepts a valid template', () => {
+        assert.deepEqual(validateTemplate('{{#each fields}}{{#if value}}{{value | truncate:10}}{{/if}}{{/each}}'), []);
+    });
+
+    it('reports unclosed blocks where they were opened', () => {
+        const errors = validateTemplate('Line one\n  {{#if score_results}}\nScores');
+
+        assert.equal(errors.length, 1);
+        assert.equal(formatTemplateError(errors[0]), 'Line 2, column 3: {{#if}} is never closed - add {{/if}}');
+    });
+
+    it('reports closing tags that don\'t match', () => {
+        assert.match(validateTemplate('{{/if}}')[0].message, /no matching/);
+        assert.match(validateTemplate('{{#if a}}\n{{#each b}}\n{{/if}}')[0].message, /closes the \{\{#each\}\} opened on line 2/);
+    });
+
+    it('reports misplaced and repeated else', () => {
+        assert.match(validateTemplate('{{else}}')[0].message, /outside/);
+        assert.match(validateTemplate('{{#if a}}{{else}}{{else}}{{/if}}')[0].message, /already has/);
+        assert.match(validateTemplate('{{#if a}}{{else if b}}{{/if}}')[0].message, /isn't supported/);
+    });
+
+    it('reports bad blocks and filters', () => {
+        assert.match(validateTemplate('{{#with a}}{{/with}}')[0].message, /Unknown block/);
+        assert.match(validateTemplate('{{#if}}{{/if}}')[0].message, /needs a variable/);
+        assert.match(validateTemplate('{{a | shout}}')[0].message, /Unknown filter "shout"/);
+        assert.match(validateTemplate('{{a | truncate}}')[0].message, /needs an argument/);
+        assert.match(validateTemplate('{{a | truncate:-5}}')[0].message, /positive whole number/);
+        assert.match(validateTemplate('{{a | upper:1}}')[0].message, /doesn't take an argument/);
+    });
+
+    it('still renders around errors', () => {
+        assert.equal(renderTemplate('{{#if a}}A{{/each}}B', { a: 'x' }), 'AB');
+    });
+});
+
+describe('getTemplateVariables', () => {
+    it('lists output variables, not loop data or conditions', () => {
+        const template = '{{#if score_results}}{{Score_Results | truncate:5}}{{/if}}{{#each fields}}{{this.label}}{{@index}}{{/each}}{{char_name}}';
+
+        assert.deepEqual(getTemplateVariables(template), ['score_results', 'char_name']);
+    });
+
+    it('lists keyed references once each', () => {
+        const template = '{{field:description}} {{Field:description}} {{greeting:2}} {{tags}}';
+
+        assert.deepEqual(getTemplateReferences(template), [
+            { name: 'field', key: 'description' },
+            { name: 'greeting', key: '2' },
+            { name: 'tags', key: null },
+        ]);
+        assert.deepEqual(getTemplateVariables(template), ['field', 'greeting', 'tags']);
+    });
+});
+
+describe('getTemplateUsages', () => {
+    it('records where each variable is read and what surrounds it', () => {
+        const template = '{{#if score_results}}\n  {{score_results | default:"-"}}\n{{/if}}{{#each fields}}{{label}}{{/each}}';
+
+        const usages = getTemplateUsages(template).map(u => [u.name, u.line, u.column, u.condition, u.hasDefault, u.loops, u.guards]);
+
+        assert.deepEqual(usages, [
+            ['score_results', 1, 1, true, false, [], []],
+            ['score_results', 2, 3, false, true, [], ['score_results']],
+            ['fields', 3, 8, true, false, [], []],
+            ['label', 3, 24, false, false, ['fields'], []],
+        ]);
+    });
+});
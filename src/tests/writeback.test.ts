@@ -0,0 +1,90 @@
+// src/tests/writeback.test.ts
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMockCharacter } from './mock-context';
+import { buildWriteBackPlan, getKeysKeptByRestore } from '../writeback';
+import type { CardBackup, Character, CharacterBook } from '../types';
+
+function backupOf(character: Character): CardBackup {
+    return { id: 'backup', timestamp: Date.now(), reason: 'test', character: structuredClone(character) };
+}
+
+describe('buildWriteBackPlan', () => {
+    const book: CharacterBook = {
+        entries: [
+            { id: 1, keys: ['keep'], secondary_keys: [], comment: 'The Keep', content: 'A castle', constant: false, selective: false, enabled: true, position: 'before_char' },
+            { id: 2, keys: ['river'], secondary_keys: [], comment: '', content: 'A river', constant: false, selective: false, enabled: true, position: 'before_char' },
+        ],
+    };
+
+    it('plans only selected fields that changed', () => {
+        const character = createMockCharacter();
+
+        const changes = buildWriteBackPlan(
+            character,
+            { description: 'A knight', personality: '  Test personality\n', first_mes: 'Morning already?' },
+            { description: true, personality: true, first_mes: false },
+        );
+
+        assert.deepEqual(changes, [
+            { key: 'description', label: 'Description', path: 'description', before: 'A test character', after: 'A knight' },
+        ]);
+    });
+
+    it('replaces only the selected greetings', () => {
+        const character = createMockCharacter({ data: { alternate_greetings: ['Hi', 'Evening', 'Welcome'] } } as Partial<Character>);
+
+        const [change] = buildWriteBackPlan(
+            character,
+            { alternate_greetings: { 0: 'Hello', 2: 'Welcome back', 5: 'Who?' } },
+            { alternate_greetings: [2] },
+        );
+
+        assert.equal(change.path, 'data.alternate_greetings');
+        assert.deepEqual(change.after, ['Hi', 'Evening', 'Welcome back']);
+    });
+
+    it('replaces lorebook entry content and keeps the rest of the entry', () => {
+        const character = createMockCharacter({ data: { character_book: book } } as Partial<Character>);
+
+        const [change] = buildWriteBackPlan(character, { character_book: { 1: 'A frozen river' } }, { character_book: true });
+
+        assert.deepEqual(change.after, {
+            entries: [book.entries[0], { ...book.entries[1], content: 'A frozen river' }],
+        });
+    });
+
+    it('compares creator notes with the legacy creatorcomment', () => {
+        const character = createMockCharacter({ creatorcomment: 'Made for a friend' });
+
+        assert.deepEqual(buildWriteBackPlan(character, { creator_notes: 'Made for a friend ' }, { creator_notes: true }), []);
+
+        const [change] = buildWriteBackPlan(character, { creator_notes: 'Made for the guild' }, { creator_notes: true });
+        assert.equal(change.before, 'Made for a friend');
+        assert.equal(change.path, 'data.creator_notes');
+    });
+});
+
+describe('getKeysKeptByRestore', () => {
+    it('lists keys added since the backup', () => {
+        const before = createMockCharacter({ data: { extensions: { world: 'Old book' }, alternate_greetings: ['Hi'] } } as Partial<Character>);
+        const backup = backupOf(before);
+
+        const now = createMockCharacter({
+            talkativeness: '0.5',
+            data: {
+                extensions: { world: 'New book', regex_scripts: [] },
+                alternate_greetings: ['Hi', 'Hello'],
+            },
+        } as Partial<Character>);
+
+        assert.deepEqual(getKeysKeptByRestore(now, backup), ['talkativeness', 'data.extensions.regex_scripts']);
+    });
+
+    it('lists nothing for an unchanged card', () => {
+        const character = createMockCharacter();
+
+        assert.deepEqual(getKeysKeptByRestore(character, backupOf(character)), []);
+    });
+});
@@ -4,7 +4,10 @@
 // CORE TYPES
 // ============================================================================
 
-export type StageName = 'score' | 'rewrite' | 'analyze';
+export type BuiltinStageName = 'score' | 'rewrite' | 'analyze';
+
+// Builtin stage name or the id of a user-defined stage (see CustomStageDefinition)
+export type StageName = BuiltinStageName | string;
 
 export type StageStatus = 'pending' | 'running' | 'complete' | 'skipped';
 
@@ -107,6 +110,93 @@ export interface PopulatedField {
     type: 'string' | 'array' | 'object';
 }
 
+// A selected field as prompt templates see it, for {{#each fields}}
+export interface TemplateField {
+    key: string;
+    label: string;
+    value: string;
+}
+
+// A lorebook entry as prompt templates see it, for {{#each lorebook}}
+export interface TemplateLoreEntry {
+    name: string;  // The entry's comment, or "Entry <id>"
+    keys: string[];
+    content: string;
+    enabled: boolean;
+}
+
+// The whole card as keyed template placeholders see it ({{field:first_mes}}, {{greeting:2}},
+// {{lore_entry:<name>}}), regardless of which fields are selected
+export interface TemplateCardData {
+    fields: Record<string, string>;  // Every field by key, blank when the card doesn't have it
+    greetings: string[];             // All alternate greetings
+    lorebook: TemplateLoreEntry[];   // All embedded lorebook entries
+    tags: string[];
+    creator: string;
+    characterVersion: string;
+}
+
+// ============================================================================
+// WRITE-BACK
+// ============================================================================
+
+/**
+ * Rewritten value for a single field. Indexed fields (alternate greetings,
+ * lorebook entries) map the original array index to the new text.
+ */
+export type RewrittenFieldValue = string | Record<number, string>;
+
+export type RewrittenFields = Partial<Record<string, RewrittenFieldValue>>;
+
+export interface ParsedRewrite {
+    fields: RewrittenFields;
+    missing: string[];       // Selected fields (or greeting/entry refs) not found in the output
+    extra: string[];         // Output sections that don't map to a selected field
+    unparseable: string[];   // Recognized sections whose content couldn't be read
+    isStructured: boolean;
+}
+
+export interface WriteBackChange {
+    key: string;
+    label: string;
+    path: string;
+    before: unknown;
+    after: unknown;
+}
+
+export interface WriteBackResult {
+    success: boolean;
+    applied: string[];
+    error?: string;
+}
+
+export interface CardBackup {
+    id: string;
+    timestamp: number;
+    reason: string;
+    character: Character;  // Full card as stored by ST, including data.extensions and character_book
+}
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+export type DiffOp = 'equal' | 'added' | 'removed';
+
+export interface DiffSegment {
+    op: DiffOp;
+    text: string;
+}
+
+export interface FieldDiff {
+    key: string;    // Field key, or 'alternate_greetings[1]' / 'character_book[0]' for indexed fields
+    label: string;
+    before: string;
+    after: string;
+    segments: DiffSegment[];
+    changed: boolean;
+}
+
 // ============================================================================
 // GENERATION
 // ============================================================================
@@ -114,6 +204,7 @@ export interface PopulatedField {
 export interface GenerationConfig {
     source: string;
     model: string;
+    profileId?: string;  // ST connection profile - replaces source and model when set
     temperature: number;
     maxTokens: number;
     frequencyPenalty: number;
@@ -121,9 +212,31 @@ export interface GenerationConfig {
     topP: number;
 }
 
+// A Connection Manager profile: its API, endpoint, preset and (for text completion) instruct template
+export interface ConnectionProfile {
+    id: string;
+    name: string;
+    mode: 'cc' | 'tc';  // Chat or text completion
+    api: string;
+    model: string;
+}
+
+// Called with the full text so far while a response streams in
+export type GenerationProgressCallback = (partialText: string) => void;
+
 export type GenerationResult =
-    | { success: true; response: string; isStructured: boolean }
-    | { success: false; error: string };
+    | {
+        success: true;
+        response: string;
+        isStructured: boolean;
+        violations?: SchemaViolation[];
+        repairs?: JsonRepair[];
+        attempts?: GenerationAttempt[];
+        usage?: TokenUsage;
+        cachedAt?: number;  // Set when the response came from the cache
+        partial?: boolean;  // The stream broke off - this is only what arrived before the error
+    }
+    | { success: false; error: string; attempts?: GenerationAttempt[] };
 
 // ============================================================================
 // SCHEMA
@@ -158,6 +271,111 @@ export interface JsonSchemaValue {
     [key: string]: unknown;
 }
 
+// Fixes applied to make a malformed structured response parse
+export type JsonRepair =
+    | 'code_block'          // Wrapped in a markdown fence
+    | 'extracted'           // Surrounded by prose
+    | 'comments'
+    | 'trailing_commas'
+    | 'single_quotes'
+    | 'unquoted_keys'
+    | 'control_characters'  // Raw newlines/tabs inside strings
+    | 'truncated';          // Cut off by max_tokens
+
+// A place where a structured response doesn't match its schema
+export interface SchemaViolation {
+    path: string;     // JSON pointer into the response, '' for the root
+    message: string;
+}
+
+export interface SchemaValidationConfig {
+    reaskOnViolation: boolean;  // Send violations back to the model and ask for a corrected response
+    maxReasks: number;
+}
+
+export interface RetryConfig {
+    maxAttempts: number;        // Per connection, including the first try
+    initialDelayMs: number;     // Wait before the second attempt
+    backoffMultiplier: number;  // Each later wait is this much longer
+    retryOnEmpty: boolean;
+    retryOnViolation: boolean;  // Regenerate when a structured response doesn't match its schema
+}
+
+export interface CacheConfig {
+    enabled: boolean;
+    ttlHours: number;    // Entries older than this are ignored and removed
+    maxEntries: number;  // Oldest entries are dropped beyond this
+}
+
+// A stored response, keyed by a hash of everything that went into the request
+export interface CachedResponse {
+    response: string;
+    source: string;
+    model: string;
+    storedAt: number;
+}
+
+// Tokens spent on one model. Provider-reported when available, otherwise counted with ST's tokenizer.
+export interface TokenUsage {
+    source: string;
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+    estimated: boolean;
+}
+
+// Everything a session spent, per stage (or 'refinement'), one entry per model
+export type UsageLedger = Record<string, TokenUsage[]>;
+
+// User-maintained price for a model, in currency units per million tokens
+export interface ModelPrice {
+    model: string;
+    inputPerMillion: number;
+    outputPerMillion: number;
+}
+
+// One scripted answer from the test backend. The first rule matching the stage and
+// prompt that has uses left answers the request.
+export interface FakeBackendRule {
+    stage?: StageName;              // 'refinement' for refinement requests
+    match?: string;                 // Regex tested against the user prompt, ignoring case
+    response?: string | string[];   // A list is answered in order, repeating the last entry
+    json?: unknown;                 // Sent as JSON text instead of response
+    error?: string;                 // Fail with this - after streaming the response, if there is one
+    latencyMs?: number;             // Spread over the chunks
+    chunks?: number;
+    times?: number;                 // Stop matching after this many answers
+}
+
+export interface FakeBackendScript {
+    rules?: FakeBackendRule[];
+    defaultResponse?: string;  // When no rule matches
+    latencyMs?: number;
+    chunks?: number;
+}
+
+// A request the test backend answered
+export interface FakeBackendRequest {
+    stage: StageName;
+    systemPrompt: string;
+    userPrompt: string;
+    jsonSchema: StructuredOutputSchema | null;
+    rule: number | null;  // Index of the rule that answered, null for the default response
+    timestamp: number;
+}
+
+// Settings lists that hold whole generation configs
+export type GenerationConfigList = 'comparisonConfigs' | 'fallbackConfigs';
+
+// One request made for a generation, including retries and fallbacks
+export interface GenerationAttempt {
+    target: string;    // "source / model", or the current SillyTavern connection
+    attempt: number;   // 1-based, per target
+    outcome: 'success' | 'error' | 'empty' | 'violation' | 'partial' | 'cancelled';
+    error?: string;
+    latencyMs: number;
+}
+
 export interface SchemaValidationResult {
     valid: boolean;
     error?: string;
@@ -175,6 +393,7 @@ export interface PromptPreset {
     name: string;
     prompt: string;
     stages: StageName[];  // Empty array = available for all stages
+    verdictRules?: VerdictRules;  // Analyze presets; defaults apply when absent
     isBuiltin: boolean;
     presetVersion: number;
     createdAt: number;
@@ -202,6 +421,7 @@ export interface StageDefaults {
     schemaPresetId: string | null;  // null = use customSchema or none
     customSchema: string;           // JSON string, empty = no schema
     useStructuredOutput: boolean;
+    generation?: Partial<GenerationConfig>;  // Per-stage overrides, unset fields use the global config
 }
 
 export interface StageConfig {
@@ -210,13 +430,36 @@ export interface StageConfig {
     schemaPresetId: string | null;
     customSchema: string;
     useStructuredOutput: boolean;
+    generation?: Partial<GenerationConfig>;
+}
+
+// ============================================================================
+// CUSTOM STAGES
+// ============================================================================
+
+export interface CustomStageDefinition {
+    id: string;              // Used as the StageName
+    name: string;
+    icon: string;            // Font Awesome class, e.g. 'fa-book'
+    description: string;
+    consumes: StageName[];   // Earlier stages whose results are fed into the prompt
+    createdAt: number;
+    updatedAt: number;
 }
 
 // ============================================================================
 // ITERATION SYSTEM
 // ============================================================================
 
-export type IterationVerdict = 'accept' | 'needs_refinement' | 'regression';
+export type IterationVerdict = 'accept' | 'needs_refinement' | 'regression' | 'unknown';
+
+// Case-insensitive regexes for reading a free-text analysis. The earliest verdict match wins.
+export interface VerdictRules {
+    accept: string;
+    needsRefinement: string;
+    regression: string;
+    score: string;  // First matching capture group is the 1-10 score
+}
 
 export interface IterationSnapshot {
     iteration: number;
@@ -225,9 +468,38 @@ export interface IterationSnapshot {
     analysisResponse: string;
     analysisPreview: string;
     verdict: IterationVerdict;
+    score: number | null;  // Soul preservation score (1-10), if the analysis gave one
+    rewriteUsage?: TokenUsage;
+    analysisUsage?: TokenUsage;
     timestamp: number;
 }
 
+// ============================================================================
+// AUTO-ITERATE
+// ============================================================================
+
+export interface AutoIterateConfig {
+    maxIterations: number;          // Refinements per run
+    scoreThreshold: number | null;  // Stop once the soul preservation score reaches this
+    tokenBudget: number | null;     // Stop before a run spends more than this many tokens
+    revertOnRegression: boolean;    // Revert to the best earlier snapshot on REGRESSION
+}
+
+export type AutoIterateStopReason =
+    | 'accepted'
+    | 'score_threshold'
+    | 'max_iterations'
+    | 'token_budget'
+    | 'regression'
+    | 'cancelled'
+    | 'error';
+
+export interface AutoIterateLogEntry {
+    timestamp: number;
+    level: 'info' | 'success' | 'warning' | 'error';
+    message: string;
+}
+
 // ============================================================================
 // PIPELINE
 // ============================================================================
@@ -237,28 +509,49 @@ export interface StageResult {
     isStructured: boolean;
     promptUsed: string;
     schemaUsed: StructuredOutputSchema | null;
+    violations?: SchemaViolation[];  // Left over after any re-asks
+    repairs?: JsonRepair[];          // Needed to parse the structured response
+    attempts?: GenerationAttempt[];  // Only kept when it took more than one request
+    usage?: TokenUsage;              // Including re-asks
+    cachedAt?: number;               // When the reused response was first generated
     timestamp: number;
     locked: boolean;
 }
 
+// One model's response in a side-by-side stage comparison
+export interface ComparisonEntry {
+    config: GenerationConfig;
+    response: string | null;        // null when the request failed
+    isStructured: boolean;
+    violations?: SchemaViolation[];
+    repairs?: JsonRepair[];
+    error: string | null;
+    latencyMs: number;
+    promptTokens: number;
+    responseTokens: number;
+    usage?: TokenUsage;
+}
+
+// A stage run against several generation configs with the same prompt.
+// Not persisted - an entry only outlives the popup once it's promoted to the stage result.
+export interface StageComparison {
+    stage: StageName;
+    promptUsed: string;
+    schemaUsed: StructuredOutputSchema | null;
+    entries: ComparisonEntry[];
+    timestamp: number;
+}
+
 export interface PipelineState {
     // Selected character
     character: Character | null;
     characterIndex: number | null;
 
     // Stage results
-    results: {
-        score: StageResult | null;
-        rewrite: StageResult | null;
-        analyze: StageResult | null;
-    };
+    results: Record<StageName, StageResult | null>;
 
     // Stage configs (runtime, may differ from defaults)
-    configs: {
-        score: StageConfig;
-        rewrite: StageConfig;
-        analyze: StageConfig;
-    };
+    configs: Record<StageName, StageConfig>;
 
     // Pipeline flow
     selectedStages: StageName[];
@@ -272,11 +565,99 @@ export interface PipelineState {
 
     // Field selection
     selectedFields: FieldSelection;
+    rejectedFields: string[];  // Diff keys excluded from write-back
+
+    // Tokens spent on every generation this session, kept results or not
+    usage: UsageLedger;
 
     // Export
     exportData: string | null;
 }
 
+// Pipeline state as saved to storage. The character is stored by avatar -
+// indices shift when characters are added or deleted.
+export interface SerializedPipelineState {
+    characterAvatar: string | null;
+    results: Record<StageName, StageResult | null>;
+    configs: Record<StageName, StageConfig>;
+    selectedStages: StageName[];
+    stageStatus: Record<StageName, StageStatus>;
+    iterationCount: number;
+    iterationHistory: IterationSnapshot[];
+    isRefining: boolean;
+    selectedFields: FieldSelection;
+    rejectedFields: string[];
+    usage?: UsageLedger;  // Missing in sessions saved before usage tracking
+    exportData: string | null;
+}
+
+export interface StoredSession {
+    sessionVersion: number;
+    characterId: string | null;  // Stable ID from data.extensions, null if the card has none
+    characterName: string;
+    characterAvatar: string;
+    savedAt: number;
+    state: SerializedPipelineState;
+}
+
+// Lightweight view of a stored session for listing without loading results
+export interface SessionSummary {
+    key: string;
+    characterId: string | null;
+    characterName: string;
+    characterAvatar: string;
+    savedAt: number;
+    iterationCount: number;
+    completedStages: StageName[];
+    usage: TokenUsage[];  // Session total, one entry per model
+    size: number;  // Stored JSON length in characters
+}
+
+// File format for moving sessions between machines
+export interface SessionExport {
+    sessionVersion: number;
+    exportedAt: string;
+    sessions: StoredSession[];
+}
+
+// ============================================================================
+// BATCH
+// ============================================================================
+
+export type BatchRunStatus = 'running' | 'paused' | 'complete' | 'cancelled';
+
+export type BatchItemStatus = 'pending' | 'running' | 'complete' | 'error' | 'cancelled';
+
+export interface BatchItem {
+    avatar: string;  // Characters are matched by avatar - indices shift when cards are added/removed
+    name: string;
+    status: BatchItemStatus;
+    error: string | null;
+    verdict: IterationVerdict | null;  // From the analyze stage, if it ran
+    score: number | null;
+    finishedAt: number | null;
+}
+
+export interface BatchRun {
+    id: string;
+    createdAt: number;
+    updatedAt: number;
+    status: BatchRunStatus;
+    stages: StageName[];
+    configs: Record<StageName, StageConfig>;  // Snapshot so a resumed run uses the same prompts
+    items: BatchItem[];
+    usage?: UsageLedger;  // Per stage across all characters. Missing in runs saved before usage tracking
+}
+
+// Stored separately from the run so the run index stays small
+export interface BatchItemResult {
+    avatar: string;
+    name: string;
+    results: Record<StageName, StageResult | null>;
+    stageStatus: Record<StageName, StageStatus>;
+    usage?: UsageLedger;
+}
+
 // ============================================================================
 // SETTINGS
 // ============================================================================
@@ -284,6 +665,7 @@ export interface PipelineState {
 export interface Settings {
     // Generation settings
     useCurrentSettings: boolean;
+    streamCurrentSettings: boolean;  // Send current Chat Completion settings ourselves instead of through generateRaw, so they stream
     generationConfig: GenerationConfig;
 
     // Split system prompt (base + user additions)
@@ -295,11 +677,7 @@ export interface Settings {
     userRefinementPrompt: string;
 
     // Optional per-stage system prompt additions
-    stageSystemPrompts: {
-        score: string;
-        rewrite: string;
-        analyze: string;
-    };
+    stageSystemPrompts: Record<StageName, string>;
 
     // Presets
     promptPresets: PromptPreset[];
@@ -308,8 +686,31 @@ export interface Settings {
     // Per-stage defaults
     stageDefaults: Record<StageName, StageDefaults>;
 
+    // User-defined stages, run after the builtin ones
+    customStages: CustomStageDefinition[];
+
+    // Auto-iterate loop limits
+    autoIterate: AutoIterateConfig;
+
+    // Structured response checking
+    schemaValidation: SchemaValidationConfig;
+
+    // Automatic retries, then these connections in order if the primary keeps failing
+    retry: RetryConfig;
+    fallbackConfigs: GenerationConfig[];
+
+    // Reuse responses to identical requests
+    cache: CacheConfig;
+
+    // Per-model prices for cost totals
+    modelPrices: ModelPrice[];
+
+    // Models to run side by side with Compare
+    comparisonConfigs: GenerationConfig[];
+
     // Debug
     debugMode: boolean;
+    fakeBackendScript: string;  // JSON FakeBackendScript for the scripted test backend
 
     // Version for migrations
     settingsVersion: number;
@@ -0,0 +1,189 @@
+// src/ui/backups-modal.ts
+//
+// Card backups popup - list, restore, download and delete snapshots for a character
+
+import { MODULE_NAME, MAX_CARD_BACKUPS } from '../constants';
+import { loadCardBackups, deleteCardBackup } from '../persistence';
+import { restoreCardBackup, getKeysKeptByRestore } from '../writeback';
+import { debugLog } from '../debug';
+import type { Character, CardBackup } from '../types';
+
+// ============================================================================
+// MAIN ENTRY
+// ============================================================================
+
+/**
+ * Open the backups popup for a character
+ */
+export async function openBackupsModal(character: Character, onRestored?: () => void): Promise<void> {
+    const { Popup, POPUP_TYPE } = SillyTavern.getContext();
+    const { DOMPurify } = SillyTavern.libs;
+
+    const backups = await loadCardBackups(character);
+    const content = buildBackupsContent(character, backups);
+
+    const popup = new Popup(DOMPurify.sanitize(content), POPUP_TYPE.TEXT, '', {
+        wide: true,
+        allowVerticalScrolling: true,
+        okButton: 'Close',
+        cancelButton: false,
+    });
+
+    const closed = popup.show();
+
+    // Wait for DOM
+    await new Promise<void>(resolve => setTimeout(resolve, 0));
+
+    initBackupsListeners(character, onRestored);
+    debugLog('info', 'Backups modal opened', { character: character.name, count: backups.length });
+
+    await closed;
+}
+
+// ============================================================================
+// BUILD CONTENT
+// ============================================================================
+
+function buildBackupsContent(character: Character, backups: CardBackup[]): string {
+    return `
+    <div class="${MODULE_NAME}_backups_modal" id="${MODULE_NAME}_backups_modal">
+      <div class="${MODULE_NAME}_backups_header">
+        <i class="fa-solid fa-box-archive"></i>
+        <span>Backups: ${escapeHtml(character.name)}</span>
+      </div>
+      <p class="${MODULE_NAME}_settings_hint">
+        A full copy of the card is saved before any change is written. The ${MAX_CARD_BACKUPS} most recent backups are kept.
+        Restoring merges the backup over the card, so anything added since - like another extension's data - stays.
+      </p>
+      <div id="${MODULE_NAME}_backups_list" class="${MODULE_NAME}_backups_list">
+        ${renderBackupList(backups)}
+      </div>
+    </div>
+  `;
+}
+
+function renderBackupList(backups: CardBackup[]): string {
+    if (backups.length === 0) {
+        return `<div class="${MODULE_NAME}_backups_empty">No backups yet</div>`;
+    }
+
+    const { moment } = SillyTavern.libs;
+
+    return backups.map(backup => `
+    <div class="${MODULE_NAME}_backup_item" data-id="${escapeHtml(backup.id)}">
+      <div class="${MODULE_NAME}_backup_info">
+        <span class="${MODULE_NAME}_backup_time" title="${moment(backup.timestamp).format('YYYY-MM-DD HH:mm:ss')}">
+          ${moment(backup.timestamp).format('YYYY-MM-DD HH:mm')} (${moment(backup.timestamp).fromNow()})
+        </span>
+        <span class="${MODULE_NAME}_backup_reason">${escapeHtml(backup.reason)}</span>
+      </div>
+      <div class="${MODULE_NAME}_backup_actions">
+        <button class="${MODULE_NAME}_backup_restore menu_button" data-id="${escapeHtml(backup.id)}" title="Restore this version">
+          <i class="fa-solid fa-rotate-left"></i>
+          Restore
+        </button>
+        <button class="${MODULE_NAME}_backup_download menu_button" data-id="${escapeHtml(backup.id)}" title="Download as JSON">
+          <i class="fa-solid fa-download"></i>
+        </button>
+        <button class="${MODULE_NAME}_backup_delete menu_button" data-id="${escapeHtml(backup.id)}" title="Delete">
+          <i class="fa-solid fa-trash"></i>
+        </button>
+      </div>
+    </div>
+  `).join('');
+}
+
+// ============================================================================
+// EVENT LISTENERS
+// ============================================================================
+
+function initBackupsListeners(character: Character, onRestored?: () => void): void {
+    const modal = document.getElementById(`${MODULE_NAME}_backups_modal`);
+    if (!modal) return;
+
+    modal.addEventListener('click', async (e) => {
+        const target = e.target as HTMLElement;
+        const button = target.closest(`.${MODULE_NAME}_backup_restore, .${MODULE_NAME}_backup_download, .${MODULE_NAME}_backup_delete`);
+        if (!button) return;
+
+        const id = button.getAttribute('data-id');
+        const backup = (await loadCardBackups(character)).find(b => b.id === id);
+        if (!backup) {
+            toastr.error('Backup not found');
+            return;
+        }
+
+        if (button.classList.contains(`${MODULE_NAME}_backup_restore`)) {
+            await handleRestore(character, backup, onRestored);
+        } else if (button.classList.contains(`${MODULE_NAME}_backup_download`)) {
+            downloadBackup(character, backup);
+        } else if (button.classList.contains(`${MODULE_NAME}_backup_delete`)) {
+            if (await deleteCardBackup(character, backup.id)) {
+                toastr.info('Backup deleted');
+            }
+        }
+
+        await refreshBackupList(character);
+    });
+}
+
+async function handleRestore(character: Character, backup: CardBackup, onRestored?: () => void): Promise<void> {
+    const { Popup, POPUP_TYPE, POPUP_RESULT } = SillyTavern.getContext();
+    const { moment } = SillyTavern.libs;
+
+    const kept = getKeysKeptByRestore(character, backup);
+    const keptNote = kept.length > 0
+        ? `<p>These were added since the backup and will stay:</p><ul>${kept.map(path => `<li><code>${escapeHtml(path)}</code></li>`).join('')}</ul>`
+        : '';
+
+    const confirm = await new Popup(
+        `<p>Restore ${escapeHtml(character.name)} to the backup from ${moment(backup.timestamp).format('YYYY-MM-DD HH:mm')}? The current card is backed up first.</p>
+        <p>The backup is merged over the card: everything it has is put back, but nothing is removed.</p>
+        ${keptNote}`,
+        POPUP_TYPE.CONFIRM,
+        '',
+        { okButton: 'Restore', cancelButton: 'Cancel' },
+    ).show();
+
+    if (confirm !== POPUP_RESULT.AFFIRMATIVE) return;
+
+    const result = await restoreCardBackup(character, backup);
+
+    if (result.success) {
+        toastr.success('Backup restored');
+        onRestored?.();
+    } else {
+        toastr.error(result.error || 'Failed to restore backup');
+    }
+}
+
+function downloadBackup(character: Character, backup: CardBackup): void {
+    const { moment } = SillyTavern.libs;
+
+    const blob = new Blob([JSON.stringify(backup.character, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${character.name.replace(/[^a-z0-9]/gi, '_') || 'character'}_backup_${moment(backup.timestamp).format('YYYYMMDD_HHmmss')}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+}
+
+async function refreshBackupList(character: Character): Promise<void> {
+    const list = document.getElementById(`${MODULE_NAME}_backups_list`);
+    if (!list) return;
+
+    list.innerHTML = renderBackupList(await loadCardBackups(character));
+}
+
+// ============================================================================
+// UTILITIES
+// ============================================================================
+
+function escapeHtml(value: unknown): string {
+    const { DOMPurify } = SillyTavern.libs;
+    const str = typeof value === 'string' ? value : String(value ?? '');
+    return DOMPurify.sanitize(str, { ALLOWED_TAGS: [] });
+}
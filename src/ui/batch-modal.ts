@@ -0,0 +1,658 @@
+// src/ui/batch-modal.ts
+//
+// Batch popup - pick characters, run a stage set on each in a queue and review past runs
+
+import { MODULE_NAME } from '../constants';
+import { getStageOrder, getStageLabel, stageExists } from '../stages';
+import { getCharacterTags, prepareForSearch } from '../character';
+import { createBatchRun, runBatch, cancelBatchRun, retryFailedItems, getBatchProgress } from '../batch';
+import { loadBatchRuns, loadBatchItemResult, deleteBatchRun } from '../persistence';
+import { isApiReady } from '../generator';
+import { getUsageLabel } from '../pipeline';
+import { getSettings } from '../settings';
+import { flattenLedger, summarizeUsage, formatUsageTotals } from '../usage';
+import { formatResponse, formatStructuredResponse } from './formatter';
+import { debugLog } from '../debug';
+import type { BatchRun, BatchItem, Character, StageConfig, StageName, StageResult, UsageLedger } from '../types';
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+let batchState: {
+    characters: Character[];
+    selected: Set<string>;  // Avatars
+    search: string;
+    tag: string;
+    stages: StageName[];
+    configs: Record<StageName, StageConfig>;
+    runs: BatchRun[];
+    activeRun: BatchRun | null;
+    running: boolean;
+    cancelRequested: boolean;
+    currentStage: StageName | null;
+    abortController: AbortController | null;
+} | null = null;
+
+// ============================================================================
+// MAIN ENTRY
+// ============================================================================
+
+/**
+ * Open the batch popup. Stages and configs default to the main pipeline's current setup.
+ */
+export async function openBatchModal(stages: StageName[], configs: Record<StageName, StageConfig>): Promise<void> {
+    const { Popup, POPUP_TYPE, characters } = SillyTavern.getContext();
+    const { DOMPurify } = SillyTavern.libs;
+
+    const runs = await loadBatchRuns();
+
+    batchState = {
+        characters: (characters as Character[]).filter(c => c?.name),
+        selected: new Set(),
+        search: '',
+        tag: '',
+        stages: stages.filter(stageExists),
+        configs,
+        runs,
+        activeRun: runs[0] ?? null,
+        running: false,
+        cancelRequested: false,
+        currentStage: null,
+        abortController: null,
+    };
+
+    const popup = new Popup(DOMPurify.sanitize(buildBatchContent()), POPUP_TYPE.TEXT, '', {
+        wide: true,
+        large: true,
+        allowVerticalScrolling: true,
+        okButton: 'Close',
+        cancelButton: false,
+    });
+
+    const closed = popup.show();
+
+    // Wait for DOM
+    await new Promise<void>(resolve => setTimeout(resolve, 0));
+
+    initBatchListeners();
+    debugLog('info', 'Batch modal opened', { characters: batchState.characters.length, runs: runs.length });
+
+    await closed;
+
+    // Closing pauses the run - it stays resumable from the runs list
+    batchState?.abortController?.abort();
+    batchState = null;
+}
+
+// ============================================================================
+// BUILD CONTENT
+// ============================================================================
+
+function buildBatchContent(): string {
+    return `
+    <div class="${MODULE_NAME}_batch_modal" id="${MODULE_NAME}_batch_modal">
+      <div class="${MODULE_NAME}_backups_header">
+        <i class="fa-solid fa-list-check"></i>
+        <span>Batch Run</span>
+      </div>
+      <p class="${MODULE_NAME}_settings_hint">
+        Runs the selected stages on each character in turn with the current prompts and presets.
+        Results are saved per character and can be reviewed below.
+      </p>
+
+      <div class="${MODULE_NAME}_batch_columns">
+        <div class="${MODULE_NAME}_batch_column">
+          <div class="${MODULE_NAME}_settings_section_header">
+            <i class="fa-solid fa-users"></i>
+            <span>Characters</span>
+          </div>
+          <div class="${MODULE_NAME}_batch_filters">
+            <input type="text" id="${MODULE_NAME}_batch_search" class="text_pole" placeholder="Search characters...">
+            <select id="${MODULE_NAME}_batch_tag" class="text_pole">
+              ${renderTagOptions()}
+            </select>
+          </div>
+          <div class="${MODULE_NAME}_settings_row_spread">
+            <span id="${MODULE_NAME}_batch_selected_count"></span>
+            <div class="${MODULE_NAME}_batch_buttons">
+              <button id="${MODULE_NAME}_batch_select_visible" class="menu_button" title="Select all characters shown">
+                <i class="fa-solid fa-check-double"></i>
+                All
+              </button>
+              <button id="${MODULE_NAME}_batch_select_none" class="menu_button" title="Clear selection">
+                <i class="fa-solid fa-xmark"></i>
+                None
+              </button>
+            </div>
+          </div>
+          <div id="${MODULE_NAME}_batch_char_list" class="${MODULE_NAME}_batch_char_list"></div>
+        </div>
+
+        <div class="${MODULE_NAME}_batch_column">
+          <div class="${MODULE_NAME}_settings_section_header">
+            <i class="fa-solid fa-diagram-project"></i>
+            <span>Stages</span>
+          </div>
+          <div class="${MODULE_NAME}_batch_stages">
+            ${renderStageCheckboxes()}
+          </div>
+          <div id="${MODULE_NAME}_batch_controls"></div>
+        </div>
+      </div>
+
+      <div class="${MODULE_NAME}_settings_section_header">
+        <i class="fa-solid fa-table-list"></i>
+        <span>Runs</span>
+      </div>
+      <div id="${MODULE_NAME}_batch_runs"></div>
+    </div>
+  `;
+}
+
+function renderTagOptions(): string {
+    if (!batchState) return '';
+
+    const tags = [...new Set(batchState.characters.flatMap(getCharacterTags))]
+        .sort((a, b) => a.localeCompare(b));
+
+    return [
+        '<option value="">All tags</option>',
+        ...tags.map(tag => `<option value="${escapeHtml(tag)}">${escapeHtml(tag)}</option>`),
+    ].join('');
+}
+
+function renderStageCheckboxes(): string {
+    if (!batchState) return '';
+    const { stages } = batchState;
+
+    return getStageOrder().map(stage => `
+    <label class="${MODULE_NAME}_checkbox_label">
+      <input type="checkbox" class="${MODULE_NAME}_batch_stage" data-stage="${escapeHtml(stage)}" ${stages.includes(stage) ? 'checked' : ''}>
+      <span>${escapeHtml(getStageLabel(stage))}</span>
+    </label>
+  `).join('');
+}
+
+/**
+ * Characters matching the current search and tag filter
+ */
+function getVisibleCharacters(): Character[] {
+    if (!batchState) return [];
+    const { characters, search, tag } = batchState;
+    const query = search.trim().toLowerCase();
+
+    return prepareForSearch(characters)
+        .filter(item => !query || item.searchText.includes(query))
+        .filter(item => !tag || getCharacterTags(item.char).includes(tag))
+        .map(item => item.char);
+}
+
+function renderCharacterList(): string {
+    if (!batchState) return '';
+    const visible = getVisibleCharacters();
+
+    if (visible.length === 0) {
+        return `<div class="${MODULE_NAME}_backups_empty">No characters match</div>`;
+    }
+
+    return visible.map(char => `
+    <label class="${MODULE_NAME}_checkbox_label ${MODULE_NAME}_batch_char">
+      <input type="checkbox" class="${MODULE_NAME}_batch_char_toggle" data-avatar="${escapeHtml(char.avatar)}" ${batchState?.selected.has(char.avatar) ? 'checked' : ''} ${batchState?.running ? 'disabled' : ''}>
+      <span class="${MODULE_NAME}_batch_char_name">${escapeHtml(char.name)}</span>
+      <span class="${MODULE_NAME}_batch_char_tags">${escapeHtml(getCharacterTags(char).join(', '))}</span>
+    </label>
+  `).join('');
+}
+
+function renderControls(): string {
+    if (!batchState) return '';
+    const { activeRun, running, selected, stages } = batchState;
+
+    const canStart = !running && selected.size > 0 && stages.length > 0;
+    const paused = !running && activeRun?.status === 'paused';
+    const hasFailed = !running && !!activeRun?.items.some(i => i.status === 'error' || i.status === 'cancelled');
+
+    return `
+    <div class="${MODULE_NAME}_batch_buttons">
+      <button id="${MODULE_NAME}_batch_start" class="menu_button" ${canStart ? '' : 'disabled'} title="Start a new run with the selected characters">
+        <i class="fa-solid fa-play"></i>
+        Start (${selected.size})
+      </button>
+      ${running ? `
+        <button id="${MODULE_NAME}_batch_pause" class="menu_button" title="Pause after cancelling the current character">
+          <i class="fa-solid fa-pause"></i>
+          Pause
+        </button>
+      ` : ''}
+      ${paused ? `
+        <button id="${MODULE_NAME}_batch_resume" class="menu_button" title="Continue this run">
+          <i class="fa-solid fa-play"></i>
+          Resume
+        </button>
+      ` : ''}
+      ${running || paused ? `
+        <button id="${MODULE_NAME}_batch_cancel" class="menu_button" title="Cancel the remaining characters">
+          <i class="fa-solid fa-stop"></i>
+          Cancel
+        </button>
+      ` : ''}
+      ${hasFailed ? `
+        <button id="${MODULE_NAME}_batch_retry" class="menu_button" title="Queue failed and cancelled characters again">
+          <i class="fa-solid fa-rotate-right"></i>
+          Retry Failed
+        </button>
+      ` : ''}
+    </div>
+    ${activeRun ? renderProgress(activeRun) : ''}
+  `;
+}
+
+function renderProgress(run: BatchRun): string {
+    const { done, errors, total } = getBatchProgress(run);
+    const percent = total > 0 ? Math.round((done / total) * 100) : 0;
+    const current = run.items.find(i => i.status === 'running');
+    const stage = batchState?.currentStage;
+
+    return `
+    <div class="${MODULE_NAME}_batch_progress">
+      <div class="${MODULE_NAME}_batch_progress_bar">
+        <div class="${MODULE_NAME}_batch_progress_fill" style="width: ${percent}%"></div>
+      </div>
+      <span>
+        ${done} / ${total} done${errors > 0 ? `, ${errors} failed` : ''}
+        ${current ? ` - ${escapeHtml(current.name)}${stage ? ` (${escapeHtml(getStageLabel(stage))})` : ''}` : ''}
+      </span>
+      ${renderUsage(run.usage ?? {}, 'Tokens spent on this run')}
+    </div>
+  `;
+}
+
+/**
+ * Token and cost total with a per-stage breakdown on hover. Empty when nothing was spent.
+ */
+function renderUsage(usage: UsageLedger, title: string): string {
+    const total = flattenLedger(usage);
+    if (total.length === 0) return '';
+
+    const prices = getSettings().modelPrices;
+    const totals = summarizeUsage(total, prices);
+    const breakdown = Object.entries(usage)
+        .filter(([, usages]) => usages.length > 0)
+        .map(([bucket, usages]) => `${getUsageLabel(bucket)}: ${formatUsageTotals(summarizeUsage(usages, prices))}`);
+
+    if (totals.unpricedModels.length > 0) {
+        breakdown.push(`No price set for: ${totals.unpricedModels.join(', ')}`);
+    }
+
+    return `
+    <span class="${MODULE_NAME}_batch_usage" title="${escapeHtml([title, ...breakdown].join('\n'))}">
+      <i class="fa-solid fa-coins"></i> ${escapeHtml(formatUsageTotals(totals))}
+    </span>
+  `;
+}
+
+function renderRuns(): string {
+    if (!batchState) return '';
+    const { runs, activeRun } = batchState;
+
+    if (runs.length === 0) {
+        return `<div class="${MODULE_NAME}_backups_empty">No batch runs yet</div>`;
+    }
+
+    const { moment } = SillyTavern.libs;
+
+    const options = runs.map(run => {
+        const { done, total } = getBatchProgress(run);
+        const label = `${moment(run.createdAt).format('YYYY-MM-DD HH:mm')} - ${run.status} (${done}/${total})`;
+        return `<option value="${escapeHtml(run.id)}" ${run.id === activeRun?.id ? 'selected' : ''}>${label}</option>`;
+    }).join('');
+
+    return `
+    <div class="${MODULE_NAME}_settings_row">
+      <select id="${MODULE_NAME}_batch_run_select" class="text_pole" ${batchState.running ? 'disabled' : ''}>
+        ${options}
+      </select>
+      <button id="${MODULE_NAME}_batch_delete_run" class="menu_button" title="Delete this run and its results" ${batchState.running ? 'disabled' : ''}>
+        <i class="fa-solid fa-trash"></i>
+      </button>
+    </div>
+    ${activeRun ? renderResultsTable(activeRun) : ''}
+  `;
+}
+
+function renderResultsTable(run: BatchRun): string {
+    return `
+    <div class="${MODULE_NAME}_settings_hint">
+      Stages: ${run.stages.map(s => escapeHtml(getStageLabel(s))).join(' → ')}
+    </div>
+    <table class="${MODULE_NAME}_batch_table">
+      <thead>
+        <tr>
+          <th>Character</th>
+          <th>Status</th>
+          <th>Verdict</th>
+          <th>Score</th>
+          <th></th>
+        </tr>
+      </thead>
+      <tbody>
+        ${run.items.map(renderResultRow).join('')}
+      </tbody>
+    </table>
+  `;
+}
+
+function renderResultRow(item: BatchItem): string {
+    const hasResults = item.status === 'complete' || (item.status === 'error' && item.finishedAt !== null);
+
+    return `
+    <tr class="${MODULE_NAME}_batch_row_${item.status}">
+      <td>${escapeHtml(item.name)}</td>
+      <td title="${escapeHtml(item.error || '')}">
+        ${item.status === 'running' ? '<i class="fa-solid fa-spinner fa-spin"></i> ' : ''}${item.status}
+      </td>
+      <td>
+        ${item.verdict ? `<span class="${MODULE_NAME}_verdict_badge ${MODULE_NAME}_verdict_${item.verdict}">${item.verdict.replace('_', ' ').toUpperCase()}</span>` : '-'}
+      </td>
+      <td>${item.score !== null ? `${item.score}/10` : '-'}</td>
+      <td>
+        ${hasResults ? `
+          <button class="${MODULE_NAME}_batch_view menu_button" data-avatar="${escapeHtml(item.avatar)}" title="View results">
+            <i class="fa-solid fa-eye"></i>
+          </button>
+        ` : ''}
+      </td>
+    </tr>
+  `;
+}
+
+// ============================================================================
+// REFRESH
+// ============================================================================
+
+function refreshCharacterList(): void {
+    const list = document.getElementById(`${MODULE_NAME}_batch_char_list`);
+    if (list) list.innerHTML = renderCharacterList();
+
+    refreshSelectedCount();
+}
+
+function refreshSelectedCount(): void {
+    const count = document.getElementById(`${MODULE_NAME}_batch_selected_count`);
+    if (count && batchState) count.textContent = `${batchState.selected.size} selected`;
+}
+
+function refreshControls(): void {
+    const controls = document.getElementById(`${MODULE_NAME}_batch_controls`);
+    if (controls) controls.innerHTML = renderControls();
+}
+
+function refreshRuns(): void {
+    const runs = document.getElementById(`${MODULE_NAME}_batch_runs`);
+    if (runs) runs.innerHTML = renderRuns();
+}
+
+function refreshAll(): void {
+    refreshCharacterList();
+    refreshControls();
+    refreshRuns();
+}
+
+// ============================================================================
+// EVENT LISTENERS
+// ============================================================================
+
+function initBatchListeners(): void {
+    const modal = document.getElementById(`${MODULE_NAME}_batch_modal`);
+    if (!modal) return;
+
+    refreshAll();
+
+    const { lodash } = SillyTavern.libs;
+
+    const searchInput = modal.querySelector(`#${MODULE_NAME}_batch_search`) as HTMLInputElement;
+    searchInput?.addEventListener('input', lodash.debounce(() => {
+        if (!batchState) return;
+        batchState.search = searchInput.value;
+        refreshCharacterList();
+    }, 150));
+
+    modal.addEventListener('change', (e) => {
+        const target = e.target as HTMLInputElement;
+        if (!batchState) return;
+
+        if (target.id === `${MODULE_NAME}_batch_tag`) {
+            batchState.tag = target.value;
+            refreshCharacterList();
+        } else if (target.classList.contains(`${MODULE_NAME}_batch_char_toggle`)) {
+            const avatar = target.dataset.avatar;
+            if (!avatar) return;
+            if (target.checked) {
+                batchState.selected.add(avatar);
+            } else {
+                batchState.selected.delete(avatar);
+            }
+            refreshSelectedCount();
+            refreshControls();
+        } else if (target.classList.contains(`${MODULE_NAME}_batch_stage`)) {
+            const checked = Array.from(modal.querySelectorAll(`.${MODULE_NAME}_batch_stage:checked`))
+                .map(el => (el as HTMLElement).dataset.stage as StageName);
+            batchState.stages = getStageOrder().filter(s => checked.includes(s));
+            refreshControls();
+        } else if (target.id === `${MODULE_NAME}_batch_run_select`) {
+            if (batchState.running) return;
+            batchState.activeRun = batchState.runs.find(r => r.id === target.value) ?? null;
+            refreshControls();
+            refreshRuns();
+        }
+    });
+
+    modal.addEventListener('click', async (e) => {
+        const target = e.target as HTMLElement;
+        if (!batchState) return;
+
+        if (target.closest(`#${MODULE_NAME}_batch_select_visible`)) {
+            getVisibleCharacters().forEach(c => batchState?.selected.add(c.avatar));
+            refreshCharacterList();
+            refreshControls();
+        } else if (target.closest(`#${MODULE_NAME}_batch_select_none`)) {
+            batchState.selected.clear();
+            refreshCharacterList();
+            refreshControls();
+        } else if (target.closest(`#${MODULE_NAME}_batch_start`)) {
+            await startNewRun();
+        } else if (target.closest(`#${MODULE_NAME}_batch_pause`)) {
+            batchState.abortController?.abort();
+        } else if (target.closest(`#${MODULE_NAME}_batch_resume`)) {
+            if (batchState.activeRun) await executeRun(batchState.activeRun);
+        } else if (target.closest(`#${MODULE_NAME}_batch_cancel`)) {
+            await handleCancel();
+        } else if (target.closest(`#${MODULE_NAME}_batch_retry`)) {
+            if (batchState.activeRun) await executeRun(retryFailedItems(batchState.activeRun));
+        } else if (target.closest(`#${MODULE_NAME}_batch_delete_run`)) {
+            await handleDeleteRun();
+        } else {
+            const viewBtn = target.closest(`.${MODULE_NAME}_batch_view`) as HTMLElement | null;
+            if (viewBtn?.dataset.avatar) {
+                await showItemResults(viewBtn.dataset.avatar);
+            }
+        }
+    });
+}
+
+// ============================================================================
+// QUEUE CONTROL
+// ============================================================================
+
+async function startNewRun(): Promise<void> {
+    if (!batchState || batchState.running) return;
+
+    const { selected, stages, configs } = batchState;
+    const characters = batchState.characters.filter(c => selected.has(c.avatar));
+
+    if (characters.length === 0 || stages.length === 0) {
+        toastr.warning('Select at least one character and one stage');
+        return;
+    }
+
+    const run = await createBatchRun(characters, stages, configs);
+    if (!batchState) return;
+
+    batchState.runs = await loadBatchRuns();
+    batchState.activeRun = run;
+    await executeRun(run);
+}
+
+/**
+ * Run (or resume) the queue until it finishes, is paused or is cancelled
+ */
+async function executeRun(run: BatchRun): Promise<void> {
+    if (!batchState || batchState.running) return;
+
+    if (!isApiReady()) {
+        toastr.error('API is not connected');
+        return;
+    }
+
+    batchState.running = true;
+    batchState.cancelRequested = false;
+    batchState.abortController = new AbortController();
+    refreshAll();
+
+    await runBatch(run, batchState.abortController.signal, {
+        onItemStart: () => {
+            refreshControls();
+            refreshRuns();
+        },
+        onStageStart: (_item, stage) => {
+            if (batchState) batchState.currentStage = stage;
+            refreshControls();
+        },
+        onItemDone: () => {
+            refreshControls();
+            refreshRuns();
+        },
+    });
+
+    if (!batchState) return;
+
+    if (batchState.cancelRequested) {
+        await cancelBatchRun(run);
+    }
+
+    batchState.running = false;
+    batchState.currentStage = null;
+    batchState.abortController = null;
+    batchState.runs = await loadBatchRuns();
+    batchState.activeRun = batchState.runs.find(r => r.id === run.id) ?? run;
+    refreshAll();
+
+    const { done, errors, total } = getBatchProgress(run);
+    if (run.status === 'complete') {
+        toastr.success(`${done - errors} of ${total} characters processed${errors > 0 ? `, ${errors} failed` : ''}`, 'Batch complete');
+    } else {
+        toastr.info(`${done} of ${total} characters processed`, run.status === 'cancelled' ? 'Batch cancelled' : 'Batch paused');
+    }
+}
+
+async function handleCancel(): Promise<void> {
+    if (!batchState?.activeRun) return;
+
+    if (batchState.running) {
+        batchState.cancelRequested = true;
+        batchState.abortController?.abort();
+        return;
+    }
+
+    await cancelBatchRun(batchState.activeRun);
+    refreshControls();
+    refreshRuns();
+}
+
+async function handleDeleteRun(): Promise<void> {
+    if (!batchState?.activeRun || batchState.running) return;
+
+    const { Popup, POPUP_TYPE, POPUP_RESULT } = SillyTavern.getContext();
+    const confirm = await new Popup(
+        'Delete this batch run and all of its results?',
+        POPUP_TYPE.CONFIRM,
+        '',
+        { okButton: 'Delete', cancelButton: 'Cancel' },
+    ).show();
+
+    if (confirm !== POPUP_RESULT.AFFIRMATIVE || !batchState?.activeRun) return;
+
+    await deleteBatchRun(batchState.activeRun.id);
+    batchState.runs = await loadBatchRuns();
+    batchState.activeRun = batchState.runs[0] ?? null;
+    refreshControls();
+    refreshRuns();
+    toastr.info('Batch run deleted');
+}
+
+// ============================================================================
+// RESULTS VIEW
+// ============================================================================
+
+async function showItemResults(avatar: string): Promise<void> {
+    if (!batchState?.activeRun) return;
+
+    const result = await loadBatchItemResult(batchState.activeRun.id, avatar);
+    if (!result) {
+        toastr.error('Results not found');
+        return;
+    }
+
+    const { Popup, POPUP_TYPE } = SillyTavern.getContext();
+    const { DOMPurify } = SillyTavern.libs;
+
+    const sections = Object.entries(result.results)
+        .filter((entry): entry is [StageName, StageResult] => entry[1] !== null)
+        .map(([stage, stageResult]) => renderStageResult(stage, stageResult))
+        .join('');
+
+    const content = `
+    <div class="${MODULE_NAME}_batch_modal">
+      <div class="${MODULE_NAME}_backups_header">
+        <i class="fa-solid fa-user"></i>
+        <span>${escapeHtml(result.name)}</span>
+      </div>
+      ${renderUsage(result.usage ?? {}, 'Tokens spent on this character')}
+      ${sections || `<div class="${MODULE_NAME}_backups_empty">No stage results</div>`}
+    </div>
+  `;
+
+    await new Popup(DOMPurify.sanitize(content), POPUP_TYPE.TEXT, '', {
+        wide: true,
+        large: true,
+        allowVerticalScrolling: true,
+        okButton: 'Close',
+        cancelButton: false,
+    }).show();
+}
+
+function renderStageResult(stage: StageName, result: StageResult): string {
+    const formatted = result.isStructured
+        ? formatStructuredResponse(result.response, null, MODULE_NAME)
+        : formatResponse(result.response, MODULE_NAME);
+
+    return `
+    <div class="${MODULE_NAME}_batch_result_stage">
+      <h4>${escapeHtml(getStageLabel(stage))}</h4>
+      <div class="${MODULE_NAME}_results_body">
+        ${formatted}
+      </div>
+    </div>
+  `;
+}
+
+// ============================================================================
+// UTILITIES
+// ============================================================================
+
+function escapeHtml(value: unknown): string {
+    const { DOMPurify } = SillyTavern.libs;
+    const str = typeof value === 'string' ? value : String(value ?? '');
+    return DOMPurify.sanitize(str, { ALLOWED_TAGS: [] });
+}
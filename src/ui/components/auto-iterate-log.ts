@@ -0,0 +1,95 @@
+// src/ui/components/auto-iterate-log.ts
+//
+// Live progress log for the auto-iterate loop
+
+import { MODULE_NAME } from '../../constants';
+import type { AutoIterateLogEntry } from '../../types';
+
+// ============================================================================
+// RENDER
+// ============================================================================
+
+/**
+ * Render the auto-iterate log panel. Empty when the loop has never run.
+ * @param entries - Log entries, oldest first
+ * @param isRunning - Whether the loop is currently running
+ * @param tokensUsed - Tokens spent so far in this run
+ * @param tokenBudget - Configured budget, or null for none
+ */
+export function renderAutoIterateLog(
+    entries: AutoIterateLogEntry[],
+    isRunning: boolean,
+    tokensUsed: number,
+    tokenBudget: number | null,
+): string {
+    if (entries.length === 0 && !isRunning) {
+        return '';
+    }
+
+    return `
+    <div class="${MODULE_NAME}_auto_log" id="${MODULE_NAME}_auto_log">
+      <div class="${MODULE_NAME}_iteration_header">
+        <i class="fa-solid ${isRunning ? 'fa-spinner fa-spin' : 'fa-robot'}"></i>
+        <span>Auto-Iterate</span>
+        <span class="${MODULE_NAME}_iteration_count">
+          ${tokensUsed.toLocaleString()}${tokenBudget !== null ? ` / ${tokenBudget.toLocaleString()}` : ''} tokens
+        </span>
+        ${isRunning ? `
+          <button id="${MODULE_NAME}_auto_stop_btn" class="menu_button ${MODULE_NAME}_auto_stop_btn" title="Stop after the current step">
+            <i class="fa-solid fa-stop"></i>
+            Stop
+          </button>
+        ` : `
+          <button id="${MODULE_NAME}_auto_clear_btn" class="menu_button ${MODULE_NAME}_auto_stop_btn" title="Clear log">
+            <i class="fa-solid fa-xmark"></i>
+          </button>
+        `}
+      </div>
+      <div class="${MODULE_NAME}_auto_log_list" id="${MODULE_NAME}_auto_log_list">
+        ${entries.map(renderLogEntry).join('')}
+      </div>
+    </div>
+  `;
+}
+
+function renderLogEntry(entry: AutoIterateLogEntry): string {
+    const time = new Date(entry.timestamp).toLocaleTimeString();
+
+    return `
+    <div class="${MODULE_NAME}_auto_log_entry ${MODULE_NAME}_auto_log_${entry.level}">
+      <span class="${MODULE_NAME}_auto_log_time">${time}</span>
+      <span>${escapeHtml(entry.message)}</span>
+    </div>
+  `;
+}
+
+// ============================================================================
+// UPDATE
+// ============================================================================
+
+/**
+ * Re-render the log and keep it scrolled to the newest entry
+ */
+export function updateAutoIterateLogState(
+    container: HTMLElement,
+    entries: AutoIterateLogEntry[],
+    isRunning: boolean,
+    tokensUsed: number,
+    tokenBudget: number | null,
+): void {
+    container.innerHTML = renderAutoIterateLog(entries, isRunning, tokensUsed, tokenBudget);
+
+    const list = container.querySelector(`#${MODULE_NAME}_auto_log_list`);
+    if (list) {
+        list.scrollTop = list.scrollHeight;
+    }
+}
+
+// ============================================================================
+// UTILITIES
+// ============================================================================
+
+function escapeHtml(text: string): string {
+    const { DOMPurify } = SillyTavern.libs;
+    return DOMPurify.sanitize(text, { ALLOWED_TAGS: [] });
+}
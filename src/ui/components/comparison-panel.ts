@@ -0,0 +1,140 @@
+// src/ui/components/comparison-panel.ts
+//
+// Side-by-side responses from a multi-model stage comparison
+
+import { MODULE_NAME } from '../../constants';
+import { formatResponse, formatStructuredResponse } from '../formatter';
+import { extractVerdict } from '../../pipeline';
+import { getStageLabel } from '../../stages';
+import { describeRepairs } from '../../json-repair';
+import { findConnectionProfile } from '../../profiles';
+import type { StageName, StageComparison, ComparisonEntry, IterationVerdict, VerdictRules } from '../../types';
+
+// ============================================================================
+// RENDER
+// ============================================================================
+
+/**
+ * Render the loading state while every comparison model is running
+ */
+export function renderComparisonLoading(stage: StageName, modelCount: number): string {
+    return `
+    <div class="${MODULE_NAME}_results_loading">
+      <i class="fa-solid fa-spinner fa-spin fa-2x"></i>
+      <p>Running ${escapeHtml(getStageLabel(stage))} on ${modelCount} model${modelCount === 1 ? '' : 's'}...</p>
+      <button id="${MODULE_NAME}_cancel_btn" class="menu_button">
+        <i class="fa-solid fa-stop"></i>
+        <span>Cancel</span>
+      </button>
+    </div>
+  `;
+}
+
+/**
+ * Render the comparison columns. Any successful entry can be promoted to the stage result.
+ */
+export function renderComparisonPanel(comparison: StageComparison, verdictRules?: VerdictRules): string {
+    const time = new Date(comparison.timestamp).toLocaleTimeString();
+
+    return `
+    <div class="${MODULE_NAME}_results_content ${MODULE_NAME}_comparison" data-timestamp="${comparison.timestamp}">
+      <div class="${MODULE_NAME}_results_toolbar">
+        <div class="${MODULE_NAME}_results_info">
+          <span class="${MODULE_NAME}_badge">${escapeHtml(getStageLabel(comparison.stage))}</span>
+          <span class="${MODULE_NAME}_badge">
+            <i class="fa-solid fa-table-columns"></i>
+            Comparing ${comparison.entries.length} models
+          </span>
+          <span class="${MODULE_NAME}_results_time">${time}</span>
+        </div>
+        <div class="${MODULE_NAME}_results_actions">
+          <button id="${MODULE_NAME}_comparison_close_btn" class="${MODULE_NAME}_icon_btn" title="Close comparison">
+            <i class="fa-solid fa-xmark"></i>
+          </button>
+        </div>
+      </div>
+
+      <div class="${MODULE_NAME}_comparison_columns">
+        ${comparison.entries.map((entry, index) => renderEntry(comparison.stage, entry, index, verdictRules)).join('')}
+      </div>
+    </div>
+  `;
+}
+
+function renderEntry(stage: StageName, entry: ComparisonEntry, index: number, verdictRules?: VerdictRules): string {
+    const { temperature, profileId } = entry.config;
+    let { source, model } = entry.config;
+
+    if (profileId) {
+        const profile = findConnectionProfile(profileId);
+        source = profile ? profile.api : 'missing profile';
+        model = profile ? profile.name : profileId;
+    }
+
+    let body: string;
+    if (entry.response === null) {
+        body = `
+        <div class="${MODULE_NAME}_comparison_error">
+          <i class="fa-solid fa-circle-exclamation"></i>
+          ${escapeHtml(entry.error || 'Generation failed')}
+        </div>
+      `;
+    } else {
+        body = entry.isStructured
+            ? formatStructuredResponse(entry.response, null, MODULE_NAME)
+            : formatResponse(entry.response, MODULE_NAME);
+    }
+
+    const notes: string[] = [];
+    if (stage === 'analyze' && entry.response !== null) {
+        notes.push(`Verdict: ${escapeHtml(formatVerdict(extractVerdict(entry.response, entry.isStructured, verdictRules)))}`);
+    }
+    if (entry.repairs?.length) {
+        notes.push(`<span title="${escapeHtml(describeRepairs(entry.repairs).join(', '))}">Repaired JSON</span>`);
+    }
+    if (entry.violations?.length) {
+        const count = entry.violations.length;
+        notes.push(`<span class="${MODULE_NAME}_comparison_warning">${count} schema issue${count === 1 ? '' : 's'}</span>`);
+    }
+
+    return `
+    <div class="${MODULE_NAME}_comparison_column ${entry.response === null ? MODULE_NAME + '_comparison_failed' : ''}">
+      <div class="${MODULE_NAME}_comparison_header">
+        <span class="${MODULE_NAME}_comparison_model" title="${escapeHtml(`${source} / ${model}`)}">${escapeHtml(model || source)}</span>
+        <span class="${MODULE_NAME}_comparison_source">${escapeHtml(source)} · temp ${temperature}</span>
+      </div>
+      <div class="${MODULE_NAME}_comparison_stats">
+        <span title="Latency"><i class="fa-solid fa-stopwatch"></i> ${(entry.latencyMs / 1000).toFixed(1)}s</span>
+        <span title="Prompt tokens"><i class="fa-solid fa-arrow-up"></i> ${entry.promptTokens.toLocaleString()}</span>
+        <span title="Response tokens"><i class="fa-solid fa-arrow-down"></i> ${entry.responseTokens.toLocaleString()}</span>
+      </div>
+      ${notes.length > 0 ? `<div class="${MODULE_NAME}_comparison_notes">${notes.join(' · ')}</div>` : ''}
+      <div class="${MODULE_NAME}_results_body ${MODULE_NAME}_comparison_body">
+        ${body}
+      </div>
+      <button class="menu_button ${MODULE_NAME}_comparison_use_btn" data-index="${index}" ${entry.response === null ? 'disabled' : ''}>
+        <i class="fa-solid fa-check"></i>
+        <span>Use This</span>
+      </button>
+    </div>
+  `;
+}
+
+// ============================================================================
+// UTILITIES
+// ============================================================================
+
+function formatVerdict(verdict: IterationVerdict): string {
+    const labels: Record<IterationVerdict, string> = {
+        accept: 'Accept',
+        needs_refinement: 'Needs Work',
+        regression: 'Regression',
+        unknown: 'Unknown',
+    };
+    return labels[verdict];
+}
+
+function escapeHtml(text: string): string {
+    const { DOMPurify } = SillyTavern.libs;
+    return DOMPurify.sanitize(text, { ALLOWED_TAGS: [] });
+}
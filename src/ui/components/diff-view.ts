@@ -0,0 +1,129 @@
+// src/ui/components/diff-view.ts
+//
+// Per-field side-by-side diff with word-level highlighting and keep/reject toggles
+
+import { MODULE_NAME } from '../../constants';
+import type { DiffSegment, FieldDiff } from '../../types';
+
+export interface DiffViewOptions {
+    title: string;
+    beforeLabel: string;
+    afterLabel: string;
+    rejected: string[];
+    showToggles: boolean;
+}
+
+// ============================================================================
+// RENDER
+// ============================================================================
+
+/**
+ * Render the diff view for a list of field diffs
+ */
+export function renderDiffView(diffs: FieldDiff[], options: DiffViewOptions): string {
+    const changedCount = diffs.filter(d => d.changed).length;
+
+    const body = diffs.length === 0
+        ? `<div class="${MODULE_NAME}_diff_empty">No matching fields to compare</div>`
+        : diffs.map(diff => renderFieldDiff(diff, options)).join('');
+
+    return `
+    <div class="${MODULE_NAME}_diff_view" id="${MODULE_NAME}_diff_view">
+      <div class="${MODULE_NAME}_diff_header">
+        <h3>${escapeHtml(options.title)}</h3>
+        <span class="${MODULE_NAME}_diff_summary">${changedCount} of ${diffs.length} fields changed</span>
+      </div>
+      ${body}
+    </div>
+  `;
+}
+
+function renderFieldDiff(diff: FieldDiff, options: DiffViewOptions): string {
+    const isRejected = options.rejected.includes(diff.key);
+    const stats = countWords(diff.segments);
+
+    return `
+    <div class="${MODULE_NAME}_diff_field ${isRejected ? 'rejected' : ''} ${diff.changed ? '' : 'unchanged'}" data-key="${escapeHtml(diff.key)}">
+      <div class="${MODULE_NAME}_diff_field_header">
+        <span class="${MODULE_NAME}_diff_field_label">${escapeHtml(diff.label)}</span>
+        <span class="${MODULE_NAME}_diff_field_stats">
+          ${diff.changed ? `<span class="${MODULE_NAME}_diff_stat_added">+${stats.added}</span> <span class="${MODULE_NAME}_diff_stat_removed">-${stats.removed}</span> words` : 'Unchanged'}
+        </span>
+        ${options.showToggles && diff.changed ? `
+          <label class="${MODULE_NAME}_checkbox_label ${MODULE_NAME}_diff_toggle_label">
+            <input type="checkbox" class="${MODULE_NAME}_diff_toggle" data-key="${escapeHtml(diff.key)}" ${isRejected ? '' : 'checked'}>
+            <span>Keep rewrite</span>
+          </label>
+        ` : ''}
+      </div>
+      <div class="${MODULE_NAME}_diff_columns">
+        <div class="${MODULE_NAME}_diff_column">
+          <div class="${MODULE_NAME}_diff_column_label">${escapeHtml(options.beforeLabel)}</div>
+          <div class="${MODULE_NAME}_diff_text">${renderSide(diff.segments, 'removed')}</div>
+        </div>
+        <div class="${MODULE_NAME}_diff_column">
+          <div class="${MODULE_NAME}_diff_column_label">${escapeHtml(options.afterLabel)}</div>
+          <div class="${MODULE_NAME}_diff_text">${renderSide(diff.segments, 'added')}</div>
+        </div>
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Render one side of the diff - equal text plus this side's changes
+ */
+function renderSide(segments: DiffSegment[], side: 'added' | 'removed'): string {
+    const tag = side === 'added' ? 'ins' : 'del';
+
+    const html = segments
+        .filter(seg => seg.op === 'equal' || seg.op === side)
+        .map(seg => seg.op === 'equal'
+            ? escapeHtml(seg.text)
+            : `<${tag} class="${MODULE_NAME}_diff_${side}">${escapeHtml(seg.text)}</${tag}>`)
+        .join('');
+
+    return html || `<span class="${MODULE_NAME}_diff_none">(empty)</span>`;
+}
+
+function countWords(segments: DiffSegment[]): { added: number; removed: number } {
+    const count = (op: DiffSegment['op']) => segments
+        .filter(s => s.op === op)
+        .reduce((sum, s) => sum + (s.text.match(/\S+/g)?.length ?? 0), 0);
+
+    return { added: count('added'), removed: count('removed') };
+}
+
+// ============================================================================
+// LISTENERS
+// ============================================================================
+
+/**
+ * Wire keep/reject toggles. Calls onToggle(diffKey, rejected) on change.
+ */
+export function initDiffViewListeners(
+    container: HTMLElement,
+    onToggle: (diffKey: string, rejected: boolean) => void,
+): void {
+    container.addEventListener('change', (e) => {
+        const toggle = (e.target as HTMLElement).closest(`.${MODULE_NAME}_diff_toggle`) as HTMLInputElement | null;
+        if (!toggle) return;
+
+        const key = toggle.dataset.key;
+        if (!key) return;
+
+        const rejected = !toggle.checked;
+        toggle.closest(`.${MODULE_NAME}_diff_field`)?.classList.toggle('rejected', rejected);
+        onToggle(key, rejected);
+    });
+}
+
+// ============================================================================
+// UTILITIES
+// ============================================================================
+
+function escapeHtml(value: unknown): string {
+    const { DOMPurify } = SillyTavern.libs;
+    const str = typeof value === 'string' ? value : String(value ?? '');
+    return DOMPurify.sanitize(str, { ALLOWED_TAGS: [] });
+}
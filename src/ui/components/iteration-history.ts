@@ -3,6 +3,8 @@
 // Iteration history display component
 
 import { MODULE_NAME } from '../../constants';
+import { getSettings } from '../../settings';
+import { summarizeUsage, formatUsageTotals } from '../../usage';
 import type { IterationSnapshot, IterationVerdict } from '../../types';
 
 // ============================================================================
@@ -61,7 +63,8 @@ function renderIterationItem(snap: IterationSnapshot, index: number): string {
           <i class="fa-solid ${verdictIcon}"></i>
           ${formatVerdict(snap.verdict)}
         </span>
-        <span class="${MODULE_NAME}_iteration_time">${time}</span>
+        ${typeof snap.score === 'number' ? `<span class="${MODULE_NAME}_iteration_score" title="Soul preservation score">${snap.score}/10</span>` : ''}
+        <span class="${MODULE_NAME}_iteration_time" ${renderUsageTitle(snap)}>${time}</span>
       </div>
       <div class="${MODULE_NAME}_iteration_preview">
         ${escapeHtml(snap.rewritePreview)}...
@@ -83,16 +86,35 @@ function renderIterationItem(snap: IterationSnapshot, index: number): string {
           <i class="fa-solid fa-eye"></i>
           View
         </button>
+        <button
+          class="${MODULE_NAME}_iteration_compare_btn menu_button"
+          data-index="${index}"
+          title="Compare with current rewrite"
+        >
+          <i class="fa-solid fa-code-compare"></i>
+          Compare
+        </button>
       </div>
     </div>
   `;
 }
 
+/**
+ * Tokens spent on this iteration's rewrite and analysis, as a tooltip
+ */
+function renderUsageTitle(snap: IterationSnapshot): string {
+    if (!snap.rewriteUsage && !snap.analysisUsage) return '';
+
+    const totals = summarizeUsage([snap.rewriteUsage, snap.analysisUsage], getSettings().modelPrices);
+    return `title="${escapeHtml(`Rewrite + analysis: ${formatUsageTotals(totals)}`)}"`;
+}
+
 function getVerdictIcon(verdict: IterationVerdict): string {
     switch (verdict) {
         case 'accept': return 'fa-check-circle';
         case 'needs_refinement': return 'fa-wrench';
         case 'regression': return 'fa-arrow-down';
+        case 'unknown': return 'fa-circle-question';
         default: return 'fa-question-circle';
     }
 }
@@ -106,6 +128,7 @@ function formatVerdict(verdict: IterationVerdict): string {
         case 'accept': return 'Accepted';
         case 'needs_refinement': return 'Needs Work';
         case 'regression': return 'Regression';
+        case 'unknown': return 'Unknown';
         default: return 'Unknown';
     }
 }
@@ -2,7 +2,8 @@
 //
 // Pipeline stage selection and navigation component
 
-import { MODULE_NAME, STAGES, STAGE_LABELS, STAGE_ICONS } from '../../constants';
+import { MODULE_NAME } from '../../constants';
+import { getStageOrder, getStageLabel, getStageIcon, getStageDescription } from '../../stages';
 import type { StageName, StageStatus } from '../../types';
 
 // ============================================================================
@@ -18,16 +19,18 @@ export function renderPipelineNav(
     activeStage: StageName,
     hasCharacter: boolean,
 ): string {
+    const stages = getStageOrder();
+
     return `
     <div class="${MODULE_NAME}_pipeline_nav">
       <!-- Stage Selection -->
       <div class="${MODULE_NAME}_stage_row">
-        ${STAGES.map((stage, i) => renderStageNode(
+        ${stages.map((stage, i) => renderStageNode(
         stage,
         selectedStages.includes(stage),
-        stageStatus[stage],
+        stageStatus[stage] ?? 'pending',
         stage === activeStage,
-        i < STAGES.length - 1,
+        i < stages.length - 1,
     )).join('')}
       </div>
 
@@ -85,10 +88,10 @@ function renderStageNode(
       <button
         class="${MODULE_NAME}_stage_btn ${isActive ? 'active' : ''}"
         data-stage="${stage}"
-        title="${STAGE_LABELS[stage]}"
+        title="${escapeHtml(getStageDescription(stage) || getStageLabel(stage))}"
       >
-        <i class="fa-solid ${STAGE_ICONS[stage]}"></i>
-        <span>${STAGE_LABELS[stage]}</span>
+        <i class="fa-solid ${escapeHtml(getStageIcon(stage))}"></i>
+        <span>${escapeHtml(getStageLabel(stage))}</span>
         ${statusIcon ? `<i class="fa-solid ${statusIcon} ${MODULE_NAME}_status_icon"></i>` : ''}
       </button>
       ${hasConnector ? `<div class="${MODULE_NAME}_stage_connector ${isSelected ? 'active' : ''}"></div>` : ''}
@@ -121,7 +124,7 @@ export function updatePipelineNavState(
     isGenerating: boolean,
 ): void {
     // Update checkboxes and buttons
-    for (const stage of STAGES) {
+    for (const stage of getStageOrder()) {
         const checkbox = container.querySelector(`#${MODULE_NAME}_stage_cb_${stage}`) as HTMLInputElement;
         const btn = container.querySelector(`.${MODULE_NAME}_stage_btn[data-stage="${stage}"]`);
         const node = container.querySelector(`.${MODULE_NAME}_stage_node:has([data-stage="${stage}"])`);
@@ -157,3 +160,12 @@ export function updatePipelineNavState(
     if (runAllBtn) runAllBtn.disabled = !hasCharacter || isGenerating;
     if (resetBtn) resetBtn.disabled = isGenerating;
 }
+
+// ============================================================================
+// UTILITIES
+// ============================================================================
+
+function escapeHtml(text: string): string {
+    const { DOMPurify } = SillyTavern.libs;
+    return DOMPurify.sanitize(text, { ALLOWED_TAGS: [] });
+}
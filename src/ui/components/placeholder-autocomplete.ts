@@ -0,0 +1,191 @@
+// src/ui/components/placeholder-autocomplete.ts
+//
+// Placeholder autocomplete for the prompt textarea: typing {{ opens a menu of placeholders
+// with what they hold right now, filtered as you type
+
+import { MODULE_NAME } from '../../constants';
+import type { PlaceholderSuggestion } from '../../prompt-lint';
+
+// {{ and the placeholder typed so far on this line, right before the caret
+const OPEN_TAG_PATTERN = /\{\{[ \t]*([^{}|#/!\s][^{}|\n]*|)$/;
+
+interface MenuState {
+    suggestions: PlaceholderSuggestion[];
+    active: number;
+    start: number;  // Where the typed placeholder starts, just after {{
+}
+
+// ============================================================================
+// RENDER
+// ============================================================================
+
+/**
+ * Menu that sits under the prompt textarea. Starts hidden.
+ */
+export function renderPlaceholderMenu(): string {
+    return `<div class="${MODULE_NAME}_placeholder_menu hidden" role="listbox"></div>`;
+}
+
+function renderOptions(suggestions: PlaceholderSuggestion[], active: number): string {
+    if (suggestions.length === 0) {
+        return `<div class="${MODULE_NAME}_placeholder_empty">No matching placeholders</div>`;
+    }
+
+    return suggestions.map((s, i) => `
+      <div class="${MODULE_NAME}_placeholder_option ${i === active ? 'selected' : ''}" data-index="${i}" role="option">
+        <div class="${MODULE_NAME}_placeholder_option_header">
+          <code>{{${escapeHtml(s.text)}}}</code>
+          <span class="${MODULE_NAME}_placeholder_desc">${escapeHtml(s.description)}</span>
+        </div>
+        <div class="${MODULE_NAME}_placeholder_preview ${s.preview === null ? 'unavailable' : ''}">
+          ${s.preview === null ? 'No value yet' : s.preview ? escapeHtml(s.preview) : '(empty)'}
+        </div>
+      </div>
+    `).join('');
+}
+
+// ============================================================================
+// LISTENERS
+// ============================================================================
+
+/**
+ * Wire autocomplete to the prompt textarea inside a container. getSuggestions is asked
+ * for placeholders matching the text typed after {{. Inserting fires an input event so
+ * the prompt is saved like a typed change.
+ */
+export function initPlaceholderAutocomplete(
+    container: HTMLElement,
+    getSuggestions: (query: string) => PlaceholderSuggestion[],
+): void {
+    let menu: MenuState | null = null;
+
+    const getTextarea = () => container.querySelector(`#${MODULE_NAME}_custom_prompt`) as HTMLTextAreaElement | null;
+    const getMenu = () => container.querySelector(`.${MODULE_NAME}_placeholder_menu`) as HTMLElement | null;
+
+    const close = () => {
+        menu = null;
+        getMenu()?.classList.add('hidden');
+    };
+
+    const render = () => {
+        const element = getMenu();
+        if (!element || !menu) return;
+
+        element.innerHTML = renderOptions(menu.suggestions, menu.active);
+        element.classList.remove('hidden');
+        element.querySelector(`.${MODULE_NAME}_placeholder_option.selected`)?.scrollIntoView({ block: 'nearest' });
+    };
+
+    const update = (textarea: HTMLTextAreaElement) => {
+        const caret = textarea.selectionStart;
+        if (textarea.disabled || caret !== textarea.selectionEnd) {
+            close();
+            return;
+        }
+
+        const match = textarea.value.slice(0, caret).match(OPEN_TAG_PATTERN);
+        if (!match) {
+            close();
+            return;
+        }
+
+        menu = { suggestions: getSuggestions(match[1]), active: 0, start: caret - match[1].length };
+        render();
+    };
+
+    const insert = (textarea: HTMLTextAreaElement, suggestion: PlaceholderSuggestion) => {
+        if (!menu) return;
+
+        const caret = textarea.selectionStart;
+        const after = textarea.value.slice(caret);
+        const closing = after.trimStart().startsWith('}}') ? '' : '}}';
+
+        textarea.value = textarea.value.slice(0, menu.start) + suggestion.text + closing + after;
+
+        const position = menu.start + suggestion.text.length + (closing ? closing.length : after.indexOf('}}') + 2);
+        textarea.setSelectionRange(position, position);
+        close();
+
+        textarea.dispatchEvent(new Event('input', { bubbles: true }));
+    };
+
+    container.addEventListener('input', (e) => {
+        const textarea = e.target as HTMLTextAreaElement;
+        if (textarea.id === `${MODULE_NAME}_custom_prompt`) {
+            update(textarea);
+        }
+    });
+
+    container.addEventListener('keydown', (e) => {
+        const textarea = e.target as HTMLTextAreaElement;
+        if (textarea.id !== `${MODULE_NAME}_custom_prompt` || !menu) return;
+
+        const count = menu.suggestions.length;
+
+        switch (e.key) {
+            case 'ArrowDown':
+            case 'ArrowUp':
+                if (count === 0) return;
+                menu.active = (menu.active + (e.key === 'ArrowDown' ? 1 : count - 1)) % count;
+                render();
+                break;
+
+            case 'Enter':
+            case 'Tab':
+                if (count === 0) return;
+                insert(textarea, menu.suggestions[menu.active]);
+                break;
+
+            case 'Escape':
+                // Don't let the popup or the cancel shortcut see it
+                close();
+                break;
+
+            default:
+                return;
+        }
+
+        e.preventDefault();
+        e.stopPropagation();
+    });
+
+    // Moving the caret with the mouse or arrow keys can leave the tag
+    const onCaretMove = (e: Event) => {
+        const textarea = e.target as HTMLTextAreaElement;
+        if (textarea.id === `${MODULE_NAME}_custom_prompt` && menu) {
+            update(textarea);
+        }
+    };
+    container.addEventListener('click', onCaretMove);
+    container.addEventListener('keyup', (e) => {
+        if (['ArrowLeft', 'ArrowRight', 'Home', 'End'].includes(e.key)) onCaretMove(e);
+    });
+
+    container.addEventListener('focusout', (e) => {
+        if ((e.target as HTMLElement).id === `${MODULE_NAME}_custom_prompt`) {
+            close();
+        }
+    });
+
+    // mousedown rather than click, so the textarea keeps focus
+    container.addEventListener('mousedown', (e) => {
+        const option = (e.target as HTMLElement).closest(`.${MODULE_NAME}_placeholder_option`) as HTMLElement | null;
+        const textarea = getTextarea();
+        if (!option || !textarea || !menu) return;
+
+        e.preventDefault();
+        const suggestion = menu.suggestions[Number(option.dataset.index)];
+        if (suggestion) {
+            insert(textarea, suggestion);
+        }
+    });
+}
+
+// ============================================================================
+// UTILITIES
+// ============================================================================
+
+function escapeHtml(text: string): string {
+    const { DOMPurify } = SillyTavern.libs;
+    return DOMPurify.sanitize(text, { ALLOWED_TAGS: [] });
+}
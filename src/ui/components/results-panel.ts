@@ -2,10 +2,14 @@
 //
 // Results display and actions component
 
-import { MODULE_NAME, STAGE_LABELS } from '../../constants';
+import { MODULE_NAME } from '../../constants';
 import { formatResponse, formatStructuredResponse } from '../formatter';
-import { canExport, canRefine, extractVerdict } from '../../pipeline';
-import type { StageName, StageStatus, StageResult, PipelineState, IterationVerdict } from '../../types';
+import { canExport, canRefine, extractVerdict, getVerdictRules } from '../../pipeline';
+import { getStageLabel } from '../../stages';
+import { repairJson, describeRepairs } from '../../json-repair';
+import { getSettings } from '../../settings';
+import { summarizeUsage, formatUsageTotals } from '../../usage';
+import type { StageName, StageStatus, StageResult, PipelineState, IterationVerdict, VerdictRules, GenerationAttempt } from '../../types';
 
 // ============================================================================
 // RENDER
@@ -19,6 +23,7 @@ export function renderResultsPanel(
     result: StageResult | null,
     status: StageStatus,
     isGenerating: boolean,
+    verdictRules?: VerdictRules,
 ): string {
     if (isGenerating && status === 'running') {
         return renderLoading(stage);
@@ -28,22 +33,54 @@ export function renderResultsPanel(
         return renderPlaceholder(stage, status);
     }
 
-    return renderResult(stage, result);
+    return renderResult(stage, result, verdictRules);
 }
 
 function renderLoading(stage: StageName): string {
     return `
-    <div class="${MODULE_NAME}_results_loading">
+    <div class="${MODULE_NAME}_results_loading" data-stage="${escapeHtml(stage)}">
       <i class="fa-solid fa-spinner fa-spin fa-2x"></i>
-      <p>Running ${STAGE_LABELS[stage]}...</p>
+      <p>Running ${escapeHtml(getStageLabel(stage))}...</p>
       <button id="${MODULE_NAME}_cancel_btn" class="menu_button">
         <i class="fa-solid fa-stop"></i>
         <span>Cancel</span>
       </button>
+      ${renderStreamContainer()}
     </div>
   `;
 }
 
+function renderStreamContainer(): string {
+    return `<div id="${MODULE_NAME}_stream_preview" class="${MODULE_NAME}_results_body ${MODULE_NAME}_stream_preview hidden"></div>`;
+}
+
+/**
+ * Show the text streamed so far under the loading spinner.
+ * Structured output is rendered as soon as the partial JSON can be closed off.
+ */
+export function updateStreamPreview(container: Element, text: string, isStructured: boolean): void {
+    const preview = container.querySelector(`#${MODULE_NAME}_stream_preview`);
+    if (!preview) return;
+
+    let html: string | null = null;
+    if (isStructured) {
+        const partial = repairJson(text);
+        if (partial) {
+            html = formatStructuredResponse(JSON.stringify(partial.value), null, MODULE_NAME);
+        }
+    }
+
+    // Follow the end of the text unless the user scrolled up to read
+    const atBottom = preview.scrollHeight - preview.scrollTop - preview.clientHeight < 80;
+
+    preview.innerHTML = html ?? formatResponse(text, MODULE_NAME);
+    preview.classList.toggle('hidden', !text);
+
+    if (atBottom) {
+        preview.scrollTop = preview.scrollHeight;
+    }
+}
+
 /**
  * Render loading state for refinement
  */
@@ -56,16 +93,17 @@ export function renderRefinementLoading(iteration: number): string {
         <i class="fa-solid fa-stop"></i>
         <span>Cancel</span>
       </button>
+      ${renderStreamContainer()}
     </div>
   `;
 }
 
 function renderPlaceholder(stage: StageName, status: StageStatus): string {
-    let message = `Run ${STAGE_LABELS[stage]} to see results`;
+    let message = `Run ${escapeHtml(getStageLabel(stage))} to see results`;
     let icon = 'fa-play';
 
     if (status === 'skipped') {
-        message = `${STAGE_LABELS[stage]} was skipped`;
+        message = `${escapeHtml(getStageLabel(stage))} was skipped`;
         icon = 'fa-forward';
     }
 
@@ -77,7 +115,7 @@ function renderPlaceholder(stage: StageName, status: StageStatus): string {
   `;
 }
 
-function renderResult(stage: StageName, result: StageResult): string {
+function renderResult(stage: StageName, result: StageResult, verdictRules?: VerdictRules): string {
     const formattedContent = result.isStructured
         ? formatStructuredResponse(result.response, null, MODULE_NAME)
         : formatResponse(result.response, MODULE_NAME);
@@ -87,7 +125,7 @@ function renderResult(stage: StageName, result: StageResult): string {
     // Extract verdict if this is an analyze result
     let verdictBadge = '';
     if (stage === 'analyze') {
-        const verdict = extractVerdict(result.response);
+        const verdict = extractVerdict(result.response, result.isStructured, verdictRules);
         verdictBadge = renderVerdictBadge(verdict);
     }
 
@@ -96,9 +134,11 @@ function renderResult(stage: StageName, result: StageResult): string {
       <!-- Toolbar -->
       <div class="${MODULE_NAME}_results_toolbar">
         <div class="${MODULE_NAME}_results_info">
-          <span class="${MODULE_NAME}_badge">${STAGE_LABELS[stage]}</span>
+          <span class="${MODULE_NAME}_badge">${escapeHtml(getStageLabel(stage))}</span>
           ${verdictBadge}
           <span class="${MODULE_NAME}_results_time">${timestamp}</span>
+          ${renderUsage(result)}
+          ${renderCacheBadge(result)}
           ${result.locked ? `<span class="${MODULE_NAME}_badge ${MODULE_NAME}_badge_locked"><i class="fa-solid fa-lock"></i> Locked</span>` : ''}
         </div>
         <div class="${MODULE_NAME}_results_actions">
@@ -109,12 +149,21 @@ function renderResult(stage: StageName, result: StageResult): string {
           <button id="${MODULE_NAME}_unlock_btn" class="${MODULE_NAME}_icon_btn ${result.locked ? '' : 'hidden'}" title="Unlock for editing">
             <i class="fa-solid fa-lock"></i>  <!-- CHANGED: Show closed lock when locked -->
           </button>
+          ${stage === 'rewrite' ? `
+            <button id="${MODULE_NAME}_diff_btn" class="${MODULE_NAME}_icon_btn" title="Compare with original">
+              <i class="fa-solid fa-code-compare"></i>
+            </button>
+          ` : ''}
           <button id="${MODULE_NAME}_copy_btn" class="${MODULE_NAME}_icon_btn" title="Copy to clipboard">
             <i class="fa-solid fa-copy"></i>
           </button>
         </div>
       </div>
 
+      ${renderAttempts(result)}
+      ${renderRepairs(result)}
+      ${renderViolations(result)}
+
       <!-- Content -->
       <div class="${MODULE_NAME}_results_body">
         ${formattedContent}
@@ -128,17 +177,120 @@ function renderResult(stage: StageName, result: StageResult): string {
   `;
 }
 
+/**
+ * Tokens and cost of the generation (and any re-asks) behind this result
+ */
+function renderUsage(result: StageResult): string {
+    if (!result.usage) return '';
+
+    const { usage } = result;
+    const text = formatUsageTotals(summarizeUsage([usage], getSettings().modelPrices));
+    const source = usage.estimated ? 'estimated with the local tokenizer' : 'reported by the provider';
+
+    return `
+      <span class="${MODULE_NAME}_results_usage" title="${escapeHtml(`${usage.model || usage.source} - ${source}`)}">
+        <i class="fa-solid fa-coins"></i> ${escapeHtml(text)}
+      </span>
+    `;
+}
+
+function renderCacheBadge(result: StageResult): string {
+    if (!result.cachedAt) return '';
+
+    const { moment } = SillyTavern.libs;
+
+    return `
+      <span class="${MODULE_NAME}_badge ${MODULE_NAME}_badge_cached" title="Reused a response generated ${moment(result.cachedAt).fromNow()} - no tokens spent">
+        <i class="fa-solid fa-database"></i> Cached
+      </span>
+    `;
+}
+
+/**
+ * Summarise the retries and fallbacks it took to get this result
+ */
+function renderAttempts(result: StageResult): string {
+    if (!result.attempts?.length) return '';
+
+    const final = result.attempts[result.attempts.length - 1];
+    const usedFallback = result.attempts.some(a => a.target !== result.attempts![0].target);
+    const outcomes: Record<GenerationAttempt['outcome'], string> = {
+        success: 'OK',
+        error: 'Failed',
+        empty: 'Empty response',
+        violation: 'Schema mismatch',
+        partial: 'Cut off',
+        cancelled: 'Cancelled',
+    };
+
+    return `
+      <details class="${MODULE_NAME}_attempts">
+        <summary>
+          <i class="fa-solid fa-rotate"></i>
+          Took ${result.attempts.length} attempts${usedFallback ? ` · answered by ${escapeHtml(final.target)}` : ''}
+        </summary>
+        <ul>
+          ${result.attempts.map(a => `
+            <li>
+              ${escapeHtml(a.target)} #${a.attempt}: ${outcomes[a.outcome]}
+              (${(a.latencyMs / 1000).toFixed(1)}s)${a.error ? ` - ${escapeHtml(a.error)}` : ''}
+            </li>
+          `).join('')}
+        </ul>
+      </details>
+    `;
+}
+
+/**
+ * Note the fixes that were needed to parse a malformed structured response
+ */
+function renderRepairs(result: StageResult): string {
+    if (!result.repairs?.length) return '';
+
+    return `
+      <div class="${MODULE_NAME}_json_repairs" title="The response wasn't valid JSON and was repaired before use">
+        <i class="fa-solid fa-screwdriver-wrench"></i>
+        Repaired JSON: ${describeRepairs(result.repairs).map(escapeHtml).join(' · ')}
+      </div>
+    `;
+}
+
+/**
+ * List the places a structured response didn't match its schema
+ */
+function renderViolations(result: StageResult): string {
+    if (!result.violations?.length) return '';
+
+    const count = result.violations.length;
+
+    return `
+      <details class="${MODULE_NAME}_schema_violations">
+        <summary>
+          <i class="fa-solid fa-triangle-exclamation"></i>
+          Response doesn't match ${result.schemaUsed ? escapeHtml(result.schemaUsed.name) : 'the schema'} (${count} issue${count === 1 ? '' : 's'})
+        </summary>
+        <ul>
+          ${result.violations.map(v => `
+            <li><code>${escapeHtml(v.path || '(root)')}</code> ${escapeHtml(v.message)}</li>
+          `).join('')}
+        </ul>
+      </details>
+    `;
+}
+
 function renderVerdictBadge(verdict: IterationVerdict): string {
     const icons: Record<IterationVerdict, string> = {
         accept: 'fa-check-circle',
         needs_refinement: 'fa-wrench',
         regression: 'fa-arrow-down',
+        unknown: 'fa-circle-question',
     };
 
     const labels: Record<IterationVerdict, string> = {
         accept: 'Accept',
         needs_refinement: 'Needs Work',
         regression: 'Regression',
+        unknown: 'Unknown',
     };
 
     return `
@@ -187,6 +339,10 @@ export function updateResultsPanelState(
 
     // Always re-render if state type changes OR if showing placeholder (stage name might have changed)
     if (shouldShowLoading) {
+        // Keep the streamed text if this stage's loading view is already up
+        const existingLoading = container.querySelector(`.${MODULE_NAME}_results_loading`) as HTMLElement | null;
+        if (existingLoading?.dataset.stage === stage) return;
+
         console.log('[CT DEBUG] Rendering loading state');
         container.innerHTML = renderLoading(stage);
         return;
@@ -264,6 +420,16 @@ function renderFooterActions(
         <span>Regenerate</span>
       </button>
     `);
+
+        // Regenerating usually means wanting a different answer, so skip the cache by default
+        if (getSettings().cache.enabled) {
+            actions.push(`
+      <label class="${MODULE_NAME}_checkbox_label ${MODULE_NAME}_bypass_cache" title="Ask the model again instead of reusing a cached response">
+        <input type="checkbox" id="${MODULE_NAME}_bypass_cache" checked>
+        <span>Skip cache</span>
+      </label>
+    `);
+        }
     }
 
     // Stage-specific actions
@@ -279,7 +445,7 @@ function renderFooterActions(
     }
 
     if (stage === 'analyze') {
-        const verdict = extractVerdict(result.response);
+        const verdict = extractVerdict(result.response, result.isStructured, getVerdictRules(pipeline));
         const canRefineResult = canRefine(pipeline);
 
         // DEBUG
@@ -317,13 +483,33 @@ function renderFooterActions(
         }
     }
 
+    // Auto-iterate (analyze/refine until accepted or a limit is hit)
+    if ((stage === 'rewrite' || stage === 'analyze') && pipeline.results.rewrite && !pipeline.results.rewrite.locked) {
+        actions.push(`
+      <button id="${MODULE_NAME}_auto_iterate_btn" class="menu_button" title="Analyze and refine until accepted or a limit is reached">
+        <i class="fa-solid fa-robot"></i>
+        <span>Auto-Iterate</span>
+      </button>
+    `);
+    }
+
     // Continue to next stage (not on analyze, not when in refinement mode on rewrite)
     if (nextStage && stage !== 'analyze' && !(stage === 'rewrite' && pipeline.isRefining)) {
         console.log('[CT DEBUG] Adding Continue button to', nextStage);
         actions.push(`
       <button id="${MODULE_NAME}_continue_btn" class="menu_button ${MODULE_NAME}_continue_btn">
         <i class="fa-solid fa-arrow-right"></i>
-        <span>Continue to ${STAGE_LABELS[nextStage]}</span>
+        <span>Continue to ${escapeHtml(getStageLabel(nextStage))}</span>
+      </button>
+    `);
+    }
+
+    // Apply to card (once the rewrite has been accepted/locked)
+    if ((stage === 'rewrite' || stage === 'analyze') && pipeline.character && pipeline.results.rewrite?.locked) {
+        actions.push(`
+      <button id="${MODULE_NAME}_apply_btn" class="menu_button">
+        <i class="fa-solid fa-file-pen"></i>
+        <span>Apply to Card</span>
       </button>
     `);
     }
@@ -343,3 +529,12 @@ function renderFooterActions(
 
     return `<div class="${MODULE_NAME}_footer_actions">${actions.join('')}</div>`;
 }
+
+// ============================================================================
+// UTILITIES
+// ============================================================================
+
+function escapeHtml(text: string): string {
+    const { DOMPurify } = SillyTavern.libs;
+    return DOMPurify.sanitize(text, { ALLOWED_TAGS: [] });
+}
@@ -2,10 +2,28 @@
 //
 // Stage configuration component - prompt/schema selection and editing
 
-import { MODULE_NAME, STAGE_LABELS } from '../../constants';
-import { getPromptPresets, getSchemaPresets, getPromptPreset, getSchemaPreset, savePromptPreset, saveSchemaPreset } from '../../settings';
+import { MODULE_NAME } from '../../constants';
+import { getStageLabel } from '../../stages';
+import {
+    getSettings,
+    getPromptPresets,
+    getSchemaPresets,
+    getPromptPreset,
+    getSchemaPreset,
+    savePromptPreset,
+    saveSchemaPreset,
+    updateStageDefaults,
+} from '../../settings';
 import { validateSchema, autoFixSchema, generateSchemaFromDescription } from '../../schema';
-import type { StageName, StageConfig, PromptPreset, SchemaPreset } from '../../types';
+import { formatTemplateError } from '../../template';
+import { fillSourceOptions, fillModelOptions, fillProfileOptions } from '../model-options';
+import { findConnectionProfile } from '../../profiles';
+import { renderPlaceholderMenu } from './placeholder-autocomplete';
+import type { PromptLintIssue } from '../../prompt-lint';
+import type { StageName, StageConfig, PromptPreset, SchemaPreset, GenerationConfig } from '../../types';
+
+// Keep the editor usable when a prompt is badly broken
+const MAX_PROMPT_ISSUES_SHOWN = 5;
 
 // ============================================================================
 // RENDER
@@ -16,9 +34,11 @@ export function renderStageConfig(
     config: StageConfig,
     tokenEstimate: { tokens: number; percentage: number } | null,
     hasCharacter: boolean,  // ADD THIS PARAMETER
+    promptIssues: PromptLintIssue[] = [],
 ): string {
     const promptPresets = getPromptPresets(stage);
     const schemaPresets = getSchemaPresets(stage);
+    const comparisonCount = getSettings().comparisonConfigs.length;
 
     // Get current prompt content
     let promptContent = config.customPrompt;
@@ -90,11 +110,15 @@ export function renderStageConfig(
             </select>
           </div>
         </div>
-        <textarea
-          id="${MODULE_NAME}_custom_prompt"
-          class="${MODULE_NAME}_prompt_textarea text_pole"
-          placeholder="Enter your prompt for the ${STAGE_LABELS[stage]} stage..."
-        >${escapeHtml(promptContent)}</textarea>
+        <div class="${MODULE_NAME}_prompt_editor">
+          <textarea
+            id="${MODULE_NAME}_custom_prompt"
+            class="${MODULE_NAME}_prompt_textarea text_pole"
+            placeholder="Enter your prompt for the ${escapeHtml(getStageLabel(stage))} stage... Type {{ for placeholders"
+          >${escapeHtml(promptContent)}</textarea>
+          ${renderPlaceholderMenu()}
+        </div>
+        ${renderPromptIssues(promptIssues)}
         <div class="${MODULE_NAME}_config_footer">
           <span class="${MODULE_NAME}_char_count">${promptContent.length.toLocaleString()} chars</span>
         </div>
@@ -178,6 +202,9 @@ export function renderStageConfig(
         </div>
       </div>
 
+      <!-- Generation Override -->
+      ${renderGenerationOverride(config)}
+
       <!-- Actions -->
       <div class="${MODULE_NAME}_config_actions">
         <div id="${MODULE_NAME}_token_estimate" class="${MODULE_NAME}_token_estimate ${tokenClass}">
@@ -192,6 +219,15 @@ export function renderStageConfig(
           <i class="fa-solid fa-eye"></i>
           <span>Preview</span>
         </button>
+        <button
+          id="${MODULE_NAME}_compare_models_btn"
+          class="menu_button"
+          title="${comparisonCount > 0 ? `Run this stage on ${comparisonCount} comparison models side by side` : 'Add comparison models in Settings first'}"
+          ${!hasCharacter || comparisonCount === 0 ? 'disabled' : ''}
+        >
+          <i class="fa-solid fa-table-columns"></i>
+          <span>Compare</span>
+        </button>
       </div>
     </div>
   `;
@@ -260,6 +296,7 @@ export function updateStageConfigState(
     config: StageConfig,
     isGenerating: boolean,
     hasCharacter: boolean,
+    promptIssues: PromptLintIssue[] = [],
 ): void {
     const promptPresets = getPromptPresets(stage);
     const schemaPresets = getSchemaPresets(stage);
@@ -289,6 +326,8 @@ export function updateStageConfigState(
         if (charCount) {
             charCount.textContent = `${promptContent.length.toLocaleString()} chars`;
         }
+
+        updatePromptIssues(container, promptIssues);
     }
 
     // Update structured output toggle
@@ -340,10 +379,162 @@ export function updateStageConfigState(
         previewBtn.disabled = isGenerating || !hasCharacter;
     }
 
+    // Update compare button
+    const compareBtn = container.querySelector(`#${MODULE_NAME}_compare_models_btn`) as HTMLButtonElement;
+    if (compareBtn) {
+        compareBtn.disabled = isGenerating || !hasCharacter || getSettings().comparisonConfigs.length === 0;
+    }
+
+    // Update generation override
+    updateGenerationOverride(container, config, isGenerating);
+
     // Update save preset buttons
     updateSavePresetButtons(container, config);
 }
 
+// ============================================================================
+// GENERATION OVERRIDE
+// ============================================================================
+
+const OVERRIDE_NUMBER_FIELDS: Array<{ key: keyof GenerationConfig; label: string; min: number; max: number; step: number }> = [
+    { key: 'temperature', label: 'Temp', min: 0, max: 2, step: 0.1 },
+    { key: 'maxTokens', label: 'Max Tokens', min: 100, max: 32000, step: 100 },
+    { key: 'frequencyPenalty', label: 'Freq Pen', min: -2, max: 2, step: 0.1 },
+    { key: 'presencePenalty', label: 'Pres Pen', min: -2, max: 2, step: 0.1 },
+    { key: 'topP', label: 'Top P', min: 0, max: 1, step: 0.05 },
+];
+
+/**
+ * Collapsible per-stage profile/source/model/sampler overrides. Selects are filled by updateGenerationOverride.
+ */
+function renderGenerationOverride(config: StageConfig): string {
+    const hasOverride = hasGenerationOverride(config.generation);
+
+    return `
+      <details class="${MODULE_NAME}_config_group ${MODULE_NAME}_gen_override" ${hasOverride ? 'open' : ''}>
+        <summary class="${MODULE_NAME}_config_label">
+          Generation
+          <span id="${MODULE_NAME}_override_badge" class="${MODULE_NAME}_badge ${hasOverride ? '' : 'hidden'}">Override</span>
+        </summary>
+        <div class="${MODULE_NAME}_gen_override_grid ${MODULE_NAME}_gen_override_profile">
+          <select id="${MODULE_NAME}_override_profile" class="text_pole ${MODULE_NAME}_override_field" data-key="profileId" title="Connection profile"></select>
+        </div>
+        <div class="${MODULE_NAME}_gen_override_grid">
+          <select id="${MODULE_NAME}_override_source" class="text_pole ${MODULE_NAME}_override_field" data-key="source" title="Source"></select>
+          <select id="${MODULE_NAME}_override_model" class="text_pole ${MODULE_NAME}_override_field" data-key="model" title="Model"></select>
+        </div>
+        <div class="${MODULE_NAME}_gen_override_grid ${MODULE_NAME}_gen_override_numbers">
+          ${OVERRIDE_NUMBER_FIELDS.map(field => `
+            <label>
+              <span>${field.label}</span>
+              <input
+                type="number"
+                class="text_pole ${MODULE_NAME}_override_field"
+                data-key="${field.key}"
+                min="${field.min}"
+                max="${field.max}"
+                step="${field.step}"
+                value="${config.generation?.[field.key] ?? ''}"
+              >
+            </label>
+          `).join('')}
+        </div>
+        <div class="${MODULE_NAME}_config_footer">
+          <span class="${MODULE_NAME}_char_count">Empty fields use the global generation settings</span>
+          <div class="${MODULE_NAME}_config_header_actions">
+            <button id="${MODULE_NAME}_override_save_default_btn" class="${MODULE_NAME}_icon_btn" title="Use these settings for this stage by default">
+              <i class="fa-solid fa-floppy-disk"></i>
+            </button>
+            <button id="${MODULE_NAME}_override_clear_btn" class="${MODULE_NAME}_icon_btn" title="Clear overrides" ${hasOverride ? '' : 'disabled'}>
+              <i class="fa-solid fa-eraser"></i>
+            </button>
+          </div>
+        </div>
+      </details>
+    `;
+}
+
+function updateGenerationOverride(container: HTMLElement, config: StageConfig, isGenerating: boolean): void {
+    const section = container.querySelector(`.${MODULE_NAME}_gen_override`);
+    if (!section) return;
+
+    const settings = getSettings();
+    const global = settings.generationConfig;
+    const override = config.generation ?? {};
+    const globalProfile = !settings.useCurrentSettings && global.profileId ? findConnectionProfile(global.profileId) : null;
+    const globalLabel = settings.useCurrentSettings ? 'SillyTavern' : globalProfile?.name ?? null;
+
+    const profileSelect = section.querySelector(`#${MODULE_NAME}_override_profile`) as HTMLSelectElement | null;
+    const sourceSelect = section.querySelector(`#${MODULE_NAME}_override_source`) as HTMLSelectElement | null;
+    const modelSelect = section.querySelector(`#${MODULE_NAME}_override_model`) as HTMLSelectElement | null;
+
+    if (profileSelect) {
+        fillProfileOptions(profileSelect, override.profileId ?? '', `Global (${globalLabel ?? 'no profile'})`);
+        profileSelect.disabled = isGenerating;
+    }
+
+    // The profile decides the source and model
+    const usesOverrideProfile = !!override.profileId;
+
+    if (sourceSelect) {
+        fillSourceOptions(sourceSelect, override.source ?? '', `Global (${globalLabel ?? global.source})`);
+        sourceSelect.disabled = isGenerating || usesOverrideProfile;
+    }
+
+    if (modelSelect) {
+        fillModelOptions(modelSelect, override.source || global.source, override.model ?? '', `Global (${globalLabel ?? global.model})`);
+        modelSelect.disabled = isGenerating || usesOverrideProfile;
+    }
+
+    section.querySelectorAll<HTMLInputElement>(`input.${MODULE_NAME}_override_field`).forEach(input => {
+        const key = input.dataset.key as keyof GenerationConfig;
+        const value = override[key];
+        if (document.activeElement !== input) {
+            input.value = value === undefined ? '' : String(value);
+        }
+        input.placeholder = String(global[key]);
+        input.disabled = isGenerating;
+    });
+
+    const hasOverride = hasGenerationOverride(config.generation);
+    section.querySelector(`#${MODULE_NAME}_override_badge`)?.classList.toggle('hidden', !hasOverride);
+
+    const clearBtn = section.querySelector(`#${MODULE_NAME}_override_clear_btn`) as HTMLButtonElement | null;
+    if (clearBtn) clearBtn.disabled = isGenerating || !hasOverride;
+}
+
+/**
+ * Read the override fields back into a partial config. Empty fields are left out.
+ */
+export function readGenerationOverride(container: HTMLElement): Partial<GenerationConfig> | undefined {
+    const override: Record<string, string | number> = {};
+
+    container.querySelectorAll<HTMLInputElement | HTMLSelectElement>(`.${MODULE_NAME}_override_field`).forEach(field => {
+        const key = field.dataset.key;
+        if (!key || field.value === '') return;
+
+        if (field instanceof HTMLSelectElement) {
+            override[key] = field.value;
+        } else {
+            const value = parseFloat(field.value);
+            if (!isNaN(value)) override[key] = key === 'maxTokens' ? Math.round(value) : value;
+        }
+    });
+
+    return Object.keys(override).length > 0 ? override as Partial<GenerationConfig> : undefined;
+}
+
+export function handleSaveGenerationDefault(stage: StageName, generation: Partial<GenerationConfig> | undefined): void {
+    updateStageDefaults(stage, { generation });
+    toastr.success(generation
+        ? `${getStageLabel(stage)} will use these generation settings by default`
+        : `${getStageLabel(stage)} will use the global generation settings by default`);
+}
+
+function hasGenerationOverride(generation: Partial<GenerationConfig> | undefined): boolean {
+    return !!generation && Object.values(generation).some(value => value !== undefined && value !== '');
+}
+
 // ============================================================================
 // SCHEMA ACTION BUTTONS
 // ============================================================================
@@ -529,7 +720,7 @@ export async function handleSavePromptPreset(stage: StageName, promptContent: st
     const name = await Popup.show.input(
         'Save Prompt Preset',
         'Enter a name for this preset:',
-        `Custom ${STAGE_LABELS[stage]} Prompt`,
+        `Custom ${getStageLabel(stage)} Prompt`,
     );
 
     if (name === null || name === POPUP_RESULT.CANCELLED) {
@@ -572,7 +763,7 @@ export async function handleSaveSchemaPreset(stage: StageName, schemaContent: st
     const name = await Popup.show.input(
         'Save Schema Preset',
         'Enter a name for this preset:',
-        `Custom ${STAGE_LABELS[stage]} Schema`,
+        `Custom ${getStageLabel(stage)} Schema`,
     );
 
     if (name === null || name === POPUP_RESULT.CANCELLED) {
@@ -637,6 +828,51 @@ function updateSchemaValidation(container: HTMLElement, schemaContent: string):
     }
 }
 
+/**
+ * Template errors and placeholder warnings with their positions, or nothing when the prompt is clean.
+ * Each issue is a button that puts the cursor where it is.
+ */
+function renderPromptIssues(issues: PromptLintIssue[]): string {
+    if (issues.length === 0) return '';
+
+    const hasErrors = issues.some(issue => issue.severity === 'error');
+    const shown = issues.slice(0, MAX_PROMPT_ISSUES_SHOWN).map(issue => `
+          <button type="button" class="${MODULE_NAME}_template_issue ${issue.severity}" data-line="${issue.line}" data-column="${issue.column}">
+            ${escapeHtml(formatTemplateError(issue))}
+          </button>`).join('');
+    const more = issues.length > MAX_PROMPT_ISSUES_SHOWN ? `<div>...and ${issues.length - MAX_PROMPT_ISSUES_SHOWN} more</div>` : '';
+
+    return `
+        <div class="${MODULE_NAME}_template_status ${hasErrors ? 'error' : 'warning'}">
+          <i class="fa-solid ${hasErrors ? 'fa-circle-xmark' : 'fa-triangle-exclamation'}"></i>
+          <div class="${MODULE_NAME}_template_errors">${shown}${more}</div>
+        </div>`;
+}
+
+function updatePromptIssues(container: HTMLElement, issues: PromptLintIssue[]): void {
+    container.querySelector(`.${MODULE_NAME}_template_status`)?.remove();
+
+    const statusHtml = renderPromptIssues(issues);
+    if (!statusHtml) return;
+
+    container.querySelector(`.${MODULE_NAME}_prompt_editor`)?.insertAdjacentHTML('afterend', statusHtml);
+}
+
+/**
+ * Focus the prompt textarea with the cursor at a 1-based line and column
+ */
+export function focusPromptPosition(container: HTMLElement, line: number, column: number): void {
+    const textarea = container.querySelector(`#${MODULE_NAME}_custom_prompt`) as HTMLTextAreaElement | null;
+    if (!textarea) return;
+
+    const lines = textarea.value.split('\n');
+    const offset = lines.slice(0, line - 1).reduce((sum, text) => sum + text.length + 1, 0) + column - 1;
+    const position = Math.min(offset, textarea.value.length);
+
+    textarea.focus();
+    textarea.setSelectionRange(position, position);
+}
+
 function escapeHtml(text: string): string {
     const { DOMPurify } = SillyTavern.libs;
     return DOMPurify.sanitize(text, { ALLOWED_TAGS: [] });
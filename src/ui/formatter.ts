@@ -2,6 +2,7 @@
 //
 // Response formatting for display
 
+import { parseStructuredResponse } from '../schema';
 import type { StructuredOutputSchema, JsonSchemaValue } from '../types';
 
 // ============================================================================
@@ -45,7 +46,7 @@ export function formatStructuredResponse(
     const { DOMPurify } = SillyTavern.libs;
     const text = typeof response === 'string' ? response : String(response ?? '');
 
-    const parsed = parseStructuredResponse(text);
+    const parsed = parseStructuredResponse(text)?.data;
 
     if (!parsed || typeof parsed !== 'object') {
         return formatResponse(text, moduleName);
@@ -57,26 +58,6 @@ export function formatStructuredResponse(
     return DOMPurify.sanitize(html);
 }
 
-/**
- * Parse a structured response (handles JSON and code blocks)
- */
-export function parseStructuredResponse(response: string): unknown | null {
-    try {
-        return JSON.parse(response);
-    } catch {
-        // Try to extract JSON from markdown code blocks
-        const codeBlockMatch = response.match(/```(?:json)?\s*([\s\S]*?)```/);
-        if (codeBlockMatch) {
-            try {
-                return JSON.parse(codeBlockMatch[1].trim());
-            } catch {
-                return null;
-            }
-        }
-        return null;
-    }
-}
-
 // ============================================================================
 // SCHEMA INFERENCE
 // ============================================================================
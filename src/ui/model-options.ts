@@ -0,0 +1,116 @@
+// src/ui/model-options.ts
+//
+// Source, model and connection profile select options, copied from SillyTavern's own
+// connection selects so ours list whatever the user has loaded.
+
+import { FAKE_BACKEND_SOURCE, FAKE_BACKEND_MODEL } from '../constants';
+import { getSettings } from '../settings';
+import { getConnectionProfiles, describeProfile } from '../profiles';
+
+/**
+ * Fill a select with the chat completion sources ST offers
+ */
+export function fillSourceOptions(sourceSelect: HTMLSelectElement, currentSource: string, emptyLabel?: string): void {
+    sourceSelect.innerHTML = '';
+    if (emptyLabel !== undefined) appendOption(sourceSelect, '', emptyLabel);
+
+    const stSourceSelect = document.getElementById('chat_completion_source') as HTMLSelectElement;
+
+    if (stSourceSelect) {
+        Array.from(stSourceSelect.options).forEach((opt: HTMLOptionElement) => {
+            if (opt.value) {
+                appendOption(sourceSelect, opt.value, opt.textContent || opt.value);
+            }
+        });
+    }
+
+    if (!Array.from(sourceSelect.options).some(o => o.value)) {
+        ['openrouter', 'openai', 'claude', 'makersuite', 'mistralai', 'groq'].forEach(src => {
+            appendOption(sourceSelect, src, src);
+        });
+    }
+
+    // Offered while debugging, and kept when already selected
+    if (getSettings().debugMode || currentSource === FAKE_BACKEND_SOURCE) {
+        appendOption(sourceSelect, FAKE_BACKEND_SOURCE, 'Scripted Test Backend');
+    }
+
+    sourceSelect.value = currentSource;
+}
+
+/**
+ * Fill a select with the models ST has loaded for a source.
+ * Returns the selected model - the first one if the current model isn't available.
+ */
+export function fillModelOptions(modelSelect: HTMLSelectElement, source: string, currentModel?: string, emptyLabel?: string): string {
+    modelSelect.innerHTML = '';
+    if (emptyLabel !== undefined) appendOption(modelSelect, '', emptyLabel);
+
+    const selectIdMap: Record<string, string> = {
+        openrouter: 'model_openrouter_select',
+        openai: 'model_openai_select',
+        claude: 'model_claude_select',
+        makersuite: 'model_google_select',
+        google: 'model_google_select',
+        mistralai: 'model_mistralai_select',
+        cohere: 'model_cohere_select',
+        perplexity: 'model_perplexity_select',
+        groq: 'model_groq_select',
+        ai21: 'model_ai21_select',
+        deepseek: 'model_deepseek_select',
+        custom: 'model_custom_select',
+    };
+
+    const stSelect = selectIdMap[source] ? document.getElementById(selectIdMap[source]) as HTMLSelectElement : null;
+
+    if (source === FAKE_BACKEND_SOURCE) {
+        appendOption(modelSelect, FAKE_BACKEND_MODEL, 'Scripted');
+    } else if (stSelect?.options.length) {
+        Array.from(stSelect.options).forEach((opt: HTMLOptionElement) => {
+            if (opt.value) {
+                appendOption(modelSelect, opt.value, opt.textContent || opt.value);
+            }
+        });
+    } else if (emptyLabel === undefined) {
+        appendOption(modelSelect, currentModel || '', currentModel || `No models for ${source}`);
+    }
+
+    // A stage override can name a model ST hasn't loaded - keep it rather than dropping it
+    if (emptyLabel !== undefined && currentModel && !Array.from(modelSelect.options).some(o => o.value === currentModel)) {
+        appendOption(modelSelect, currentModel, currentModel);
+    }
+
+    if (currentModel && Array.from(modelSelect.options).some(o => o.value === currentModel)) {
+        modelSelect.value = currentModel;
+    } else if (modelSelect.options.length) {
+        modelSelect.value = modelSelect.options[0].value;
+    }
+
+    return modelSelect.value;
+}
+
+/**
+ * Fill a select with the Connection Manager profiles, after an empty "no profile" option.
+ * A profile that no longer exists is kept so the setting isn't silently dropped.
+ */
+export function fillProfileOptions(profileSelect: HTMLSelectElement, currentProfileId: string, emptyLabel: string): void {
+    profileSelect.innerHTML = '';
+    appendOption(profileSelect, '', emptyLabel);
+
+    getConnectionProfiles().forEach(profile => {
+        appendOption(profileSelect, profile.id, describeProfile(profile));
+    });
+
+    if (currentProfileId && !Array.from(profileSelect.options).some(o => o.value === currentProfileId)) {
+        appendOption(profileSelect, currentProfileId, `Missing profile (${currentProfileId})`);
+    }
+
+    profileSelect.value = currentProfileId;
+}
+
+function appendOption(select: HTMLSelectElement, value: string, label: string): void {
+    const option = document.createElement('option');
+    option.value = value;
+    option.textContent = label;
+    select.appendChild(option);
+}
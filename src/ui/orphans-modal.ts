@@ -0,0 +1,209 @@
+// src/ui/orphans-modal.ts
+//
+// Orphaned sessions popup - saved sessions whose character can't be found any more
+// (deleted, re-imported without its ID, or saved before IDs existed and since renamed).
+// Each can be attached to a character or deleted.
+
+import { MODULE_NAME } from '../constants';
+import { findOrphanedSessions, reattachSession, deleteSessionByKey, loadPipelineSession } from '../persistence';
+import { ensureCharacterId } from '../identity';
+import { getStageLabel } from '../stages';
+import { debugLog } from '../debug';
+import type { Character, SessionSummary } from '../types';
+
+// ============================================================================
+// MAIN ENTRY
+// ============================================================================
+
+/**
+ * Open the orphaned sessions popup. Resolves to true if any session was attached or deleted.
+ */
+export async function openOrphanedSessionsModal(): Promise<boolean> {
+    const { Popup, POPUP_TYPE } = SillyTavern.getContext();
+    const { DOMPurify } = SillyTavern.libs;
+
+    const orphans = await findOrphanedSessions(getCharacters());
+    let changed = false;
+
+    const popup = new Popup(DOMPurify.sanitize(buildOrphansContent(orphans)), POPUP_TYPE.TEXT, '', {
+        wide: true,
+        allowVerticalScrolling: true,
+        okButton: 'Close',
+        cancelButton: false,
+    });
+
+    const closed = popup.show();
+
+    // Wait for DOM
+    await new Promise<void>(resolve => setTimeout(resolve, 0));
+
+    initOrphansListeners(() => {
+        changed = true;
+    });
+    debugLog('info', 'Orphaned sessions modal opened', { count: orphans.length });
+
+    await closed;
+    return changed;
+}
+
+// ============================================================================
+// BUILD CONTENT
+// ============================================================================
+
+function buildOrphansContent(orphans: SessionSummary[]): string {
+    return `
+    <div class="${MODULE_NAME}_backups_modal" id="${MODULE_NAME}_orphans_modal">
+      <div class="${MODULE_NAME}_backups_header">
+        <i class="fa-solid fa-link-slash"></i>
+        <span>Orphaned Sessions</span>
+      </div>
+      <p class="${MODULE_NAME}_settings_hint">
+        Saved sessions that don't match any character. Attach one to a character to continue it there.
+        Attaching replaces that character's current session.
+      </p>
+      <div id="${MODULE_NAME}_orphans_list" class="${MODULE_NAME}_backups_list">
+        ${renderOrphanList(orphans)}
+      </div>
+    </div>
+  `;
+}
+
+function renderOrphanList(orphans: SessionSummary[]): string {
+    if (orphans.length === 0) {
+        return `<div class="${MODULE_NAME}_backups_empty">No orphaned sessions</div>`;
+    }
+
+    const { moment } = SillyTavern.libs;
+    const characters = getCharacters();
+
+    return orphans.map(orphan => `
+    <div class="${MODULE_NAME}_backup_item" data-key="${escapeHtml(orphan.key)}">
+      <div class="${MODULE_NAME}_backup_info">
+        <span class="${MODULE_NAME}_backup_time">${escapeHtml(orphan.characterName || 'Unknown')}</span>
+        <span class="${MODULE_NAME}_backup_reason">
+          ${escapeHtml(orphan.characterAvatar)} · saved ${moment(orphan.savedAt).fromNow()}
+          · ${orphan.iterationCount} iteration${orphan.iterationCount === 1 ? '' : 's'}
+          ${orphan.completedStages.length > 0 ? `· ${orphan.completedStages.map(s => escapeHtml(getStageLabel(s))).join(', ')}` : ''}
+        </span>
+      </div>
+      <div class="${MODULE_NAME}_backup_actions">
+        <select class="text_pole ${MODULE_NAME}_orphan_target" data-key="${escapeHtml(orphan.key)}">
+          ${renderCharacterOptions(characters, orphan.characterName)}
+        </select>
+        <button class="${MODULE_NAME}_orphan_attach menu_button" data-key="${escapeHtml(orphan.key)}" title="Attach to the selected character">
+          <i class="fa-solid fa-link"></i>
+          Attach
+        </button>
+        <button class="${MODULE_NAME}_orphan_delete menu_button" data-key="${escapeHtml(orphan.key)}" title="Delete">
+          <i class="fa-solid fa-trash"></i>
+        </button>
+      </div>
+    </div>
+  `).join('');
+}
+
+/**
+ * Character options sorted by name, preselecting a character with the same name as the orphan
+ */
+function renderCharacterOptions(characters: Character[], suggestedName: string): string {
+    const sorted = characters
+        .map((char, index) => ({ char, index }))
+        .filter(({ char }) => char?.name)
+        .sort((a, b) => a.char.name.localeCompare(b.char.name));
+
+    const suggested = sorted.find(({ char }) => char.name === suggestedName);
+
+    return [
+        `<option value="" ${suggested ? '' : 'selected'}>Choose character...</option>`,
+        ...sorted.map(({ char, index }) => `
+          <option value="${index}" ${suggested?.index === index ? 'selected' : ''}>
+            ${escapeHtml(char.name)} (${escapeHtml(char.avatar)})
+          </option>
+        `),
+    ].join('');
+}
+
+// ============================================================================
+// EVENT LISTENERS
+// ============================================================================
+
+function initOrphansListeners(onChanged: () => void): void {
+    const modal = document.getElementById(`${MODULE_NAME}_orphans_modal`);
+    if (!modal) return;
+
+    modal.addEventListener('click', async (e) => {
+        const target = e.target as HTMLElement;
+        const button = target.closest(`.${MODULE_NAME}_orphan_attach, .${MODULE_NAME}_orphan_delete`) as HTMLElement | null;
+        const key = button?.dataset.key;
+        if (!button || !key) return;
+
+        if (button.classList.contains(`${MODULE_NAME}_orphan_attach`)) {
+            const select = modal.querySelector(`.${MODULE_NAME}_orphan_target[data-key="${CSS.escape(key)}"]`) as HTMLSelectElement | null;
+            if (!select?.value) {
+                toastr.warning('Choose a character first');
+                return;
+            }
+
+            if (await handleAttach(key, parseInt(select.value, 10))) {
+                onChanged();
+            }
+        } else if (await deleteSessionByKey(key)) {
+            toastr.info('Session deleted');
+            onChanged();
+        }
+
+        await refreshOrphanList();
+    });
+}
+
+async function handleAttach(key: string, index: number): Promise<boolean> {
+    const character = getCharacters()[index];
+    if (!character) {
+        toastr.error('Character not found');
+        return false;
+    }
+
+    await ensureCharacterId(character, index);
+
+    // Attaching replaces the target's own session - confirm if it has one
+    if (await loadPipelineSession(character)) {
+        const { Popup, POPUP_TYPE, POPUP_RESULT } = SillyTavern.getContext();
+        const confirm = await new Popup(
+            `${escapeHtml(character.name)} already has a saved session. Replace it?`,
+            POPUP_TYPE.CONFIRM,
+            '',
+            { okButton: 'Replace', cancelButton: 'Cancel' },
+        ).show();
+
+        if (confirm !== POPUP_RESULT.AFFIRMATIVE) return false;
+    }
+
+    if (!await reattachSession(key, character)) {
+        toastr.error('Failed to attach session');
+        return false;
+    }
+
+    toastr.success(`Session attached to ${character.name}`);
+    return true;
+}
+
+async function refreshOrphanList(): Promise<void> {
+    const list = document.getElementById(`${MODULE_NAME}_orphans_list`);
+    if (!list) return;
+
+    list.innerHTML = renderOrphanList(await findOrphanedSessions(getCharacters()));
+}
+
+// ============================================================================
+// UTILITIES
+// ============================================================================
+
+function getCharacters(): Character[] {
+    return SillyTavern.getContext().characters as Character[];
+}
+
+function escapeHtml(value: unknown): string {
+    const { DOMPurify } = SillyTavern.libs;
+    const str = typeof value === 'string' ? value : String(value ?? '');
+    return DOMPurify.sanitize(str, { ALLOWED_TAGS: [] });
+}
@@ -43,11 +43,14 @@
 // - Easier to add new features without scrolling 1400 lines
 //
 // ==========================================================================
-import { MODULE_NAME, STAGES, STAGE_LABELS, STAGE_ICONS } from '../constants';
+import { MODULE_NAME } from '../constants';
+import { getStageOrder, getStageLabel, getStageIcon, stageExists } from '../stages';
 import { debugLog, logError } from '../debug';
 import {
     createPipelineState,
     resetPipeline,
+    syncPipelineStages,
+    deserializePipelineState,
     setCharacter,
     toggleStage,
     setSelectedStages,
@@ -67,14 +70,27 @@ import {
     startRefinement,
     completeRefinement,
     acceptRewrite,
+    setFieldRejected,
     revertToIteration,
     updateFieldSelection,
+    extractVerdict,
+    extractScore,
+    getVerdictRules,
+    findBestIteration,
+    getAutoIterateStopReason,
     selectAllFields,
     deselectAllFields,
     generateExportData,
+    recordUsage,
+    getUsageLabel,
+    REFINEMENT_USAGE_KEY,
+    buildTemplateContext,
 } from '../pipeline';
-import { getPromptPreset, getSchemaPreset, getFullSystemPrompt } from '../settings';
-import { runStageGeneration, runRefinementGeneration, getStageTokenCount, getRefinementTokenCount, getApiInfo, isApiReady } from '../generator';
+import { getSettings, getPromptPreset, getSchemaPreset, getFullSystemPrompt } from '../settings';
+import { resolvePrompt, getUnfilledPlaceholders } from '../presets';
+import { lintPrompt, getPlaceholderSuggestions } from '../prompt-lint';
+import type { PromptLintIssue } from '../prompt-lint';
+import { runStageGeneration, runStageComparison, runRefinementGeneration, getStageTokenCount, getRefinementTokenCount, getApiInfo, isApiReady } from '../generator';
 import { renderCharacterSelect, updateCharacterSelectState, renderDropdownItems, updateFieldTokenCounts, clearTokenCache } from './components/character-select';
 import { getPopulatedFields } from '../character';
 import { renderPipelineNav, updatePipelineNavState } from './components/pipeline-nav';
@@ -87,12 +103,45 @@ import {
     handleFixSchema,
     handleFormatSchema,
     handleGenerateSchema,
+    readGenerationOverride,
+    handleSaveGenerationDefault,
+    focusPromptPosition,
 } from './components/stage-config';
-import { renderResultsPanel, updateResultsPanelState, renderRefinementLoading } from './components/results-panel';
+import { initPlaceholderAutocomplete } from './components/placeholder-autocomplete';
+import { renderResultsPanel, updateResultsPanelState, renderRefinementLoading, updateStreamPreview } from './components/results-panel';
+import { renderComparisonPanel, renderComparisonLoading } from './components/comparison-panel';
 import { renderIterationHistory, updateIterationHistoryState, renderIterationViewContent } from './components/iteration-history';
+import { renderAutoIterateLog, updateAutoIterateLogState } from './components/auto-iterate-log';
 import { openSettingsModal } from './settings-modal';
-import { saveIterationHistory, loadIterationHistory, clearIterationHistory } from '../persistence';
-import type { PipelineState, StageName, Character, IterationSnapshot } from '../types';
+import { openBackupsModal } from './backups-modal';
+import { openBatchModal } from './batch-modal';
+import {
+    savePipelineSession,
+    loadPipelineSession,
+    setLastSessionCharacter,
+    getLastSessionCharacter,
+    loadCharacterUsage,
+    recordCharacterUsage,
+} from '../persistence';
+import { ensureCharacterId, isSameCharacter, findCharacterIndex } from '../identity';
+import { flattenLedger, summarizeUsage, formatUsageTotals } from '../usage';
+import { buildWriteBackPlan, applyWriteBack } from '../writeback';
+import { parseRewrite } from '../rewrite-parser';
+import { diffFields, getOriginalFields, excludeRejectedFields } from '../diff';
+import { renderDiffView, initDiffViewListeners } from './components/diff-view';
+import type {
+    PipelineState,
+    StageName,
+    StageResult,
+    StageComparison,
+    GenerationProgressCallback,
+    Character,
+    IterationSnapshot,
+    AutoIterateLogEntry,
+    AutoIterateStopReason,
+    TokenUsage,
+    UsageLedger,
+} from '../types';
 
 // ============================================================================
 // STATE
@@ -105,11 +154,25 @@ let popupState: {
     abortController: AbortController | null;
     activeStageView: StageName;
     historyLoaded: boolean;
+    comparison: StageComparison | null;
+    characterUsage: UsageLedger;  // All sessions for the selected character, kept through resets
+    autoIterate: {
+        running: boolean;
+        stopRequested: boolean;
+        tokensUsed: number;
+        log: AutoIterateLogEntry[];
+    };
     debouncedFunctions: Array<{ cancel: () => void }>;
 } | null = null;
 
 let popupElement: HTMLElement | null = null;
 
+const SESSION_SAVE_DELAY_MS = 1000;
+let sessionSaveDebounced: ((() => void) & { cancel: () => void }) | null = null;
+
+// How often streamed text is re-rendered while a response comes in
+const STREAM_RENDER_INTERVAL_MS = 150;
+
 // ============================================================================
 // EVENT MANAGEMENT
 // ============================================================================
@@ -226,7 +289,7 @@ function refreshSelectedCharacter(editedId?: number): void {
     if (index >= 0 && index < charList.length) {
         const updatedChar = charList[index];
 
-        if (updatedChar.name === popupState.pipeline.character?.name) {
+        if (popupState.pipeline.character && isSameCharacter(updatedChar, popupState.pipeline.character)) {
             popupState.pipeline = {
                 ...popupState.pipeline,
                 character: updatedChar,
@@ -275,6 +338,7 @@ function handleCharacterInvalidated(): void {
     if (!popupState) return;
 
     // Abort any running generation
+    popupState.autoIterate.stopRequested = popupState.autoIterate.running;
     if (popupState.abortController) {
         popupState.abortController.abort();
     }
@@ -283,6 +347,7 @@ function handleCharacterInvalidated(): void {
 
     popupState.pipeline = setCharacter(popupState.pipeline, null, null);
     popupState.isGenerating = false;
+    popupState.comparison = null;
     popupState.isRefining = false;
     popupState.abortController = null;
     popupState.historyLoaded = false;
@@ -303,13 +368,14 @@ function initGlobalListeners(): void {
         // Ctrl+Enter to run current stage
         if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
             e.preventDefault();
-            if (!popupState.isGenerating && !popupState.isRefining) {
+            if (!popupState.isGenerating && !popupState.isRefining && !popupState.autoIterate.running) {
                 runSingleStage(popupState.activeStageView);
             }
         }
 
-        // Escape to cancel generation
+        // Escape to cancel generation (and stop the auto-iterate loop)
         if (e.key === 'Escape' && (popupState.isGenerating || popupState.isRefining) && popupState.abortController) {
+            popupState.autoIterate.stopRequested = popupState.autoIterate.running;
             popupState.abortController.abort();
         }
     };
@@ -346,6 +412,14 @@ export async function openMainPopup(): Promise<void> {
         abortController: null,
         activeStageView: 'score',
         historyLoaded: false,
+        comparison: null,
+        characterUsage: {},
+        autoIterate: {
+            running: false,
+            stopRequested: false,
+            tokensUsed: 0,
+            log: [],
+        },
         debouncedFunctions: [],
     };
 
@@ -372,12 +446,9 @@ export async function openMainPopup(): Promise<void> {
             popupState.abortController.abort();
         }
 
-        // ADDED: Clear iteration history on close
-        if (popupState?.pipeline.character) {
-            await clearIterationHistory(popupState.pipeline.character);
-            debugLog('info', 'Iteration history cleared on popup close', {
-                character: popupState.pipeline.character.name,
-            });
+        // Save the session so reopening picks up where we left off
+        if (popupState?.pipeline.character && popupState.historyLoaded) {
+            await saveSession(popupState.pipeline);
         }
 
         unsubscribeEvents();
@@ -413,6 +484,8 @@ export async function openMainPopup(): Promise<void> {
         updateAllComponents();
 
         debugLog('info', 'Popup opened', { characterCount: charList.length });
+
+        await restoreLastSession(charList);
     } catch (e) {
         logError('Failed to initialize popup components', e);
         toastr.error('Character Tools opened but some features may not work.');
@@ -439,6 +512,13 @@ function buildPopupContent(): string {
             <i class="fa-solid fa-circle"></i>
             <span>${apiInfo.source}</span>
           </div>
+          <div id="${MODULE_NAME}_usage_summary" class="${MODULE_NAME}_usage_summary hidden"></div>
+          <button id="${MODULE_NAME}_batch_btn" class="${MODULE_NAME}_icon_btn" title="Batch Run">
+            <i class="fa-solid fa-list-check"></i>
+          </button>
+          <button id="${MODULE_NAME}_backups_btn" class="${MODULE_NAME}_icon_btn" title="Card Backups">
+            <i class="fa-solid fa-box-archive"></i>
+          </button>
           <button id="${MODULE_NAME}_settings_btn" class="${MODULE_NAME}_icon_btn" title="Settings">
             <i class="fa-solid fa-gear"></i>
           </button>
@@ -473,7 +553,7 @@ function buildPopupContent(): string {
           <!-- Stage Config Section -->
           <div class="${MODULE_NAME}_section" id="${MODULE_NAME}_stage_section">
             <div class="${MODULE_NAME}_section_header">
-              <i class="fa-solid ${STAGE_ICONS.score}" id="${MODULE_NAME}_stage_icon"></i>
+              <i class="fa-solid ${getStageIcon('score')}" id="${MODULE_NAME}_stage_icon"></i>
               <span id="${MODULE_NAME}_stage_title">Score</span>
             </div>
             <div id="${MODULE_NAME}_stage_config_container"></div>
@@ -492,6 +572,9 @@ function buildPopupContent(): string {
             <div id="${MODULE_NAME}_results_container"></div>
           </div>
 
+          <!-- Auto-Iterate Log -->
+          <div id="${MODULE_NAME}_auto_iterate_container"></div>
+
           <!-- Iteration History -->
           <div id="${MODULE_NAME}_iteration_history_container"></div>
         </div>
@@ -538,6 +621,7 @@ function initComponents(characters: Character[]): void {
             popupState.pipeline.configs[popupState.activeStageView],
             null,
             !!popupState.pipeline.character,
+            getPromptIssues(),
         );
         initStageConfigListeners();
     }
@@ -550,6 +634,7 @@ function initComponents(characters: Character[]): void {
             popupState.pipeline.results[popupState.activeStageView],
             popupState.pipeline.stageStatus[popupState.activeStageView],
             popupState.isGenerating,
+            getVerdictRules(popupState.pipeline),
         );
         initResultsPanelListeners();
     }
@@ -565,13 +650,43 @@ function initComponents(characters: Character[]): void {
         initIterationHistoryListeners();
     }
 
+    // Auto-iterate log
+    const autoContainer = popupElement.querySelector(`#${MODULE_NAME}_auto_iterate_container`);
+    if (autoContainer) {
+        autoContainer.innerHTML = renderAutoIterateLog(
+            popupState.autoIterate.log,
+            popupState.autoIterate.running,
+            popupState.autoIterate.tokensUsed,
+            getSettings().autoIterate.tokenBudget,
+        );
+        initAutoIterateLogListeners();
+    }
+
     // Header buttons
+    popupElement.querySelector(`#${MODULE_NAME}_batch_btn`)?.addEventListener('click', () => {
+        showBatch();
+    });
+
+    popupElement.querySelector(`#${MODULE_NAME}_backups_btn`)?.addEventListener('click', () => {
+        showBackups();
+    });
+
     popupElement.querySelector(`#${MODULE_NAME}_settings_btn`)?.addEventListener('click', () => {
-        openSettingsModal(() => {
+        // Sessions can be re-attached from settings - make sure ours is on disk first
+        if (popupState?.pipeline.character && popupState.historyLoaded) {
+            saveSession(popupState.pipeline);
+        }
+
+        openSettingsModal(({ sessionsChanged }) => {
             if (popupState) {
+                syncCustomStages();
                 checkForDeletedPresetReferences();
             }
             updateAllComponents();
+
+            if (sessionsChanged) {
+                reloadCurrentSession();
+            }
         });
     });
 
@@ -584,13 +699,36 @@ function initComponents(characters: Character[]): void {
     });
 }
 
+/**
+ * Pick up custom stages added or deleted in settings
+ */
+function syncCustomStages(): void {
+    if (!popupState || !popupElement) return;
+
+    popupState.pipeline = syncPipelineStages(popupState.pipeline);
+    if (!stageExists(popupState.activeStageView)) {
+        popupState.activeStageView = 'score';
+    }
+
+    // Stage nodes are only rendered once - rebuild them (listeners are delegated to the container)
+    const container = popupElement.querySelector(`#${MODULE_NAME}_pipeline_nav_container`);
+    if (container) {
+        container.innerHTML = renderPipelineNav(
+            popupState.pipeline.selectedStages,
+            popupState.pipeline.stageStatus,
+            popupState.activeStageView,
+            !!popupState.pipeline.character,
+        );
+    }
+}
+
 /**
  * Check if current pipeline configs reference deleted presets and clear them
  */
 function checkForDeletedPresetReferences(): void {
     if (!popupState) return;
 
-    for (const stage of STAGES) {
+    for (const stage of getStageOrder()) {
         const config = popupState.pipeline.configs[stage];
 
         if (config.promptPresetId && !getPromptPreset(config.promptPresetId)) {
@@ -729,6 +867,7 @@ function initCharacterSelectListeners(): void {
             if (!popupState) return;
             popupState.pipeline = setCharacter(popupState.pipeline, null, null);
             popupState.historyLoaded = false;
+            popupState.comparison = null;
             updateAllComponents();
             return;
         }
@@ -814,26 +953,23 @@ function initCharacterSelectListeners(): void {
 async function selectCharacter(char: Character, index: number): Promise<void> {
     if (!popupState) return;
 
+    // Re-selecting the open character would reload a possibly stale save over it
+    if (popupState.pipeline.characterIndex === index && popupState.historyLoaded) return;
+
+    // Save the outgoing character before its pending save is overtaken by the new one
+    if (popupState.pipeline.character && popupState.historyLoaded) {
+        saveSession(popupState.pipeline);
+    }
+
     const selectedIndex = index;
 
     popupState.pipeline = setCharacter(popupState.pipeline, char, index);
     popupState.historyLoaded = false;
+    popupState.comparison = null;
     updateAllComponents();
 
-    const history = await loadIterationHistory(char);
-
-    if (popupState && popupState.pipeline.characterIndex === selectedIndex) {
-        if (history && history.length > 0) {
-            popupState.pipeline = {
-                ...popupState.pipeline,
-                iterationHistory: history,
-                iterationCount: history.length,
-            };
-            debugLog('info', 'Loaded iteration history', { count: history.length });
-        }
-        popupState.historyLoaded = true;
-        updateIterationHistory();
-    }
+    setLastSessionCharacter(char);
+    await loadSession(char, selectedIndex);
 
     setTimeout(async () => {
         if (!popupElement || !popupState?.pipeline.character) return;
@@ -850,6 +986,126 @@ async function selectCharacter(char: Character, index: number): Promise<void> {
     debugLog('info', 'Character selected', { name: char.name, index });
 }
 
+/**
+ * Load the saved session for the selected character into the pipeline
+ */
+async function loadSession(char: Character, selectedIndex: number): Promise<void> {
+    const session = await loadPipelineSession(char);
+    const characterUsage = await loadCharacterUsage(char);
+
+    if (!popupState || popupState.pipeline.characterIndex !== selectedIndex) return;
+
+    const { characters } = SillyTavern.getContext();
+    const restored = session ? deserializePipelineState(session.state, characters as Character[]) : null;
+
+    if (session && restored?.character) {
+        popupState.pipeline = restoreSessionState(restored);
+        popupState.activeStageView = getLastCompletedStage() ?? popupState.activeStageView;
+        debugLog('info', 'Session restored', {
+            savedAt: new Date(session.savedAt).toISOString(),
+            historyLength: restored.iterationHistory.length,
+        });
+    }
+
+    popupState.characterUsage = characterUsage;
+    popupState.historyLoaded = true;
+    updateAllComponents();
+}
+
+/**
+ * Reload the current character's session after it was replaced from outside the popup
+ */
+async function reloadCurrentSession(): Promise<void> {
+    if (!popupState?.pipeline.character || popupState.pipeline.characterIndex === null) return;
+    if (popupState.isGenerating || popupState.isRefining || popupState.autoIterate.running) return;
+
+    const { character, characterIndex } = popupState.pipeline;
+    popupState.pipeline = resetPipeline(popupState.pipeline, true);
+    popupState.historyLoaded = false;
+    popupState.comparison = null;
+    await loadSession(character, characterIndex);
+}
+
+/**
+ * Merge a restored session into the fresh state for the same character.
+ * Sessions migrated from bare iteration history carry no results or configs, so those keep the fresh values.
+ */
+function restoreSessionState(restored: PipelineState): PipelineState {
+    if (!popupState) return restored;
+    const fresh = popupState.pipeline;
+
+    const hasFields = Object.keys(restored.selectedFields).length > 0;
+    const hasStages = restored.selectedStages.length > 0;
+
+    return {
+        ...restored,
+        character: fresh.character,
+        characterIndex: fresh.characterIndex,
+        selectedFields: hasFields ? restored.selectedFields : fresh.selectedFields,
+        selectedStages: hasStages ? restored.selectedStages : fresh.selectedStages,
+    };
+}
+
+function getLastCompletedStage(): StageName | null {
+    if (!popupState) return null;
+    const { stageStatus } = popupState.pipeline;
+    return [...getStageOrder()].reverse().find(s => stageStatus[s] === 'complete') ?? null;
+}
+
+/**
+ * Reopen the character from the last session, if it still exists
+ */
+async function restoreLastSession(characters: Character[]): Promise<void> {
+    const last = await getLastSessionCharacter();
+    if (!last || !popupState || popupState.pipeline.character) return;
+
+    const index = findCharacterIndex(characters, last.id, last.avatar);
+    if (index === -1) return;
+
+    await selectCharacter(characters[index], index);
+}
+
+/**
+ * Save the session. Sessions are keyed by the card's stable ID, which is written
+ * to the card the first time there's work worth keeping rather than when it's opened.
+ */
+async function saveSession(state: PipelineState): Promise<boolean> {
+    const { character, characterIndex } = state;
+    const hasWork = Object.values(state.results).some(Boolean) || state.iterationHistory.length > 0;
+
+    if (character && characterIndex !== null && hasWork) {
+        await ensureCharacterId(character, characterIndex);
+    }
+
+    return savePipelineSession(state);
+}
+
+/**
+ * Save the session shortly after the last change. Called from the update functions,
+ * which run after every state change that affects the UI.
+ */
+function scheduleSessionSave(): void {
+    if (!popupState) return;
+
+    if (!sessionSaveDebounced) {
+        const { lodash } = SillyTavern.libs;
+        const debounced = lodash.debounce(() => {
+            if (!popupState?.pipeline.character || !popupState.historyLoaded) return;
+            saveSession(popupState.pipeline);
+        }, SESSION_SAVE_DELAY_MS);
+
+        sessionSaveDebounced = debounced;
+        popupState.debouncedFunctions.push({
+            cancel: () => {
+                debounced.cancel();
+                sessionSaveDebounced = null;
+            },
+        });
+    }
+
+    sessionSaveDebounced?.();
+}
+
 // ============================================================================
 // PIPELINE NAV LISTENERS
 // ============================================================================
@@ -907,6 +1163,7 @@ function initPipelineNavListeners(): void {
 
             popupState.pipeline = resetPipeline(popupState.pipeline, true);
             popupState.historyLoaded = true;
+            popupState.comparison = null;
             updateAllComponents();
         }
     });
@@ -922,6 +1179,10 @@ function initStageConfigListeners(): void {
     const container = popupElement.querySelector(`#${MODULE_NAME}_stage_config_container`);
     if (!container) return;
 
+    initPlaceholderAutocomplete(container as HTMLElement, query =>
+        getPlaceholderSuggestions(query, popupState ? buildTemplateContext(popupState.pipeline) : {}),
+    );
+
     container.addEventListener('change', (e) => {
         const select = e.target as HTMLSelectElement;
 
@@ -941,6 +1202,26 @@ function initStageConfigListeners(): void {
             });
             updateStageConfigUI();
         }
+
+        if (select.classList.contains(`${MODULE_NAME}_override_field`) && popupState) {
+            const generation = readGenerationOverride(container as HTMLElement);
+
+            // A model picked for one source means nothing on another
+            if (select.dataset.key === 'source' && generation) {
+                delete generation.model;
+            }
+
+            // A profile brings its own source and model
+            if (select.dataset.key === 'profileId' && generation) {
+                delete generation.source;
+                delete generation.model;
+            }
+
+            popupState.pipeline = pipelineUpdateStageConfig(popupState.pipeline, popupState.activeStageView, {
+                generation,
+            });
+            updateStageConfigUI();
+        }
     });
 
     const { lodash } = SillyTavern.libs;
@@ -999,6 +1280,34 @@ function initStageConfigListeners(): void {
             return;
         }
 
+        const issue = target.closest(`.${MODULE_NAME}_template_issue`) as HTMLElement | null;
+        if (issue) {
+            focusPromptPosition(container as HTMLElement, Number(issue.dataset.line), Number(issue.dataset.column));
+            return;
+        }
+
+        if (target.closest(`#${MODULE_NAME}_override_clear_btn`) && popupState) {
+            popupState.pipeline = pipelineUpdateStageConfig(popupState.pipeline, popupState.activeStageView, {
+                generation: undefined,
+            });
+            updateStageConfigUI();
+            return;
+        }
+
+        if (target.closest(`#${MODULE_NAME}_override_save_default_btn`) && popupState) {
+            handleSaveGenerationDefault(
+                popupState.activeStageView,
+                popupState.pipeline.configs[popupState.activeStageView]?.generation,
+            );
+            return;
+        }
+
+        const compareBtn = target.closest(`#${MODULE_NAME}_compare_models_btn`);
+        if (compareBtn && popupState) {
+            await runComparison(popupState.activeStageView);
+            return;
+        }
+
         const savePromptBtn = target.closest(`#${MODULE_NAME}_save_prompt_preset_btn`);
         if (savePromptBtn && popupState) {
             const promptTextarea = popupElement?.querySelector(`#${MODULE_NAME}_custom_prompt`) as HTMLTextAreaElement;
@@ -1108,8 +1417,9 @@ function initResultsPanelListeners(): void {
 
         // Regenerate
         if (target.closest(`#${MODULE_NAME}_regenerate_btn`) && popupState) {
+            const bypassToggle = container.querySelector(`#${MODULE_NAME}_bypass_cache`) as HTMLInputElement | null;
             popupState.pipeline = clearStageResult(popupState.pipeline, popupState.activeStageView);
-            runSingleStage(popupState.activeStageView);
+            runSingleStage(popupState.activeStageView, bypassToggle?.checked ?? false);
         }
 
         // Lock/Unlock
@@ -1149,6 +1459,11 @@ function initResultsPanelListeners(): void {
             runRefinement();
         }
 
+        // Auto-iterate
+        if (target.closest(`#${MODULE_NAME}_auto_iterate_btn`) && popupState) {
+            runAutoIterate();
+        }
+
         // Accept rewrite
         if (target.closest(`#${MODULE_NAME}_accept_btn`) && popupState) {
             popupState.pipeline = acceptRewrite(popupState.pipeline);
@@ -1156,6 +1471,16 @@ function initResultsPanelListeners(): void {
             updateAllComponents();
         }
 
+        // Compare rewrite with original
+        if (target.closest(`#${MODULE_NAME}_diff_btn`) && popupState) {
+            await showRewriteDiff();
+        }
+
+        // Apply accepted rewrite to the card
+        if (target.closest(`#${MODULE_NAME}_apply_btn`) && popupState) {
+            await applyRewriteToCard();
+        }
+
         // Copy
         if (target.closest(`#${MODULE_NAME}_copy_btn`) && popupState) {
             const result = popupState.pipeline.results[popupState.activeStageView];
@@ -1170,6 +1495,19 @@ function initResultsPanelListeners(): void {
             exportSession();
         }
 
+        // Promote a comparison response to the stage result
+        const useBtn = target.closest(`.${MODULE_NAME}_comparison_use_btn`) as HTMLElement | null;
+        if (useBtn && popupState) {
+            promoteComparisonEntry(parseInt(useBtn.dataset.index || '', 10));
+        }
+
+        // Close comparison
+        if (target.closest(`#${MODULE_NAME}_comparison_close_btn`) && popupState) {
+            popupState.comparison = null;
+            container.innerHTML = '';
+            updateResultsPanel();
+        }
+
         // Cancel generation
         if (target.closest(`#${MODULE_NAME}_cancel_btn`) && popupState?.abortController) {
             popupState.abortController.abort();
@@ -1188,7 +1526,7 @@ function exportSession(): void {
     const pipeline = popupState.pipeline;
     const character = pipeline.character;
 
-    const content = generateExportData(pipeline);
+    const content = generateExportData(pipeline, popupState.characterUsage);
     if (!content) {
         toastr.error('Nothing to export');
         return;
@@ -1208,6 +1546,207 @@ function exportSession(): void {
     toastr.success('Session exported');
 }
 
+// ============================================================================
+// APPLY TO CARD
+// ============================================================================
+
+async function applyRewriteToCard(): Promise<void> {
+    if (!popupState?.pipeline.character || !popupState.pipeline.results.rewrite) return;
+
+    if (popupState.isGenerating || popupState.isRefining) {
+        toastr.warning('Wait for generation to finish');
+        return;
+    }
+
+    const { Popup, POPUP_TYPE, POPUP_RESULT } = SillyTavern.getContext();
+    const { DOMPurify } = SillyTavern.libs;
+    const pipeline = popupState.pipeline;
+    const character = pipeline.character as Character;
+    const rewrite = pipeline.results.rewrite as StageResult;
+
+    const parsed = parseRewrite(rewrite.response, character, pipeline.selectedFields);
+    const fields = excludeRejectedFields(parsed.fields, pipeline.rejectedFields);
+    const changes = buildWriteBackPlan(character, fields, pipeline.selectedFields);
+
+    if (changes.length === 0) {
+        toastr.warning('No changes found for the selected fields');
+        return;
+    }
+
+    const content = `
+      <div class="${MODULE_NAME}_apply_confirm">
+        <h3>Apply Rewrite to ${DOMPurify.sanitize(character.name, { ALLOWED_TAGS: [] })}?</h3>
+        <p>The following fields will be overwritten on the card:</p>
+        <ul>
+          ${changes.map(c => `<li>${c.label}</li>`).join('')}
+        </ul>
+        ${pipeline.rejectedFields.length > 0 ? `<p>Rejected in diff view (left unchanged): ${pipeline.rejectedFields.length}</p>` : ''}
+        ${parsed.missing.length > 0 ? `<p>Not found in rewrite (left unchanged): ${parsed.missing.join(', ')}</p>` : ''}
+        ${parsed.unparseable.length > 0 ? `<p>Could not parse: ${parsed.unparseable.join(', ')}</p>` : ''}
+        ${parsed.extra.length > 0 ? `<p>Not selected or not on the card (ignored): ${parsed.extra.map(e => DOMPurify.sanitize(e, { ALLOWED_TAGS: [] })).join(', ')}</p>` : ''}
+      </div>
+    `;
+
+    const result = await new Popup(DOMPurify.sanitize(content), POPUP_TYPE.CONFIRM, '', {
+        okButton: 'Apply',
+        cancelButton: 'Cancel',
+    }).show();
+
+    if (result !== POPUP_RESULT.AFFIRMATIVE) return;
+
+    const writeBack = await applyWriteBack(character, changes);
+
+    if (!writeBack.success) {
+        toastr.error(writeBack.error || 'Failed to apply rewrite');
+        return;
+    }
+
+    reloadCharacterByAvatar(character.avatar);
+
+    toastr.success(`Applied ${writeBack.applied.length} field(s) to ${character.name}`);
+}
+
+/**
+ * Re-resolve the selected character after ST reloaded the character list (order may change)
+ */
+function reloadCharacterByAvatar(avatar: string): void {
+    if (!popupState) return;
+
+    const charList = SillyTavern.getContext().characters as Character[];
+    const newIndex = charList.findIndex(c => c.avatar === avatar);
+
+    if (newIndex === -1) {
+        handleCharacterInvalidated();
+        return;
+    }
+
+    popupState.pipeline = {
+        ...popupState.pipeline,
+        characterIndex: newIndex,
+        character: charList[newIndex],
+    };
+    clearTokenCache();
+    updateCharacterSelect();
+    updateTokenEstimate();
+}
+
+// ============================================================================
+// BACKUPS
+// ============================================================================
+
+async function showBackups(): Promise<void> {
+    const character = popupState?.pipeline.character;
+    if (!character) {
+        toastr.warning('Select a character first');
+        return;
+    }
+
+    await openBackupsModal(character, () => reloadCharacterByAvatar(character.avatar));
+}
+
+// ============================================================================
+// BATCH
+// ============================================================================
+
+async function showBatch(): Promise<void> {
+    if (!popupState) return;
+
+    if (popupState.isGenerating || popupState.isRefining || popupState.autoIterate.running) {
+        toastr.warning('Wait for the current generation to finish');
+        return;
+    }
+
+    await openBatchModal(popupState.pipeline.selectedStages, popupState.pipeline.configs);
+
+    // The run may have spent tokens on the selected character
+    const character = popupState?.pipeline.character;
+    if (character) {
+        const characterUsage = await loadCharacterUsage(character);
+        if (popupState?.pipeline.character === character) {
+            popupState.characterUsage = characterUsage;
+            updateUsageSummary();
+        }
+    }
+}
+
+// ============================================================================
+// DIFF VIEW
+// ============================================================================
+
+async function showRewriteDiff(): Promise<void> {
+    if (!popupState?.pipeline.character || !popupState.pipeline.results.rewrite) return;
+
+    const pipeline = popupState.pipeline;
+    const character = pipeline.character as Character;
+    const parsed = parseRewrite((pipeline.results.rewrite as StageResult).response, character, pipeline.selectedFields);
+
+    if (Object.keys(parsed.fields).length === 0) {
+        toastr.warning('Could not find any fields in the rewrite to compare');
+        return;
+    }
+
+    const diffs = diffFields(getOriginalFields(character), parsed.fields, character, true);
+
+    await showDiffPopup(renderDiffView(diffs, {
+        title: `${character.name}: Original vs Rewrite`,
+        beforeLabel: 'Original',
+        afterLabel: 'Rewrite',
+        rejected: pipeline.rejectedFields,
+        showToggles: true,
+    }), (diffKey, rejected) => {
+        if (!popupState) return;
+        popupState.pipeline = setFieldRejected(popupState.pipeline, diffKey, rejected);
+        scheduleSessionSave();
+    });
+}
+
+async function showIterationDiff(snap: IterationSnapshot): Promise<void> {
+    if (!popupState?.pipeline.character || !popupState.pipeline.results.rewrite) {
+        toastr.warning('No current rewrite to compare against');
+        return;
+    }
+
+    const pipeline = popupState.pipeline;
+    const character = pipeline.character as Character;
+    const previous = parseRewrite(snap.rewriteResponse, character, pipeline.selectedFields);
+    const current = parseRewrite((pipeline.results.rewrite as StageResult).response, character, pipeline.selectedFields);
+
+    const diffs = diffFields(previous.fields, current.fields, character);
+
+    await showDiffPopup(renderDiffView(diffs, {
+        title: `Iteration #${snap.iteration + 1} vs Current`,
+        beforeLabel: `Iteration #${snap.iteration + 1}`,
+        afterLabel: 'Current',
+        rejected: [],
+        showToggles: false,
+    }));
+}
+
+async function showDiffPopup(content: string, onToggle?: (diffKey: string, rejected: boolean) => void): Promise<void> {
+    const { Popup, POPUP_TYPE } = SillyTavern.getContext();
+    const { DOMPurify } = SillyTavern.libs;
+
+    const popup = new Popup(DOMPurify.sanitize(content), POPUP_TYPE.TEXT, '', {
+        wide: true,
+        large: true,
+        allowVerticalScrolling: true,
+        okButton: 'Close',
+        cancelButton: false,
+    });
+
+    const closed = popup.show();
+
+    // Wait for DOM
+    await new Promise<void>(resolve => setTimeout(resolve, 0));
+
+    const diffView = document.getElementById(`${MODULE_NAME}_diff_view`);
+    if (diffView && onToggle) {
+        initDiffViewListeners(diffView, onToggle);
+    }
+
+    await closed;
+}
+
 // ============================================================================
 // PROMPT PREVIEW
 // ============================================================================
@@ -1221,8 +1760,9 @@ async function showPromptPreview(): Promise<void> {
     const { Popup, POPUP_TYPE, getTokenCountAsync } = SillyTavern.getContext();
     const { DOMPurify } = SillyTavern.libs;
 
+    const pipeline = popupState.pipeline;
     const stage = popupState.activeStageView;
-    const fullPrompt = buildStagePrompt(popupState.pipeline, stage);
+    const fullPrompt = buildStagePrompt(pipeline, stage);
     const systemPrompt = getFullSystemPrompt(stage);
 
     if (!fullPrompt) {
@@ -1234,9 +1774,23 @@ async function showPromptPreview(): Promise<void> {
     const systemTokens = await getTokenCountAsync(systemPrompt);
     const totalTokens = promptTokens + systemTokens;
 
+    const unfilled = getUnfilledPlaceholders(
+        resolvePrompt(pipeline.configs[stage]),
+        stage,
+        !!pipeline.results.score,
+        !!pipeline.results.rewrite,
+        pipeline.character,
+    );
+
     const content = `
       <div class="${MODULE_NAME}_prompt_preview">
-        <h3>Prompt Preview - ${STAGE_LABELS[stage]}</h3>
+        <h3>Prompt Preview - ${DOMPurify.sanitize(getStageLabel(stage), { ALLOWED_TAGS: [] })}</h3>
+
+        ${unfilled.length > 0 ? `
+          <ul class="${MODULE_NAME}_preview_warnings">
+            ${unfilled.map(warning => `<li>${DOMPurify.sanitize(warning, { ALLOWED_TAGS: [] })}</li>`).join('')}
+          </ul>
+        ` : ''}
 
         <div class="${MODULE_NAME}_preview_section">
           <div class="${MODULE_NAME}_preview_header">
@@ -1299,6 +1853,39 @@ function initIterationHistoryListeners(): void {
                 showIterationView(popupState.pipeline.iterationHistory[index]);
             }
         }
+
+        // Compare button
+        const compareBtn = target.closest(`.${MODULE_NAME}_iteration_compare_btn`);
+        if (compareBtn && popupState) {
+            const index = parseInt(compareBtn.getAttribute('data-index') || '-1', 10);
+            if (index >= 0 && index < popupState.pipeline.iterationHistory.length) {
+                await showIterationDiff(popupState.pipeline.iterationHistory[index]);
+            }
+        }
+    });
+}
+
+function initAutoIterateLogListeners(): void {
+    if (!popupElement || !popupState) return;
+
+    const container = popupElement.querySelector(`#${MODULE_NAME}_auto_iterate_container`);
+    if (!container) return;
+
+    container.addEventListener('click', (e) => {
+        const target = e.target as HTMLElement;
+        if (!popupState) return;
+
+        if (target.closest(`#${MODULE_NAME}_auto_stop_btn`)) {
+            popupState.autoIterate.stopRequested = true;
+            popupState.abortController?.abort();
+            logAutoIterate('warning', 'Stopping...');
+        }
+
+        if (target.closest(`#${MODULE_NAME}_auto_clear_btn`)) {
+            popupState.autoIterate.log = [];
+            popupState.autoIterate.tokensUsed = 0;
+            updateAutoIterateLog();
+        }
     });
 }
 
@@ -1321,9 +1908,7 @@ async function handleRevertToIteration(index: number): Promise<void> {
 
     toastr.info(`Reverted to iteration #${index + 1}`);
 
-    if (popupState.pipeline.character) {
-        await saveIterationHistory(popupState.pipeline.character, popupState.pipeline.iterationHistory);
-    }
+    await saveSession(popupState.pipeline);
 
     updateAllComponents();
 }
@@ -1349,7 +1934,7 @@ async function showIterationView(snap: IterationSnapshot): Promise<void> {
 // GENERATION
 // ============================================================================
 
-async function runSingleStage(stage: StageName): Promise<void> {
+async function runSingleStage(stage: StageName, bypassCache = false): Promise<void> {
     if (!popupState || popupState.isGenerating || popupState.isRefining) return;
 
     if (!isApiReady()) {
@@ -1374,12 +1959,15 @@ async function runSingleStage(stage: StageName): Promise<void> {
 
     const promptUsed = buildStagePrompt(popupState.pipeline, stage) || '';
     const schemaUsed = getStageSchema(popupState.pipeline, stage);
+    const streamRenderer = createStreamRenderer(popupState.pipeline.configs[stage].useStructuredOutput);
 
     try {
         const result = await runStageGeneration(
             popupState.pipeline,
             stage,
             popupState.abortController.signal,
+            streamRenderer,
+            bypassCache,
         );
 
         if (result.success) {
@@ -1388,8 +1976,19 @@ async function runSingleStage(stage: StageName): Promise<void> {
                 isStructured: result.isStructured,
                 promptUsed,
                 schemaUsed,
+                violations: result.violations,
+                repairs: result.repairs,
+                attempts: result.attempts,
+                usage: result.usage,
+                cachedAt: result.cachedAt,
             });
-            toastr.success(`${STAGE_LABELS[stage]} complete`);
+            await trackUsage(stage, result.usage);
+
+            if (result.violations?.length) {
+                toastr.warning(`${getStageLabel(stage)} response doesn't match its schema (${result.violations.length} issue${result.violations.length === 1 ? '' : 's'})`);
+            } else {
+                toastr.success(`${getStageLabel(stage)} complete`);
+            }
         } else {
             popupState.pipeline = failStage(popupState.pipeline, stage, result.error);
             if (result.error !== 'Generation cancelled') {
@@ -1400,12 +1999,127 @@ async function runSingleStage(stage: StageName): Promise<void> {
         popupState.pipeline = failStage(popupState.pipeline, stage, (e as Error).message);
         toastr.error((e as Error).message);
     } finally {
+        streamRenderer.cancel();
         popupState.isGenerating = false;
         popupState.abortController = null;
         updateAllComponents();
     }
 }
 
+/**
+ * Throttled progress handler that draws the streamed text into the results panel's loading view
+ */
+function createStreamRenderer(isStructured: boolean): GenerationProgressCallback & { cancel: () => void } {
+    const { lodash } = SillyTavern.libs;
+
+    return lodash.throttle((text: string) => {
+        const container = popupElement?.querySelector(`#${MODULE_NAME}_results_container`);
+        if (container) {
+            updateStreamPreview(container, text, isStructured);
+        }
+    }, STREAM_RENDER_INTERVAL_MS);
+}
+
+/**
+ * Run the stage on every comparison model and show the responses side by side
+ */
+async function runComparison(stage: StageName): Promise<void> {
+    if (!popupState || popupState.isGenerating || popupState.isRefining) return;
+
+    const configs = getSettings().comparisonConfigs;
+    if (configs.length === 0) {
+        toastr.warning('Add comparison models in Settings first');
+        return;
+    }
+
+    if (!isApiReady()) {
+        toastr.error('API is not connected');
+        return;
+    }
+
+    const canRun = canRunStage(popupState.pipeline, stage);
+    if (!canRun.canRun) {
+        toastr.warning(canRun.reason || 'Cannot run this stage');
+        return;
+    }
+
+    popupState.isGenerating = true;
+    popupState.abortController = new AbortController();
+    popupState.comparison = null;
+    updateStageConfigUI();
+    updatePipelineNav();
+
+    const resultsContainer = popupElement?.querySelector(`#${MODULE_NAME}_results_container`);
+    if (resultsContainer) {
+        resultsContainer.innerHTML = renderComparisonLoading(stage, configs.length);
+    }
+
+    try {
+        const result = await runStageComparison(
+            popupState.pipeline,
+            stage,
+            configs,
+            popupState.abortController.signal,
+        );
+
+        if (result.success) {
+            popupState.comparison = result.comparison;
+            for (const entry of result.comparison.entries) {
+                await trackUsage(stage, entry.usage);
+            }
+
+            const failed = result.comparison.entries.filter(e => e.response === null).length;
+            if (failed === result.comparison.entries.length) {
+                toastr.error('Every comparison model failed');
+            } else if (failed > 0) {
+                toastr.warning(`${failed} of ${result.comparison.entries.length} comparison models failed`);
+            }
+        } else if (result.error !== 'Generation cancelled') {
+            toastr.error(result.error);
+        }
+    } catch (e) {
+        toastr.error((e as Error).message);
+    } finally {
+        popupState.isGenerating = false;
+        popupState.abortController = null;
+        if (resultsContainer) resultsContainer.innerHTML = '';
+        updateAllComponents();
+    }
+}
+
+/**
+ * Use one comparison response as the stage result
+ */
+function promoteComparisonEntry(index: number): void {
+    if (!popupState?.comparison || popupState.isGenerating) return;
+
+    const { stage, promptUsed, schemaUsed } = popupState.comparison;
+    const entry = popupState.comparison.entries[index];
+    if (!entry || entry.response === null) return;
+
+    if (popupState.pipeline.results[stage]?.locked) {
+        toastr.warning(`${getStageLabel(stage)} result is locked - unlock it first`);
+        return;
+    }
+
+    popupState.pipeline = completeStage(popupState.pipeline, stage, {
+        response: entry.response,
+        isStructured: entry.isStructured,
+        promptUsed,
+        schemaUsed,
+        violations: entry.violations,
+        repairs: entry.repairs,
+        usage: entry.usage,
+    });
+    popupState.comparison = null;
+
+    const container = popupElement?.querySelector(`#${MODULE_NAME}_results_container`);
+    if (container) container.innerHTML = '';
+
+    toastr.success(`Using ${entry.config.model || entry.config.source} for ${getStageLabel(stage)}`);
+    updateAllComponents();
+}
+
 // CHANGED: runSelectedStages - run sequentially without pre-checking dependencies
 async function runSelectedStages(): Promise<void> {
     if (!popupState || popupState.isGenerating || popupState.isRefining) return;
@@ -1466,7 +2180,7 @@ async function runSelectedStages(): Promise<void> {
 async function runAllStages(): Promise<void> {
     if (!popupState) return;
 
-    popupState.pipeline = setSelectedStages(popupState.pipeline, [...STAGES]);
+    popupState.pipeline = setSelectedStages(popupState.pipeline, getStageOrder());
     updatePipelineNav();
     updateResultsPanel();  // ADD - footer options depend on selected stages
 
@@ -1521,11 +2235,14 @@ async function runRefinement(): Promise<void> {
     updateIterationIndicator();
     updateIterationHistory();
 
+    const streamRenderer = createStreamRenderer(false);
+
     try {
         // Use captured state that still has analyze result
         const result = await runRefinementGeneration(
             stateForGeneration,
             popupState.abortController.signal,
+            streamRenderer,
         );
 
         if (result.success) {
@@ -1534,13 +2251,15 @@ async function runRefinement(): Promise<void> {
                 isStructured: false,
                 promptUsed: '[Refinement prompt]',
                 schemaUsed: null,
+                attempts: result.attempts,
+                usage: result.usage,
+                cachedAt: result.cachedAt,
             });
+            await trackUsage(REFINEMENT_USAGE_KEY, result.usage);
 
             toastr.success(`Refinement #${popupState.pipeline.iterationCount} complete`);
 
-            if (popupState.pipeline.character) {
-                await saveIterationHistory(popupState.pipeline.character, popupState.pipeline.iterationHistory);
-            }
+            await saveSession(popupState.pipeline);
 
             // Switch to rewrite view to show the new result
             popupState.activeStageView = 'rewrite';
@@ -1584,12 +2303,197 @@ async function runRefinement(): Promise<void> {
 
         toastr.error((e as Error).message);
     } finally {
+        streamRenderer.cancel();
         popupState.isRefining = false;
         popupState.abortController = null;
         updateAllComponents();
     }
 }
 
+// ============================================================================
+// AUTO-ITERATE
+// ============================================================================
+
+const STOP_REASON_MESSAGES: Record<AutoIterateStopReason, string> = {
+    accepted: 'Analysis verdict is ACCEPT',
+    score_threshold: 'Soul preservation score reached the threshold',
+    max_iterations: 'Reached the maximum number of refinements',
+    token_budget: 'Next step would exceed the token budget',
+    regression: 'Analysis verdict is REGRESSION',
+    cancelled: 'Stopped',
+    error: 'Stopped after a failed step',
+};
+
+/**
+ * Analyze and refine in a loop until a stop condition is hit.
+ * Each step reuses runSingleStage/runRefinement, so state handling and toasts match manual runs.
+ */
+async function runAutoIterate(): Promise<void> {
+    if (!popupState || popupState.isGenerating || popupState.isRefining || popupState.autoIterate.running) return;
+
+    if (!isApiReady()) {
+        toastr.error('API is not connected');
+        return;
+    }
+
+    const rewrite = popupState.pipeline.results.rewrite;
+    if (!rewrite) {
+        toastr.warning('Run the rewrite stage first');
+        return;
+    }
+    if (rewrite.locked) {
+        toastr.warning('Rewrite is accepted as final');
+        return;
+    }
+
+    const config = getSettings().autoIterate;
+
+    popupState.autoIterate = {
+        running: true,
+        stopRequested: false,
+        tokensUsed: 0,
+        log: [],
+    };
+
+    const limits = [
+        `max ${config.maxIterations} refinements`,
+        config.scoreThreshold !== null ? `score ≥ ${config.scoreThreshold}` : null,
+        config.tokenBudget !== null ? `${config.tokenBudget.toLocaleString()} token budget` : null,
+    ].filter(Boolean).join(', ');
+    logAutoIterate('info', `Started (${limits})`);
+    debugLog('info', 'Auto-iterate started', config);
+
+    let refinements = 0;
+    let reason: AutoIterateStopReason;
+
+    while (true) {
+        if (!popupState) return;
+
+        if (popupState.autoIterate.stopRequested) {
+            reason = 'cancelled';
+            break;
+        }
+
+        // Check stop conditions once the current rewrite has an analysis
+        const needsAnalysis = !popupState.pipeline.results.analyze;
+        if (!needsAnalysis) {
+            const stop = getAutoIterateStopReason(popupState.pipeline, config, refinements);
+            if (stop) {
+                reason = stop;
+                break;
+            }
+        }
+
+        // Check the budget before spending anything
+        const promptTokens = await countAutoIteratePromptTokens(needsAnalysis);
+        if (config.tokenBudget !== null && popupState.autoIterate.tokensUsed + promptTokens > config.tokenBudget) {
+            reason = 'token_budget';
+            break;
+        }
+
+        let response: string | null;
+
+        if (needsAnalysis) {
+            logAutoIterate('info', `Analyzing iteration #${popupState.pipeline.iterationCount + 1}...`);
+            popupState.activeStageView = 'analyze';
+            await runSingleStage('analyze');
+            if (!popupState) return;
+
+            const analysis = popupState.pipeline.results.analyze;
+            response = analysis?.response ?? null;
+            if (analysis && response) {
+                const rules = getVerdictRules(popupState.pipeline);
+                const score = extractScore(response, analysis.isStructured, rules);
+                logAutoIterate(
+                    'info',
+                    `Verdict: ${extractVerdict(response, analysis.isStructured, rules).replace('_', ' ').toUpperCase()}${score !== null ? `, score ${score}/10` : ''}`,
+                );
+            }
+        } else {
+            const before = popupState.pipeline.iterationCount;
+            logAutoIterate('info', `Refining (iteration #${before + 2})...`);
+            await runRefinement();
+            if (!popupState) return;
+
+            // runRefinement restores the old count on failure
+            response = popupState.pipeline.iterationCount > before
+                ? popupState.pipeline.results.rewrite?.response ?? null
+                : null;
+            if (response) refinements++;
+        }
+
+        if (!response) {
+            reason = popupState.autoIterate.stopRequested ? 'cancelled' : 'error';
+            break;
+        }
+
+        const { getTokenCountAsync } = SillyTavern.getContext();
+        popupState.autoIterate.tokensUsed += promptTokens + await getTokenCountAsync(response);
+        updateAutoIterateLog();
+    }
+
+    if (!popupState) return;
+
+    if (reason === 'regression') {
+        await revertAfterRegression();
+    }
+
+    const level = reason === 'accepted' || reason === 'score_threshold'
+        ? 'success'
+        : reason === 'error' || reason === 'regression' ? 'error' : 'warning';
+    logAutoIterate(level, `${STOP_REASON_MESSAGES[reason]} - done after ${refinements} refinement${refinements === 1 ? '' : 's'}`);
+    debugLog('info', 'Auto-iterate finished', { reason, refinements, tokensUsed: popupState.autoIterate.tokensUsed });
+
+    popupState.autoIterate.running = false;
+    popupState.activeStageView = popupState.pipeline.results.analyze ? 'analyze' : 'rewrite';
+    updateAllComponents();
+
+    if (level === 'success') {
+        toastr.success(STOP_REASON_MESSAGES[reason], 'Auto-iterate finished');
+    } else {
+        toastr.info(STOP_REASON_MESSAGES[reason], 'Auto-iterate finished');
+    }
+}
+
+/**
+ * Prompt tokens for the next auto-iterate step (analyze or refine)
+ */
+async function countAutoIteratePromptTokens(isAnalyze: boolean): Promise<number> {
+    if (!popupState) return 0;
+
+    const counts = isAnalyze
+        ? await getStageTokenCount(popupState.pipeline, 'analyze')
+        : await getRefinementTokenCount(popupState.pipeline);
+
+    return counts?.promptTokens ?? 0;
+}
+
+/**
+ * Roll back to the best earlier snapshot after a REGRESSION verdict
+ */
+async function revertAfterRegression(): Promise<void> {
+    if (!popupState) return;
+
+    const best = findBestIteration(popupState.pipeline.iterationHistory);
+    if (best === -1) {
+        logAutoIterate('warning', 'No earlier iteration to revert to');
+        return;
+    }
+
+    const snap = popupState.pipeline.iterationHistory[best];
+    popupState.pipeline = revertToIteration(popupState.pipeline, best);
+    logAutoIterate('warning', `Reverted to iteration #${snap.iteration + 1} (${snap.verdict.replace('_', ' ')}${typeof snap.score === 'number' ? `, score ${snap.score}/10` : ''})`);
+
+    await saveSession(popupState.pipeline);
+}
+
+function logAutoIterate(level: AutoIterateLogEntry['level'], message: string): void {
+    if (!popupState) return;
+
+    popupState.autoIterate.log.push({ timestamp: Date.now(), level, message });
+    updateAutoIterateLog();
+}
+
 // ============================================================================
 // UPDATE FUNCTIONS
 // ============================================================================
@@ -1602,11 +2506,85 @@ function updateAllComponents(): void {
     updateTokenEstimate();
     updateIterationIndicator();
     updateIterationHistory();
+    updateAutoIterateLog();
+    updateUsageSummary();
+}
+
+/**
+ * Session token and cost total in the header, then the character's total across all sessions
+ * when it's more. Per-stage breakdowns on hover.
+ */
+function updateUsageSummary(): void {
+    if (!popupElement || !popupState) return;
+
+    const summary = popupElement.querySelector(`#${MODULE_NAME}_usage_summary`) as HTMLElement | null;
+    if (!summary) return;
+
+    const session = describeUsage(popupState.pipeline.usage);
+    const allSessions = describeUsage(popupState.characterUsage);
+    const showAll = allSessions && allSessions.text !== session?.text;
+
+    summary.classList.toggle('hidden', !session && !allSessions);
+    if (!session && !allSessions) return;
+
+    const name = popupState.pipeline.character?.name ?? 'this character';
+
+    summary.innerHTML = `
+      <i class="fa-solid fa-coins"></i>
+      <span class="${MODULE_NAME}_usage_session"></span>
+      <span class="${MODULE_NAME}_usage_all_sessions"></span>
+    `;
+
+    const sessionSpan = summary.querySelector(`.${MODULE_NAME}_usage_session`) as HTMLElement;
+    sessionSpan.textContent = session?.text ?? '';
+    sessionSpan.title = session ? `Tokens spent this session\n${session.breakdown}` : '';
+
+    const allSpan = summary.querySelector(`.${MODULE_NAME}_usage_all_sessions`) as HTMLElement;
+    allSpan.classList.toggle('hidden', !showAll);
+    allSpan.textContent = showAll ? `All sessions: ${allSessions.text}` : '';
+    allSpan.title = showAll ? `Tokens spent on ${name} in all sessions and batch runs\n${allSessions.breakdown}` : '';
+}
+
+/**
+ * Total and per-stage breakdown for a ledger, or null when it's empty
+ */
+function describeUsage(usage: UsageLedger): { text: string; breakdown: string } | null {
+    const total = flattenLedger(usage);
+    if (total.length === 0) return null;
+
+    const prices = getSettings().modelPrices;
+    const totals = summarizeUsage(total, prices);
+    const breakdown = Object.entries(usage)
+        .filter(([, usages]) => usages.length > 0)
+        .map(([bucket, usages]) => `${getUsageLabel(bucket)}: ${formatUsageTotals(summarizeUsage(usages, prices))}`);
+
+    if (totals.unpricedModels.length > 0) {
+        breakdown.push(`No price set for: ${totals.unpricedModels.join(', ')}`);
+    }
+
+    return { text: formatUsageTotals(totals), breakdown: breakdown.join('\n') };
+}
+
+/**
+ * Add a generation's usage to the session and to the character's ledger across sessions
+ */
+async function trackUsage(bucket: StageName, usage: TokenUsage | undefined): Promise<void> {
+    if (!popupState?.pipeline.character || !usage) return;
+
+    const { character } = popupState.pipeline;
+    popupState.pipeline = recordUsage(popupState.pipeline, bucket, usage);
+
+    const ledger = await recordCharacterUsage(character, bucket, usage);
+    if (ledger && popupState?.pipeline.character === character) {
+        popupState.characterUsage = ledger;
+    }
 }
 
 function updateCharacterSelect(): void {
     if (!popupElement || !popupState) return;
 
+    scheduleSessionSave();
+
     const container = popupElement.querySelector(`#${MODULE_NAME}_character_select_container`);
     if (container) {
         updateCharacterSelectState(
@@ -1621,6 +2599,8 @@ function updateCharacterSelect(): void {
 function updatePipelineNav(): void {
     if (!popupElement || !popupState) return;
 
+    scheduleSessionSave();
+
     const container = popupElement.querySelector(`#${MODULE_NAME}_pipeline_nav_container`);
     if (container) {
         updatePipelineNavState(
@@ -1641,10 +2621,10 @@ function updateStageSection(): void {
     const title = popupElement.querySelector(`#${MODULE_NAME}_stage_title`);
 
     if (icon) {
-        icon.className = `fa-solid ${STAGE_ICONS[popupState.activeStageView]}`;
+        icon.className = `fa-solid ${getStageIcon(popupState.activeStageView)}`;
     }
     if (title) {
-        title.textContent = STAGE_LABELS[popupState.activeStageView];
+        title.textContent = getStageLabel(popupState.activeStageView);
     }
 
     updateStageConfigUI();
@@ -1653,6 +2633,8 @@ function updateStageSection(): void {
 function updateStageConfigUI(): void {
     if (!popupElement || !popupState) return;
 
+    scheduleSessionSave();
+
     const container = popupElement.querySelector(`#${MODULE_NAME}_stage_config_container`);
     if (container) {
         updateStageConfigState(
@@ -1661,14 +2643,47 @@ function updateStageConfigUI(): void {
             popupState.pipeline.configs[popupState.activeStageView],
             popupState.isGenerating || popupState.isRefining,
             !!popupState.pipeline.character,
+            getPromptIssues(),
         );
     }
 }
 
+/**
+ * Lint the active stage's prompt against the results and character the pipeline has now
+ */
+function getPromptIssues(): PromptLintIssue[] {
+    if (!popupState) return [];
+
+    const { pipeline, activeStageView: stage } = popupState;
+    return lintPrompt(resolvePrompt(pipeline.configs[stage]), {
+        stage,
+        hasScore: !!pipeline.results.score,
+        hasRewrite: !!pipeline.results.rewrite,
+        character: pipeline.character,
+    });
+}
+
 function updateResultsPanel(): void {
     if (!popupElement || !popupState) return;
 
+    scheduleSessionSave();
+
     const container = popupElement.querySelector(`#${MODULE_NAME}_results_container`);
+
+    // A comparison for this stage takes the panel until a response is used or it's closed
+    const comparison = popupState.comparison;
+    if (container && comparison?.stage === popupState.activeStageView && !popupState.isGenerating) {
+        if (container.querySelector(`.${MODULE_NAME}_comparison`)?.getAttribute('data-timestamp') !== String(comparison.timestamp)) {
+            container.innerHTML = renderComparisonPanel(comparison, getVerdictRules(popupState.pipeline));
+        }
+        return;
+    }
+
+    // Clear a comparison left over from another stage before the normal render
+    if (container?.querySelector(`.${MODULE_NAME}_comparison`)) {
+        container.innerHTML = '';
+    }
+
     if (container) {
         updateResultsPanelState(
             container as HTMLElement,
@@ -1699,6 +2714,21 @@ function updateIterationIndicator(): void {
     }
 }
 
+function updateAutoIterateLog(): void {
+    if (!popupElement || !popupState) return;
+
+    const container = popupElement.querySelector(`#${MODULE_NAME}_auto_iterate_container`);
+    if (container) {
+        updateAutoIterateLogState(
+            container as HTMLElement,
+            popupState.autoIterate.log,
+            popupState.autoIterate.running,
+            popupState.autoIterate.tokensUsed,
+            getSettings().autoIterate.tokenBudget,
+        );
+    }
+}
+
 function updateIterationHistory(): void {
     if (!popupElement || !popupState) return;
 
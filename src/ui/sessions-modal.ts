@@ -0,0 +1,261 @@
+// src/ui/sessions-modal.ts
+//
+// Session manager popup - every stored session with its size and whether the
+// character still exists. Sessions can be deleted, exported and imported as JSON
+// to move them between machines.
+
+import { MODULE_NAME } from '../constants';
+import {
+    listSessions,
+    deleteSessionByKey,
+    clearAllPipelineSessions,
+    exportSessions,
+    importSessions,
+} from '../persistence';
+import { findCharacterIndex } from '../identity';
+import { getSettings } from '../settings';
+import { summarizeUsage, formatUsageTotals } from '../usage';
+import { getStageLabel } from '../stages';
+import { debugLog } from '../debug';
+import type { Character, SessionSummary } from '../types';
+
+// ============================================================================
+// MAIN ENTRY
+// ============================================================================
+
+/**
+ * Open the session manager. Resolves to true if any session was deleted or imported.
+ */
+export async function openSessionsModal(): Promise<boolean> {
+    const { Popup, POPUP_TYPE } = SillyTavern.getContext();
+    const { DOMPurify } = SillyTavern.libs;
+
+    const sessions = await listSessions();
+    let changed = false;
+
+    const popup = new Popup(DOMPurify.sanitize(buildSessionsContent(sessions)), POPUP_TYPE.TEXT, '', {
+        wide: true,
+        allowVerticalScrolling: true,
+        okButton: 'Close',
+        cancelButton: false,
+    });
+
+    const closed = popup.show();
+
+    // Wait for DOM
+    await new Promise<void>(resolve => setTimeout(resolve, 0));
+
+    initSessionsListeners(() => {
+        changed = true;
+    });
+    debugLog('info', 'Session manager opened', { count: sessions.length });
+
+    await closed;
+    return changed;
+}
+
+// ============================================================================
+// BUILD CONTENT
+// ============================================================================
+
+function buildSessionsContent(sessions: SessionSummary[]): string {
+    return `
+    <div class="${MODULE_NAME}_backups_modal" id="${MODULE_NAME}_sessions_modal">
+      <div class="${MODULE_NAME}_backups_header">
+        <i class="fa-solid fa-floppy-disk"></i>
+        <span>Saved Sessions</span>
+      </div>
+      <p class="${MODULE_NAME}_settings_hint">
+        Export sessions to move them to another machine. On import, a character's existing session is only replaced by a newer one.
+        Sessions whose character is missing can be attached to another character with Find Orphaned Sessions.
+      </p>
+      <div class="${MODULE_NAME}_settings_row">
+        <button id="${MODULE_NAME}_sessions_export_all" class="menu_button">
+          <i class="fa-solid fa-file-export"></i>
+          Export All
+        </button>
+        <button id="${MODULE_NAME}_sessions_import" class="menu_button">
+          <i class="fa-solid fa-file-import"></i>
+          Import
+        </button>
+        <button id="${MODULE_NAME}_sessions_clear_all" class="menu_button">
+          <i class="fa-solid fa-trash"></i>
+          Clear All
+        </button>
+        <input type="file" id="${MODULE_NAME}_sessions_file" accept=".json,application/json" hidden>
+      </div>
+      <div id="${MODULE_NAME}_sessions_list" class="${MODULE_NAME}_backups_list">
+        ${renderSessionList(sessions)}
+      </div>
+    </div>
+  `;
+}
+
+function renderSessionList(sessions: SessionSummary[]): string {
+    if (sessions.length === 0) {
+        return `<div class="${MODULE_NAME}_backups_empty">No saved sessions</div>`;
+    }
+
+    const { moment } = SillyTavern.libs;
+    const characters = getCharacters();
+    const prices = getSettings().modelPrices;
+
+    return sessions.map(session => {
+        const exists = findCharacterIndex(characters, session.characterId, session.characterAvatar) !== -1;
+
+        return `
+    <div class="${MODULE_NAME}_backup_item" data-key="${escapeHtml(session.key)}">
+      <div class="${MODULE_NAME}_backup_info">
+        <span class="${MODULE_NAME}_backup_time">
+          ${escapeHtml(session.characterName || 'Unknown')}
+          ${exists ? '' : `<span class="${MODULE_NAME}_badge ${MODULE_NAME}_badge_locked" title="No character matches this session">Missing</span>`}
+        </span>
+        <span class="${MODULE_NAME}_backup_reason">
+          ${session.iterationCount} iteration${session.iterationCount === 1 ? '' : 's'}
+          · saved ${moment(session.savedAt).fromNow()}
+          · ${formatSize(session.size)}
+          ${session.usage.length > 0 ? `· ${escapeHtml(formatUsageTotals(summarizeUsage(session.usage, prices)))}` : ''}
+          ${session.completedStages.length > 0 ? `· ${session.completedStages.map(s => escapeHtml(getStageLabel(s))).join(', ')}` : ''}
+        </span>
+      </div>
+      <div class="${MODULE_NAME}_backup_actions">
+        <button class="${MODULE_NAME}_session_export menu_button" data-key="${escapeHtml(session.key)}" title="Export as JSON">
+          <i class="fa-solid fa-download"></i>
+        </button>
+        <button class="${MODULE_NAME}_session_delete menu_button" data-key="${escapeHtml(session.key)}" title="Delete">
+          <i class="fa-solid fa-trash"></i>
+        </button>
+      </div>
+    </div>
+  `;
+    }).join('');
+}
+
+// ============================================================================
+// EVENT LISTENERS
+// ============================================================================
+
+function initSessionsListeners(onChanged: () => void): void {
+    const modal = document.getElementById(`${MODULE_NAME}_sessions_modal`);
+    if (!modal) return;
+
+    const fileInput = modal.querySelector(`#${MODULE_NAME}_sessions_file`) as HTMLInputElement | null;
+
+    modal.querySelector(`#${MODULE_NAME}_sessions_export_all`)?.addEventListener('click', async () => {
+        const sessions = await listSessions();
+        if (sessions.length === 0) {
+            toastr.info('No saved sessions to export');
+            return;
+        }
+
+        downloadJson(await exportSessions(sessions.map(s => s.key)), 'all');
+    });
+
+    modal.querySelector(`#${MODULE_NAME}_sessions_import`)?.addEventListener('click', () => {
+        fileInput?.click();
+    });
+
+    fileInput?.addEventListener('change', async () => {
+        const file = fileInput.files?.[0];
+        fileInput.value = '';
+        if (!file) return;
+
+        const result = await importSessions(await file.text());
+
+        if (result.errors.length > 0) {
+            toastr.warning(result.errors.join('\n'));
+        }
+        if (result.imported > 0 || result.errors.length === 0) {
+            const skipped = result.skipped > 0 ? `, ${result.skipped} skipped (newer copy already saved)` : '';
+            toastr.success(`Imported ${result.imported} session${result.imported === 1 ? '' : 's'}${skipped}`);
+        }
+        if (result.imported > 0) {
+            onChanged();
+        }
+
+        await refreshSessionList();
+    });
+
+    modal.querySelector(`#${MODULE_NAME}_sessions_clear_all`)?.addEventListener('click', async () => {
+        if (await handleClearAll()) {
+            onChanged();
+        }
+        await refreshSessionList();
+    });
+
+    modal.querySelector(`#${MODULE_NAME}_sessions_list`)?.addEventListener('click', async (e) => {
+        const target = e.target as HTMLElement;
+        const button = target.closest(`.${MODULE_NAME}_session_export, .${MODULE_NAME}_session_delete`) as HTMLElement | null;
+        const key = button?.dataset.key;
+        if (!button || !key) return;
+
+        if (button.classList.contains(`${MODULE_NAME}_session_export`)) {
+            const session = (await listSessions()).find(s => s.key === key);
+            downloadJson(await exportSessions([key]), session?.characterName || 'session');
+            return;
+        }
+
+        if (await deleteSessionByKey(key)) {
+            toastr.info('Session deleted');
+            onChanged();
+        }
+
+        await refreshSessionList();
+    });
+}
+
+async function handleClearAll(): Promise<boolean> {
+    const { Popup, POPUP_TYPE, POPUP_RESULT } = SillyTavern.getContext();
+
+    const confirm = await new Popup(
+        'Delete every saved session? Export them first if you want to keep a copy.',
+        POPUP_TYPE.CONFIRM,
+        '',
+        { okButton: 'Delete All', cancelButton: 'Cancel' },
+    ).show();
+
+    if (confirm !== POPUP_RESULT.AFFIRMATIVE) return false;
+
+    const cleared = await clearAllPipelineSessions();
+    toastr.info(`Deleted ${cleared} session${cleared === 1 ? '' : 's'}`);
+    return cleared > 0;
+}
+
+function downloadJson(json: string, label: string): void {
+    const { moment } = SillyTavern.libs;
+
+    const blob = new Blob([json], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${label.replace(/[^a-z0-9]/gi, '_') || 'session'}_sessions_${moment().format('YYYYMMDD_HHmmss')}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+}
+
+async function refreshSessionList(): Promise<void> {
+    const list = document.getElementById(`${MODULE_NAME}_sessions_list`);
+    if (!list) return;
+
+    list.innerHTML = renderSessionList(await listSessions());
+}
+
+// ============================================================================
+// UTILITIES
+// ============================================================================
+
+function formatSize(chars: number): string {
+    return chars < 1024 ? `${chars} B` : `${(chars / 1024).toFixed(1)} KB`;
+}
+
+function getCharacters(): Character[] {
+    return SillyTavern.getContext().characters as Character[];
+}
+
+function escapeHtml(value: unknown): string {
+    const { DOMPurify } = SillyTavern.libs;
+    const str = typeof value === 'string' ? value : String(value ?? '');
+    return DOMPurify.sanitize(str, { ALLOWED_TAGS: [] });
+}
@@ -7,11 +7,27 @@ import {
     BASE_SYSTEM_PROMPT,
     BASE_REFINEMENT_PROMPT,
     VERSION,
+    MAX_ITERATION_HISTORY,
+    MAX_SCHEMA_REASKS,
+    MAX_RETRY_ATTEMPTS,
+    MAX_CACHE_ENTRIES,
+    DEFAULT_VERDICT_RULES,
 } from '../constants';
 import {
     getSettings,
     updateSetting,
     updateGenerationConfig,
+    updateAutoIterateConfig,
+    updateSchemaValidationConfig,
+    addConfigListEntry,
+    updateConfigListEntry,
+    removeConfigListEntry,
+    getConfigListLimit,
+    updateRetryConfig,
+    updateCacheConfig,
+    addModelPrice,
+    updateModelPrice,
+    removeModelPrice,
     updateUserSystemPrompt,
     updateBaseSystemPrompt,
     updateStageSystemPrompt,
@@ -23,27 +39,45 @@ import {
     resetBaseRefinementPrompt,
     setDebugMode,
     getPromptPresets,
+    getPromptPreset,
+    updatePromptPreset,
     getSchemaPresets,
     deletePromptPreset,
     deleteSchemaPreset,
     exportCustomPresets,
     importPresets,
+    getCustomStages,
+    getCustomStage,
+    saveCustomStage,
+    updateCustomStage,
+    deleteCustomStage,
 } from '../settings';
+import { getStageOrder, getStageLabel, getStageIcon } from '../stages';
+import { openOrphanedSessionsModal } from './orphans-modal';
+import { openSessionsModal } from './sessions-modal';
+import { getResponseCacheCount, clearResponseCache } from '../persistence';
+import { fillSourceOptions, fillModelOptions, fillProfileOptions } from './model-options';
+import { isConnectionManagerAvailable } from '../profiles';
+import { parseFakeBackendScript, getFakeBackendRequests, resetFakeBackend } from '../fake-backend';
 import { debugLog, getDebugLogs, clearDebugLogs, formatLogEntry, formatLogData, exportDebugInfo } from '../debug';
-import type { GenerationConfig } from '../types';
+import type { GenerationConfig, GenerationConfigList, StageName, CustomStageDefinition, PromptPreset, VerdictRules } from '../types';
 
 // ============================================================================
 // MAIN ENTRY
 // ============================================================================
 
+// Set when saved sessions are attached or deleted, so the caller can reload its own
+let sessionsChanged = false;
+
 /**
  * Open the settings modal
  */
-export async function openSettingsModal(onClose?: () => void): Promise<void> {
+export async function openSettingsModal(onClose?: (result: { sessionsChanged: boolean }) => void): Promise<void> {
     const { Popup, POPUP_TYPE } = SillyTavern.getContext();
     const { DOMPurify } = SillyTavern.libs;
 
     const content = buildSettingsContent();
+    sessionsChanged = false;
 
     const popup = new Popup(DOMPurify.sanitize(content), POPUP_TYPE.TEXT, '', {
         wide: true,
@@ -54,7 +88,7 @@ export async function openSettingsModal(onClose?: () => void): Promise<void> {
     });
 
     popup.show().then(() => {
-        onClose?.();
+        onClose?.({ sessionsChanged });
         debugLog('info', 'Settings modal closed', null);
     });
 
@@ -105,7 +139,34 @@ function buildSettingsContent(): string {
               </label>
             </div>
 
+            <div id="${MODULE_NAME}_current_gen_config" class="${settings.useCurrentSettings ? '' : 'hidden'}">
+              <div class="${MODULE_NAME}_settings_row">
+                <label class="${MODULE_NAME}_checkbox_label">
+                  <input
+                    type="checkbox"
+                    id="${MODULE_NAME}_stream_current_settings"
+                    ${settings.streamCurrentSettings ? 'checked' : ''}
+                  >
+                  <span>Stream Responses</span>
+                </label>
+              </div>
+              <p class="${MODULE_NAME}_settings_hint">
+                Responses from the current settings only show once they're finished. Streaming sends Chat Completion
+                requests with your current source, model, proxy, temperature, max tokens, penalties and Top P only -
+                other preset options like Top K, stop strings or reasoning effort are left out. Other APIs never stream here.
+              </p>
+            </div>
+
             <div id="${MODULE_NAME}_custom_gen_config" class="${settings.useCurrentSettings ? 'hidden' : ''}">
+              <div class="${MODULE_NAME}_settings_field">
+                <label>Connection Profile</label>
+                <select id="${MODULE_NAME}_gen_profile" class="text_pole"></select>
+              </div>
+              <p class="${MODULE_NAME}_settings_hint">
+                A Connection Manager profile brings its own endpoint, proxy, API key and preset, and works with
+                text completion backends like KoboldCpp or llama.cpp. The samplers below are sent on top of the profile's preset.
+              </p>
+
               <div class="${MODULE_NAME}_settings_grid">
                 <div class="${MODULE_NAME}_settings_field">
                   <label>Source</label>
@@ -142,6 +203,173 @@ function buildSettingsContent(): string {
             </div>
           </div>
 
+          <!-- Model Comparison -->
+          <div class="${MODULE_NAME}_settings_section">
+            <div class="${MODULE_NAME}_settings_section_header">
+              <i class="fa-solid fa-table-columns"></i>
+              <span>Model Comparison</span>
+            </div>
+
+            <p class="${MODULE_NAME}_settings_hint">
+              Compare runs the current stage on each of these models with the same prompt and shows the responses side by side.
+              They're always sent through Chat Completion or their connection profile, even when using the current SillyTavern settings.
+            </p>
+
+            ${renderConfigListSection('comparisonConfigs')}
+          </div>
+
+          <!-- Retries -->
+          <div class="${MODULE_NAME}_settings_section">
+            <div class="${MODULE_NAME}_settings_section_header">
+              <i class="fa-solid fa-rotate"></i>
+              <span>Retries</span>
+            </div>
+
+            <p class="${MODULE_NAME}_settings_hint">
+              Failed stage and refinement requests are retried with a growing wait between attempts.
+              If every attempt fails, the fallback models below are tried in order with the same policy.
+            </p>
+
+            <div class="${MODULE_NAME}_settings_grid">
+              <div class="${MODULE_NAME}_settings_field">
+                <label>Attempts per Model</label>
+                <input type="number" id="${MODULE_NAME}_retry_max_attempts" class="text_pole" value="${settings.retry.maxAttempts}" min="1" max="${MAX_RETRY_ATTEMPTS}" step="1">
+              </div>
+              <div class="${MODULE_NAME}_settings_field">
+                <label>First Wait (s)</label>
+                <input type="number" id="${MODULE_NAME}_retry_initial_delay" class="text_pole" value="${settings.retry.initialDelayMs / 1000}" min="0" max="60" step="0.5">
+              </div>
+              <div class="${MODULE_NAME}_settings_field">
+                <label>Backoff Multiplier</label>
+                <input type="number" id="${MODULE_NAME}_retry_multiplier" class="text_pole" value="${settings.retry.backoffMultiplier}" min="1" max="5" step="0.5">
+              </div>
+            </div>
+
+            <div class="${MODULE_NAME}_settings_row">
+              <label class="${MODULE_NAME}_checkbox_label">
+                <input
+                  type="checkbox"
+                  id="${MODULE_NAME}_retry_on_empty"
+                  ${settings.retry.retryOnEmpty ? 'checked' : ''}
+                >
+                <span>Retry empty responses</span>
+              </label>
+            </div>
+
+            <div class="${MODULE_NAME}_settings_row">
+              <label class="${MODULE_NAME}_checkbox_label">
+                <input
+                  type="checkbox"
+                  id="${MODULE_NAME}_retry_on_violation"
+                  ${settings.retry.retryOnViolation ? 'checked' : ''}
+                >
+                <span>Regenerate when a structured response doesn't match its schema</span>
+              </label>
+            </div>
+
+            <div class="${MODULE_NAME}_settings_subsection">
+              <label>Fallback Models</label>
+              ${renderConfigListSection('fallbackConfigs')}
+            </div>
+          </div>
+
+          <!-- Response Cache -->
+          <div class="${MODULE_NAME}_settings_section">
+            <div class="${MODULE_NAME}_settings_section_header">
+              <i class="fa-solid fa-database"></i>
+              <span>Response Cache</span>
+            </div>
+
+            <p class="${MODULE_NAME}_settings_hint">
+              Reuse the response when a stage or refinement is sent again with exactly the same prompts, schema and model,
+              instead of paying for it twice. Regenerate skips the cache unless you untick Skip cache.
+            </p>
+
+            <div class="${MODULE_NAME}_settings_row">
+              <label class="${MODULE_NAME}_checkbox_label">
+                <input
+                  type="checkbox"
+                  id="${MODULE_NAME}_cache_enabled"
+                  ${settings.cache.enabled ? 'checked' : ''}
+                >
+                <span>Cache responses</span>
+              </label>
+            </div>
+
+            <div class="${MODULE_NAME}_settings_grid">
+              <div class="${MODULE_NAME}_settings_field">
+                <label>Keep For (hours)</label>
+                <input type="number" id="${MODULE_NAME}_cache_ttl" class="text_pole" value="${settings.cache.ttlHours}" min="1" step="1">
+              </div>
+              <div class="${MODULE_NAME}_settings_field">
+                <label>Max Entries</label>
+                <input type="number" id="${MODULE_NAME}_cache_max_entries" class="text_pole" value="${settings.cache.maxEntries}" min="1" max="${MAX_CACHE_ENTRIES}" step="10">
+              </div>
+            </div>
+
+            <div class="${MODULE_NAME}_settings_row">
+              <button id="${MODULE_NAME}_cache_clear" class="menu_button">
+                <i class="fa-solid fa-trash"></i>
+                Clear Cache (<span id="${MODULE_NAME}_cache_count">...</span>)
+              </button>
+            </div>
+          </div>
+
+          <!-- Token Costs -->
+          <div class="${MODULE_NAME}_settings_section">
+            <div class="${MODULE_NAME}_settings_section_header">
+              <i class="fa-solid fa-coins"></i>
+              <span>Token Costs</span>
+            </div>
+
+            <p class="${MODULE_NAME}_settings_hint">
+              Prices per million tokens, used for the cost totals in results, the header and exports.
+              Model names match exactly (ignoring case), or without the "vendor/" prefix. Models without a price only show token counts.
+            </p>
+
+            <div id="${MODULE_NAME}_price_list" class="${MODULE_NAME}_price_list">
+              ${renderPriceList()}
+            </div>
+
+            <div class="${MODULE_NAME}_settings_row">
+              <button id="${MODULE_NAME}_price_add" class="menu_button">
+                <i class="fa-solid fa-plus"></i>
+                Add Price
+              </button>
+            </div>
+          </div>
+
+          <!-- Structured Output -->
+          <div class="${MODULE_NAME}_settings_section">
+            <div class="${MODULE_NAME}_settings_section_header">
+              <i class="fa-solid fa-code"></i>
+              <span>Structured Output</span>
+            </div>
+
+            <p class="${MODULE_NAME}_settings_hint">
+              Structured responses are checked against the stage schema. Mismatches are listed above the result.
+              Re-asking sends the mismatches back to the model and asks for corrected JSON.
+            </p>
+
+            <div class="${MODULE_NAME}_settings_row">
+              <label class="${MODULE_NAME}_checkbox_label">
+                <input
+                  type="checkbox"
+                  id="${MODULE_NAME}_schema_reask"
+                  ${settings.schemaValidation.reaskOnViolation ? 'checked' : ''}
+                >
+                <span>Re-ask when the response doesn't match</span>
+              </label>
+            </div>
+
+            <div class="${MODULE_NAME}_settings_grid">
+              <div class="${MODULE_NAME}_settings_field">
+                <label>Max Re-asks</label>
+                <input type="number" id="${MODULE_NAME}_schema_max_reasks" class="text_pole" value="${settings.schemaValidation.maxReasks}" min="1" max="${MAX_SCHEMA_REASKS}" step="1">
+              </div>
+            </div>
+          </div>
+
           <!-- System Prompt -->
           <div class="${MODULE_NAME}_settings_section">
             <div class="${MODULE_NAME}_settings_section_header">
@@ -246,6 +474,45 @@ function buildSettingsContent(): string {
             </details>
           </div>
 
+          <!-- Auto-Iterate -->
+          <div class="${MODULE_NAME}_settings_section">
+            <div class="${MODULE_NAME}_settings_section_header">
+              <i class="fa-solid fa-robot"></i>
+              <span>Auto-Iterate</span>
+            </div>
+
+            <p class="${MODULE_NAME}_settings_hint">
+              Analyze and refine automatically until the verdict is ACCEPT or a limit below is reached.
+              Leave a field empty to disable that limit.
+            </p>
+
+            <div class="${MODULE_NAME}_settings_grid">
+              <div class="${MODULE_NAME}_settings_field">
+                <label>Max Refinements</label>
+                <input type="number" id="${MODULE_NAME}_auto_max_iterations" class="text_pole" value="${settings.autoIterate.maxIterations}" min="1" max="${MAX_ITERATION_HISTORY}" step="1">
+              </div>
+              <div class="${MODULE_NAME}_settings_field">
+                <label>Stop at Score</label>
+                <input type="number" id="${MODULE_NAME}_auto_score_threshold" class="text_pole" value="${settings.autoIterate.scoreThreshold ?? ''}" min="1" max="10" step="0.5" placeholder="Off">
+              </div>
+              <div class="${MODULE_NAME}_settings_field">
+                <label>Token Budget</label>
+                <input type="number" id="${MODULE_NAME}_auto_token_budget" class="text_pole" value="${settings.autoIterate.tokenBudget ?? ''}" min="1000" step="1000" placeholder="Off">
+              </div>
+            </div>
+
+            <div class="${MODULE_NAME}_settings_row">
+              <label class="${MODULE_NAME}_checkbox_label">
+                <input
+                  type="checkbox"
+                  id="${MODULE_NAME}_auto_revert"
+                  ${settings.autoIterate.revertOnRegression ? 'checked' : ''}
+                >
+                <span>Revert to best iteration on REGRESSION</span>
+              </label>
+            </div>
+          </div>
+
         </div>
 
         <!-- RIGHT COLUMN -->
@@ -285,6 +552,54 @@ function buildSettingsContent(): string {
             </div>
           </div>
 
+          <!-- Custom Stages -->
+          <div class="${MODULE_NAME}_settings_section">
+            <div class="${MODULE_NAME}_settings_section_header">
+              <i class="fa-solid fa-layer-group"></i>
+              <span>Custom Stages</span>
+            </div>
+
+            <p class="${MODULE_NAME}_settings_hint">
+              Extra pipeline stages that run after Score, Rewrite and Analyze. Each stage can read the results of earlier stages.
+            </p>
+
+            <div id="${MODULE_NAME}_custom_stages_list" class="${MODULE_NAME}_preset_list">
+              ${renderCustomStageList()}
+            </div>
+
+            <div class="${MODULE_NAME}_settings_row">
+              <button id="${MODULE_NAME}_add_custom_stage" class="menu_button">
+                <i class="fa-solid fa-plus"></i>
+                Add Stage
+              </button>
+            </div>
+          </div>
+
+          <!-- Saved Sessions -->
+          <div class="${MODULE_NAME}_settings_section">
+            <div class="${MODULE_NAME}_settings_section_header">
+              <i class="fa-solid fa-floppy-disk"></i>
+              <span>Saved Sessions</span>
+            </div>
+
+            <p class="${MODULE_NAME}_settings_hint">
+              Sessions follow a character through renames and avatar changes using an ID stored on the card.
+              Sessions can be exported and imported to move them between machines.
+              Sessions that lost their character can be attached to another one.
+            </p>
+
+            <div class="${MODULE_NAME}_settings_row">
+              <button id="${MODULE_NAME}_manage_sessions" class="menu_button">
+                <i class="fa-solid fa-list"></i>
+                Manage Sessions
+              </button>
+              <button id="${MODULE_NAME}_find_orphans" class="menu_button">
+                <i class="fa-solid fa-link-slash"></i>
+                Find Orphaned Sessions
+              </button>
+            </div>
+          </div>
+
           <!-- Keyboard Shortcuts -->
           <div class="${MODULE_NAME}_settings_section">
             <div class="${MODULE_NAME}_settings_section_header">
@@ -341,6 +656,34 @@ function buildSettingsContent(): string {
               <div id="${MODULE_NAME}_debug_log_list" class="${MODULE_NAME}_debug_log_list"></div>
               <pre id="${MODULE_NAME}_debug_log_detail" class="${MODULE_NAME}_debug_log_detail">Select a log entry</pre>
             </div>
+
+            <details class="${MODULE_NAME}_settings_advanced">
+              <summary>
+                <i class="fa-solid fa-caret-right"></i>
+                Scripted Test Backend
+              </summary>
+              <div class="${MODULE_NAME}_settings_advanced_content">
+                <p class="${MODULE_NAME}_settings_hint">
+                  With debug logging on, "Scripted Test Backend" can be picked as the generation source.
+                  It answers from this script instead of an API: the first rule whose stage and prompt pattern match answers,
+                  with streaming, latency, errors, empty or invalid responses as scripted. Requests are listed in the debug log.
+                </p>
+                <textarea
+                  id="${MODULE_NAME}_fake_backend_script"
+                  class="text_pole ${MODULE_NAME}_system_prompt_textarea"
+                  rows="8"
+                  spellcheck="false"
+                  placeholder='{ "rules": [{ "stage": "analyze", "response": ["Verdict: NEEDS_REFINEMENT", "Verdict: ACCEPT"] }] }'
+                >${escapeHtml(settings.fakeBackendScript || '')}</textarea>
+                <div class="${MODULE_NAME}_settings_row_spread">
+                  <span id="${MODULE_NAME}_fake_backend_status"></span>
+                  <button id="${MODULE_NAME}_fake_backend_reset" class="menu_button" title="Forget recorded requests and restart scripted answers">
+                    <i class="fa-solid fa-rotate-left"></i>
+                    Reset
+                  </button>
+                </div>
+              </div>
+            </details>
           </div>
 
         </div>
@@ -369,10 +712,105 @@ function renderPresetList(type: 'prompt' | 'schema'): string {
         ${escapeHtml(preset.name)}
       </span>
       ${!preset.isBuiltin ? `
-        <button class="${MODULE_NAME}_preset_delete" data-type="${type}" data-id="${preset.id}" title="Delete">
+        <span class="${MODULE_NAME}_custom_stage_actions">
+          ${type === 'prompt' && (preset.stages.length === 0 || preset.stages.includes('analyze')) ? `
+            <button class="${MODULE_NAME}_preset_rules" data-id="${preset.id}" title="Verdict rules${'verdictRules' in preset && preset.verdictRules ? ' (customized)' : ''}">
+              <i class="fa-solid fa-gavel"></i>
+            </button>
+          ` : ''}
+          <button class="${MODULE_NAME}_preset_delete" data-type="${type}" data-id="${preset.id}" title="Delete">
+            <i class="fa-solid fa-trash"></i>
+          </button>
+        </span>
+      ` : ''}
+    </div>
+  `).join('');
+}
+
+const CONFIG_LIST_LABELS: Record<GenerationConfigList, { empty: string; full: string }> = {
+    comparisonConfigs: { empty: 'No comparison models', full: 'comparison models' },
+    fallbackConfigs: { empty: 'No fallback models', full: 'fallback models' },
+};
+
+function renderConfigListSection(list: GenerationConfigList): string {
+    const full = getSettings()[list].length >= getConfigListLimit(list);
+
+    return `
+      <div class="${MODULE_NAME}_gen_config_list" data-list="${list}">
+        ${renderConfigList(list)}
+      </div>
+
+      <div class="${MODULE_NAME}_settings_row">
+        <button class="menu_button ${MODULE_NAME}_gen_config_add" data-list="${list}" ${full ? 'disabled' : ''}>
+          <i class="fa-solid fa-plus"></i>
+          Add Model
+        </button>
+      </div>
+    `;
+}
+
+function renderConfigList(list: GenerationConfigList): string {
+    const configs = getSettings()[list];
+
+    if (configs.length === 0) {
+        return `<div class="${MODULE_NAME}_preset_empty">${CONFIG_LIST_LABELS[list].empty} - add up to ${getConfigListLimit(list)}</div>`;
+    }
+
+    return configs.map((config, index) => `
+      <div class="${MODULE_NAME}_gen_config_row" data-index="${index}">
+        <select class="text_pole ${MODULE_NAME}_gen_config_profile" data-index="${index}" title="Connection profile"></select>
+        <select class="text_pole ${MODULE_NAME}_gen_config_source" data-index="${index}" title="Source"></select>
+        <select class="text_pole ${MODULE_NAME}_gen_config_model" data-index="${index}" title="Model"></select>
+        <input type="number" class="text_pole ${MODULE_NAME}_gen_config_temp" data-index="${index}" value="${config.temperature}" min="0" max="2" step="0.1" title="Temperature">
+        <input type="number" class="text_pole ${MODULE_NAME}_gen_config_tokens" data-index="${index}" value="${config.maxTokens}" min="100" max="32000" step="100" title="Max tokens">
+        <button class="menu_button ${MODULE_NAME}_gen_config_remove" data-index="${index}" title="Remove">
           <i class="fa-solid fa-trash"></i>
         </button>
-      ` : ''}
+      </div>
+    `).join('');
+}
+
+function renderPriceList(): string {
+    const prices = getSettings().modelPrices;
+
+    if (prices.length === 0) {
+        return `<div class="${MODULE_NAME}_preset_empty">No prices set</div>`;
+    }
+
+    return prices.map((price, index) => `
+      <div class="${MODULE_NAME}_price_row" data-index="${index}">
+        <input type="text" class="text_pole ${MODULE_NAME}_price_model" data-index="${index}" value="${escapeHtml(price.model)}" placeholder="Model name" title="Model">
+        <input type="number" class="text_pole ${MODULE_NAME}_price_input" data-index="${index}" value="${price.inputPerMillion}" min="0" step="0.01" title="Input price per million tokens">
+        <input type="number" class="text_pole ${MODULE_NAME}_price_output" data-index="${index}" value="${price.outputPerMillion}" min="0" step="0.01" title="Output price per million tokens">
+        <button class="menu_button ${MODULE_NAME}_price_remove" data-index="${index}" title="Remove">
+          <i class="fa-solid fa-trash"></i>
+        </button>
+      </div>
+    `).join('');
+}
+
+function renderCustomStageList(): string {
+    const stages = getCustomStages();
+
+    if (stages.length === 0) {
+        return `<div class="${MODULE_NAME}_preset_empty">No custom stages</div>`;
+    }
+
+    return stages.map(stage => `
+    <div class="${MODULE_NAME}_preset_item" data-id="${escapeHtml(stage.id)}">
+      <span class="${MODULE_NAME}_preset_name" title="${escapeHtml(stage.description)}">
+        <i class="fa-solid ${escapeHtml(stage.icon)}"></i>
+        ${escapeHtml(stage.name)}
+        ${stage.consumes.length > 0 ? `<small>← ${escapeHtml(stage.consumes.map(getStageLabel).join(', '))}</small>` : ''}
+      </span>
+      <span class="${MODULE_NAME}_custom_stage_actions">
+        <button class="${MODULE_NAME}_custom_stage_edit" data-id="${escapeHtml(stage.id)}" title="Edit">
+          <i class="fa-solid fa-pen"></i>
+        </button>
+        <button class="${MODULE_NAME}_preset_delete ${MODULE_NAME}_custom_stage_delete" data-id="${escapeHtml(stage.id)}" title="Delete">
+          <i class="fa-solid fa-trash"></i>
+        </button>
+      </span>
     </div>
   `).join('');
 }
@@ -390,13 +828,21 @@ function initSettingsListeners(): void {
     // Use current settings toggle
     const useCurrentCheckbox = modal.querySelector(`#${MODULE_NAME}_use_current_settings`) as HTMLInputElement;
     const customConfig = modal.querySelector(`#${MODULE_NAME}_custom_gen_config`);
+    const currentConfig = modal.querySelector(`#${MODULE_NAME}_current_gen_config`);
 
     useCurrentCheckbox?.addEventListener('change', () => {
         updateSetting('useCurrentSettings', useCurrentCheckbox.checked);
         customConfig?.classList.toggle('hidden', useCurrentCheckbox.checked);
+        currentConfig?.classList.toggle('hidden', !useCurrentCheckbox.checked);
+    });
+
+    const streamCurrentCheckbox = modal.querySelector(`#${MODULE_NAME}_stream_current_settings`) as HTMLInputElement;
+    streamCurrentCheckbox?.addEventListener('change', () => {
+        updateSetting('streamCurrentSettings', streamCurrentCheckbox.checked);
     });
 
     // Generation config inputs
+    const genProfile = modal.querySelector(`#${MODULE_NAME}_gen_profile`) as HTMLSelectElement;
     const genSource = modal.querySelector(`#${MODULE_NAME}_gen_source`) as HTMLSelectElement;
     const genModel = modal.querySelector(`#${MODULE_NAME}_gen_model`) as HTMLSelectElement;
     const genTemp = modal.querySelector(`#${MODULE_NAME}_gen_temp`) as HTMLInputElement;
@@ -405,6 +851,11 @@ function initSettingsListeners(): void {
     const genPres = modal.querySelector(`#${MODULE_NAME}_gen_pres`) as HTMLInputElement;
     const genTopP = modal.querySelector(`#${MODULE_NAME}_gen_top_p`) as HTMLInputElement;
 
+    genProfile?.addEventListener('change', () => {
+        updateGenerationConfig({ profileId: genProfile.value });
+        refreshModelSelects();
+    });
+
     genSource?.addEventListener('change', () => {
         updateGenerationConfig({ source: genSource.value });
         populateModelSelect(genSource.value);
@@ -429,6 +880,55 @@ function initSettingsListeners(): void {
     handleNumberInput(genPres, 'presencePenalty');
     handleNumberInput(genTopP, 'topP');
 
+    // ========== COMPARISON & FALLBACK MODELS ==========
+
+    modal.querySelectorAll(`.${MODULE_NAME}_gen_config_add`).forEach(btn => {
+        btn.addEventListener('click', () => {
+            const list = (btn as HTMLElement).dataset.list as GenerationConfigList;
+            if (!addConfigListEntry(list)) {
+                toastr.warning(`Up to ${getConfigListLimit(list)} ${CONFIG_LIST_LABELS[list].full}`);
+            }
+            refreshConfigList(list);
+        });
+    });
+
+    modal.querySelectorAll(`.${MODULE_NAME}_gen_config_list`).forEach(container => {
+        const list = (container as HTMLElement).dataset.list as GenerationConfigList;
+
+        container.addEventListener('change', (e) => {
+            const input = e.target as HTMLInputElement | HTMLSelectElement;
+            const index = parseInt(input.dataset.index || '', 10);
+            if (isNaN(index)) return;
+
+            if (input.classList.contains(`${MODULE_NAME}_gen_config_profile`)) {
+                updateConfigListEntry(list, index, { profileId: input.value });
+                populateConfigListSelects(list);
+            } else if (input.classList.contains(`${MODULE_NAME}_gen_config_source`)) {
+                updateConfigListEntry(list, index, { source: input.value });
+                const modelSelect = container.querySelector(`.${MODULE_NAME}_gen_config_model[data-index="${index}"]`) as HTMLSelectElement | null;
+                if (modelSelect) {
+                    updateConfigListEntry(list, index, { model: fillModelOptions(modelSelect, input.value) });
+                }
+            } else if (input.classList.contains(`${MODULE_NAME}_gen_config_model`)) {
+                updateConfigListEntry(list, index, { model: input.value });
+            } else if (input.classList.contains(`${MODULE_NAME}_gen_config_temp`)) {
+                const val = parseFloat(input.value);
+                if (!isNaN(val)) updateConfigListEntry(list, index, { temperature: val });
+            } else if (input.classList.contains(`${MODULE_NAME}_gen_config_tokens`)) {
+                const val = parseInt(input.value, 10);
+                if (!isNaN(val)) updateConfigListEntry(list, index, { maxTokens: val });
+            }
+        });
+
+        container.addEventListener('click', (e) => {
+            const button = (e.target as HTMLElement).closest(`.${MODULE_NAME}_gen_config_remove`) as HTMLElement | null;
+            if (!button) return;
+
+            removeConfigListEntry(list, parseInt(button.dataset.index || '', 10));
+            refreshConfigList(list);
+        });
+    });
+
     // ========== USER SYSTEM PROMPT ==========
 
     const userSystemPromptTextarea = modal.querySelector(`#${MODULE_NAME}_user_system_prompt`) as HTMLTextAreaElement;
@@ -518,10 +1018,181 @@ function initSettingsListeners(): void {
         toastr.info('Base refinement prompt reset to default');
     });
 
+    // ========== STRUCTURED OUTPUT ==========
+
+    const schemaReask = modal.querySelector(`#${MODULE_NAME}_schema_reask`) as HTMLInputElement;
+    const schemaMaxReasks = modal.querySelector(`#${MODULE_NAME}_schema_max_reasks`) as HTMLInputElement;
+
+    schemaReask?.addEventListener('change', () => {
+        updateSchemaValidationConfig({ reaskOnViolation: schemaReask.checked });
+    });
+
+    schemaMaxReasks?.addEventListener('change', () => {
+        const val = parseInt(schemaMaxReasks.value, 10);
+        if (!isNaN(val)) {
+            updateSchemaValidationConfig({ maxReasks: Math.min(Math.max(val, 1), MAX_SCHEMA_REASKS) });
+        }
+    });
+
+    // ========== RESPONSE CACHE ==========
+
+    const cacheEnabled = modal.querySelector(`#${MODULE_NAME}_cache_enabled`) as HTMLInputElement;
+    const cacheTtl = modal.querySelector(`#${MODULE_NAME}_cache_ttl`) as HTMLInputElement;
+    const cacheMaxEntries = modal.querySelector(`#${MODULE_NAME}_cache_max_entries`) as HTMLInputElement;
+    const cacheCount = modal.querySelector(`#${MODULE_NAME}_cache_count`);
+
+    getResponseCacheCount().then(count => {
+        if (cacheCount) cacheCount.textContent = String(count);
+    });
+
+    cacheEnabled?.addEventListener('change', () => {
+        updateCacheConfig({ enabled: cacheEnabled.checked });
+    });
+
+    cacheTtl?.addEventListener('change', () => {
+        const val = parseFloat(cacheTtl.value);
+        if (!isNaN(val)) {
+            updateCacheConfig({ ttlHours: Math.max(val, 1) });
+        }
+    });
+
+    cacheMaxEntries?.addEventListener('change', () => {
+        const val = parseInt(cacheMaxEntries.value, 10);
+        if (!isNaN(val)) {
+            updateCacheConfig({ maxEntries: Math.min(Math.max(val, 1), MAX_CACHE_ENTRIES) });
+        }
+    });
+
+    modal.querySelector(`#${MODULE_NAME}_cache_clear`)?.addEventListener('click', async () => {
+        const cleared = await clearResponseCache();
+        if (cacheCount) cacheCount.textContent = '0';
+        toastr.info(`Cleared ${cleared} cached response${cleared === 1 ? '' : 's'}`);
+    });
+
+    // ========== TOKEN COSTS ==========
+
+    const priceList = modal.querySelector(`#${MODULE_NAME}_price_list`);
+
+    modal.querySelector(`#${MODULE_NAME}_price_add`)?.addEventListener('click', () => {
+        addModelPrice();
+        refreshPriceList();
+    });
+
+    priceList?.addEventListener('change', (e) => {
+        const input = e.target as HTMLInputElement;
+        const index = parseInt(input.dataset.index || '', 10);
+        if (isNaN(index)) return;
+
+        if (input.classList.contains(`${MODULE_NAME}_price_model`)) {
+            updateModelPrice(index, { model: input.value.trim() });
+        } else if (input.classList.contains(`${MODULE_NAME}_price_input`)) {
+            const val = parseFloat(input.value);
+            if (!isNaN(val)) updateModelPrice(index, { inputPerMillion: Math.max(val, 0) });
+        } else if (input.classList.contains(`${MODULE_NAME}_price_output`)) {
+            const val = parseFloat(input.value);
+            if (!isNaN(val)) updateModelPrice(index, { outputPerMillion: Math.max(val, 0) });
+        }
+    });
+
+    priceList?.addEventListener('click', (e) => {
+        const button = (e.target as HTMLElement).closest(`.${MODULE_NAME}_price_remove`) as HTMLElement | null;
+        if (!button) return;
+
+        removeModelPrice(parseInt(button.dataset.index || '', 10));
+        refreshPriceList();
+    });
+
+    // ========== RETRIES ==========
+
+    const retryMaxAttempts = modal.querySelector(`#${MODULE_NAME}_retry_max_attempts`) as HTMLInputElement;
+    const retryInitialDelay = modal.querySelector(`#${MODULE_NAME}_retry_initial_delay`) as HTMLInputElement;
+    const retryMultiplier = modal.querySelector(`#${MODULE_NAME}_retry_multiplier`) as HTMLInputElement;
+    const retryOnEmpty = modal.querySelector(`#${MODULE_NAME}_retry_on_empty`) as HTMLInputElement;
+    const retryOnViolation = modal.querySelector(`#${MODULE_NAME}_retry_on_violation`) as HTMLInputElement;
+
+    retryMaxAttempts?.addEventListener('change', () => {
+        const val = parseInt(retryMaxAttempts.value, 10);
+        if (!isNaN(val)) {
+            updateRetryConfig({ maxAttempts: Math.min(Math.max(val, 1), MAX_RETRY_ATTEMPTS) });
+        }
+    });
+
+    retryInitialDelay?.addEventListener('change', () => {
+        const val = parseFloat(retryInitialDelay.value);
+        if (!isNaN(val)) {
+            updateRetryConfig({ initialDelayMs: Math.round(Math.max(val, 0) * 1000) });
+        }
+    });
+
+    retryMultiplier?.addEventListener('change', () => {
+        const val = parseFloat(retryMultiplier.value);
+        if (!isNaN(val)) {
+            updateRetryConfig({ backoffMultiplier: Math.max(val, 1) });
+        }
+    });
+
+    retryOnEmpty?.addEventListener('change', () => {
+        updateRetryConfig({ retryOnEmpty: retryOnEmpty.checked });
+    });
+
+    retryOnViolation?.addEventListener('change', () => {
+        updateRetryConfig({ retryOnViolation: retryOnViolation.checked });
+    });
+
+    // ========== AUTO-ITERATE ==========
+
+    const autoMaxIterations = modal.querySelector(`#${MODULE_NAME}_auto_max_iterations`) as HTMLInputElement;
+    const autoScoreThreshold = modal.querySelector(`#${MODULE_NAME}_auto_score_threshold`) as HTMLInputElement;
+    const autoTokenBudget = modal.querySelector(`#${MODULE_NAME}_auto_token_budget`) as HTMLInputElement;
+    const autoRevert = modal.querySelector(`#${MODULE_NAME}_auto_revert`) as HTMLInputElement;
+
+    autoMaxIterations?.addEventListener('change', () => {
+        const val = parseInt(autoMaxIterations.value, 10);
+        if (!isNaN(val)) {
+            updateAutoIterateConfig({ maxIterations: Math.min(Math.max(val, 1), MAX_ITERATION_HISTORY) });
+        }
+    });
+
+    // Empty input disables the limit
+    autoScoreThreshold?.addEventListener('change', () => {
+        const val = parseFloat(autoScoreThreshold.value);
+        updateAutoIterateConfig({ scoreThreshold: isNaN(val) ? null : Math.min(Math.max(val, 1), 10) });
+    });
+
+    autoTokenBudget?.addEventListener('change', () => {
+        const val = parseInt(autoTokenBudget.value, 10);
+        updateAutoIterateConfig({ tokenBudget: isNaN(val) || val <= 0 ? null : val });
+    });
+
+    autoRevert?.addEventListener('change', () => {
+        updateAutoIterateConfig({ revertOnRegression: autoRevert.checked });
+    });
+
+    // ========== SAVED SESSIONS ==========
+
+    modal.querySelector(`#${MODULE_NAME}_manage_sessions`)?.addEventListener('click', async () => {
+        if (await openSessionsModal()) {
+            sessionsChanged = true;
+        }
+    });
+
+    modal.querySelector(`#${MODULE_NAME}_find_orphans`)?.addEventListener('click', async () => {
+        if (await openOrphanedSessionsModal()) {
+            sessionsChanged = true;
+        }
+    });
+
     // ========== PRESET MANAGEMENT ==========
 
     modal.addEventListener('click', (e) => {
-        const deleteBtn = (e.target as HTMLElement).closest(`.${MODULE_NAME}_preset_delete`);
+        const rulesBtn = (e.target as HTMLElement).closest(`.${MODULE_NAME}_preset_rules`);
+        const rulesPreset = rulesBtn ? getPromptPreset(rulesBtn.getAttribute('data-id') || '') : null;
+        if (rulesPreset) {
+            openVerdictRulesEditor(rulesPreset);
+            return;
+        }
+
+        const deleteBtn = (e.target as HTMLElement).closest(`.${MODULE_NAME}_preset_delete:not(.${MODULE_NAME}_custom_stage_delete)`);
         if (deleteBtn) {
             const type = deleteBtn.getAttribute('data-type') as 'prompt' | 'schema';
             const id = deleteBtn.getAttribute('data-id');
@@ -556,6 +1227,24 @@ function initSettingsListeners(): void {
         }
     });
 
+    // ========== CUSTOM STAGES ==========
+
+    modal.querySelector(`#${MODULE_NAME}_add_custom_stage`)?.addEventListener('click', () => {
+        openCustomStageEditor(null);
+    });
+
+    modal.querySelector(`#${MODULE_NAME}_custom_stages_list`)?.addEventListener('click', (e) => {
+        const target = e.target as HTMLElement;
+        const editBtn = target.closest(`.${MODULE_NAME}_custom_stage_edit`);
+        const deleteBtn = target.closest(`.${MODULE_NAME}_custom_stage_delete`);
+
+        if (editBtn) {
+            openCustomStageEditor(getCustomStage(editBtn.getAttribute('data-id') || ''));
+        } else if (deleteBtn) {
+            handleDeleteCustomStage(deleteBtn.getAttribute('data-id') || '');
+        }
+    });
+
     // ========== DEBUG ==========
 
     const debugModeCheckbox = modal.querySelector(`#${MODULE_NAME}_debug_mode`) as HTMLInputElement;
@@ -586,6 +1275,39 @@ function initSettingsListeners(): void {
         navigator.clipboard.writeText(exportDebugInfo());
         toastr.success('Debug info copied to clipboard');
     });
+
+    const fakeScriptTextarea = modal.querySelector(`#${MODULE_NAME}_fake_backend_script`) as HTMLTextAreaElement;
+    const fakeResetBtn = modal.querySelector(`#${MODULE_NAME}_fake_backend_reset`);
+
+    fakeScriptTextarea?.addEventListener('input', () => {
+        updateSetting('fakeBackendScript', fakeScriptTextarea.value);
+        refreshFakeBackendStatus();
+    });
+
+    fakeResetBtn?.addEventListener('click', () => {
+        resetFakeBackend();
+        refreshFakeBackendStatus();
+        toastr.info('Test backend reset');
+    });
+
+    refreshFakeBackendStatus();
+}
+
+function refreshFakeBackendStatus(): void {
+    const modal = document.getElementById(`${MODULE_NAME}_settings_modal`);
+    const status = modal?.querySelector(`#${MODULE_NAME}_fake_backend_status`);
+    if (!status) return;
+
+    const parsed = parseFakeBackendScript(getSettings().fakeBackendScript);
+    if ('error' in parsed) {
+        status.textContent = parsed.error;
+        status.classList.add(`${MODULE_NAME}_settings_status_error`);
+        return;
+    }
+
+    const rules = parsed.script.rules?.length ?? 0;
+    status.textContent = `${rules} rule${rules === 1 ? '' : 's'}, ${getFakeBackendRequests().length} requests answered`;
+    status.classList.remove(`${MODULE_NAME}_settings_status_error`);
 }
 
 function handleDeletePreset(type: 'prompt' | 'schema', id: string): void {
@@ -614,6 +1336,212 @@ function refreshPresetLists(): void {
     }
 }
 
+// ============================================================================
+// CUSTOM STAGE EDITOR
+// ============================================================================
+
+/**
+ * Open the add/edit form for a custom stage. Pass null to create a new one.
+ */
+async function openCustomStageEditor(existing: CustomStageDefinition | null): Promise<void> {
+    const { Popup, POPUP_TYPE, POPUP_RESULT } = SillyTavern.getContext();
+    const { DOMPurify } = SillyTavern.libs;
+    const settings = getSettings();
+
+    // Only earlier stages can be read - a stage can't consume itself or anything after it
+    const order = getStageOrder();
+    const available = existing ? order.slice(0, order.indexOf(existing.id)) : order;
+    const defaults = existing ? settings.stageDefaults[existing.id] : null;
+
+    const draft = {
+        name: existing?.name ?? '',
+        icon: existing?.icon ?? '',
+        description: existing?.description ?? '',
+        consumes: [...(existing?.consumes ?? [])],
+        customPrompt: defaults?.customPrompt ?? '',
+        schemaPresetId: defaults?.schemaPresetId ?? null,
+        useStructuredOutput: defaults?.useStructuredOutput ?? false,
+        systemPrompt: existing ? settings.stageSystemPrompts[existing.id] ?? '' : '',
+    };
+
+    const content = `
+    <div class="${MODULE_NAME}_stage_editor" id="${MODULE_NAME}_stage_editor">
+      <h3>${existing ? 'Edit Stage' : 'New Stage'}</h3>
+
+      <div class="${MODULE_NAME}_settings_grid">
+        <div class="${MODULE_NAME}_settings_field">
+          <label>Name</label>
+          <input type="text" id="${MODULE_NAME}_stage_editor_name" class="text_pole" value="${escapeHtml(draft.name)}" placeholder="Lore Audit">
+        </div>
+        <div class="${MODULE_NAME}_settings_field">
+          <label>Icon</label>
+          <input type="text" id="${MODULE_NAME}_stage_editor_icon" class="text_pole" value="${escapeHtml(draft.icon)}" placeholder="fa-puzzle-piece">
+        </div>
+      </div>
+
+      <div class="${MODULE_NAME}_settings_field">
+        <label>Description</label>
+        <input type="text" id="${MODULE_NAME}_stage_editor_description" class="text_pole" value="${escapeHtml(draft.description)}" placeholder="Check lorebook entries against the card">
+      </div>
+
+      <div class="${MODULE_NAME}_settings_field">
+        <label>Reads results from</label>
+        <div class="${MODULE_NAME}_stage_editor_consumes">
+          ${available.map(stage => `
+            <label class="${MODULE_NAME}_checkbox_label">
+              <input type="checkbox" class="${MODULE_NAME}_stage_editor_consume" value="${escapeHtml(stage)}" ${draft.consumes.includes(stage) ? 'checked' : ''}>
+              <i class="fa-solid ${escapeHtml(getStageIcon(stage))}"></i>
+              <span>${escapeHtml(getStageLabel(stage))}</span>
+            </label>
+          `).join('')}
+        </div>
+      </div>
+
+      <div class="${MODULE_NAME}_settings_field">
+        <label>Prompt</label>
+        <textarea id="${MODULE_NAME}_stage_editor_prompt" class="text_pole ${MODULE_NAME}_system_prompt_textarea" rows="6" placeholder="Instructions for this stage...">${escapeHtml(draft.customPrompt)}</textarea>
+      </div>
+
+      <div class="${MODULE_NAME}_settings_field">
+        <label>System Prompt Additions</label>
+        <textarea id="${MODULE_NAME}_stage_editor_system_prompt" class="text_pole ${MODULE_NAME}_system_prompt_textarea" rows="3" placeholder="Optional, appended to the system prompt for this stage only">${escapeHtml(draft.systemPrompt)}</textarea>
+      </div>
+
+      <div class="${MODULE_NAME}_settings_grid">
+        <div class="${MODULE_NAME}_settings_field">
+          <label>Schema</label>
+          <select id="${MODULE_NAME}_stage_editor_schema" class="text_pole">
+            <option value="">None</option>
+            ${getSchemaPresets().map(p => `<option value="${escapeHtml(p.id)}" ${p.id === draft.schemaPresetId ? 'selected' : ''}>${escapeHtml(p.name)}</option>`).join('')}
+          </select>
+        </div>
+        <div class="${MODULE_NAME}_settings_field">
+          <label class="${MODULE_NAME}_checkbox_label">
+            <input type="checkbox" id="${MODULE_NAME}_stage_editor_structured" ${draft.useStructuredOutput ? 'checked' : ''}>
+            <span>Use Structured Output</span>
+          </label>
+        </div>
+      </div>
+    </div>
+  `;
+
+    const popup = new Popup(DOMPurify.sanitize(content), POPUP_TYPE.TEXT, '', {
+        wide: true,
+        allowVerticalScrolling: true,
+        okButton: 'Save',
+        cancelButton: 'Cancel',
+    });
+
+    const closed = popup.show();
+
+    // Wait for DOM
+    await new Promise<void>(resolve => setTimeout(resolve, 0));
+
+    const editor = document.getElementById(`${MODULE_NAME}_stage_editor`);
+    editor?.addEventListener('input', (e) => {
+        const target = e.target as HTMLInputElement;
+
+        switch (target.id) {
+            case `${MODULE_NAME}_stage_editor_name`: draft.name = target.value; break;
+            case `${MODULE_NAME}_stage_editor_icon`: draft.icon = target.value.trim(); break;
+            case `${MODULE_NAME}_stage_editor_description`: draft.description = target.value; break;
+            case `${MODULE_NAME}_stage_editor_prompt`: draft.customPrompt = target.value; break;
+            case `${MODULE_NAME}_stage_editor_system_prompt`: draft.systemPrompt = target.value; break;
+        }
+    });
+    editor?.addEventListener('change', (e) => {
+        const target = e.target as HTMLInputElement;
+
+        if (target.classList.contains(`${MODULE_NAME}_stage_editor_consume`)) {
+            draft.consumes = target.checked
+                ? available.filter(s => s === target.value || draft.consumes.includes(s))
+                : draft.consumes.filter(s => s !== target.value);
+        } else if (target.id === `${MODULE_NAME}_stage_editor_schema`) {
+            draft.schemaPresetId = target.value || null;
+        } else if (target.id === `${MODULE_NAME}_stage_editor_structured`) {
+            draft.useStructuredOutput = target.checked;
+        }
+    });
+
+    const result = await closed;
+    if (result !== POPUP_RESULT.AFFIRMATIVE) return;
+
+    if (!draft.name.trim()) {
+        toastr.warning('Stage name cannot be empty');
+        return;
+    }
+
+    const definition = {
+        name: draft.name.trim(),
+        icon: draft.icon,
+        description: draft.description.trim(),
+        consumes: draft.consumes,
+    };
+    const stageDefaults = {
+        customPrompt: draft.customPrompt,
+        schemaPresetId: draft.schemaPresetId,
+        useStructuredOutput: draft.useStructuredOutput,
+    };
+
+    if (existing) {
+        updateCustomStage(existing.id, definition, stageDefaults, draft.systemPrompt);
+        toastr.success(`Stage "${definition.name}" updated`);
+    } else {
+        saveCustomStage(definition, stageDefaults, draft.systemPrompt);
+        toastr.success(`Stage "${definition.name}" added`);
+    }
+
+    refreshCustomStageList();
+}
+
+async function handleDeleteCustomStage(id: StageName): Promise<void> {
+    const { Popup, POPUP_TYPE, POPUP_RESULT } = SillyTavern.getContext();
+    const stage = getCustomStage(id);
+    if (!stage) return;
+
+    const confirm = await new Popup(
+        `Delete the "${escapeHtml(stage.name)}" stage? Its prompt defaults are removed too.`,
+        POPUP_TYPE.CONFIRM,
+        '',
+        { okButton: 'Delete', cancelButton: 'Cancel' },
+    ).show();
+
+    if (confirm !== POPUP_RESULT.AFFIRMATIVE) return;
+
+    if (deleteCustomStage(id)) {
+        toastr.success('Stage deleted');
+        refreshCustomStageList();
+    }
+}
+
+function refreshConfigList(list: GenerationConfigList): void {
+    const modal = document.getElementById(`${MODULE_NAME}_settings_modal`);
+    const container = modal?.querySelector(`.${MODULE_NAME}_gen_config_list[data-list="${list}"]`);
+    if (!container) return;
+
+    container.innerHTML = renderConfigList(list);
+    populateConfigListSelects(list);
+
+    const addBtn = modal?.querySelector(`.${MODULE_NAME}_gen_config_add[data-list="${list}"]`) as HTMLButtonElement | null;
+    if (addBtn) {
+        addBtn.disabled = getSettings()[list].length >= getConfigListLimit(list);
+    }
+}
+
+function refreshPriceList(): void {
+    const list = document.querySelector(`#${MODULE_NAME}_settings_modal #${MODULE_NAME}_price_list`);
+    if (list) {
+        list.innerHTML = renderPriceList();
+    }
+}
+
+function refreshCustomStageList(): void {
+    const list = document.querySelector(`#${MODULE_NAME}_settings_modal #${MODULE_NAME}_custom_stages_list`);
+    if (list) {
+        list.innerHTML = renderCustomStageList();
+    }
+}
+
 function refreshDebugLogs(): void {
     const modal = document.getElementById(`${MODULE_NAME}_settings_modal`);
     if (!modal) return;
@@ -645,14 +1573,117 @@ function refreshDebugLogs(): void {
     });
 }
 
+// ============================================================================
+// VERDICT RULES EDITOR
+// ============================================================================
+
+const VERDICT_RULE_FIELDS: Array<{ key: keyof VerdictRules; label: string }> = [
+    { key: 'accept', label: 'ACCEPT' },
+    { key: 'needsRefinement', label: 'NEEDS_REFINEMENT' },
+    { key: 'regression', label: 'REGRESSION' },
+    { key: 'score', label: 'Score (first capture group)' },
+];
+
+/**
+ * Edit the regexes that read the verdict and score from free-text analyses written with this preset
+ */
+async function openVerdictRulesEditor(preset: PromptPreset): Promise<void> {
+    const { Popup, POPUP_TYPE, POPUP_RESULT } = SillyTavern.getContext();
+    const { DOMPurify } = SillyTavern.libs;
+
+    const draft: VerdictRules = { ...(preset.verdictRules ?? DEFAULT_VERDICT_RULES) };
+
+    const content = `
+    <div class="${MODULE_NAME}_stage_editor" id="${MODULE_NAME}_verdict_rules_editor">
+      <h3>Verdict Rules: ${escapeHtml(preset.name)}</h3>
+
+      <p class="${MODULE_NAME}_settings_hint">
+        Case-insensitive regular expressions used when an analysis isn't structured output.
+        If several verdicts match, the one found first in the response wins; if none match the verdict is Unknown.
+        Structured responses always use their verdict and soulPreservationScore fields.
+      </p>
+
+      ${VERDICT_RULE_FIELDS.map(({ key, label }) => `
+        <div class="${MODULE_NAME}_settings_field">
+          <label>${escapeHtml(label)}</label>
+          <input type="text" class="text_pole ${MODULE_NAME}_verdict_rule" data-key="${key}" value="${escapeHtml(draft[key])}" spellcheck="false">
+        </div>
+      `).join('')}
+
+      <div class="${MODULE_NAME}_settings_row">
+        <button id="${MODULE_NAME}_verdict_rules_reset" class="menu_button">
+          <i class="fa-solid fa-rotate-left"></i>
+          Reset to Defaults
+        </button>
+      </div>
+    </div>
+  `;
+
+    const popup = new Popup(DOMPurify.sanitize(content), POPUP_TYPE.TEXT, '', {
+        wide: true,
+        allowVerticalScrolling: true,
+        okButton: 'Save',
+        cancelButton: 'Cancel',
+    });
+
+    const closed = popup.show();
+
+    // Wait for DOM
+    await new Promise<void>(resolve => setTimeout(resolve, 0));
+
+    const editor = document.getElementById(`${MODULE_NAME}_verdict_rules_editor`);
+    editor?.addEventListener('input', (e) => {
+        const target = e.target as HTMLInputElement;
+        const key = target.dataset.key as keyof VerdictRules | undefined;
+        if (key) draft[key] = target.value;
+    });
+    editor?.querySelector(`#${MODULE_NAME}_verdict_rules_reset`)?.addEventListener('click', () => {
+        editor.querySelectorAll<HTMLInputElement>(`.${MODULE_NAME}_verdict_rule`).forEach(input => {
+            const key = input.dataset.key as keyof VerdictRules;
+            input.value = DEFAULT_VERDICT_RULES[key];
+            draft[key] = DEFAULT_VERDICT_RULES[key];
+        });
+    });
+
+    const result = await closed;
+    if (result !== POPUP_RESULT.AFFIRMATIVE) return;
+
+    for (const { key, label } of VERDICT_RULE_FIELDS) {
+        try {
+            new RegExp(draft[key], 'i');
+        } catch (e) {
+            toastr.error(`Invalid ${label} rule: ${(e as Error).message}`);
+            return;
+        }
+    }
+
+    // Rules matching the defaults aren't stored, so the preset follows future default changes
+    const isDefault = VERDICT_RULE_FIELDS.every(({ key }) => draft[key] === DEFAULT_VERDICT_RULES[key]);
+    updatePromptPreset(preset.id, { verdictRules: isDefault ? undefined : draft });
+
+    toastr.success(`Verdict rules for "${preset.name}" saved`);
+    refreshPresetLists();
+}
+
 // ============================================================================
 // MODEL SELECTS
 // ============================================================================
 
 function refreshModelSelects(): void {
     const settings = getSettings();
+    populateProfileSelect(settings.generationConfig.profileId ?? '');
     populateSourceSelect(settings.generationConfig.source);
     populateModelSelect(settings.generationConfig.source, settings.generationConfig.model);
+    populateConfigListSelects('comparisonConfigs');
+    populateConfigListSelects('fallbackConfigs');
+}
+
+function populateProfileSelect(currentProfileId: string): void {
+    const modal = document.getElementById(`${MODULE_NAME}_settings_modal`);
+    const profileSelect = modal?.querySelector(`#${MODULE_NAME}_gen_profile`) as HTMLSelectElement;
+    if (!profileSelect) return;
+
+    fillProfileOptions(profileSelect, currentProfileId, isConnectionManagerAvailable() ? 'None - use source and model' : 'Connection Manager unavailable');
 }
 
 function populateSourceSelect(currentSource: string): void {
@@ -660,31 +1691,8 @@ function populateSourceSelect(currentSource: string): void {
     const sourceSelect = modal?.querySelector(`#${MODULE_NAME}_gen_source`) as HTMLSelectElement;
     if (!sourceSelect) return;
 
-    sourceSelect.innerHTML = '';
-
-    const stSourceSelect = document.getElementById('chat_completion_source') as HTMLSelectElement;
-
-    if (stSourceSelect) {
-        Array.from(stSourceSelect.options).forEach((opt: HTMLOptionElement) => {
-            if (opt.value) {
-                const option = document.createElement('option');
-                option.value = opt.value;
-                option.textContent = opt.textContent || opt.value;
-                sourceSelect.appendChild(option);
-            }
-        });
-    }
-
-    if (sourceSelect.options.length === 0) {
-        ['openrouter', 'openai', 'claude', 'makersuite', 'mistralai', 'groq'].forEach(src => {
-            const option = document.createElement('option');
-            option.value = src;
-            option.textContent = src;
-            sourceSelect.appendChild(option);
-        });
-    }
-
-    sourceSelect.value = currentSource;
+    fillSourceOptions(sourceSelect, currentSource);
+    sourceSelect.disabled = !!getSettings().generationConfig.profileId;
 }
 
 function populateModelSelect(source: string, currentModel?: string): void {
@@ -692,47 +1700,35 @@ function populateModelSelect(source: string, currentModel?: string): void {
     const modelSelect = modal?.querySelector(`#${MODULE_NAME}_gen_model`) as HTMLSelectElement;
     if (!modelSelect) return;
 
-    modelSelect.innerHTML = '';
-
-    const selectIdMap: Record<string, string> = {
-        openrouter: 'model_openrouter_select',
-        openai: 'model_openai_select',
-        claude: 'model_claude_select',
-        makersuite: 'model_google_select',
-        google: 'model_google_select',
-        mistralai: 'model_mistralai_select',
-        cohere: 'model_cohere_select',
-        perplexity: 'model_perplexity_select',
-        groq: 'model_groq_select',
-        ai21: 'model_ai21_select',
-        deepseek: 'model_deepseek_select',
-        custom: 'model_custom_select',
-    };
+    modelSelect.disabled = !!getSettings().generationConfig.profileId;
 
-    const stSelect = selectIdMap[source] ? document.getElementById(selectIdMap[source]) as HTMLSelectElement : null;
-
-    if (stSelect?.options.length) {
-        Array.from(stSelect.options).forEach((opt: HTMLOptionElement) => {
-            if (opt.value) {
-                const option = document.createElement('option');
-                option.value = opt.value;
-                option.textContent = opt.textContent || opt.value;
-                modelSelect.appendChild(option);
-            }
-        });
-    } else {
-        const option = document.createElement('option');
-        option.value = currentModel || '';
-        option.textContent = currentModel || `No models for ${source}`;
-        modelSelect.appendChild(option);
+    const model = fillModelOptions(modelSelect, source, currentModel);
+    if (model !== currentModel) {
+        updateGenerationConfig({ model });
     }
+}
 
-    if (currentModel && Array.from(modelSelect.options).some(o => o.value === currentModel)) {
-        modelSelect.value = currentModel;
-    } else if (modelSelect.options.length) {
-        modelSelect.value = modelSelect.options[0].value;
-        updateGenerationConfig({ model: modelSelect.options[0].value });
-    }
+function populateConfigListSelects(list: GenerationConfigList): void {
+    const modal = document.getElementById(`${MODULE_NAME}_settings_modal`);
+    const container = modal?.querySelector(`.${MODULE_NAME}_gen_config_list[data-list="${list}"]`);
+    if (!container) return;
+
+    getSettings()[list].forEach((config, index) => {
+        const profileSelect = container.querySelector(`.${MODULE_NAME}_gen_config_profile[data-index="${index}"]`) as HTMLSelectElement | null;
+        const sourceSelect = container.querySelector(`.${MODULE_NAME}_gen_config_source[data-index="${index}"]`) as HTMLSelectElement | null;
+        const modelSelect = container.querySelector(`.${MODULE_NAME}_gen_config_model[data-index="${index}"]`) as HTMLSelectElement | null;
+        if (!profileSelect || !sourceSelect || !modelSelect) return;
+
+        fillProfileOptions(profileSelect, config.profileId ?? '', 'No profile');
+        sourceSelect.disabled = !!config.profileId;
+        modelSelect.disabled = !!config.profileId;
+
+        fillSourceOptions(sourceSelect, config.source);
+        const model = fillModelOptions(modelSelect, config.source, config.model);
+        if (model !== config.model) {
+            updateConfigListEntry(list, index, { model });
+        }
+    });
 }
 
 // ============================================================================
@@ -0,0 +1,151 @@
+// src/usage.ts
+//
+// Token usage and cost. Usage is merged per model so totals can be priced
+// with whatever the price table says now, not when the tokens were spent.
+
+import type { TokenUsage, UsageLedger, ModelPrice } from './types';
+
+export interface UsageTotals {
+    promptTokens: number;
+    completionTokens: number;
+    cost: number;            // Priced models only
+    unpricedModels: string[];
+    estimated: boolean;      // Any part counted locally rather than reported by the provider
+}
+
+// ============================================================================
+// COMBINING
+// ============================================================================
+
+/**
+ * Add two usages for the same request chain (a generation and its re-asks).
+ * The model of the later one wins.
+ */
+export function addUsage(a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage | undefined {
+    if (!a) return b;
+    if (!b) return a;
+
+    return {
+        source: b.source,
+        model: b.model,
+        promptTokens: a.promptTokens + b.promptTokens,
+        completionTokens: a.completionTokens + b.completionTokens,
+        estimated: a.estimated || b.estimated,
+    };
+}
+
+/**
+ * Combine usages into one entry per source and model
+ */
+export function mergeUsage(usages: Array<TokenUsage | undefined>): TokenUsage[] {
+    const merged = new Map<string, TokenUsage>();
+
+    for (const usage of usages) {
+        if (!usage) continue;
+
+        const key = `${usage.source}\u0000${usage.model}`;
+        const existing = merged.get(key);
+        merged.set(key, existing
+            ? {
+                ...existing,
+                promptTokens: existing.promptTokens + usage.promptTokens,
+                completionTokens: existing.completionTokens + usage.completionTokens,
+                estimated: existing.estimated || usage.estimated,
+            }
+            : { ...usage });
+    }
+
+    return [...merged.values()];
+}
+
+/**
+ * Add usage to a ledger entry. Returns a new ledger.
+ */
+export function addToLedger(ledger: UsageLedger, bucket: string, usage: TokenUsage): UsageLedger {
+    return {
+        ...ledger,
+        [bucket]: mergeUsage([...(ledger[bucket] ?? []), usage]),
+    };
+}
+
+/**
+ * Every model's usage across the whole ledger
+ */
+export function flattenLedger(ledger: UsageLedger): TokenUsage[] {
+    return mergeUsage(Object.values(ledger).flat());
+}
+
+// ============================================================================
+// PRICING
+// ============================================================================
+
+/**
+ * Price for a model - matched case-insensitively, ignoring any "vendor/" prefix
+ */
+export function findModelPrice(prices: ModelPrice[], model: string): ModelPrice | null {
+    const normalize = (name: string) => name.trim().toLowerCase();
+    const target = normalize(model);
+    if (!target) return null;
+
+    return prices.find(p => normalize(p.model) === target)
+        ?? prices.find(p => normalize(p.model) === target.split('/').pop())
+        ?? null;
+}
+
+/**
+ * Cost of one usage entry, or null if the model has no price
+ */
+export function getUsageCost(usage: TokenUsage, prices: ModelPrice[]): number | null {
+    const price = findModelPrice(prices, usage.model);
+    if (!price) return null;
+
+    return (usage.promptTokens * price.inputPerMillion + usage.completionTokens * price.outputPerMillion) / 1_000_000;
+}
+
+export function summarizeUsage(usages: Array<TokenUsage | undefined>, prices: ModelPrice[]): UsageTotals {
+    const totals: UsageTotals = {
+        promptTokens: 0,
+        completionTokens: 0,
+        cost: 0,
+        unpricedModels: [],
+        estimated: false,
+    };
+
+    for (const usage of mergeUsage(usages)) {
+        totals.promptTokens += usage.promptTokens;
+        totals.completionTokens += usage.completionTokens;
+        totals.estimated ||= usage.estimated;
+
+        const cost = getUsageCost(usage, prices);
+        if (cost === null) {
+            totals.unpricedModels.push(usage.model || usage.source);
+        } else {
+            totals.cost += cost;
+        }
+    }
+
+    return totals;
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+/**
+ * "1,234 in / 567 out · $0.0123", with a ~ on estimated counts
+ */
+export function formatUsageTotals(totals: UsageTotals): string {
+    const approx = totals.estimated ? '~' : '';
+    const tokens = `${approx}${totals.promptTokens.toLocaleString()} in / ${approx}${totals.completionTokens.toLocaleString()} out`;
+
+    if (totals.unpricedModels.length > 0 && totals.cost === 0) {
+        return tokens;
+    }
+
+    const partial = totals.unpricedModels.length > 0 ? '+' : '';
+    return `${tokens} · ${formatCost(totals.cost)}${partial}`;
+}
+
+export function formatCost(cost: number): string {
+    return `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}
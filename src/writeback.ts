@@ -0,0 +1,268 @@
+// src/writeback.ts
+//
+// Write-back - apply an accepted rewrite onto the actual character card.
+
+import { CHARACTER_FIELDS } from './constants';
+import { getValueByPath } from './character';
+import { debugLog, logError } from './debug';
+import { saveCardBackup } from './persistence';
+import type {
+    CardBackup,
+    Character,
+    CharacterField,
+    CharacterBook,
+    DepthPrompt,
+    FieldSelection,
+    RewrittenFields,
+    WriteBackChange,
+    WriteBackResult,
+} from './types';
+
+// ============================================================================
+// PLANNING
+// ============================================================================
+
+/**
+ * Build the list of changes to apply from parsed rewrite fields, limited to
+ * fields in the selection. Fields whose rewritten value matches the card are left out.
+ */
+export function buildWriteBackPlan(
+    char: Character,
+    rewritten: RewrittenFields,
+    selection: FieldSelection,
+): WriteBackChange[] {
+    const changes: WriteBackChange[] = [];
+
+    for (const field of CHARACTER_FIELDS) {
+        const value = rewritten[field.key];
+        const selected = selection[field.key];
+
+        if (value === undefined || !selected) continue;
+        if (Array.isArray(selected) && selected.length === 0) continue;
+
+        const before = getCurrentValue(char, field);
+        const after = buildNewValue(field, before, value, selected);
+
+        if (after === undefined || isSameValue(before, after)) continue;
+
+        changes.push({
+            key: field.key,
+            label: field.label,
+            path: field.path,
+            before,
+            after,
+        });
+    }
+
+    debugLog('info', 'Write-back plan built', {
+        character: char.name,
+        fields: changes.map(c => c.key),
+    });
+
+    return changes;
+}
+
+function getCurrentValue(char: Character, field: CharacterField): unknown {
+    const value = getValueByPath(char, field.path);
+
+    if (field.key === 'creator_notes' && !value && char.creatorcomment) {
+        return char.creatorcomment;
+    }
+
+    return value;
+}
+
+function buildNewValue(
+    field: CharacterField,
+    before: unknown,
+    value: RewrittenFields[string],
+    selected: FieldSelection[string],
+): unknown {
+    switch (field.key) {
+        case 'alternate_greetings': {
+            if (typeof value !== 'object' || !Array.isArray(before)) return undefined;
+            const greetings = [...before] as string[];
+
+            for (const [indexStr, text] of Object.entries(value)) {
+                const index = parseInt(indexStr, 10);
+                const isSelected = Array.isArray(selected) ? selected.includes(index) : true;
+                if (isSelected && index >= 0 && index < greetings.length) {
+                    greetings[index] = text;
+                }
+            }
+
+            return greetings;
+        }
+
+        case 'depth_prompt': {
+            if (typeof value !== 'string') return undefined;
+            const current = (before ?? { depth: 4, role: 'system' }) as DepthPrompt;
+            return { ...current, prompt: value };
+        }
+
+        case 'character_book': {
+            if (typeof value !== 'object' || !before) return undefined;
+            const book = before as CharacterBook;
+            const entries = book.entries.map((entry, i) =>
+                value[i] !== undefined ? { ...entry, content: value[i] } : entry,
+            );
+            return { ...book, entries };
+        }
+
+        default:
+            return typeof value === 'string' ? value : undefined;
+    }
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+    if (typeof a === 'string' && typeof b === 'string') {
+        return a.trim() === b.trim();
+    }
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// ============================================================================
+// SAVE
+// ============================================================================
+
+/**
+ * Save a write-back plan to the character through ST and reload the character list.
+ * The full card is backed up first; the write is aborted if that fails.
+ */
+export async function applyWriteBack(char: Character, changes: WriteBackChange[]): Promise<WriteBackResult> {
+    if (changes.length === 0) {
+        return { success: false, applied: [], error: 'No changes to apply' };
+    }
+
+    const payload: Record<string, unknown> = { avatar: char.avatar };
+
+    for (const change of changes) {
+        setValueByPath(payload, change.path, change.after);
+
+        // V2 cards mirror top-level fields inside data.*
+        if (!change.path.includes('.')) {
+            setValueByPath(payload, `data.${change.path}`, change.after);
+        }
+
+        // Legacy key ST still reads for creator notes
+        if (change.key === 'creator_notes') {
+            payload.creatorcomment = change.after;
+        }
+    }
+
+    debugLog('request', 'Applying rewrite to character', {
+        character: char.name,
+        avatar: char.avatar,
+        fields: changes.map(c => c.key),
+    });
+
+    // Never write without a backup to restore from
+    const backup = await saveCardBackup(char, `Before applying rewrite (${changes.map(c => c.label).join(', ')})`);
+    if (!backup) {
+        return { success: false, applied: [], error: 'Could not back up the card, nothing was changed' };
+    }
+
+    try {
+        await mergeCharacterAttributes(payload);
+
+        const applied = changes.map(c => c.key);
+        debugLog('response', 'Rewrite applied to character', { character: char.name, applied, backupId: backup.id });
+
+        return { success: true, applied };
+    } catch (e) {
+        const error = (e as Error).message;
+        logError('Failed to apply rewrite to character', { character: char.name, error });
+        return { success: false, applied: [], error };
+    }
+}
+
+/**
+ * Restore a card from a backup. The current card is backed up first.
+ * The backup is merged over the card - ST has no endpoint that replaces a card's data
+ * as a whole - so keys added since the backup stay. getKeysKeptByRestore lists them.
+ */
+export async function restoreCardBackup(char: Character, backup: CardBackup): Promise<{ success: boolean; error?: string }> {
+    const current = await saveCardBackup(char, `Before restoring backup from ${new Date(backup.timestamp).toLocaleString()}`);
+    if (!current) {
+        return { success: false, error: 'Could not back up the current card, restore cancelled' };
+    }
+
+    debugLog('request', 'Restoring card backup', {
+        character: char.name,
+        backupId: backup.id,
+        backupTime: new Date(backup.timestamp).toISOString(),
+    });
+
+    try {
+        // Avatar identifies the file - always target the current one
+        await mergeCharacterAttributes({ ...backup.character, avatar: char.avatar });
+        debugLog('response', 'Card backup restored', { character: char.name, backupId: backup.id });
+        return { success: true };
+    } catch (e) {
+        const error = (e as Error).message;
+        logError('Failed to restore card backup', { character: char.name, error });
+        return { success: false, error };
+    }
+}
+
+/**
+ * Paths of keys the card has now that the backup doesn't, which a restore leaves in place.
+ * Arrays are restored whole, so only object keys are compared.
+ */
+export function getKeysKeptByRestore(char: Character, backup: CardBackup): string[] {
+    const kept: string[] = [];
+
+    const compare = (current: unknown, saved: unknown, prefix: string) => {
+        if (!isPlainObject(current) || !isPlainObject(saved)) return;
+
+        for (const key of Object.keys(current)) {
+            const path = prefix ? `${prefix}.${key}` : key;
+            if (!(key in saved)) {
+                kept.push(path);
+            } else {
+                compare(current[key], saved[key], path);
+            }
+        }
+    };
+
+    compare(char, backup.character, '');
+    return kept;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Merge attributes into the card file through ST and reload the character list
+ */
+async function mergeCharacterAttributes(payload: Record<string, unknown>): Promise<void> {
+    const { getRequestHeaders, getCharacters } = SillyTavern.getContext();
+
+    const response = await fetch('/api/characters/merge-attributes', {
+        method: 'POST',
+        headers: getRequestHeaders(),
+        body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+        const text = await response.text().catch(() => '');
+        throw new Error(`Save failed (${response.status}): ${text || response.statusText}`);
+    }
+
+    await getCharacters();
+}
+
+function setValueByPath(obj: Record<string, unknown>, path: string, value: unknown): void {
+    const parts = path.split('.');
+    let current = obj;
+
+    for (const part of parts.slice(0, -1)) {
+        if (!current[part] || typeof current[part] !== 'object') {
+            current[part] = {};
+        }
+        current = current[part] as Record<string, unknown>;
+    }
+
+    current[parts[parts.length - 1]] = value;
+}